@@ -105,22 +105,31 @@ async function main() {
     throw new Error(`RPC chainId(${Number(net.chainId)}) != CHAIN_ID(${CHAIN_ID})`);
   }
 
-  // 1) authorization 준비
-  const authItem = await ensureAuthorization(firstSigner, provider);
+  // 1) authorization 준비 (이미 DELEGATE_ADDRESS로 위임되어 있으면 생략)
+  const { data: delegation } = await axios.get(`${SERVER_URL}/api/delegation/${authority}`);
+  const authItem = delegation.needsAuthorization
+    ? await ensureAuthorization(firstSigner, provider)
+    : undefined;
 
   // 2) nextNonce 읽기: 우선 authorized view → 실패 시 slot0 폴백
   let nextNonce: bigint;
-  try {
-    nextNonce = await readNextNonceViaAuthorizedView(provider, authority, authItem);
-  } catch (e: any) {
-    //console.warn('[warn] authorized nonce() view 실패, slot0 폴백 사용:', e?.shortMessage || e?.message || e);
+  if (!authItem) {
+    // 위임 재사용: 코드가 이미 있으므로 slot0 그대로 사용
     nextNonce = await readNextNonceViaStorage(provider, authority);
+  } else {
+    try {
+      nextNonce = await readNextNonceViaAuthorizedView(provider, authority, authItem);
+    } catch (e: any) {
+      //console.warn('[warn] authorized nonce() view 실패, slot0 폴백 사용:', e?.shortMessage || e?.message || e);
+      nextNonce = await readNextNonceViaStorage(provider, authority);
+    }
   }
 
   // 3) EIP-712 서명
+  // domain name/version은 위임 컨트랙트 버전을 따름
   const domain = {
-    name: 'DelegatedTransfer',
-    version: '1',
+    name: delegation.domain?.name ?? 'DelegatedTransfer',
+    version: delegation.domain?.version ?? '1',
     chainId: CHAIN_ID,
     verifyingContract: authority, // EOA 자체
   } as const;
@@ -161,11 +170,13 @@ async function main() {
     domain,
     types,
     signature712,
-    authorization: authItem, // 재위임 재사용이면 생략 가능
+    ...(authItem ? { authorization: authItem } : {}), // 위임 재사용이면 생략
   };
 
-  const res = await axios.post(`${SERVER_URL}/payment`, body);
-  //console.log('server:', res.data);
+  // 서버(gaslessPayment)가 실행한 경우 티켓으로 같은 원장 기록에 반영
+  const headers = process.env.GASLESS_TICKET ? { 'X-Gasless-Ticket': process.env.GASLESS_TICKET } : {};
+  const res = await axios.post(`${SERVER_URL}/payment`, body, { headers });
+  console.log('server:', JSON.stringify(res.data));
 }
 
 main().catch((e) => { console.error(e); process.exit(1); });
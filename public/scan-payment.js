@@ -632,6 +632,12 @@ class PaymentScanner {
                 return;
             }
             
+            // EIP-681 결제 URI (서버 발급 인보이스 QR) → 서버에서 결제 요청으로 변환
+            if (result.toLowerCase().startsWith('ethereum:')) {
+                this.addDebugLog('EIP-681 결제 URI 감지');
+                result = JSON.stringify(await this.resolvePaymentUri(result));
+            }
+
             // JSON 형태의 QR 코드 파싱 시도
             let qrData;
             try {
@@ -1226,6 +1232,17 @@ class PaymentScanner {
             this.addDebugLog('💳 결제 실행 직전 개인키 복구 성공');
         }
 
+        // EIP-7702 미지원 체인: 토큰 서명 승인(EIP-3009 / permit) 경로
+        if (this.getPaymentRail() === 'fallback') {
+            try {
+                const result = await this.executeFallbackPayment();
+                this.handlePaymentSuccess(result);
+            } catch (error) {
+                this.handlePaymentError(error);
+            }
+            return;
+        }
+
         try {
             // 1. 사용자 측에서 서명 생성
             this.updatePaymentProgress(this.getI18nText('generating_signature'));
@@ -1268,15 +1285,19 @@ class PaymentScanner {
         this.addDebugLog(`Authority EOA: ${authority}`);
         this.addDebugLog(`Delegation target: ${delegateAddress}`);
         
-        // EOA nonce 가져오기 (서버에서 조회)
-        const nonce = await this.getEOANonce(authority);
-        
-        // 1. EIP-7702 Authorization 서명 생성
-        const authSignature = await this.generateEIP7702Authorization(wallet, chainId, delegateAddress, nonce);
-        
-        // 2. EIP-712 Transfer 서명을 위한 데이터 준비
+        // 1. EIP-712 Transfer 서명을 위한 데이터 준비 (이미 같은 위임이면 서버가 contract nonce를 내려줌)
         const transferData = await this.prepareTransferData(authority);
         
+        // 2. EIP-7702 Authorization 서명 생성 (위임 재사용이면 생략)
+        let authSignature;
+        if (transferData.reuseDelegation) {
+            this.addDebugLog('기존 위임 재사용: authorization 생략');
+        } else {
+            // EOA nonce 가져오기 (서버에서 조회)
+            const nonce = await this.getEOANonce(authority);
+            authSignature = await this.generateEIP7702Authorization(wallet, chainId, delegateAddress, nonce);
+        }
+        
         // 3. EIP-712 Transfer 서명 생성  
         const transferSignature = await this.generateEIP712Transfer(wallet, chainId, authority, transferData);
         
@@ -1342,7 +1363,11 @@ class PaymentScanner {
                 authority,
                 token: this.paymentData.token,
                 to: this.paymentData.recipient,
-                amount: this.paymentData.amount
+                amount: this.paymentData.amount,
+                delegateAddress: this.paymentData.delegateAddress,
+                ...(this.paymentData.chainId ? { chainId: this.paymentData.chainId } : {}),
+                ...(this.paymentData.invoiceId ? { invoiceId: this.paymentData.invoiceId } : {}),
+                ...(this.paymentData.merchantSignature ? { merchantSignature: this.paymentData.merchantSignature } : {})
             })
         });
         
@@ -1360,9 +1385,10 @@ class PaymentScanner {
         this.addDebugLog('EIP-712 Transfer 서명 생성 시작');
         
         // EIP-712 도메인
+        // 위임 컨트랙트 버전별 domain (서버가 내려주지 않으면 v1)
         const domain = {
-            name: 'DelegatedTransfer',
-            version: '1',
+            name: transferData.domain?.name || 'DelegatedTransfer',
+            version: transferData.domain?.version || '1',
             chainId: chainId,
             verifyingContract: authority  // EOA 자체
         };
@@ -1380,11 +1406,12 @@ class PaymentScanner {
         };
         
         // Transfer 데이터 (서명용 - BigInt로 변환)
+        // 금액은 서버가 토큰 decimals로 환산한 기본 단위 사용 (QR에는 "1.5" 같은 10진수도 가능)
         const transfer = {
             from: authority,
-            token: this.paymentData.token,
-            to: this.paymentData.recipient,
-            amount: BigInt(this.paymentData.amount),
+            token: transferData.token || this.paymentData.token,
+            to: transferData.to || this.paymentData.recipient,
+            amount: BigInt(transferData.amount ?? this.paymentData.amount),
             nonce: BigInt(transferData.nonce),
             deadline: BigInt(transferData.deadline)
         };
@@ -1409,6 +1436,72 @@ class PaymentScanner {
         };
     }
 
+    // 결제 QR의 chainId에 해당하는 체인 설정 우선, 없으면 기본 체인 설정
+    getPaymentRail() {
+        const chain = (this.serverConfig?.chains || []).find(
+            (c) => String(c.chainId) === String(this.paymentData?.chainId)
+        );
+        return chain?.paymentRail || this.serverConfig?.paymentRail;
+    }
+
+    async executeFallbackPayment() {
+        this.addDebugLog(`fallback 결제 시작 (method=${this.serverConfig?.fallbackMethod})`);
+        const wallet = new window.ethers.Wallet(this.paymentData.privateKey);
+        const serverUrl = this.paymentData.serverUrl;
+        const postJson = async (url, body) => {
+            const response = await fetch(`${serverUrl}${url}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body)
+            });
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({ message: 'Unknown error' }));
+                this.addDebugLog(`서버 에러 응답: ${JSON.stringify(errorData)}`);
+                throw this.createServerError(errorData, response.status);
+            }
+            return { result: await response.json(), httpStatus: response.status };
+        };
+
+        // 1. 서명할 토큰 typed data 준비
+        this.updatePaymentProgress(this.getI18nText('generating_signature'));
+        const { result: prepared } = await postJson('/api/fallback/prepare', {
+            from: wallet.address,
+            token: this.paymentData.token,
+            to: this.paymentData.recipient,
+            amount: this.paymentData.amount,
+            ...(this.paymentData.chainId ? { chainId: this.paymentData.chainId } : {}),
+            ...(this.paymentData.invoiceId ? { invoiceId: this.paymentData.invoiceId } : {}),
+            ...(this.paymentData.merchantSignature ? { merchantSignature: this.paymentData.merchantSignature } : {})
+        });
+
+        // 2. 사용자 측 EIP-712 서명
+        const signature = await wallet.signTypedData(prepared.domain, prepared.types, prepared.message);
+        this.addDebugLog(`fallback 서명 완료: ${signature.substring(0, 20)}...`);
+
+        // 3. 서버 제출
+        this.updatePaymentProgress(this.getI18nText('verifying_signature'));
+        const productName = this.paymentData?.productName || this.paymentData?.product;
+        const { result, httpStatus } = await postJson('/api/fallback/submit', {
+            method: prepared.method,
+            token: prepared.token,
+            to: prepared.to,
+            message: prepared.message,
+            signature,
+            chainId: prepared.chainId,
+            ...(prepared.invoiceId ? { invoiceId: prepared.invoiceId } : {}),
+            ...(this.paymentData.merchantSignature ? { merchantSignature: this.paymentData.merchantSignature } : {}),
+            ...(productName ? { productName } : {})
+        });
+        this.addDebugLog(`서버 성공 응답: ${JSON.stringify(result)}`);
+
+        if (result.status === 'reverted') {
+            const error = this.createServerError(result.error || {}, httpStatus);
+            error.txHash = result.txHash;
+            throw error;
+        }
+        return result;
+    }
+
     async sendSignedPayment(signatures) {
         this.addDebugLog('서명된 결제 데이터 전송 시작');
         this.addDebugLog(`전송할 서명 데이터: ${JSON.stringify({
@@ -1439,6 +1532,16 @@ class PaymentScanner {
             publicKey: signatures.publicKey
         };
         
+        // 법정화폐 인보이스 결제
+        if (this.paymentData.invoiceId) {
+            requestData.invoiceId = this.paymentData.invoiceId;
+        }
+
+        // 가맹점 서명 결제 요청 (서버가 수취인 / 금액 변조 여부 확인)
+        if (this.paymentData.merchantSignature) {
+            requestData.merchantSignature = this.paymentData.merchantSignature;
+        }
+
         // 상품명이 있으면 추가
         if (productName) {
             requestData.productName = productName;
@@ -1462,11 +1565,18 @@ class PaymentScanner {
         if (!response.ok) {
             const errorData = await response.json().catch(() => ({ message: 'Unknown error' }));
             this.addDebugLog(`서버 에러 응답: ${JSON.stringify(errorData)}`);
-            throw new Error(errorData.message || `HTTP ${response.status}`);
+            throw this.createServerError(errorData, response.status);
         }
 
         const result = await response.json();
         this.addDebugLog(`서버 성공 응답: ${JSON.stringify(result)}`);
+
+        // 온체인 리버트는 200으로 오지만 결제 실패로 처리
+        if (result.status === 'reverted') {
+            const error = this.createServerError(result.error || {}, response.status);
+            error.txHash = result.txHash;
+            throw error;
+        }
         return result;
     }
 
@@ -1706,6 +1816,43 @@ class PaymentScanner {
         }
     }
 
+    // EIP-681 URI → payment_request QR 데이터 (인보이스 URI만 지원)
+    async resolvePaymentUri(uri) {
+        const response = await fetch('/api/payment-uri/parse', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ uri })
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            throw this.createServerError(data, response.status);
+        }
+        if (!data.paymentRequest) {
+            const codes = { paid: 'INVOICE_ALREADY_PAID', cancelled: 'INVOICE_CANCELLED', expired: 'INVOICE_EXPIRED' };
+            throw this.createServerError({
+                code: data.invoice ? codes[data.invoice.status] : 'INVOICE_REQUIRED',
+                message: data.invoice ? `invoice ${data.invoice.status}` : 'invoiceId missing'
+            }, 400);
+        }
+        this.addDebugLog(`EIP-681 URI 해석 완료: invoice=${data.paymentRequest.invoiceId}`);
+        return {
+            ...data.paymentRequest,
+            serverUrl: data.paymentRequest.serverUrl || window.location.origin
+        };
+    }
+
+    // 서버 에러 응답 → 에러 코드가 있으면 해당 언어 메시지로 변환
+    createServerError(errorData, httpStatus) {
+        const currentLang = sessionStorage.getItem('preferred_language') || this.currentLang || 'ko';
+        const texts = window.scanPageI18n ? window.scanPageI18n[currentLang] : null;
+        const localized = errorData.code && texts ? texts[`error_${errorData.code}`] : null;
+
+        const error = new Error(localized || errorData.message || `HTTP ${httpStatus}`);
+        error.code = errorData.code;
+        error.httpStatus = httpStatus;
+        return error;
+    }
+
     handlePaymentError(error) {
         // 현재 언어 설정 명시적 업데이트
         this.currentLang = sessionStorage.getItem('preferred_language') || 'ko';
@@ -0,0 +1,275 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  Logger,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminGuard } from './admin.guard';
+import { DelegationService } from './delegation.service';
+import { GasBudgetService } from './gas-budget.service';
+import { MerchantService } from './merchant.service';
+import type { MerchantInput } from './merchant.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { RelayerPoolService } from './relayer-pool.service';
+import { TransferIndexerService } from './transfer-indexer.service';
+
+// 운영자 전용 API (X-Admin-Token 필요)
+@Controller('api/admin')
+@UseGuards(AdminGuard)
+export class AdminController {
+  private readonly logger = new Logger('AdminController');
+
+  constructor(
+    private readonly relayers: RelayerPoolService,
+    private readonly ledger: PaymentLedgerService,
+    private readonly gasBudget: GasBudgetService,
+    private readonly delegation: DelegationService,
+    private readonly merchants: MerchantService,
+    private readonly indexer: TransferIndexerService,
+  ) {}
+
+  // 릴레이어 지갑별 nonce / 미채굴 트랜잭션 조회
+  @Get('relayers')
+  getRelayers() {
+    this.logger.debug('[GET /api/admin/relayers] 릴레이어 상태 조회 요청');
+    return { status: 'success', relayers: this.relayers.describe() };
+  }
+
+  // 특정 릴레이어 nonce 가속 (replace-by-fee)
+  @Post('relayers/:address/nonces/:nonce/speed-up')
+  async speedUp(
+    @Param('address') address: string,
+    @Param('nonce', ParseIntPipe) nonce: number,
+    @Query('chainId') chainIdParam?: string,
+  ) {
+    const chainId = chainIdParam ? Number(chainIdParam) : undefined;
+    this.logger.log(
+      `[POST /api/admin/relayers/:address/nonces/:nonce/speed-up] 가속 요청: ${address} nonce=${nonce}`,
+    );
+    try {
+      const knownHash =
+        this.ledger.findByRelayerNonce(address, nonce, chainId)?.txHash ??
+        undefined;
+      const result = await this.relayers.speedUp(
+        address,
+        nonce,
+        knownHash,
+        chainId,
+      );
+      this.logger.log('[POST .../speed-up] 가속 완료:', JSON.stringify(result));
+      return { status: 'success', replacement: result };
+    } catch (error: any) {
+      this.logger.error('[POST .../speed-up] 가속 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 특정 릴레이어 nonce 취소 (자기 자신에게 0원 전송으로 교체)
+  @Post('relayers/:address/nonces/:nonce/cancel')
+  async cancel(
+    @Param('address') address: string,
+    @Param('nonce', ParseIntPipe) nonce: number,
+    @Query('chainId') chainIdParam?: string,
+  ) {
+    const chainId = chainIdParam ? Number(chainIdParam) : undefined;
+    this.logger.log(
+      `[POST /api/admin/relayers/:address/nonces/:nonce/cancel] 취소 요청: ${address} nonce=${nonce}`,
+    );
+    try {
+      const knownHash =
+        this.ledger.findByRelayerNonce(address, nonce, chainId)?.txHash ??
+        undefined;
+      const result = await this.relayers.cancel(
+        address,
+        nonce,
+        knownHash,
+        chainId,
+      );
+      this.logger.log(
+        '[POST .../cancel] 취소 트랜잭션 전송 완료:',
+        JSON.stringify(result),
+      );
+      return { status: 'success', replacement: result };
+    } catch (error: any) {
+      this.logger.error('[POST .../cancel] 취소 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 가맹점(수취인)별 스폰서 가스비 예산 / 사용량 조회 (chainId 없으면 기본 체인)
+  @Get('gas-budgets/:recipient')
+  getGasBudget(
+    @Param('recipient') recipient: string,
+    @Query('chainId') chainId?: string,
+  ) {
+    this.logger.debug(
+      `[GET /api/admin/gas-budgets/:recipient] 예산 조회 요청: ${recipient} chainId=${chainId ?? '-'}`,
+    );
+    return {
+      status: 'success',
+      budget: this.gasBudget.getUsage(
+        recipient,
+        chainId ? Number(chainId) : undefined,
+      ),
+    };
+  }
+
+  // 가맹점 예산 설정 (체인 네이티브 코인 wei 단위, null이면 해당 기간 무제한)
+  @Put('gas-budgets/:recipient')
+  setGasBudget(
+    @Param('recipient') recipient: string,
+    @Body()
+    body: {
+      chainId?: number | string;
+      dailyLimitWei?: string | null;
+      monthlyLimitWei?: string | null;
+    },
+  ) {
+    this.logger.log(
+      `[PUT /api/admin/gas-budgets/:recipient] 예산 설정 요청: ${recipient}`,
+      JSON.stringify(body),
+    );
+    try {
+      const budget = this.gasBudget.setLimits(
+        recipient,
+        {
+          dailyLimitWei: body?.dailyLimitWei ?? null,
+          monthlyLimitWei: body?.monthlyLimitWei ?? null,
+        },
+        body?.chainId != null ? Number(body.chainId) : undefined,
+      );
+      return { status: 'success', budget };
+    } catch (error: any) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error('[PUT .../gas-budgets] 예산 설정 오류:', error.message);
+      throw new BadRequestException({
+        code: 'INVALID_BUDGET',
+        message: error.message,
+      });
+    }
+  }
+
+  // 위임 컨트랙트 버전별 사용자 수 (refresh=true면 원장 결제자 전원 코드 재조회)
+  @Get('delegate-versions')
+  async getDelegateVersions(@Query('refresh') refresh?: string) {
+    this.logger.debug(
+      `[GET /api/admin/delegate-versions] 버전별 사용자 수 조회 요청 refresh=${refresh}`,
+    );
+    try {
+      const counts = await this.delegation.countByVersion({
+        refresh: refresh === 'true',
+      });
+      return { status: 'success', ...counts };
+    } catch (error: any) {
+      this.logger.error(
+        '[GET .../delegate-versions] 버전별 사용자 수 조회 오류:',
+        error.message,
+      );
+      throw error;
+    }
+  }
+
+  // 지갑 송금 인덱서: 체인별 체크포인트 + 최근 인덱싱한 Transfer 로그
+  @Get('indexer')
+  getIndexer(
+    @Query('chainId') chainId?: string,
+    @Query('recipient') recipient?: string,
+    @Query('limit') limit?: string,
+  ) {
+    this.logger.debug('[GET /api/admin/indexer] 인덱서 상태 조회 요청');
+    return {
+      status: 'success',
+      chains: this.indexer.status(),
+      transfers: this.indexer.listTransfers({
+        chainId: chainId ? Number(chainId) : undefined,
+        recipient,
+        limit: limit ? Number(limit) : undefined,
+      }),
+    };
+  }
+
+  // 가맹점 계정 생성 + 첫 API 키 발급 (키 원문은 이 응답에서만 확인 가능)
+  @Post('merchants')
+  createMerchant(@Body() body: MerchantInput & { apiKeyLabel?: string }) {
+    this.logger.log(
+      '[POST /api/admin/merchants] 가맹점 생성 요청:',
+      JSON.stringify(body),
+    );
+    try {
+      const merchant = this.merchants.create(body);
+      const { apiKey, key } = this.merchants.issueApiKey(
+        merchant.id,
+        body?.apiKeyLabel,
+      );
+      return { status: 'success', merchant, apiKey, key };
+    } catch (error: any) {
+      this.logger.error(
+        '[POST /api/admin/merchants] 가맹점 생성 오류:',
+        error.message,
+      );
+      throw error;
+    }
+  }
+
+  @Get('merchants')
+  listMerchants() {
+    return { status: 'success', merchants: this.merchants.list() };
+  }
+
+  @Get('merchants/:id')
+  getMerchant(@Param('id') id: string) {
+    return {
+      status: 'success',
+      merchant: this.merchants.getById(id),
+      apiKeys: this.merchants.listApiKeys(id),
+    };
+  }
+
+  // 가맹점 정보 수정 (payoutAddresses / signers / stores는 지정하면 통째로 교체)
+  @Put('merchants/:id')
+  updateMerchant(@Param('id') id: string, @Body() body: MerchantInput) {
+    this.logger.log(
+      `[PUT /api/admin/merchants/:id] 가맹점 수정 요청: ${id}`,
+      JSON.stringify(body),
+    );
+    try {
+      return { status: 'success', merchant: this.merchants.update(id, body) };
+    } catch (error: any) {
+      this.logger.error(
+        '[PUT /api/admin/merchants/:id] 가맹점 수정 오류:',
+        error.message,
+      );
+      throw error;
+    }
+  }
+
+  @Post('merchants/:id/api-keys')
+  issueMerchantApiKey(
+    @Param('id') id: string,
+    @Body() body: { label?: string },
+  ) {
+    this.logger.log(
+      `[POST /api/admin/merchants/:id/api-keys] API 키 발급 요청: ${id}`,
+    );
+    return {
+      status: 'success',
+      ...this.merchants.issueApiKey(id, body?.label),
+    };
+  }
+
+  @Post('merchants/:id/api-keys/:keyId/revoke')
+  revokeMerchantApiKey(@Param('id') id: string, @Param('keyId') keyId: string) {
+    this.logger.log(
+      `[POST /api/admin/merchants/:id/api-keys/:keyId/revoke] API 키 폐기 요청: ${id} ${keyId}`,
+    );
+    return { status: 'success', key: this.merchants.revokeApiKey(id, keyId) };
+  }
+}
@@ -0,0 +1,39 @@
+// admin.guard.ts
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+
+// 운영자 전용 엔드포인트: X-Admin-Token 헤더를 ADMIN_API_TOKEN과 비교
+@Injectable()
+export class AdminGuard implements CanActivate {
+  private readonly logger = new Logger('AdminGuard');
+
+  canActivate(context: ExecutionContext): boolean {
+    const expected = process.env.ADMIN_API_TOKEN;
+    if (!expected) {
+      this.logger.warn(
+        '[ADMIN_GUARD] ADMIN_API_TOKEN 미설정 - 관리자 API 비활성화',
+      );
+      throw new ForbiddenException('관리자 API가 비활성화되어 있습니다.');
+    }
+
+    const req = context.switchToHttp().getRequest<{
+      headers: Record<string, string | undefined>;
+      path: string;
+    }>();
+    const given = req.headers['x-admin-token'] ?? '';
+    const a = Buffer.from(given);
+    const b = Buffer.from(expected);
+    if (a.length !== b.length || !timingSafeEqual(a, b)) {
+      this.logger.warn(`[ADMIN_GUARD] 관리자 인증 실패: ${req.path}`);
+      throw new UnauthorizedException('관리자 토큰이 올바르지 않습니다.');
+    }
+    return true;
+  }
+}
@@ -1,6 +1,28 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ethers } from 'ethers';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { DatabaseService } from './database.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { ChainService } from './chain.service';
+import { TxTrackerService } from './tx-tracker.service';
+import { IdempotencyService } from './idempotency.service';
+import { RelayerPoolService } from './relayer-pool.service';
+import { GasBudgetService } from './gas-budget.service';
+import { VelocityService } from './velocity.service';
+import { SponsorshipPolicyService } from './sponsorship-policy.service';
+import { DelegationService } from './delegation.service';
+import { DelegateRegistryService } from './delegate-registry.service';
+import { RedelegationService } from './redelegation.service';
+import { FallbackRailService } from './fallback-rail.service';
+import { TokenRegistryService } from './token-registry.service';
+import { PriceService } from './price.service';
+import { InvoiceService } from './invoice.service';
+import { PaymentQrService } from './payment-qr.service';
+import { MerchantSignatureService } from './merchant-signature.service';
+import { MerchantService } from './merchant.service';
+import { PaymentEventsService } from './payment-events.service';
+import { RefundService } from './refund.service';
 
 describe('AppController', () => {
   let appController: AppController;
@@ -8,7 +30,30 @@ describe('AppController', () => {
   beforeEach(async () => {
     const app: TestingModule = await Test.createTestingModule({
       controllers: [AppController],
-      providers: [AppService],
+      providers: [
+        AppService,
+        DatabaseService,
+        PaymentLedgerService,
+        ChainService,
+        TxTrackerService,
+        IdempotencyService,
+        RelayerPoolService,
+        GasBudgetService,
+        VelocityService,
+        SponsorshipPolicyService,
+        DelegateRegistryService,
+        DelegationService,
+        RedelegationService,
+        FallbackRailService,
+        TokenRegistryService,
+        PriceService,
+        InvoiceService,
+        PaymentQrService,
+        MerchantSignatureService,
+        MerchantService,
+        PaymentEventsService,
+        RefundService,
+      ],
     }).compile();
 
     appController = app.get<AppController>(AppController);
@@ -20,3 +65,109 @@ describe('AppController', () => {
     });
   });
 });
+
+// 서비스는 흉내 내고 라우트의 입력 처리만 확인
+describe('AppController routes', () => {
+  const USDT = ethers.getAddress('0x' + '10'.repeat(20));
+  const USDC = ethers.getAddress('0x' + '20'.repeat(20));
+
+  let module: TestingModule;
+  let controller: AppController;
+  const appService = { preflightPayment: jest.fn() };
+  const sponsorshipPolicy = {
+    evaluate: jest.fn().mockReturnValue({ eligible: true, reasons: [] }),
+  };
+  // 체인마다 decimals가 다른 토큰 (실제 TokenRegistryService로 금액 환산)
+  const chains = [
+    { config: { chainId: 97, tokens: [{ address: USDT, decimals: 18 }] } },
+    { config: { chainId: 80002, tokens: [{ address: USDC, decimals: 6 }] } },
+  ];
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const stubbed = [
+      PaymentLedgerService,
+      TxTrackerService,
+      IdempotencyService,
+      DelegationService,
+      RedelegationService,
+      FallbackRailService,
+      InvoiceService,
+      PaymentQrService,
+      MerchantSignatureService,
+      MerchantService,
+      PaymentEventsService,
+      RefundService,
+    ].map((provide) => ({ provide, useValue: {} }));
+    module = await Test.createTestingModule({
+      controllers: [AppController],
+      providers: [
+        ...stubbed,
+        TokenRegistryService,
+        { provide: AppService, useValue: appService },
+        { provide: SponsorshipPolicyService, useValue: sponsorshipPolicy },
+        {
+          provide: ChainService,
+          useValue: {
+            chainId: 97,
+            list: () => chains,
+            has: (id: number) => chains.some((c) => c.config.chainId === id),
+          },
+        },
+      ],
+    }).compile();
+
+    controller = module.get(AppController);
+  });
+
+  afterEach(() => module.close());
+
+  it('runs the preflight for the client IP and wraps the result', async () => {
+    appService.preflightPayment.mockResolvedValue({
+      willSucceed: false,
+      error: { code: 'VELOCITY_EXCEEDED' },
+    });
+    const body = { authority: USDT };
+
+    await expect(
+      controller.preflightPayment(body, '10.0.0.1'),
+    ).resolves.toEqual({
+      status: 'success',
+      willSucceed: false,
+      error: { code: 'VELOCITY_EXCEEDED' },
+    });
+    expect(appService.preflightPayment).toHaveBeenCalledWith(body, '10.0.0.1');
+  });
+
+  it('normalizes dry-run amounts with the token of the given chain', () => {
+    controller.sponsorshipDryRun({
+      transfer: { token: USDC, to: USDT, amount: '1.5', chainId: '80002' },
+    });
+    controller.sponsorshipDryRun({ token: USDT, amount: '2.0' });
+    controller.sponsorshipDryRun({ token: USDT, amount: '2500' });
+
+    const amounts = sponsorshipPolicy.evaluate.mock.calls.map(
+      ([transfer]) => (transfer as { amount: string }).amount,
+    );
+    expect(amounts).toEqual(['1500000', '2000000000000000000', '2500']);
+  });
+
+  it('rejects malformed dry-run amounts and unknown tokens', () => {
+    expect(() =>
+      controller.sponsorshipDryRun({ token: USDT, amount: '1.5x' }),
+    ).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({ code: 'INVALID_AMOUNT' }),
+      }),
+    );
+    // USDC는 80002에만 등록되어 있음
+    expect(() =>
+      controller.sponsorshipDryRun({ token: USDC, amount: '1.0' }),
+    ).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({ code: 'UNSUPPORTED_TOKEN' }),
+      }),
+    );
+    expect(sponsorshipPolicy.evaluate).not.toHaveBeenCalled();
+  });
+});
@@ -1,14 +1,76 @@
-import { Body, Controller, Get, Post, Res, Logger } from '@nestjs/common';
+import { BadRequestException, Body, Controller, Get, Headers, Ip, MessageEvent, NotFoundException, Param, Post, Query, Res, Logger, Sse, UnauthorizedException, UseGuards } from '@nestjs/common';
 import { AppService } from './app.service';
+import { PaymentLedgerService, merchantAddressOf } from './payment-ledger.service';
+import type { PaymentQuery } from './payment-ledger.service';
+import { TxTrackerService } from './tx-tracker.service';
+import { IdempotencyService } from './idempotency.service';
+import { SponsorshipPolicyService } from './sponsorship-policy.service';
+import { DelegationService } from './delegation.service';
+import { RedelegationService } from './redelegation.service';
+import { FallbackRailService } from './fallback-rail.service';
+import { ChainService } from './chain.service';
+import { TokenRegistryService } from './token-registry.service';
+import { InvoiceService } from './invoice.service';
+import type { CreateInvoiceInput, InvoiceQuery } from './invoice.service';
+import { PaymentQrService } from './payment-qr.service';
+import { MerchantSignatureService } from './merchant-signature.service';
+import type { SignedPaymentTerms } from './merchant-signature.service';
+import { CurrentMerchant, MerchantGuard } from './merchant.guard';
+import { MerchantService } from './merchant.service';
+import type { Merchant } from './merchant.service';
+import { PaymentEventsService } from './payment-events.service';
+import type { StreamTarget } from './payment-events.service';
+import { RefundService } from './refund.service';
+import type { RefundInput } from './refund.service';
+import type { FallbackPrepareInput, FallbackSignedInput } from './fallback-rail.service';
 
+import { ethers } from 'ethers';
 import type { Response } from 'express';
 import * as path from 'path';
+import { Observable, concat, interval, map, merge, of } from 'rxjs';
 
 @Controller()
 export class AppController {
   private readonly logger = new Logger('AppController');
   
-  constructor(private readonly appService: AppService) {}
+  constructor(
+    private readonly appService: AppService,
+    private readonly ledger: PaymentLedgerService,
+    private readonly txTracker: TxTrackerService,
+    private readonly idempotency: IdempotencyService,
+    private readonly sponsorshipPolicy: SponsorshipPolicyService,
+    private readonly delegation: DelegationService,
+    private readonly redelegation: RedelegationService,
+    private readonly fallbackRail: FallbackRailService,
+    private readonly chain: ChainService,
+    private readonly tokens: TokenRegistryService,
+    private readonly invoices: InvoiceService,
+    private readonly paymentQr: PaymentQrService,
+    private readonly merchantSignatures: MerchantSignatureService,
+    private readonly merchants: MerchantService,
+    private readonly paymentEvents: PaymentEventsService,
+    private readonly refunds: RefundService,
+  ) {}
+
+  // Idempotency-Key 헤더 우선, 없으면 EIP-712 digest로 키 생성 (둘 다 없으면 그대로 실행)
+  private withIdempotency<T>(
+    route: string,
+    headerKey: string | undefined,
+    body: any,
+    typed: { domain?: any; types?: any; message?: any } | null,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    if (headerKey) {
+      return this.idempotency.execute(`${route}:${headerKey}`, this.idempotency.hashBody(body), fn);
+    }
+    const derived = typed
+      ? this.idempotency.deriveKeyFromTypedData(typed.domain, typed.types, typed.message)
+      : null;
+    if (derived) {
+      return this.idempotency.execute(derived, derived, fn);
+    }
+    return fn();
+  }
 
   // 메인 페이지
   @Get()
@@ -40,11 +102,17 @@ export class AppController {
 
   // 유저 결제 요청
   @Post('payment')
-  async payment(@Body() body: any) {
+  async payment(@Body() body: any, @Ip() clientIp: string, @Headers('idempotency-key') idempotencyKey?: string, @Headers('x-gasless-ticket') gaslessTicket?: string) {
     this.logger.log('[POST /payment] 유저 결제 요청 시작');
     this.logger.debug('[POST /payment] 요청 body:', JSON.stringify(body, null, 2));
     try {
-      const result = await this.appService.payment(body);
+      const result = await this.withIdempotency(
+        'payment',
+        idempotencyKey,
+        body,
+        { domain: body?.domain, types: body?.types, message: body?.transfer },
+        () => this.appService.payment(body, { clientIp, gaslessTicket }),
+      );
       this.logger.log('[POST /payment] 유저 결제 완료:', JSON.stringify(result));
       return result;
     } catch (error: any) {
@@ -53,13 +121,49 @@ export class AppController {
     }
   }
 
+  // 결제 사전 점검 (전송하지 않고 성공 여부 / 스폰서 예상 비용 확인)
+  @Post('api/payment/preflight')
+  async preflightPayment(@Body() body: any, @Ip() clientIp: string) {
+    this.logger.log('[POST /api/payment/preflight] 결제 사전 점검 요청');
+    this.logger.debug('[POST /api/payment/preflight] 요청 body:', JSON.stringify(body, null, 2));
+    try {
+      const result = await this.appService.preflightPayment(body, clientIp);
+      this.logger.log('[POST /api/payment/preflight] 결제 사전 점검 완료:', JSON.stringify(result));
+      return { status: 'success', ...result };
+    } catch (error: any) {
+      this.logger.error('[POST /api/payment/preflight] 결제 사전 점검 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 릴레이 트랜잭션 확정 상태 조회
+  @Get('payment/:txHash/status')
+  async getPaymentStatus(@Param('txHash') txHash: string) {
+    this.logger.debug('[GET /payment/:txHash/status] 트랜잭션 상태 조회 요청:', txHash);
+    try {
+      const result = await this.txTracker.getStatus(txHash);
+      this.logger.debug('[GET /payment/:txHash/status] 트랜잭션 상태 조회 완료:', JSON.stringify(result));
+      return result;
+    } catch (error: any) {
+      this.logger.error('[GET /payment/:txHash/status] 트랜잭션 상태 조회 오류:', error.message);
+      throw error;
+    }
+  }
+
   // 가스리스 결제 요청 (서버에서 client.ts 실행)
   @Post('gasless-payment')
-  async gaslessPayment(@Body() body: any) {
+  async gaslessPayment(@Body() body: any, @Ip() clientIp: string, @Headers('idempotency-key') idempotencyKey?: string) {
     this.logger.log('[POST /gasless-payment] 결제 요청 시작');
     this.logger.debug('[POST /gasless-payment] 요청 body:', JSON.stringify(body, null, 2));
     try {
-      const result = await this.appService.gaslessPayment(body);
+      // QR은 재사용 가능하므로 본문 기반 키는 만들지 않음 (헤더가 있을 때만 적용)
+      const result = await this.withIdempotency(
+        'gasless-payment',
+        idempotencyKey,
+        body,
+        null,
+        () => this.appService.gaslessPayment(body, clientIp),
+      );
       this.logger.log('[POST /gasless-payment] 결제 완료:', JSON.stringify(result));
       return result;
     } catch (error: any) {
@@ -103,10 +207,19 @@ export class AppController {
 
   // 영수증 인쇄 요청
   @Post('receipt/print')
-  async printReceipt(@Body() body: any) {
+  @UseGuards(MerchantGuard)
+  async printReceipt(@Body() body: any, @CurrentMerchant() merchant: Merchant) {
     this.logger.log('[POST /receipt/print] 영수증 인쇄 요청 시작');
     this.logger.debug('[POST /receipt/print] 요청 body:', JSON.stringify(body, null, 2));
     try {
+      // 자기 정산 주소로 받은 결제의 영수증만 인쇄 가능
+      if (!this.merchants.ownsAddress(merchant, body?.to)) {
+        throw new BadRequestException({
+          code: 'RECIPIENT_NOT_OWNED',
+          message: '가맹점에 등록된 정산 주소가 아닙니다.',
+          recipient: body?.to ?? null,
+        });
+      }
       const result = await this.appService.printReceipt(body);
       this.logger.log('[POST /receipt/print] 영수증 인쇄 요청 완료:', JSON.stringify(result));
       return result;
@@ -118,9 +231,10 @@ export class AppController {
 
   // 인쇄 대기열 조회 (Android APP 폴링용)
   @Get('api/receipt/queue')
-  async getPrintQueue() {
+  @UseGuards(MerchantGuard)
+  async getPrintQueue(@CurrentMerchant() merchant: Merchant) {
     try {
-      const result = await this.appService.getPrintQueue();
+      const result = await this.appService.getPrintQueue(merchant.id);
       return result;
     } catch (error: any) {
       throw error;
@@ -129,11 +243,15 @@ export class AppController {
 
   // 인쇄 상태 업데이트 (Android APP에서 인쇄 완료/실패 알림)
   @Post('api/receipt/status')
-  async updatePrintStatus(@Body() body: { printId: string; status: string; errorMessage?: string }) {
+  @UseGuards(MerchantGuard)
+  async updatePrintStatus(
+    @Body() body: { printId: string; status: string; errorMessage?: string },
+    @CurrentMerchant() merchant: Merchant,
+  ) {
     this.logger.log('[POST /api/receipt/status] 인쇄 상태 업데이트 요청 시작');
     this.logger.debug('[POST /api/receipt/status] 요청 body:', JSON.stringify(body, null, 2));
     try {
-      const result = await this.appService.updatePrintStatus(body.printId, body.status as any, body.errorMessage);
+      const result = await this.appService.updatePrintStatus(body.printId, body.status as any, body.errorMessage, merchant.id);
       this.logger.log('[POST /api/receipt/status] 인쇄 상태 업데이트 완료:', JSON.stringify(result));
       return result;
     } catch (error: any) {
@@ -144,10 +262,11 @@ export class AppController {
 
   // 인쇄 대기열 통계
   @Get('api/receipt/stats')
-  async getPrintQueueStats() {
+  @UseGuards(MerchantGuard)
+  async getPrintQueueStats(@CurrentMerchant() merchant: Merchant) {
     this.logger.debug('[GET /api/receipt/stats] 인쇄 대기열 통계 요청');
     try {
-      const result = await this.appService.getPrintQueueStats();
+      const result = await this.appService.getPrintQueueStats(merchant.id);
       this.logger.debug('[GET /api/receipt/stats] 인쇄 대기열 통계 완료');
       return result;
     } catch (error: any) {
@@ -175,14 +294,22 @@ export class AppController {
 
   // 클라이언트용 환경변수 제공
   @Get('api/config')
-  getClientConfig() {
+  async getClientConfig() {
     this.logger.debug('[GET /api/config] 클라이언트 설정 요청');
     try {
+      const defaultToken = process.env.TOKEN ?? this.tokens.defaultToken()?.address;
       const config = {
         serverUrl: process.env.SERVER_URL,
-        chainId: process.env.CHAIN_ID,
-        token: process.env.TOKEN,
-        rpcUrl: process.env.RPC_URL
+        // 기본 체인 (기존 클라이언트 호환)
+        chainId: process.env.CHAIN_ID ?? String(this.chain.chainId),
+        token: defaultToken,
+        rpcUrl: process.env.RPC_URL ?? this.chain.get().rpcUrl,
+        // 결제 경로 (eip7702 / fallback) 및 fallback 서명 방식 (eip3009 / permit)
+        ...(await this.fallbackRail.describeRail(defaultToken)),
+        // 활성화된 전체 체인 (체인별 RPC / 위임 컨트랙트 / 토큰 / 익스플로러 / 결제 경로)
+        chains: this.chain.describe(),
+        // 결제 가능한 토큰 (decimals: 10진수 금액 표시 / 입력용)
+        tokens: this.tokens.describe(),
       };
       this.logger.debug('[GET /api/config] 클라이언트 설정 응답:', JSON.stringify(config));
       return config;
@@ -192,6 +319,103 @@ export class AppController {
     }
   }
 
+  // EIP-7702 위임 상태 조회 (새 authorization 서명이 필요한지)
+  @Get('api/delegation/:address')
+  async getDelegation(@Param('address') address: string, @Query('chainId') chainId?: string) {
+    this.logger.debug('[GET /api/delegation/:address] 위임 상태 조회 요청:', address);
+    try {
+      if (!ethers.isAddress(address)) {
+        throw new BadRequestException({ code: 'INVALID_ADDRESS', message: 'address invalid' });
+      }
+      const delegation = await this.delegation.getDelegation(address, chainId ? Number(chainId) : undefined);
+      this.logger.debug('[GET /api/delegation/:address] 위임 상태 조회 완료:', JSON.stringify(delegation));
+      return { status: 'success', ...delegation };
+    } catch (error: any) {
+      this.logger.error('[GET /api/delegation/:address] 위임 상태 조회 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 위임 해제 준비: 서명할 authorization(대상 = 0 주소) 필드 반환
+  @Post('api/delegation/revoke/prepare')
+  async prepareRevoke(@Body() body: { address: string; chainId?: number | string }) {
+    this.logger.log('[POST /api/delegation/revoke/prepare] 위임 해제 준비 요청:', body?.address);
+    try {
+      const result = await this.redelegation.prepareRevoke(body?.address, body?.chainId);
+      return { status: 'success', ...result };
+    } catch (error: any) {
+      this.logger.error('[POST /api/delegation/revoke/prepare] 위임 해제 준비 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 위임 해제 제출 (서명된 authorization을 스폰서 트랜잭션으로 릴레이)
+  @Post('api/delegation/revoke')
+  async revokeDelegation(@Body() body: any, @Ip() clientIp: string) {
+    this.logger.log('[POST /api/delegation/revoke] 위임 해제 요청:', body?.authority);
+    try {
+      const result = await this.redelegation.revoke(body?.authority, body?.authorization, clientIp);
+      this.logger.log('[POST /api/delegation/revoke] 위임 해제 트랜잭션 제출:', JSON.stringify(result));
+      return { status: 'success', revoke: result };
+    } catch (error: any) {
+      this.logger.error('[POST /api/delegation/revoke] 위임 해제 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 위임 해제 상태 / 계정 코드 삭제 확인
+  @Get('api/delegation/revoke/:id')
+  async getRevokeStatus(@Param('id') id: string) {
+    this.logger.debug('[GET /api/delegation/revoke/:id] 위임 해제 상태 조회 요청:', id);
+    try {
+      const result = await this.redelegation.getRevokeStatus(id);
+      return { status: 'success', revoke: result };
+    } catch (error: any) {
+      this.logger.error('[GET /api/delegation/revoke/:id] 위임 해제 상태 조회 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 위임 버전 이전 준비: 서명할 authorization(대상 = 현재 버전 위임 컨트랙트) 필드 반환
+  @Post('api/delegation/migrate/prepare')
+  async prepareMigration(@Body() body: { address: string; chainId?: number | string }) {
+    this.logger.log('[POST /api/delegation/migrate/prepare] 위임 버전 이전 준비 요청:', body?.address);
+    try {
+      const result = await this.redelegation.prepareMigration(body?.address, body?.chainId);
+      return { status: 'success', ...result };
+    } catch (error: any) {
+      this.logger.error('[POST /api/delegation/migrate/prepare] 위임 버전 이전 준비 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 위임 버전 이전 제출
+  @Post('api/delegation/migrate')
+  async migrateDelegation(@Body() body: any, @Ip() clientIp: string) {
+    this.logger.log('[POST /api/delegation/migrate] 위임 버전 이전 요청:', body?.authority);
+    try {
+      const result = await this.redelegation.migrate(body?.authority, body?.authorization, clientIp);
+      this.logger.log('[POST /api/delegation/migrate] 위임 버전 이전 트랜잭션 제출:', JSON.stringify(result));
+      return { status: 'success', migration: result };
+    } catch (error: any) {
+      this.logger.error('[POST /api/delegation/migrate] 위임 버전 이전 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 위임 버전 이전 상태 / 계정 코드 확인
+  @Get('api/delegation/migrate/:id')
+  async getMigrationStatus(@Param('id') id: string) {
+    this.logger.debug('[GET /api/delegation/migrate/:id] 위임 버전 이전 상태 조회 요청:', id);
+    try {
+      const result = await this.redelegation.getMigrationStatus(id);
+      return { status: 'success', migration: result };
+    } catch (error: any) {
+      this.logger.error('[GET /api/delegation/migrate/:id] 위임 버전 이전 상태 조회 오류:', error.message);
+      throw error;
+    }
+  }
+
   // EOA nonce 조회
   @Post('api/eoa-nonce')
   async getEOANonce(@Body() body: any) {
@@ -223,12 +447,19 @@ export class AppController {
 
   // 서명된 결제 처리
   @Post('payment-signed')
-  async paymentSigned(@Body() body: any) {
+  async paymentSigned(@Body() body: any, @Ip() clientIp: string, @Headers('idempotency-key') idempotencyKey?: string) {
     this.logger.log('[POST /payment-signed] 서명된 결제 요청 시작');
     this.logger.debug('[POST /payment-signed] 요청 body:', body);
     
     try {
-      const result = await this.appService.processSignedPayment(body);
+      const signed = body?.transfer;
+      const result = await this.withIdempotency(
+        'payment-signed',
+        idempotencyKey,
+        body,
+        { domain: signed?.domain, types: signed?.types, message: signed?.transfer },
+        () => this.appService.processSignedPayment(body, clientIp),
+      );
       this.logger.log('[POST /payment-signed] 서명된 결제 성공:', result);
       return result;
     } catch (error: any) {
@@ -236,4 +467,368 @@ export class AppController {
       throw error;
     }
   }
+
+  // 인보이스 생성 (토큰 금액 또는 법정화폐 금액, 법정화폐면 현재 환율로 토큰 금액 고정)
+  @Post('api/invoices')
+  @UseGuards(MerchantGuard)
+  async createInvoice(@Body() body: CreateInvoiceInput, @CurrentMerchant() merchant: Merchant) {
+    this.logger.log('[POST /api/invoices] 인보이스 생성 요청:', JSON.stringify(body));
+    try {
+      const invoice = await this.invoices.create(body, merchant);
+      return {
+        status: 'success',
+        invoice,
+        paymentRequest: this.invoices.paymentRequest(invoice),
+        paymentUri: this.paymentQr.uriFor(invoice),
+        // POS 화면이 EventSource로 결제 진행 상태를 구독할 토큰
+        stream: this.paymentEvents.issueStreamToken(merchant.id, { invoiceId: invoice.id }),
+      };
+    } catch (error: any) {
+      this.logger.error('[POST /api/invoices] 인보이스 생성 오류:', error.message);
+      throw error;
+    }
+  }
+
+  @Get('api/invoices')
+  @UseGuards(MerchantGuard)
+  listInvoices(@Query() query: InvoiceQuery, @CurrentMerchant() merchant: Merchant) {
+    try {
+      return { status: 'success', invoices: this.invoices.list({ ...query, merchantId: merchant.id }) };
+    } catch (error: any) {
+      this.logger.error('[GET /api/invoices] 인보이스 목록 조회 오류:', error.message);
+      throw error;
+    }
+  }
+
+  @Get('api/invoices/:id')
+  @UseGuards(MerchantGuard)
+  getInvoice(@Param('id') id: string, @CurrentMerchant() merchant: Merchant) {
+    try {
+      const invoice = this.invoices.getOwned(id, merchant.id);
+      const open = invoice.status === 'open';
+      return {
+        status: 'success',
+        invoice,
+        paymentRequest: open ? this.invoices.paymentRequest(invoice) : null,
+        paymentUri: open ? this.paymentQr.uriFor(invoice) : null,
+      };
+    } catch (error: any) {
+      this.logger.error('[GET /api/invoices/:id] 인보이스 조회 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 인보이스 결제 QR 이미지 (EIP-681 URI, format=png|svg, size=픽셀)
+  @Get('api/invoices/:id/qr')
+  @UseGuards(MerchantGuard)
+  async getInvoiceQr(
+    @Param('id') id: string,
+    @Query('format') format: string | undefined,
+    @Query('size') size: string | undefined,
+    @CurrentMerchant() merchant: Merchant,
+    @Res() res: Response,
+  ) {
+    try {
+      this.invoices.getOwned(id, merchant.id);
+      const image = await this.paymentQr.render(id, format, size);
+      res.set({
+        'Content-Type': image.contentType,
+        'Cache-Control': 'no-store',
+        'X-Payment-Uri': image.uri,
+      });
+      res.send(image.body);
+    } catch (error: any) {
+      this.logger.error('[GET /api/invoices/:id/qr] QR 생성 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 인보이스 취소 (open이고 진행 중인 결제가 없을 때만)
+  @Post('api/invoices/:id/cancel')
+  @UseGuards(MerchantGuard)
+  cancelInvoice(@Param('id') id: string, @CurrentMerchant() merchant: Merchant) {
+    this.logger.log(`[POST /api/invoices/:id/cancel] 인보이스 취소 요청: ${id}`);
+    try {
+      return { status: 'success', invoice: this.invoices.cancel(id, merchant.id) };
+    } catch (error: any) {
+      this.logger.error('[POST /api/invoices/:id/cancel] 인보이스 취소 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // EIP-681 결제 URI 해석 (외부 지갑 / 스캔 페이지에서 우리 인보이스 QR 결제용)
+  @Post('api/payment-uri/parse')
+  parsePaymentUri(@Body() body: { uri: string }) {
+    try {
+      return { status: 'success', ...this.paymentQr.parse(body?.uri) };
+    } catch (error: any) {
+      this.logger.error('[POST /api/payment-uri/parse] 결제 URI 해석 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 가맹점 결제 요청 QR 서명용 데이터 (가맹점 키로 서명 후 QR의 merchantSignature에 넣음)
+  @Post('api/payment-requests/signing-payload')
+  @UseGuards(MerchantGuard)
+  getPaymentRequestSigningPayload(@Body() body: SignedPaymentTerms, @CurrentMerchant() merchant: Merchant) {
+    try {
+      const chainId = Number(body?.chainId) || this.chain.chainId;
+      const { token, amount } = this.tokens.normalize(body?.token, body?.amount, chainId);
+      return {
+        status: 'success',
+        ...this.merchantSignatures.signingPayload({
+          ...body,
+          merchantId: merchant.id,
+          chainId,
+          token: token.address,
+          amount,
+        }),
+      };
+    } catch (error: any) {
+      this.logger.error('[POST /api/payment-requests/signing-payload] 서명 데이터 생성 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // fallback 결제 준비: 토큰 EIP-712 서명 데이터 (EIP-3009 / EIP-2612)
+  @Post('api/fallback/prepare')
+  async prepareFallback(@Body() body: FallbackPrepareInput) {
+    this.logger.log('[POST /api/fallback/prepare] fallback 결제 준비 요청:', JSON.stringify(body));
+    try {
+      const result = await this.fallbackRail.prepare(body);
+      return { status: 'success', ...result };
+    } catch (error: any) {
+      this.logger.error('[POST /api/fallback/prepare] fallback 결제 준비 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // fallback 서명 확인 (검증 + 시뮬레이션, 제출하지 않음)
+  @Post('api/fallback/sign')
+  async signFallback(@Body() body: FallbackSignedInput) {
+    this.logger.log('[POST /api/fallback/sign] fallback 서명 확인 요청:', body?.method);
+    try {
+      const result = await this.fallbackRail.sign(body);
+      return { status: 'success', ...result };
+    } catch (error: any) {
+      this.logger.error('[POST /api/fallback/sign] fallback 서명 확인 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // fallback 결제 제출 (릴레이어가 토큰 컨트랙트 호출)
+  @Post('api/fallback/submit')
+  async submitFallback(@Body() body: FallbackSignedInput, @Ip() clientIp: string, @Headers('idempotency-key') idempotencyKey?: string) {
+    this.logger.log('[POST /api/fallback/submit] fallback 결제 제출 요청:', body?.method);
+    try {
+      // 헤더가 없어도 같은 EIP-3009 / EIP-2612 서명의 재시도는 한 번만 제출
+      const typed = idempotencyKey ? null : await this.fallbackRail.typedDataOf(body);
+      const result = await this.withIdempotency(
+        'fallback-submit',
+        idempotencyKey,
+        body,
+        typed,
+        () => this.fallbackRail.submit(body, clientIp),
+      );
+      this.logger.log('[POST /api/fallback/submit] fallback 결제 결과:', JSON.stringify(result));
+      return result;
+    } catch (error: any) {
+      this.logger.error('[POST /api/fallback/submit] fallback 결제 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 결제 원장 목록 조회 (txHash / payer / recipient / status 필터, 가맹점 정산 주소로 받은 결제만)
+  @Get('api/payments')
+  @UseGuards(MerchantGuard)
+  listPayments(@Query() query: PaymentQuery, @CurrentMerchant() merchant: Merchant) {
+    this.logger.debug('[GET /api/payments] 결제 원장 조회 요청:', JSON.stringify(query));
+    try {
+      const items = this.ledger.list({ ...query, recipients: merchant.payoutAddresses });
+      return { status: 'success', count: items.length, items };
+    } catch (error: any) {
+      this.logger.error('[GET /api/payments] 결제 원장 조회 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 구독 대상의 현재 상태 (가맹점 소유가 아니면 404)
+  private streamSnapshot(merchant: Merchant, { invoiceId, txHash }: StreamTarget): Record<string, unknown> {
+    if (invoiceId) {
+      const invoice = this.invoices.getOwned(invoiceId, merchant.id);
+      return { invoice, payments: this.ledger.list({ invoiceId, recipients: merchant.payoutAddresses }) };
+    }
+    if (txHash && /^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+      const payments = this.ledger.findByTxHash(txHash).filter((p) => this.merchants.ownsAddress(merchant, merchantAddressOf(p)));
+      if (payments.length === 0) {
+        throw new NotFoundException({ code: 'PAYMENT_NOT_FOUND', message: `결제 기록을 찾을 수 없습니다: ${txHash}` });
+      }
+      return { payments };
+    }
+    throw new BadRequestException({ code: 'INVALID_STREAM_TARGET', message: 'invoiceId 또는 txHash(0x + 64 hex)가 필요합니다.' });
+  }
+
+  // POS 화면(EventSource)용 구독 토큰 발급: 헤더 없이 /api/payments/stream?token= 으로 한 대상만 구독
+  @Post('api/payments/stream-token')
+  @UseGuards(MerchantGuard)
+  issueStreamToken(@Body() body: StreamTarget, @CurrentMerchant() merchant: Merchant) {
+    this.logger.log(`[POST /api/payments/stream-token] 구독 토큰 발급 요청: merchant=${merchant.id}`);
+    try {
+      const target = { invoiceId: body?.invoiceId, txHash: body?.txHash };
+      this.streamSnapshot(merchant, target);
+      const grant = this.paymentEvents.issueStreamToken(merchant.id, target);
+      return { status: 'success', ...grant, url: `/api/payments/stream?token=${grant.token}` };
+    } catch (error: any) {
+      this.logger.error('[POST /api/payments/stream-token] 구독 토큰 발급 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // POS 화면용 결제 진행 상태 SSE (?token= 구독 토큰, 또는 API 키 헤더 + ?invoiceId= / ?txHash=)
+  // 연결 직후 현재 상태(snapshot)를 보내고, 이후 submitted / mined / reverted / failed / receipt_queued / receipt_printed 전달
+  @Sse('api/payments/stream')
+  streamPayment(
+    @Query('invoiceId') invoiceId: string | undefined,
+    @Query('txHash') txHash: string | undefined,
+    @Query('token') token: string | undefined,
+    @Headers('x-api-key') apiKey: string | undefined,
+    @Headers('authorization') authorization: string | undefined,
+  ): Observable<MessageEvent> {
+    try {
+      // 구독 토큰이면 토큰에 묶인 대상만, 아니면 MerchantGuard와 같은 API 키 인증
+      const grant = this.paymentEvents.resolveStreamToken(token);
+      const bearer = /^Bearer\s+(.+)$/i.exec(authorization ?? '')?.[1];
+      const merchant = grant ? this.merchants.find(grant.merchantId) : token ? null : this.merchants.authenticate(apiKey ?? bearer);
+      if (!merchant) {
+        throw new UnauthorizedException(
+          token
+            ? { code: 'STREAM_TOKEN_INVALID', message: '구독 토큰이 없거나 만료되었습니다.' }
+            : { code: 'MERCHANT_UNAUTHORIZED', message: '가맹점 API 키가 없거나 올바르지 않습니다.' },
+        );
+      }
+      const target = grant ? grant.target : { invoiceId, txHash };
+      this.logger.log(`[SSE /api/payments/stream] 진행 상태 구독: merchant=${merchant.id} invoiceId=${target.invoiceId ?? '-'} txHash=${target.txHash ?? '-'}`);
+      const snapshot = this.streamSnapshot(merchant, target);
+
+      const updates = this.paymentEvents
+        .watch(target.invoiceId ? { invoiceId: target.invoiceId } : { txHash: target.txHash })
+        .pipe(map((event): MessageEvent => ({ type: event.type, data: event })));
+      // 프록시가 유휴 연결을 끊지 않도록 주기적으로 heartbeat
+      const heartbeat = interval(15_000).pipe(map((): MessageEvent => ({ type: 'heartbeat', data: { at: new Date().toISOString() } })));
+      return concat(of<MessageEvent>({ type: 'snapshot', data: snapshot }), merge(updates, heartbeat));
+    } catch (error: any) {
+      this.logger.error('[SSE /api/payments/stream] 진행 상태 구독 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // txHash로 결제 원장 조회
+  @Get('api/payments/tx/:txHash')
+  @UseGuards(MerchantGuard)
+  getPaymentsByTxHash(@Param('txHash') txHash: string, @CurrentMerchant() merchant: Merchant) {
+    this.logger.debug('[GET /api/payments/tx/:txHash] 결제 원장 조회 요청:', txHash);
+    try {
+      const items = this.ledger
+        .findByTxHash(txHash)
+        .filter((p) => this.merchants.ownsAddress(merchant, merchantAddressOf(p)));
+      return { status: 'success', count: items.length, items };
+    } catch (error: any) {
+      this.logger.error('[GET /api/payments/tx/:txHash] 결제 원장 조회 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 결제 원장 단건 조회 (상태 전이 이력 포함)
+  @Get('api/payments/:id')
+  @UseGuards(MerchantGuard)
+  getPayment(@Param('id') id: string, @CurrentMerchant() merchant: Merchant) {
+    this.logger.debug('[GET /api/payments/:id] 결제 원장 단건 조회 요청:', id);
+    try {
+      const payment = this.ledger.getById(id);
+      if (!this.merchants.ownsAddress(merchant, merchantAddressOf(payment))) {
+        throw new NotFoundException(`결제 기록을 찾을 수 없습니다: ${id}`);
+      }
+      return { status: 'success', payment, events: this.ledger.getEvents(id) };
+    } catch (error: any) {
+      this.logger.error('[GET /api/payments/:id] 결제 원장 단건 조회 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 환불 현황 (연결된 환불 목록 / 남은 환불 가능 금액)
+  @Get('api/payments/:id/refunds')
+  @UseGuards(MerchantGuard)
+  getRefunds(@Param('id') id: string, @CurrentMerchant() merchant: Merchant) {
+    this.logger.debug('[GET /api/payments/:id/refunds] 환불 현황 조회 요청:', id);
+    try {
+      return { status: 'success', ...this.refunds.summary(merchant, id) };
+    } catch (error: any) {
+      this.logger.error('[GET /api/payments/:id/refunds] 환불 현황 조회 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 가맹점이 서명할 환불 transfer 준비 (amount 생략 시 남은 전액)
+  @Post('api/payments/:id/refunds/prepare')
+  @UseGuards(MerchantGuard)
+  async prepareRefund(@Param('id') id: string, @Body() body: { amount?: string }, @CurrentMerchant() merchant: Merchant) {
+    this.logger.log(`[POST /api/payments/:id/refunds/prepare] 환불 준비 요청: ${id} amount=${body?.amount ?? '전액'}`);
+    try {
+      return { status: 'success', ...(await this.refunds.prepare(merchant, id, body?.amount)) };
+    } catch (error: any) {
+      this.logger.error('[POST /api/payments/:id/refunds/prepare] 환불 준비 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 서명된 환불 릴레이 (원 결제에 연결해 기록, 확정 시 환불 영수증 인쇄)
+  @Post('api/payments/:id/refunds')
+  @UseGuards(MerchantGuard)
+  async refundPayment(
+    @Param('id') id: string,
+    @Body() body: RefundInput,
+    @Ip() clientIp: string,
+    @CurrentMerchant() merchant: Merchant,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ) {
+    this.logger.log(`[POST /api/payments/:id/refunds] 환불 요청: ${id} merchant=${merchant.id}`);
+    try {
+      const result = await this.withIdempotency(
+        `refund:${id}`,
+        idempotencyKey,
+        body,
+        { domain: body?.domain, types: body?.types, message: body?.transfer },
+        () => this.refunds.refund(merchant, id, body, clientIp),
+      );
+      this.logger.log('[POST /api/payments/:id/refunds] 환불 결과:', JSON.stringify(result));
+      return result;
+    } catch (error: any) {
+      this.logger.error('[POST /api/payments/:id/refunds] 환불 오류:', error.message);
+      throw error;
+    }
+  }
+
+  // 후원 정책 dry-run: 주어진 transfer가 스폰서 대상인지 규칙별로 설명
+  @Post('api/sponsorship/dry-run')
+  sponsorshipDryRun(@Body() body: any) {
+    this.logger.debug('[POST /api/sponsorship/dry-run] 후원 정책 평가 요청:', JSON.stringify(body));
+    try {
+      const transfer = body?.transfer ?? body;
+      const at = body?.at ? new Date(body.at) : new Date();
+      if (Number.isNaN(at.getTime())) {
+        throw new BadRequestException({ code: 'INVALID_TIME', message: 'at 값이 올바른 시간이 아닙니다.' });
+      }
+      // 금액은 릴레이 경로와 같이 기본 단위로 환산 ("1.5" 같은 소수도 허용, 형식 오류는 400)
+      const policyTransfer = { ...(transfer ?? {}) };
+      if (policyTransfer.amount != null) {
+        const { amount } = this.tokens.normalize(policyTransfer.token, policyTransfer.amount, Number(policyTransfer.chainId) || undefined);
+        policyTransfer.amount = amount.toString();
+      }
+      const evaluation = this.sponsorshipPolicy.evaluate(policyTransfer, at);
+      return { status: 'success', ...evaluation };
+    } catch (error: any) {
+      this.logger.error('[POST /api/sponsorship/dry-run] 후원 정책 평가 오류:', error.message);
+      throw error;
+    }
+  }
 }
@@ -1,10 +1,60 @@
 import { Module } from '@nestjs/common';
 import { AppController } from './app.controller';
+import { AdminController } from './admin.controller';
+import { MerchantController } from './merchant.controller';
 import { AppService } from './app.service';
+import { DatabaseService } from './database.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { ChainService } from './chain.service';
+import { TxTrackerService } from './tx-tracker.service';
+import { IdempotencyService } from './idempotency.service';
+import { RelayerPoolService } from './relayer-pool.service';
+import { GasBudgetService } from './gas-budget.service';
+import { VelocityService } from './velocity.service';
+import { SponsorshipPolicyService } from './sponsorship-policy.service';
+import { DelegationService } from './delegation.service';
+import { DelegateRegistryService } from './delegate-registry.service';
+import { RedelegationService } from './redelegation.service';
+import { FallbackRailService } from './fallback-rail.service';
+import { TokenRegistryService } from './token-registry.service';
+import { PriceService } from './price.service';
+import { InvoiceService } from './invoice.service';
+import { PaymentQrService } from './payment-qr.service';
+import { MerchantSignatureService } from './merchant-signature.service';
+import { MerchantService } from './merchant.service';
+import { PaymentEventsService } from './payment-events.service';
+import { RefundService } from './refund.service';
+import { WebhookService } from './webhook.service';
+import { TransferIndexerService } from './transfer-indexer.service';
 
 @Module({
   imports: [],
-  controllers: [AppController],
-  providers: [AppService],
+  controllers: [AppController, AdminController, MerchantController],
+  providers: [
+    AppService,
+    DatabaseService,
+    PaymentLedgerService,
+    ChainService,
+    TxTrackerService,
+    IdempotencyService,
+    RelayerPoolService,
+    GasBudgetService,
+    VelocityService,
+    SponsorshipPolicyService,
+    DelegateRegistryService,
+    DelegationService,
+    RedelegationService,
+    FallbackRailService,
+    TokenRegistryService,
+    PriceService,
+    InvoiceService,
+    PaymentQrService,
+    MerchantSignatureService,
+    MerchantService,
+    PaymentEventsService,
+    RefundService,
+    WebhookService,
+    TransferIndexerService,
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,519 @@
+import { EventEmitter } from 'events';
+import { BadRequestException, HttpException, HttpStatus } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { spawn } from 'child_process';
+import { ethers } from 'ethers';
+import { AppService } from './app.service';
+import { ChainService } from './chain.service';
+import { DatabaseService } from './database.service';
+import {
+  DEFAULT_DELEGATE_ABI,
+  DelegateRegistryService,
+} from './delegate-registry.service';
+import { DelegationService } from './delegation.service';
+import { ERR_ABI } from './revert-errors';
+import { GasBudgetService } from './gas-budget.service';
+import { InvoiceService } from './invoice.service';
+import { MerchantSignatureService } from './merchant-signature.service';
+import { MerchantService } from './merchant.service';
+import { PaymentEventsService } from './payment-events.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { RelayerPoolService } from './relayer-pool.service';
+import { SponsorshipPolicyService } from './sponsorship-policy.service';
+import { TokenRegistryService } from './token-registry.service';
+import { VelocityService } from './velocity.service';
+
+// gaslessPayment가 실행하는 client.ts 대신 테스트에서 흉내 냄
+jest.mock('child_process', () => ({
+  ...jest.requireActual<typeof import('child_process')>('child_process'),
+  spawn: jest.fn(),
+}));
+
+describe('AppService', () => {
+  const TOKEN = ethers.getAddress('0x' + '3c'.repeat(20));
+  const SHOP = ethers.getAddress('0x' + '4d'.repeat(20));
+  const DELEGATE = ethers.getAddress('0x' + '5a'.repeat(20));
+  const RELAYER = ethers.getAddress('0x' + '01'.repeat(20));
+  const TX_HASH = '0x' + 'ab'.repeat(32);
+  const payer = new ethers.Wallet('0x' + '42'.repeat(32));
+
+  let module: TestingModule;
+  let service: AppService;
+  let ledger: PaymentLedgerService;
+
+  const version = {
+    version: 'v1',
+    address: DELEGATE,
+    addresses: { 97: DELEGATE },
+    domain: { name: 'DelegatedTransfer', version: '1' },
+    abi: DEFAULT_DELEGATE_ABI,
+    iface: new ethers.Interface(DEFAULT_DELEGATE_ABI),
+    current: true,
+  };
+  const provider = {
+    send: jest.fn().mockResolvedValue('0x61'),
+    getTransactionCount: jest.fn().mockResolvedValue(0),
+    // 위임 컨트랙트 nonce (slot0)
+    getStorage: jest.fn().mockResolvedValue(ethers.toBeHex(0, 32)),
+    call: jest.fn().mockResolvedValue('0x'),
+    getFeeData: jest.fn().mockResolvedValue({
+      maxFeePerGas: 3_000_000_000n,
+      maxPriorityFeePerGas: 1_000_000_000n,
+      gasPrice: null,
+    }),
+    getBlock: jest.fn().mockResolvedValue({ baseFeePerGas: 1_000_000_000n }),
+    estimateGas: jest.fn().mockResolvedValue(50_000n),
+  };
+  const relayers = {
+    send: jest.fn().mockResolvedValue({
+      tx: {
+        hash: TX_HASH,
+        wait: () =>
+          Promise.resolve({
+            status: 1,
+            blockNumber: 5,
+            gasUsed: 40_000n,
+            gasPrice: 2_000_000_000n,
+          }),
+      },
+      relayer: RELAYER,
+      nonce: 0,
+    }),
+    primaryAddressOf: () => RELAYER,
+  };
+  const delegation = {
+    getDelegation: jest.fn().mockResolvedValue({
+      supported: true,
+      delegate: DELEGATE,
+      version: 'v1',
+    }),
+  };
+  const velocity = { assertAllowed: jest.fn(), assertIpAllowed: jest.fn() };
+  const sponsorshipPolicy = { assertEligible: jest.fn() };
+  const invoices = {
+    resolve: jest.fn().mockReturnValue(null),
+    assertInvoiceNotRequired: jest.fn(),
+    find: () => null,
+  };
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    jest.clearAllMocks();
+    // executePayment의 60초 대기 타이머가 테스트 종료를 막지 않도록
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    module = await Test.createTestingModule({
+      providers: [
+        AppService,
+        DatabaseService,
+        PaymentLedgerService,
+        {
+          provide: ChainService,
+          useValue: {
+            chainId: 97,
+            provider,
+            get: () => ({ provider, config: { chainId: 97 } }),
+          },
+        },
+        { provide: RelayerPoolService, useValue: relayers },
+        {
+          provide: GasBudgetService,
+          useValue: {
+            assertGasPriceWithinCeiling: jest.fn().mockResolvedValue(undefined),
+            assertWithinBudget: jest.fn(),
+          },
+        },
+        { provide: VelocityService, useValue: velocity },
+        { provide: SponsorshipPolicyService, useValue: sponsorshipPolicy },
+        { provide: DelegationService, useValue: delegation },
+        {
+          provide: DelegateRegistryService,
+          useValue: {
+            findByAddress: (a: string | null) =>
+              a && ethers.getAddress(a) === DELEGATE ? version : null,
+            current: () => version,
+            describe: () => [],
+          },
+        },
+        {
+          provide: TokenRegistryService,
+          useValue: {
+            normalize: (token: string, amount: string) => ({
+              token: { address: ethers.getAddress(token), decimals: 6 },
+              amount: BigInt(amount),
+            }),
+            find: () => null,
+            contract: () => ({ balanceOf: () => Promise.resolve(10n ** 12n) }),
+          },
+        },
+        { provide: InvoiceService, useValue: invoices },
+        { provide: MerchantSignatureService, useValue: { verify: jest.fn() } },
+        { provide: MerchantService, useValue: { findByAddress: () => null } },
+        {
+          provide: PaymentEventsService,
+          useValue: { publishStatus: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(AppService);
+    ledger = module.get(PaymentLedgerService);
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await module.close();
+  });
+
+  // client.ts가 /payment로 보내는 것과 같은 서명된 결제 (위임 재사용, contract nonce 0)
+  async function signedPayment(amount = '1000', nonce = '0') {
+    const domain = {
+      ...version.domain,
+      chainId: 97,
+      verifyingContract: payer.address,
+    };
+    const types = {
+      Transfer: [
+        { name: 'from', type: 'address' },
+        { name: 'token', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'amount', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+      ],
+    };
+    const transfer = {
+      from: payer.address,
+      token: TOKEN,
+      to: SHOP,
+      amount,
+      nonce,
+      deadline: '0',
+    };
+    return {
+      authority: payer.address,
+      transfer,
+      domain,
+      types,
+      signature712: await payer.signTypedData(domain, types, transfer),
+    };
+  }
+
+  // client.ts 실행 흉내: 티켓을 붙여 /payment 호출 후 종료
+  function fakeClient(relay: (ticket: string) => Promise<unknown>) {
+    jest.mocked(spawn).mockImplementation(() => {
+      const child = Object.assign(new EventEmitter(), {
+        stdout: new EventEmitter(),
+        stderr: new EventEmitter(),
+      });
+      setImmediate(() => {
+        void relay(process.env.GASLESS_TICKET!)
+          .then((result) =>
+            child.stdout.emit('data', `server: ${JSON.stringify(result)}\n`),
+          )
+          .catch((e: Error) => child.stderr.emit('data', e.message))
+          .finally(() => child.emit('close', 0));
+      });
+      return child as unknown as ReturnType<typeof spawn>;
+    });
+  }
+
+  const qrData = {
+    token: TOKEN,
+    to: SHOP,
+    amountWei: '1000',
+    chainId: 97,
+    rpcUrl: 'http://127.0.0.1:8545',
+    privateKey: payer.privateKey,
+  };
+
+  it('records a gasless payment once when client.ts relays it through /payment', async () => {
+    const body = await signedPayment();
+    let ticket = '';
+    fakeClient((t) => {
+      ticket = t;
+      return service.payment(body, { gaslessTicket: t });
+    });
+
+    const result = (await service.gaslessPayment({ qrData }, '10.0.0.1')) as {
+      status: string;
+      paymentId: string;
+    };
+
+    const records = ledger.list();
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      id: result.paymentId,
+      kind: 'gasless',
+      status: 'confirmed',
+      txHash: TX_HASH,
+      clientIp: '10.0.0.1',
+    });
+    expect(result.status).toBe('ok');
+
+    // 티켓은 1회용
+    await expect(
+      service.payment(body, { gaslessTicket: ticket }),
+    ).rejects.toMatchObject({ response: { code: 'INVALID_GASLESS_TICKET' } });
+    expect(ledger.list()).toHaveLength(1);
+  });
+
+  it('rejects gasless tickets for a different transfer and fails the record', async () => {
+    const tampered = await signedPayment('999');
+    fakeClient((t) => service.payment(tampered, { gaslessTicket: t }));
+
+    await expect(service.gaslessPayment({ qrData })).rejects.toBeDefined();
+
+    const records = ledger.list();
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ kind: 'gasless', status: 'failed' });
+    expect(relayers.send).not.toHaveBeenCalled();
+  });
+
+  it('keeps payments rejected before the signature check unverified', async () => {
+    const forged = await signedPayment();
+    forged.signature712 = await new ethers.Wallet(
+      '0x' + '43'.repeat(32),
+    ).signTypedData(forged.domain, forged.types, forged.transfer);
+    await expect(service.payment(forged)).rejects.toMatchObject({
+      response: { code: 'BAD_712_SIGNER' },
+    });
+
+    // 서명은 맞지만 잔고 부족으로 거절
+    await expect(
+      service.payment(await signedPayment(String(10n ** 13n))),
+    ).rejects.toMatchObject({ response: { code: 'INSUFFICIENT_BALANCE' } });
+
+    const byAmount = (amount: string) =>
+      ledger.list().find((r) => r.amount === amount);
+    expect(byAmount('1000')).toMatchObject({
+      status: 'failed',
+      unverified: true,
+    });
+    expect(byAmount(String(10n ** 13n))).toMatchObject({
+      status: 'failed',
+      unverified: false,
+    });
+  });
+
+  it('keeps simulated scan payments unconfirmed in the ledger', async () => {
+    await service.storePrivateKeySession({
+      type: 'private_key_session',
+      sessionId: 's1',
+      encryptedPrivateKey: 'enc',
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+
+    const result = await service.scanPayment({
+      type: 'payment_request',
+      sessionId: 's1',
+      recipient: SHOP,
+      amount: '1000',
+      token: TOKEN,
+    });
+
+    expect(result.paymentResult.simulated).toBe(true);
+    const record = ledger.getById(result.paymentResult.paymentId);
+    expect(record).toMatchObject({
+      kind: 'scan',
+      status: 'received',
+      txHash: null,
+    });
+    expect(ledger.list({ status: 'confirmed' })).toHaveLength(0);
+  });
+
+  it('refuses to settle invoices through a scan payment', async () => {
+    await service.storePrivateKeySession({
+      type: 'private_key_session',
+      sessionId: 's1',
+      encryptedPrivateKey: 'enc',
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+    const request = {
+      type: 'payment_request',
+      sessionId: 's1',
+      recipient: SHOP,
+      amount: '1000',
+      token: TOKEN,
+    };
+
+    await expect(
+      service.scanPayment({ ...request, invoiceId: 'inv_1' }),
+    ).rejects.toMatchObject({
+      status: 400,
+      response: { code: 'INVOICE_NOT_SUPPORTED', invoiceId: 'inv_1' },
+    });
+    expect(invoices.resolve).not.toHaveBeenCalled();
+
+    // 인보이스 없는 스캔 결제도 REQUIRE_INVOICE 검사는 거침
+    invoices.assertInvoiceNotRequired.mockImplementationOnce(() => {
+      throw new BadRequestException({ code: 'INVOICE_REQUIRED' });
+    });
+    await expect(service.scanPayment(request)).rejects.toMatchObject({
+      response: { code: 'INVOICE_REQUIRED' },
+    });
+    expect(ledger.list()).toHaveLength(0);
+  });
+
+  describe('preflightPayment', () => {
+    it('reports a payable transfer with EIP-1559 fees and the sponsor cost', async () => {
+      const result = await service.preflightPayment(
+        await signedPayment(),
+        '10.0.0.1',
+      );
+
+      // 가스 50000 → gasLimit 60000, 실효 가격 base 1 + tip 1 gwei
+      expect(result).toMatchObject({
+        willSucceed: true,
+        error: null,
+        simulation: 'ok',
+        gasEstimate: '50000',
+        gasLimit: '60000',
+        feeMode: '1559',
+        fees: {
+          maxFeePerGas: '3000000000',
+          maxPriorityFeePerGas: '1000000000',
+          gasPrice: null,
+          effectiveGasPrice: '2000000000',
+        },
+        estimatedSponsorCostWei: '120000000000000',
+        estimatedSponsorCost: '0.00012',
+        delegateVersion: 'v1',
+      });
+      expect(velocity.assertAllowed).toHaveBeenCalledWith(
+        expect.objectContaining({ payer: payer.address, clientIp: '10.0.0.1' }),
+      );
+      expect(relayers.send).not.toHaveBeenCalled();
+      expect(ledger.list()).toHaveLength(0);
+    });
+
+    it('falls back to legacy gas pricing when the chain has no base fee', async () => {
+      provider.getFeeData.mockResolvedValueOnce({
+        maxFeePerGas: null,
+        maxPriorityFeePerGas: null,
+        gasPrice: 5_000_000_000n,
+      });
+      provider.getBlock.mockResolvedValueOnce({ baseFeePerGas: null });
+
+      const result = await service.preflightPayment(await signedPayment());
+
+      // gasPrice 5 + 최소 tip 1 gwei
+      expect(result).toMatchObject({
+        willSucceed: true,
+        feeMode: 'legacy',
+        fees: { maxFeePerGas: null, gasPrice: '6000000000' },
+        estimatedSponsorCostWei: '360000000000000',
+      });
+    });
+
+    it('explains velocity and policy rejections with the payment error body', async () => {
+      velocity.assertAllowed.mockImplementationOnce(() => {
+        throw new HttpException(
+          { code: 'VELOCITY_EXCEEDED', rule: 'per_day' },
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      });
+      await expect(
+        service.preflightPayment(await signedPayment()),
+      ).resolves.toEqual({
+        willSucceed: false,
+        error: { code: 'VELOCITY_EXCEEDED', rule: 'per_day' },
+      });
+
+      sponsorshipPolicy.assertEligible.mockImplementationOnce(() => {
+        throw new HttpException(
+          { code: 'SPONSORSHIP_DENIED', reasons: ['token'] },
+          HttpStatus.FORBIDDEN,
+        );
+      });
+      await expect(
+        service.preflightPayment(await signedPayment()),
+      ).resolves.toMatchObject({
+        willSucceed: false,
+        error: { code: 'SPONSORSHIP_DENIED' },
+      });
+      expect(provider.call).not.toHaveBeenCalled();
+    });
+
+    it('maps a simulation revert through the revert catalog', async () => {
+      const data = new ethers.Interface(ERR_ABI).encodeErrorResult(
+        'Expired',
+        [10, 5],
+      );
+      provider.call.mockRejectedValueOnce(
+        Object.assign(new Error('execution reverted'), { data }),
+      );
+
+      const result = await service.preflightPayment(await signedPayment());
+
+      expect(result).toMatchObject({
+        willSucceed: false,
+        simulation: 'reverted',
+        error: {
+          code: 'SIGNATURE_EXPIRED',
+          action: 'rescan',
+          stage: 'simulate',
+          revert: { name: 'Expired', args: { nowTs: '10', deadline: '5' } },
+        },
+        // 리버트여도 비용 추정은 함께 돌려줌
+        feeMode: '1559',
+        estimatedSponsorCostWei: '120000000000000',
+      });
+    });
+  });
+
+  describe('prepareTransferData', () => {
+    beforeEach(() => {
+      // 위임 컨트랙트 nonce 7, EOA nonce 3
+      provider.getStorage.mockResolvedValue(ethers.toBeHex(7, 32));
+      provider.getTransactionCount.mockResolvedValue(3);
+    });
+
+    afterEach(() => {
+      provider.getStorage.mockResolvedValue(ethers.toBeHex(0, 32));
+      provider.getTransactionCount.mockResolvedValue(0);
+    });
+
+    it('hands out the contract nonce when the delegation is reused', async () => {
+      const prepared = await service.prepareTransferData({
+        authority: payer.address,
+        token: TOKEN,
+        to: SHOP,
+        amount: '1000',
+      });
+
+      expect(prepared).toMatchObject({
+        nonce: '7',
+        nonceSource: 'contract',
+        reuseDelegation: true,
+        domain: version.domain,
+        delegateVersion: 'v1',
+      });
+      // 받은 nonce로 서명한 결제는 릴레이 경로의 nonce 검증을 통과
+      await expect(
+        service.preflightPayment(await signedPayment('1000', prepared.nonce)),
+      ).resolves.toMatchObject({ willSucceed: true });
+    });
+
+    it('hands out the EOA nonce when a new authorization will be signed', async () => {
+      const other = ethers.getAddress('0x' + '6b'.repeat(20));
+      await expect(
+        service.prepareTransferData({
+          authority: payer.address,
+          delegateAddress: other,
+        }),
+      ).resolves.toMatchObject({
+        nonce: '3',
+        nonceSource: 'eoa',
+        reuseDelegation: false,
+      });
+
+      delegation.getDelegation.mockResolvedValueOnce({
+        supported: false,
+        delegate: null,
+      });
+      await expect(
+        service.prepareTransferData({ authority: payer.address }),
+      ).resolves.toMatchObject({ nonce: '3', nonceSource: 'eoa' });
+    });
+  });
+});
@@ -1,9 +1,35 @@
 // app.service.ts
-import { Injectable, Logger, BadRequestException, OnModuleInit } from '@nestjs/common';
-import { ethers, Interface } from 'ethers';
+import { Injectable, Logger, BadRequestException, HttpException } from '@nestjs/common';
+import { ethers } from 'ethers';
 import { spawn } from 'child_process';
 import * as path from 'path';
+import { randomBytes } from 'crypto';
 import axios from 'axios';
+import { PaymentKind, PaymentLedgerService, PaymentRecord } from './payment-ledger.service';
+import { ChainService, EIP7702_UNSUPPORTED_CHAIN_IDS } from './chain.service';
+import { RelayerPoolService } from './relayer-pool.service';
+import { GasBudgetService } from './gas-budget.service';
+import { VelocityService } from './velocity.service';
+import { DelegationService } from './delegation.service';
+import {
+  DelegateRegistryService,
+  DelegateVersion,
+} from './delegate-registry.service';
+import { TokenRegistryService } from './token-registry.service';
+import { InvoiceService } from './invoice.service';
+import { MerchantSignatureService } from './merchant-signature.service';
+import { MerchantService } from './merchant.service';
+import { PaymentEventsService } from './payment-events.service';
+import { SponsorshipPolicyService } from './sponsorship-policy.service';
+import {
+  DecodedRevert,
+  PaymentRevertException,
+  RevertProblem,
+  decodeRevert,
+  formatRevert,
+  toRevertProblem,
+  waitForReceipt,
+} from './revert-errors';
 
 type Hex = `0x${string}`;
 
@@ -15,7 +41,7 @@ type AuthItem = {
 };
 
 // 영수증 데이터 인터페이스
-interface ReceiptData {
+export interface ReceiptData {
   txHash: string;
   amount: string;
   token: string;
@@ -25,6 +51,46 @@ interface ReceiptData {
   status: string;
   productName?: string; // 상품명 추가
   sessionId?: string;
+  invoiceId?: string | null;
+  // printReceipt에서 채움: 토큰 금액(10진수) / 인보이스의 법정화폐 금액
+  tokenAmount?: string;
+  tokenSymbol?: string | null;
+  fiatAmount?: string;
+  fiatCurrency?: string;
+  rate?: string;
+  // 환불 영수증: 원 결제 ID / 거래 해시 (from = 가맹점, to = 결제자)
+  kind?: 'payment' | 'refund';
+  refundOf?: string | null;
+  originalTxHash?: string | null;
+}
+
+// 확정 시 영수증을 인쇄하는 결제 경로 (확정 전이를 실제로 반영한 쪽에서 한 번만 인쇄)
+export const RECEIPT_KINDS: PaymentKind[] = [
+  'signed',
+  'gasless',
+  'fallback',
+  'refund',
+];
+
+// 확정된 원장 기록의 영수증 (환불이면 원 결제의 거래 해시를 함께 표시)
+export function confirmedReceipt(
+  record: PaymentRecord,
+  originalTxHash: string | null = null,
+): ReceiptData {
+  return {
+    txHash: record.txHash!,
+    amount: record.amount ?? '0',
+    token: record.token ?? 'UNKNOWN',
+    from: record.fromAddress ?? record.authority ?? 'UNKNOWN',
+    to: record.toAddress ?? 'UNKNOWN',
+    timestamp: new Date().toISOString(),
+    status: 'success',
+    productName: record.productName ?? '기타',
+    invoiceId: record.invoiceId,
+    ...(record.kind === 'refund'
+      ? { kind: 'refund' as const, refundOf: record.refundOf, originalTxHash }
+      : {}),
+  };
 }
 
 // 인쇄 대기열 아이템 인터페이스
@@ -34,10 +100,23 @@ interface PrintQueueItem {
   createdAt: string;
   status: 'pending' | 'printing' | 'completed' | 'failed';
   attemptCount: number;
+  // 수취인(정산 주소)의 가맹점, 미등록 주소면 null (어느 가맹점에도 보이지 않음)
+  merchantId: string | null;
+}
+
+// payment() 호출 경로 정보 (원장 기록용)
+interface PaymentMeta {
+  kind?: PaymentKind;
+  productName?: string;
+  clientIp?: string;
+  // 환불이면 원 결제 ID
+  refundOf?: string;
+  // gaslessPayment가 실행한 client.ts의 /payment 재호출 (X-Gasless-Ticket)
+  gaslessTicket?: string;
 }
 
 @Injectable()
-export class AppService implements OnModuleInit {
+export class AppService {
   private readonly logger = new Logger('AppService');
   
   // 인쇄 대기열 (메모리 기반 저장소)
@@ -45,56 +124,32 @@ export class AppService implements OnModuleInit {
   
   // QR 스캔 세션 저장소 (실제 운영에서는 Redis 등 사용 권장)
   private sessionStorage = new Map<string, any>();
+
+  // 가스리스 결제 티켓 → 원장 기록 ID (client.ts의 /payment 재호출이 같은 기록을 이어서 사용, 1회용)
+  private gaslessTickets = new Map<string, string>();
   
   // EIP-7702 지원 여부 캐시
   private eip7702SupportCache: boolean | null = null;
 
-  private provider!: ethers.JsonRpcProvider;
-  private relayer!: ethers.Wallet;
-
-  // ERC20 토큰 ABI (잔액 조회용)
-  private readonly ERC20_ABI = [
-    'function balanceOf(address) view returns (uint256)',
-    'function decimals() view returns (uint8)',
-    'function symbol() view returns (string)',
-    'function name() view returns (string)',
-  ] as const;
-
-  private readonly DELEGATE_ABI = [
-    'function executeSignedTransfer((address from,address token,address to,uint256 amount,uint256 nonce,uint256 deadline) t, bytes sig) external',
-    'function nonce() view returns (uint256)', // 뷰 호출용
-  ];
-  private readonly delegateIface = new Interface(this.DELEGATE_ABI);
-
-  private readonly ERR_ABI = [
-    'error BadContext(address actual,address expected)',
-    'error Expired(uint256 nowTs,uint256 deadline)',
-    'error BadSignature(address expected,address recovered)',
-    'error BadNonce(uint256 got,uint256 expected)',
-    'error ERC20InsufficientBalance(address sender,uint256 balance,uint256 needed)',
-    'error ERC20InsufficientAllowance(address spender,uint256 allowance,uint256 needed)',
-    'error SafeERC20FailedOperation(address token)',
-  ];
-  private readonly errIface = new Interface(this.ERR_ABI);
-
-  async onModuleInit() {
-    const RPC_URL  = process.env.RPC_URL!;
-    const CHAIN_ID = Number(process.env.CHAIN_ID!);
-    const SPONSOR  = process.env.SPONSOR_PK!;
-    if (!RPC_URL)  throw new Error('RPC_URL missing');
-    if (!CHAIN_ID) throw new Error('CHAIN_ID missing');
-    if (!SPONSOR)  throw new Error('SPONSOR_PK missing');
-
-    const staticNet = { name: CHAIN_ID === 97 ? 'bsc-testnet' : (CHAIN_ID === 56 ? 'bsc' : 'custom'), chainId: CHAIN_ID };
-    this.provider = new ethers.JsonRpcProvider(RPC_URL, staticNet);
-
-    const rpcId = Number(await this.provider.send('eth_chainId', []));
-    if (rpcId !== CHAIN_ID) throw new Error(`RPC chainId(${rpcId}) != env CHAIN_ID(${CHAIN_ID})`);
-    this.logger.log(`[RPC_OK] chainId=${rpcId}`);
-
-    this.relayer = new ethers.Wallet(SPONSOR, this.provider);
-    const bal = await this.provider.getBalance(this.relayer.address);
-    this.logger.log(`[RELAYER] ${this.relayer.address} balance=${ethers.formatEther(bal)} BNB`);
+
+  constructor(
+    private readonly ledger: PaymentLedgerService,
+    private readonly chain: ChainService,
+    private readonly relayers: RelayerPoolService,
+    private readonly gasBudget: GasBudgetService,
+    private readonly velocity: VelocityService,
+    private readonly sponsorshipPolicy: SponsorshipPolicyService,
+    private readonly delegation: DelegationService,
+    private readonly delegates: DelegateRegistryService,
+    private readonly tokens: TokenRegistryService,
+    private readonly invoices: InvoiceService,
+    private readonly merchantSignatures: MerchantSignatureService,
+    private readonly merchants: MerchantService,
+    private readonly paymentEvents: PaymentEventsService,
+  ) {}
+
+  private get provider() {
+    return this.chain.provider;
   }
 
   private isAddr(a?: string) {
@@ -125,21 +180,10 @@ export class AppService implements OnModuleInit {
   }
 
   private decodeAndLogRevert(e: any, tag: string) {
-    const data = e?.info?.error?.data || e?.data;
-    if (
-      typeof data === 'string' &&
-      data.startsWith('0x') &&
-      data.length >= 10
-    ) {
-      try {
-        const parsed = this.errIface.parseError(data);
-        this.logger.error(
-          `[${tag}] ${parsed?.name} args=${this.j(parsed?.args)}`,
-        );
-        return parsed;
-      } catch {
-        /* ignore */
-      }
+    const decoded = decodeRevert(e);
+    if (decoded) {
+      this.logger.error(`[${tag}] ${decoded.name} args=${this.j(decoded.args)}`);
+      return decoded;
     }
     this.logger.error(`[${tag}] ${e?.shortMessage || e?.message || e}`);
     return null;
@@ -148,7 +192,7 @@ export class AppService implements OnModuleInit {
   /**
    * EIP-7702 지원 여부를 확인 (캐싱 적용)
    */
-  private async checkEIP7702Support(): Promise<boolean> {
+  async checkEIP7702Support(): Promise<boolean> {
     // 캐시된 결과가 있다면 로그만 출력하고 반환
     if (this.eip7702SupportCache !== null) {
       if (this.eip7702SupportCache) {
@@ -166,29 +210,7 @@ export class AppService implements OnModuleInit {
       const chainId = Number(network?.chainId || 97);
       
       // 알려진 EIP-7702 미지원 네트워크 확인 (BSC는 지원한다고 하니 제외)
-      const unsupportedChainIds = [
-        // 56,     // BSC Mainnet - 사용자가 지원한다고 확인
-        // 97,     // BSC Testnet - 사용자가 지원한다고 확인
-        137,    // Polygon Mainnet
-        80001,  // Polygon Mumbai (deprecated)
-        80002,  // Polygon Amoy
-        43114,  // Avalanche C-Chain
-        43113,  // Avalanche Fuji Testnet
-        250,    // Fantom Opera
-        4002,   // Fantom Testnet
-        25,     // Cronos Mainnet
-        338,    // Cronos Testnet
-        1284,   // Moonbeam
-        1287,   // Moonriver
-        42161,  // Arbitrum One
-        421613, // Arbitrum Goerli (deprecated)
-        421614, // Arbitrum Sepolia
-        10,     // Optimism
-        420,    // Optimism Goerli (deprecated)
-        11155420, // Optimism Sepolia
-      ];
-      
-      if (unsupportedChainIds.includes(chainId)) {
+      if (EIP7702_UNSUPPORTED_CHAIN_IDS.includes(chainId)) {
         this.logger.warn(`[EIP7702_CHECK] ❌ EIP-7702가 지원되지 않습니다 (Chain ID ${chainId}는 알려진 미지원 네트워크)`);
         this.eip7702SupportCache = false;
         return false;
@@ -245,9 +267,12 @@ export class AppService implements OnModuleInit {
   // nextNonce: 우선 auth-context view, 실패 시 slot0
   // ─────────────────────────────────────────
   // slot0 읽기 (fallback)
-  private async readNextNonceViaStorage(authority: string): Promise<bigint> {
+  private async readNextNonceViaStorage(
+    authority: string,
+    provider: ethers.Provider = this.provider,
+  ): Promise<bigint> {
     this.logger.debug('[STORAGE_NONCE] Slot0에서 nonce 조회 시작:', authority);
-    const raw = await this.provider.getStorage(authority, 0);
+    const raw = await provider.getStorage(authority, 0);
     const nonce = BigInt(raw || 0);
     this.logger.debug('[STORAGE_NONCE] Slot0 조회 결과:', { raw, nonce: nonce.toString() });
     return nonce;
@@ -256,7 +281,8 @@ export class AppService implements OnModuleInit {
   // authorizationList를 사용해 authority에서 nonce() view 호출
   private async readNextNonceViaAuthorizedView(
     authority: string,
-    authItem: AuthItem
+    authItem: AuthItem,
+    provider: ethers.Provider = this.provider,
   ): Promise<bigint> {
     this.logger.debug('[AUTH_VIEW_NONCE] Authorization context nonce 조회 시작:', {
       authority,
@@ -269,7 +295,7 @@ export class AppService implements OnModuleInit {
     const data  = iface.encodeFunctionData('nonce', []);
 
     // ✅ ethers v6: call은 인자 1개만. 'latest' 제거
-    const ret = await this.provider.call({
+    const ret = await provider.call({
       to: authority,
       data,
       // ★ EIP-7702 컨텍스트
@@ -291,7 +317,11 @@ export class AppService implements OnModuleInit {
   }
 
   // nextNonce 읽기: 우선 authorized view → 실패 시 slot0 폴백
-  private async readNextNonce(authority: string, authItem?: AuthItem): Promise<bigint> {
+  private async readNextNonce(
+    authority: string,
+    authItem?: AuthItem,
+    provider: ethers.Provider = this.provider,
+  ): Promise<bigint> {
     this.logger.debug('[READ_NEXT_NONCE] Nonce 조회 시작:', { 
       authority, 
       hasAuthItem: !!authItem,
@@ -301,33 +331,257 @@ export class AppService implements OnModuleInit {
     if (authItem) {
       this.logger.debug('[READ_NEXT_NONCE] Authorization context 사용하여 nonce 조회 시도');
       try {
-        const nonce = await this.readNextNonceViaAuthorizedView(authority, authItem);
+        const nonce = await this.readNextNonceViaAuthorizedView(authority, authItem, provider);
         this.logger.debug('[READ_NEXT_NONCE] Authorization context 조회 성공:', nonce);
         return nonce;
       } catch (e: any) {
         this.logger.warn('[READ_NEXT_NONCE] Authorization context 조회 실패, slot0 폴백 사용:', e?.shortMessage || e?.message || e);
-        const fallbackNonce = await this.readNextNonceViaStorage(authority);
+        const fallbackNonce = await this.readNextNonceViaStorage(authority, provider);
         this.logger.debug('[READ_NEXT_NONCE] Slot0 fallback 결과:', fallbackNonce);
         return fallbackNonce;
       }
     }
     
     this.logger.debug('[READ_NEXT_NONCE] Authorization 없음, slot0 직접 조회');
-    const nonce = await this.readNextNonceViaStorage(authority);
+    const nonce = await this.readNextNonceViaStorage(authority, provider);
     this.logger.debug('[READ_NEXT_NONCE] Slot0 직접 조회 결과:', nonce);
     return nonce;
   }
 
-  async getNextNonce(authority: string, authorization?: AuthItem) {
+  // chainId 생략 시 기본 체인
+  async getNextNonce(authority: string, authorization?: AuthItem, chainId?: number) {
     if (!this.isAddr(authority)) throw new BadRequestException('authority invalid');
-    const next = await this.readNextNonce(authority, authorization);
+    const next = await this.readNextNonce(authority, authorization, this.chain.get(chainId).provider);
     return { authority, nextNonce: next.toString(), via: authorization ? 'view-or-slot' : 'slot' };
   }
 
+  // 온체인 revert 사유 조회 (채굴된 블록 기준으로 재실행)
+  async readRevertReason(
+    tx: { from?: string; to?: string | null; data: string },
+    blockNumber: number,
+    chainId?: number,
+  ): Promise<string | null> {
+    return (await this.readRevert(tx, blockNumber, chainId)).reason;
+  }
+
+  // 사유 문자열 + 디코드 결과 (응답의 problem details 생성용)
+  private async readRevert(
+    tx: { from?: string; to?: string | null; data: string },
+    blockNumber: number,
+    chainId: number = this.chain.chainId,
+  ): Promise<{ reason: string | null; decoded: DecodedRevert | null }> {
+    try {
+      await this.chain.get(chainId).provider.call({
+        from: tx.from ?? this.relayers.primaryAddressOf(chainId),
+        to: tx.to,
+        data: tx.data,
+        blockTag: blockNumber,
+      });
+      return { reason: null, decoded: null };
+    } catch (e: any) {
+      const decoded = this.decodeAndLogRevert(e, 'revert-reason');
+      if (decoded) {
+        return { reason: formatRevert(decoded), decoded };
+      }
+      return { reason: e?.shortMessage || e?.message || null, decoded: null };
+    }
+  }
+
+  // ─────────────────────────────────────────
+  // 메인 실행 (원장 기록 래퍼)
+  // ─────────────────────────────────────────
+  async payment(body: any, meta: PaymentMeta = {}) {
+    body = this.normalizeTransfer(body);
+    const { authority, transfer } = body ?? {};
+    // 가스리스 결제는 gaslessPayment가 인보이스 확인 후 만든 기록을 사용 (결제 1건 = 원장 1건)
+    if (!meta.gaslessTicket) this.assertInvoice(body);
+    const record = meta.gaslessTicket ? this.claimGaslessRecord(meta.gaslessTicket, transfer) : this.ledger.create({
+      kind: meta.kind ?? 'payment',
+      authority: this.isAddr(authority) ? authority : null,
+      from: transfer?.from,
+      token: transfer?.token,
+      to: transfer?.to,
+      amount: transfer?.amount,
+      nonce: transfer?.nonce,
+      deadline: transfer?.deadline,
+      productName: meta.productName,
+      clientIp: meta.clientIp,
+      chainId: Number(body?.domain?.chainId) || null,
+      invoiceId: body?.invoiceId ?? null,
+      refundOf: meta.refundOf ?? null,
+      unverified: true,
+    });
+
+    try {
+      const result = await this.executePayment(body, record.id, meta.clientIp, record.kind);
+      return { ...result, paymentId: record.id };
+    } catch (e: any) {
+      // 릴레이 전 거절/전송 실패
+      this.ledger.markFailed(record.id, e?.shortMessage || e?.message || String(e));
+      throw e;
+    }
+  }
+
+  // 가스리스 티켓의 원장 기록 (아직 릴레이 전이고 서명한 transfer가 기록과 같아야 함)
+  private claimGaslessRecord(ticket: string, transfer: any): PaymentRecord {
+    const paymentId = this.gaslessTickets.get(ticket);
+    this.gaslessTickets.delete(ticket);
+    const record = paymentId ? this.ledger.findById(paymentId) : null;
+    if (
+      !record ||
+      record.status !== 'received' ||
+      !this.eqAddr(record.fromAddress ?? undefined, transfer?.from) ||
+      !this.eqAddr(record.token ?? undefined, transfer?.token) ||
+      !this.eqAddr(record.toAddress ?? undefined, transfer?.to) ||
+      record.amount !== String(transfer?.amount)
+    ) {
+      throw new BadRequestException({
+        code: 'INVALID_GASLESS_TICKET',
+        message: '가스리스 결제 티켓이 없거나 결제 내용과 맞지 않습니다.',
+      });
+    }
+    return record;
+  }
+
   // ─────────────────────────────────────────
   // 메인 실행 (중요 부분만 수정)
   // ─────────────────────────────────────────
-  async payment(body: any) {
+  private async executePayment(body: any, paymentId: string, clientIp?: string, kind?: PaymentKind) {
+    const { txReq, delegateVersion, chainId } = await this.prepareRelay(body, { paymentId, clientIp, kind });
+    const migration = this.migrationHint(delegateVersion);
+
+    const { tx, relayer, nonce } = await this.relayers.send(txReq, { chainId });
+    this.logger.log(`[sent] hash=${tx.hash} relayer=${this.short(relayer)} nonce=${nonce}`);
+    this.ledger.markSubmitted(paymentId, tx.hash, { address: relayer, nonce });
+
+    // 60초 타임아웃 race
+    const timeoutMs = 60_000;
+    const result = await Promise.race([
+      waitForReceipt(tx),
+      new Promise((_, rej) => setTimeout(() => rej(new Error('WAIT_TIMEOUT')), timeoutMs)),
+    ]).catch((e) => e);
+
+    if (result instanceof Error) {
+      this.logger.warn(`[wait] ${result.message}; returning pending hash`);
+      this.ledger.markPending(paymentId, result.message);
+      return { status: 'pending', txHash: tx.hash, ...migration };
+    } else {
+      const rc = result as ethers.TransactionReceipt;
+      this.logger.log(`[mined] status=${rc.status} gasUsed=${rc.gasUsed?.toString()}`);
+      this.ledger.recordGasCost(paymentId, rc.gasUsed, rc.gasPrice);
+      if (rc.status === 1) {
+        const confirmed = this.ledger.markConfirmed(paymentId, rc.blockNumber);
+        // TxTracker가 먼저 확정했으면 영수증도 그쪽에서 인쇄
+        if (confirmed) await this.printConfirmedReceipt(confirmed);
+        return { status: 'ok', txHash: tx.hash, ...migration };
+      }
+      const { reason, decoded } = await this.readRevert(txReq, rc.blockNumber, chainId);
+      this.ledger.markReverted(paymentId, reason, rc.blockNumber);
+      return {
+        status: 'reverted',
+        txHash: tx.hash,
+        error: toRevertProblem(decoded, 'onchain', {
+          txHash: tx.hash,
+          fallbackDetail: reason ?? undefined,
+        }),
+        ...migration,
+      };
+    }
+  }
+
+  // 확정 전이를 반영한 결제의 영수증 인쇄 (인쇄 실패해도 결제 성공은 유지)
+  private async printConfirmedReceipt(record: PaymentRecord) {
+    if (!RECEIPT_KINDS.includes(record.kind)) return;
+    const original = record.refundOf ? this.ledger.findById(record.refundOf) : null;
+    try {
+      await this.printReceipt(confirmedReceipt(record, original?.txHash ?? null));
+    } catch (e: any) {
+      this.logger.warn(`[RECEIPT_PRINT_ERROR] ${e?.message || e}`);
+    }
+  }
+
+  // 이전 버전 위임으로 결제했으면 현재 버전으로 재위임 안내
+  private migrationHint(version: DelegateVersion) {
+    if (version.current) return {};
+    const current = this.delegates.current()!;
+    return {
+      migration: {
+        recommended: true,
+        fromVersion: version.version,
+        toVersion: current.version,
+        delegate: current.address,
+      },
+    };
+  }
+
+  /**
+   * transfer.token을 토큰 레지스트리로 확인하고 amount를 기본 단위로 환산.
+   * EIP-712 서명은 기본 단위 금액에 대한 것이어야 한다 (10진수는 입력 편의용).
+   */
+  private normalizeTransfer(body: any) {
+    const transfer = body?.transfer;
+    if (!transfer) return body;
+    const chainId = Number(body?.domain?.chainId) || undefined;
+    const { token, amount } = this.tokens.normalize(transfer.token, transfer.amount, chainId);
+    return {
+      ...body,
+      transfer: { ...transfer, token: token.address, amount: amount.toString() },
+    };
+  }
+
+  // invoiceId가 있으면 고정된 인보이스 금액 / 토큰 / 수취인으로 서명했는지 확인
+  private assertInvoice(body: any) {
+    const invoice = this.invoices.resolve(body?.invoiceId);
+    if (!invoice) return;
+    this.invoices.assertMatches(invoice, body.transfer ?? {});
+  }
+
+  // 결제 사전 점검 (검증 / 잔고 / 시뮬레이션 / 가스 추정까지만, 전송 안 함)
+  async preflightPayment(body: any, clientIp?: string) {
+    try {
+      body = this.normalizeTransfer(body);
+      this.assertInvoice(body);
+      const prepared = await this.prepareRelay(body, { clientIp, preflight: true });
+      const { txReq, supports1559, estimatedGas, effectiveGasPrice, estimatedCostWei, simulation } = prepared;
+      return {
+        willSucceed: simulation.status !== 'reverted',
+        error: simulation.revert,
+        simulation: simulation.status,
+        gasEstimate: estimatedGas?.toString() ?? null,
+        gasLimit: txReq.gasLimit?.toString() ?? null,
+        feeMode: supports1559 ? '1559' : 'legacy',
+        fees: {
+          maxFeePerGas: txReq.maxFeePerGas?.toString() ?? null,
+          maxPriorityFeePerGas: txReq.maxPriorityFeePerGas?.toString() ?? null,
+          gasPrice: txReq.gasPrice?.toString() ?? null,
+          effectiveGasPrice: effectiveGasPrice.toString(),
+        },
+        estimatedSponsorCostWei: estimatedCostWei.toString(),
+        estimatedSponsorCost: ethers.formatEther(estimatedCostWei),
+        delegateVersion: prepared.delegateVersion.version,
+        ...this.migrationHint(prepared.delegateVersion),
+      };
+    } catch (e: any) {
+      // 검증 / 정책 / 한도 거절은 실제 결제와 같은 응답 본문으로 설명
+      if (e instanceof HttpException) {
+        this.logger.warn(`[PREFLIGHT] 결제 불가: ${e.message}`);
+        return { willSucceed: false, error: e.getResponse() };
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * 릴레이 직전까지의 공통 처리: 검증 → 잔고 → 한도/정책 → 시뮬레이션 → 수수료 → 가스 추정 → 예산.
+   * preflight 모드에서는 시뮬레이션 리버트를 던지지 않고 결과로 돌려주며, 가스 가격 대기(hold)도 하지 않음.
+   */
+  private async prepareRelay(
+    body: any,
+    opts: { paymentId?: string; clientIp?: string; preflight?: boolean; kind?: PaymentKind },
+  ) {
+    const { paymentId, clientIp, preflight = false, kind } = opts;
+    // 환불: 가맹점 → 결제자 송금, 가스비는 보내는 가맹점의 예산에서 차감
+    const refund = kind === 'refund';
     const { authority, transfer, domain, types, signature712, authorization } = body ?? {};
     this.logger.debug(`[PAYMENT_DEBUG] Received payment request:`, {
       authority,
@@ -369,9 +623,24 @@ export class AppService implements OnModuleInit {
       throw new BadRequestException('transfer missing');
     }
 
-    // 체인 ID 검증
+    // 결제자 / 클라이언트 IP 속도 제한 (RPC 호출 전에 거절)
+    this.velocity.assertAllowed({
+      payer: authority,
+      clientIp,
+      amount: transfer.amount,
+      token: transfer.token,
+      chainId: Number(domain?.chainId) || undefined,
+      paymentId,
+    });
+
+    // 후원 정책 (토큰 / 수취인 / 금액 범위 / 시간대), 환불은 수취인이 결제자라 적용하지 않음
+    if (!refund) this.sponsorshipPolicy.assertEligible(transfer);
+
+    // 체인 선택: domain.chainId로 레지스트리에서 찾고 (미지원이면 UNSUPPORTED_CHAIN) RPC와 일치 확인
     this.logger.debug(`[PAYMENT_DEBUG] Chain ID 검증 시작: domain.chainId=${domain?.chainId}`);
-    const rpcId = Number(await this.provider.send('eth_chainId', []));
+    const chainId = Number(domain?.chainId);
+    const provider = this.chain.get(chainId).provider;
+    const rpcId = Number(await provider.send('eth_chainId', []));
     this.logger.debug(`[PAYMENT_DEBUG] RPC chainId=${rpcId}, domain.chainId=${Number(domain?.chainId)}`);
     if (rpcId !== Number(domain?.chainId)) {
       this.logger.error(`[PAYMENT_ERROR] Chain ID mismatch: rpc=${rpcId}, domain=${Number(domain?.chainId)}`);
@@ -410,32 +679,88 @@ export class AppService implements OnModuleInit {
       throw new BadRequestException({ code: 'BAD_712_SIGNER', recovered, authority });
     }
     this.logger.debug('[PAYMENT_DEBUG] 서명자 주소 검증 통과');
+    // 여기부터의 거절 / 실패는 결제자가 서명한 결제이므로 가맹점에 알림
+    if (paymentId) this.ledger.markVerified(paymentId);
+
+    // authorization이 없으면 기존 위임 재사용: EOA가 이미 지원 버전 위임 컨트랙트로 위임되어 있어야 함
+    const reuseDelegation = !authorization?.signature;
+    let delegateTarget: string | null = authorization?.address ?? null;
+    if (reuseDelegation) {
+      const delegation = await this.delegation.getDelegation(authority, chainId);
+      if (!delegation.supported) {
+        this.logger.error(
+          `[AUTHORIZATION_ERROR] Authorization missing and no reusable delegation: delegate=${delegation.delegate}`,
+        );
+        throw new BadRequestException({
+          code: 'AUTHORIZATION_REQUIRED',
+          message: 'authorization missing',
+          delegate: delegation.delegate,
+          expectedDelegate: delegation.expectedDelegate,
+        });
+      }
+      this.logger.log(`[DELEGATION] 기존 위임 재사용: ${authority} → ${delegation.delegate} (${delegation.version})`);
+      delegateTarget = delegation.delegate;
+    }
 
-    // ★ EOA transaction nonce 검증 (EIP-7702는 EOA nonce 사용)
-    this.logger.debug('[PAYMENT_DEBUG] Nonce 검증 시작 - EOA transaction nonce 사용');
-    const onchainEOANonce = await this.provider.getTransactionCount(authority, 'latest');
-    const tNonce = BigInt(transfer.nonce);
-    this.logger.debug(`[PAYMENT_DEBUG] EOA nonce=${onchainEOANonce}, transfer nonce=${tNonce}`);
-    if (BigInt(onchainEOANonce) !== tNonce) {
-      this.logger.error(`[PAYMENT_ERROR] EOA nonce 불일치: got=${tNonce}, expected=${onchainEOANonce}`);
+    // 위임 컨트랙트 버전: 지원 목록에 있어야 하고 EIP-712 domain이 그 버전과 같아야 함
+    const delegateVersion = this.delegates.findByAddress(delegateTarget, chainId);
+    if (!delegateVersion) {
+      this.logger.error(`[PAYMENT_ERROR] 지원하지 않는 위임 컨트랙트: ${delegateTarget}`);
       throw new BadRequestException({
-        code: 'BAD_NONCE',
-        got: tNonce.toString(),
-        expected: onchainEOANonce.toString(),
+        code: 'UNSUPPORTED_DELEGATE',
+        message: '지원하지 않는 위임 컨트랙트입니다.',
+        delegate: delegateTarget,
+        chainId,
+        supported: this.delegates.describe(),
+      });
+    }
+    if (
+      domain?.name !== delegateVersion.domain.name ||
+      String(domain?.version) !== delegateVersion.domain.version
+    ) {
+      this.logger.error(
+        `[PAYMENT_ERROR] domain 불일치: got=${domain?.name}/${domain?.version}, expected=${delegateVersion.domain.name}/${delegateVersion.domain.version}`,
+      );
+      throw new BadRequestException({
+        code: 'DOMAIN_VERSION_MISMATCH',
+        message: 'EIP-712 domain이 위임 컨트랙트 버전과 맞지 않습니다.',
+        delegateVersion: delegateVersion.version,
+        got: { name: domain?.name, version: domain?.version },
+        expected: delegateVersion.domain,
       });
     }
-    this.logger.debug('[PAYMENT_DEBUG] EOA nonce 검증 통과');
+
+    const tNonce = BigInt(transfer.nonce);
+    if (reuseDelegation) {
+      // 위임 재사용 시 EOA nonce는 변하지 않으므로 컨트랙트 nonce(slot0)로 검증
+      const contractNonce = await this.readNextNonce(authority, undefined, provider);
+      this.logger.debug(`[PAYMENT_DEBUG] contract nonce=${contractNonce}, transfer nonce=${tNonce}`);
+      if (contractNonce !== tNonce) {
+        this.logger.error(`[PAYMENT_ERROR] contract nonce 불일치: got=${tNonce}, expected=${contractNonce}`);
+        throw new BadRequestException({
+          code: 'BAD_NONCE',
+          got: tNonce.toString(),
+          expected: contractNonce.toString(),
+        });
+      }
+    } else {
+      // ★ EOA transaction nonce 검증 (EIP-7702는 EOA nonce 사용)
+      this.logger.debug('[PAYMENT_DEBUG] Nonce 검증 시작 - EOA transaction nonce 사용');
+      const onchainEOANonce = await provider.getTransactionCount(authority, 'latest');
+      this.logger.debug(`[PAYMENT_DEBUG] EOA nonce=${onchainEOANonce}, transfer nonce=${tNonce}`);
+      if (BigInt(onchainEOANonce) !== tNonce) {
+        this.logger.error(`[PAYMENT_ERROR] EOA nonce 불일치: got=${tNonce}, expected=${onchainEOANonce}`);
+        throw new BadRequestException({
+          code: 'BAD_NONCE',
+          got: tNonce.toString(),
+          expected: onchainEOANonce.toString(),
+        });
+      }
+      this.logger.debug('[PAYMENT_DEBUG] EOA nonce 검증 통과');
+    }
 
     // 잔고 체크 (best-effort)
-    const erc20 = new ethers.Contract(
-      transfer.token,
-      [
-        'function balanceOf(address) view returns (uint256)',
-        'function decimals() view returns (uint8)',
-        'function symbol() view returns (string)',
-      ],
-      this.provider
-    );
+    const erc20 = this.tokens.contract(transfer.token, chainId);
     let bal: bigint = 0n;
     try {
       const b = await erc20.balanceOf(authority);
@@ -451,7 +776,7 @@ export class AppService implements OnModuleInit {
     }
 
     // calldata
-    const calldata = this.delegateIface.encodeFunctionData('executeSignedTransfer', [
+    const calldata = delegateVersion.iface.encodeFunctionData('executeSignedTransfer', [
       {
         from: transfer.from,
         token: transfer.token,
@@ -493,28 +818,47 @@ export class AppService implements OnModuleInit {
       });
       this.logger.debug(`[AUTHORIZATION_SUCCESS] Authorization added to authList with signature:`, signatureString.substring(0, 20) + '...');
     } else {
-      this.logger.error('[AUTHORIZATION_ERROR] Authorization missing or no signature');
-      throw new BadRequestException('authorization missing');
+      this.logger.debug('[AUTHORIZATION_DEBUG] 기존 위임 사용, authorizationList 없이 일반 호출');
     }
 
+    // 위임 재사용이면 일반 트랜잭션 (type 4 / authorizationList 없음)
+    const delegationFields: any = authList.length
+      ? { type: 4, authorizationList: authList }
+      : {};
+
+    // 가스 가격 상한 (초과 시 거절 또는 대기)
+    await this.gasBudget.assertGasPriceWithinCeiling({ hold: !preflight, chainId });
+
     // simulate (선택): 실패해도 치명적 X
+    const simulation: {
+      status: 'ok' | 'reverted' | 'unsupported';
+      revert: RevertProblem | null;
+    } = { status: 'ok', revert: null };
     try {
-      await this.provider.call({
+      await provider.call({
         to: authority,
         data: calldata,
-        type: 4,
-        authorizationList: authList,
+        ...delegationFields,
       } as any);
       this.logger.log('[simulate] OK');
     } catch (e:any) {
-      this.logger.warn('[simulate] skipped (auth-call may be unsupported on this RPC)');
-      this.decodeAndLogRevert(e, 'simulate');
+      const decoded = this.decodeAndLogRevert(e, 'simulate');
+      // 알려진 컨트랙트 에러로 리버트되면 릴레이해도 실패하므로 여기서 거절
+      if (decoded) {
+        const problem = toRevertProblem(decoded, 'simulate');
+        if (!preflight) throw new PaymentRevertException(problem);
+        simulation.status = 'reverted';
+        simulation.revert = problem;
+      } else {
+        this.logger.warn('[simulate] skipped (auth-call may be unsupported on this RPC)');
+        simulation.status = 'unsupported';
+      }
     }
 
     // ── 수수료 설정: EIP-1559 우선, 미지원시 legacy
     const MIN_TIP = ethers.parseUnits('1', 'gwei'); // 1 gwei
-    const fee = await this.provider.getFeeData();
-    const latest = await this.provider.getBlock('latest');
+    const fee = await provider.getFeeData();
+    const latest = await provider.getBlock('latest');
 
     const base = latest?.baseFeePerGas
       ?? fee.gasPrice
@@ -533,9 +877,8 @@ export class AppService implements OnModuleInit {
     const txReq: any = {
       to: authority,
       data: calldata,
-      type: 4 as any,
-      authorizationList: authList,
-      customData: { authorizationList: authList },
+      ...delegationFields,
+      ...(authList.length ? { customData: { authorizationList: authList } } : {}),
     };
 
     if (supports1559) {
@@ -546,8 +889,9 @@ export class AppService implements OnModuleInit {
     }
 
     // (선택) gasLimit 추정(+20%)
+    let estimatedGas: bigint | null = null;
     try {
-      const est = await this.provider.estimateGas({
+      const est = await provider.estimateGas({
         to: txReq.to,
         data: txReq.data,
         type: txReq.type,
@@ -556,11 +900,19 @@ export class AppService implements OnModuleInit {
         maxFeePerGas: txReq.maxFeePerGas,
         gasPrice: txReq.gasPrice,
       } as any);
+      estimatedGas = est;
       txReq.gasLimit = (est * 120n) / 100n;
     } catch {
       // 추정 실패 시 노드 추정에 맡김
     }
 
+    // 가맹점(수취인)별 스폰서 예산: 이미 쓴 가스비 + 이번 예상 비용
+    const effectiveGasPrice: bigint = supports1559 ? base + tip : txReq.gasPrice;
+    const estimatedCostWei = txReq.gasLimit
+      ? BigInt(txReq.gasLimit) * effectiveGasPrice
+      : 0n;
+    this.gasBudget.assertWithinBudget(refund ? transfer.from : transfer.to, estimatedCostWei, { paymentId, chainId });
+
     this.logger.debug(
       `[send] mode=${supports1559 ? '1559' : 'legacy'}, ` +
       (supports1559
@@ -569,34 +921,44 @@ export class AppService implements OnModuleInit {
       ) + `, auths=${authList.length}`
     );
 
-    const tx = await this.relayer.sendTransaction(txReq);
-    this.logger.log(`[sent] hash=${tx.hash}`);
-
-    // 60초 타임아웃 race
-    const timeoutMs = 60_000;
-    const result = await Promise.race([
-      tx.wait(),
-      new Promise((_, rej) => setTimeout(() => rej(new Error('WAIT_TIMEOUT')), timeoutMs)),
-    ]).catch((e) => e);
-
-    if (result instanceof Error) {
-      this.logger.warn(`[wait] ${result.message}; returning pending hash`);
-      return { status: 'pending', txHash: tx.hash };
-    } else {
-      const rc = result as ethers.TransactionReceipt;
-      this.logger.log(`[mined] status=${rc.status} gasUsed=${rc.gasUsed?.toString()}`);
-      return { status: rc.status === 1 ? 'ok' : 'reverted', txHash: tx.hash };
-    }
+    return {
+      txReq,
+      supports1559,
+      estimatedGas,
+      effectiveGasPrice,
+      estimatedCostWei,
+      simulation,
+      delegateVersion,
+      chainId,
+    };
   }
 
   // 가스리스 결제 처리 (client.ts 실행)
-  async gaslessPayment(body: any) {
-    const { qrData } = body ?? {};
+  async gaslessPayment(body: any, clientIp?: string) {
+    let { qrData } = body ?? {};
 
     if (!qrData) {
       throw new BadRequestException('QR 데이터가 없습니다.');
     }
 
+    // 인보이스 결제: 고정된 토큰 금액 / 수취인 / 체인 사용
+    const invoice = this.invoices.resolve(qrData.invoiceId);
+    if (invoice) {
+      const terms = this.invoices.lockedTerms(invoice, {
+        token: qrData.token,
+        amount: qrData.amountWei,
+        to: qrData.to,
+      });
+      qrData = {
+        ...qrData,
+        token: terms.token,
+        to: terms.to,
+        amountWei: terms.amount,
+        chainId: terms.chainId,
+        productName: qrData.productName || invoice.productName,
+      };
+    }
+
     // 필수 필드 검증
     const requiredFields = [
       'token',
@@ -612,6 +974,27 @@ export class AppService implements OnModuleInit {
       }
     }
 
+    // 등록된 토큰만 허용, amountWei는 10진수 문자열도 허용 (기본 단위로 환산)
+    const normalized = this.tokens.normalize(qrData.token, qrData.amountWei, Number(qrData.chainId) || undefined);
+    qrData = {
+      ...qrData,
+      token: normalized.token.address,
+      amountWei: normalized.amount.toString(),
+    };
+
+    // 가맹점 서명 확인 (QR 수취인 / 금액 변조 방지)
+    this.merchantSignatures.verify(
+      qrData.merchantSignature,
+      {
+        chainId: qrData.chainId,
+        token: qrData.token,
+        recipient: qrData.to,
+        amount: qrData.amountWei,
+        invoiceId: invoice?.id,
+      },
+      { invoice: !!invoice },
+    );
+
     // 타임스탬프 검증 제거 - QR 코드는 상시 사용 가능해야 함
 
     this.logger.log(`[GASLESS_PAYMENT] QR 스캔 결제 요청 시작`);
@@ -627,6 +1010,26 @@ export class AppService implements OnModuleInit {
       throw new BadRequestException(`잘못된 개인키입니다: ${error.message}`);
     }
 
+    // 결제자는 client.ts의 /payment 재호출에서 검사, 여기서는 호출 IP만 검사
+    this.velocity.assertIpAllowed(clientIp);
+
+    // 원장 기록
+    const record = this.ledger.create({
+      kind: 'gasless',
+      authority: derivedAddress,
+      from: derivedAddress,
+      token: qrData.token,
+      to: qrData.to,
+      amount: qrData.amountWei,
+      productName: qrData.productName || '기타',
+      clientIp,
+      invoiceId: invoice?.id ?? null,
+      unverified: true,
+    });
+    // client.ts가 /payment로 다시 보내는 결제는 이 티켓으로 위 기록에 이어서 반영
+    const ticket = randomBytes(16).toString('hex');
+    this.gaslessTickets.set(ticket, record.id);
+
     // 환경변수 임시 설정
     const originalEnv = {
       TOKEN: process.env.TOKEN,
@@ -636,6 +1039,7 @@ export class AppService implements OnModuleInit {
       DELEGATE_ADDRESS: process.env.DELEGATE_ADDRESS,
       RPC_URL: process.env.RPC_URL,
       PRIVATE_KEY: process.env.PRIVATE_KEY,
+      GASLESS_TICKET: process.env.GASLESS_TICKET,
     };
 
     try {
@@ -647,6 +1051,7 @@ export class AppService implements OnModuleInit {
       process.env.DELEGATE_ADDRESS = qrData.delegateAddress; // QR 데이터의 delegate 컨트랙트 주소 사용
       process.env.RPC_URL = qrData.rpcUrl;
       process.env.PRIVATE_KEY = qrData.privateKey; // QR 스캔된 개인키 사용
+      process.env.GASLESS_TICKET = ticket;
 
       this.logger.log(`[GASLESS_PAYMENT] 환경변수 설정 완료:`);
       this.logger.log(`- TOKEN: ${process.env.TOKEN}`);
@@ -683,6 +1088,15 @@ export class AppService implements OnModuleInit {
         });
 
         clientProcess.on('close', (code) => {
+          this.gaslessTickets.delete(ticket);
+          // /payment까지 가지 못했으면 (릴레이 전) 실패 처리, 그 외 상태는 /payment가 원장에 반영
+          const settled = this.ledger.getById(record.id);
+          if (code === 0 && settled.status === 'received') {
+            this.logger.error(`[GASLESS_PAYMENT] client.ts가 결제를 전달하지 않음: ${record.id}`);
+            this.ledger.markFailed(record.id, 'client.ts가 /payment를 호출하지 않음');
+            reject(new BadRequestException('결제 처리 실패: 결제가 전달되지 않았습니다.'));
+            return;
+          }
           if (code === 0) {
             this.logger.log(`[GASLESS_PAYMENT] client.ts 실행 완료`);
 
@@ -724,32 +1138,21 @@ export class AppService implements OnModuleInit {
                 }
               }
 
-              // 3. txHash가 있으면 한 번만 영수증 인쇄
-              if (extractedTxHash) {
-                this.logger.log(`[SINGLE_RECEIPT_PRINT] 영수증 한 번만 인쇄 - txHash: ${extractedTxHash}`);
-                this.printReceipt({
-                  txHash: extractedTxHash,
-                  amount: qrData.amountWei,
-                  token: qrData.token,
-                  from: 'GASLESS_USER', // 가스리스 결제의 경우
-                  to: qrData.to,
-                  timestamp: new Date().toISOString(),
-                  status: 'success',
-                  productName: qrData.productName || '기타', // QR 데이터에서 상품명 사용, 없으면 기본값
-                }).catch(printError => {
-                  this.logger.warn(`[RECEIPT_PRINT_ERROR] ${printError.message}`);
-                  // 영수증 인쇄 실패해도 결제 성공은 유지
-                });
-              }
+              // 3. 원장 상태는 /payment가 이미 반영 (출력 파싱 결과로 바꾸지 않음), 해시는 원장 기준
+              extractedTxHash = settled.txHash ?? extractedTxHash;
 
-              // 4. 응답 반환
+              // 4. 영수증은 확정을 반영한 쪽(/payment 또는 TxTracker)에서 한 번만 인쇄
+              this.logger.log(`[SINGLE_RECEIPT_PRINT] 결제 상태=${settled.status} txHash=${extractedTxHash}`);
+
+              // 5. 응답 반환
               if (parsedResult && extractedTxHash) {
-                resolve(parsedResult);
+                resolve({ ...parsedResult, paymentId: record.id });
               } else {
                 const response = {
-                  status: 'ok',
-                  message: '결제가 성공적으로 처리되었습니다.',
+                  status: settled.status === 'confirmed' ? 'ok' : settled.status === 'reverted' ? 'reverted' : 'pending',
+                  message: '결제가 처리되었습니다.',
                   logs: stdout,
+                  paymentId: record.id,
                 };
                 
                 if (extractedTxHash) {
@@ -761,15 +1164,19 @@ export class AppService implements OnModuleInit {
             } catch (e) {
               this.logger.error(`[PARSE_EXCEPTION] ${e.message}`);
               resolve({
-                status: 'ok',
+                status: settled.status === 'confirmed' ? 'ok' : settled.status === 'reverted' ? 'reverted' : 'pending',
                 message: '결제가 처리되었습니다.',
                 logs: stdout,
+                paymentId: record.id,
               });
             }
           } else {
             this.logger.error(
               `[GASLESS_PAYMENT] client.ts 실행 실패, exit code: ${code}`,
             );
+            if (settled.status === 'received') {
+              this.ledger.markFailed(record.id, stderr || `exit code ${code}`);
+            }
             reject(
               new BadRequestException(
                 `결제 처리 실패: ${stderr || '알 수 없는 오류'}`,
@@ -782,6 +1189,10 @@ export class AppService implements OnModuleInit {
           this.logger.error(
             `[GASLESS_PAYMENT] client.ts 실행 에러: ${error.message}`,
           );
+          this.gaslessTickets.delete(ticket);
+          if (this.ledger.getById(record.id).status === 'received') {
+            this.ledger.markFailed(record.id, error.message);
+          }
           reject(new BadRequestException(`결제 처리 에러: ${error.message}`));
         });
       });
@@ -868,7 +1279,19 @@ export class AppService implements OnModuleInit {
   async scanPayment(body: any) {
     this.logger.log('[SCAN_PAYMENT] QR 스캔 결제 실행 시작');
     
-    const { type, sessionId, recipient, amount, token, productName } = body;
+    const { type, sessionId, productName } = body;
+    let { amount, token, recipient } = body;
+
+    // 온체인 송금 없는 시뮬레이션 결제라 인보이스를 결제 처리할 수 없음
+    if (body.invoiceId) {
+      throw new BadRequestException({
+        code: 'INVOICE_NOT_SUPPORTED',
+        message: 'QR 스캔 시뮬레이션 결제로는 인보이스를 결제할 수 없습니다.',
+        invoiceId: body.invoiceId,
+      });
+    }
+    // REQUIRE_INVOICE 설정이면 인보이스 없는 결제도 거절 (INVOICE_REQUIRED)
+    this.invoices.assertInvoiceNotRequired();
     
     this.logger.debug('[SCAN_PAYMENT] 요청 데이터:', {
       type,
@@ -895,6 +1318,17 @@ export class AppService implements OnModuleInit {
       throw new BadRequestException('필수 결제 정보가 누락되었습니다.');
     }
 
+    // 등록된 토큰만 허용, 금액은 기본 단위로 환산
+    const normalized = this.tokens.normalize(token, amount);
+    token = normalized.token.address;
+    amount = normalized.amount.toString();
+
+    // 가맹점 서명 확인 (QR 수취인 / 금액 변조 방지)
+    this.merchantSignatures.verify(
+      body.merchantSignature,
+      { token, recipient, amount },
+    );
+
     this.logger.log('[SCAN_PAYMENT] 세션 확인 시작:', sessionId);
     
     // 세션 확인
@@ -949,9 +1383,20 @@ export class AppService implements OnModuleInit {
       
       this.logger.debug('[SCAN_PAYMENT] 더미 트랜잭션 해시 생성:', txHash);
       
+      // 온체인 송금이 없으므로 received로만 남김 (더미 해시 / 확정 상태를 원장에 쓰지 않음)
+      const record = this.ledger.create({
+        kind: 'scan',
+        token,
+        to: recipient,
+        amount,
+        productName: productName || '기타',
+      });
+
       const timestamp = new Date().toISOString();
       const paymentResult = {
+        paymentId: record.id,
         status: 'success',
+        simulated: true,
         txHash,
         amount,
         token,
@@ -1025,8 +1470,24 @@ export class AppService implements OnModuleInit {
   }
 
   // 영수증 인쇄 요청 (대기열에 저장)
+  // 영수증 표시 금액: 토큰 금액(10진수 + 심볼), 인보이스 결제면 법정화폐 금액과 환율
+  private withDisplayAmounts(receipt: ReceiptData): ReceiptData {
+    const invoice = receipt.invoiceId ? this.invoices.find(receipt.invoiceId) : null;
+    const token = this.tokens.find(receipt.token, invoice?.chainId);
+    return {
+      ...receipt,
+      ...(token && /^\d+$/.test(String(receipt.amount))
+        ? { tokenAmount: this.tokens.format(receipt.amount, token), tokenSymbol: token.symbol }
+        : {}),
+      ...(invoice?.fiatAmount && invoice.fiatCurrency && invoice.rate
+        ? { fiatAmount: invoice.fiatAmount, fiatCurrency: invoice.fiatCurrency, rate: invoice.rate }
+        : {}),
+    };
+  }
+
   async printReceipt(receiptData: ReceiptData) {
     this.logger.log('[PRINT_RECEIPT] 영수증 인쇄 요청 시작');
+    receiptData = this.withDisplayAmounts(receiptData);
     this.logger.debug('[PRINT_RECEIPT] 영수증 데이터:', {
       txHash: receiptData.txHash,
       amount: receiptData.amount,
@@ -1052,6 +1513,7 @@ export class AppService implements OnModuleInit {
         createdAt,
         status: 'pending',
         attemptCount: 0,
+        merchantId: this.merchants.findByAddress(receiptData.kind === 'refund' ? receiptData.from : receiptData.to)?.id ?? null,
       };
       
       this.logger.debug('[PRINT_RECEIPT] 인쇄 아이템 생성 완료:', {
@@ -1062,6 +1524,12 @@ export class AppService implements OnModuleInit {
 
       // 대기열에 추가
       this.printQueue.push(printItem);
+      this.paymentEvents.publishStatus('receipt_queued', {
+        txHash: receiptData.txHash,
+        invoiceId: receiptData.invoiceId ?? null,
+        merchantId: printItem.merchantId,
+        data: { printId },
+      });
       
       this.logger.log('[PRINT_RECEIPT] 인쇄 대기열에 추가 완료:', {
         printId: printItem.id,
@@ -1089,25 +1557,32 @@ export class AppService implements OnModuleInit {
     }
   }
 
+  // 가맹점의 인쇄 작업만
+  private printQueueOf(merchantId: string) {
+    return this.printQueue.filter(item => item.merchantId === merchantId);
+  }
+
   // 인쇄 대기열 조회 (Android APP에서 폴링)
-  async getPrintQueue() {
+  async getPrintQueue(merchantId: string) {
     this.logger.debug('[GET_PRINT_QUEUE] 인쇄 대기열 조회 시작');
     
     try {
+      const queue = this.printQueueOf(merchantId);
       // pending 상태인 아이템들만 반환
-      const pendingItems = this.printQueue.filter(item => item.status === 'pending');
+      const pendingItems = queue.filter(item => item.status === 'pending');
       
       this.logger.debug('[GET_PRINT_QUEUE] 대기열 상태:', {
-        total: this.printQueue.length,
+        merchantId,
+        total: queue.length,
         pending: pendingItems.length,
-        printing: this.printQueue.filter(item => item.status === 'printing').length,
-        completed: this.printQueue.filter(item => item.status === 'completed').length,
-        failed: this.printQueue.filter(item => item.status === 'failed').length
+        printing: queue.filter(item => item.status === 'printing').length,
+        completed: queue.filter(item => item.status === 'completed').length,
+        failed: queue.filter(item => item.status === 'failed').length
       });
       
       const result = {
         status: 'success',
-        totalItems: this.printQueue.length,
+        totalItems: queue.length,
         pendingItems: pendingItems.length,
         items: pendingItems.map(item => ({
           id: item.id,
@@ -1118,6 +1593,10 @@ export class AppService implements OnModuleInit {
           toAddress: item.receiptData.to,
           timestamp: item.receiptData.timestamp,
           productName: item.receiptData.productName || '기타', // 상품명 추가
+          tokenAmount: item.receiptData.tokenAmount ?? null,
+          tokenSymbol: item.receiptData.tokenSymbol ?? null,
+          fiatAmount: item.receiptData.fiatAmount ?? null,
+          fiatCurrency: item.receiptData.fiatCurrency ?? null,
           createdAt: item.createdAt,
           attemptCount: item.attemptCount,
         })),
@@ -1140,7 +1619,7 @@ export class AppService implements OnModuleInit {
   }
 
   // 인쇄 작업 상태 업데이트
-  async updatePrintStatus(printId: string, status: 'printing' | 'completed' | 'failed', errorMessage?: string) {
+  async updatePrintStatus(printId: string, status: 'printing' | 'completed' | 'failed', errorMessage: string | undefined, merchantId: string) {
     this.logger.log('[UPDATE_PRINT_STATUS] 인쇄 상태 업데이트 시작:', {
       printId,
       newStatus: status,
@@ -1148,13 +1627,14 @@ export class AppService implements OnModuleInit {
     });
     
     try {
-      const itemIndex = this.printQueue.findIndex(item => item.id === printId);
+      // 다른 가맹점의 인쇄 작업은 없는 것으로 취급
+      const itemIndex = this.printQueue.findIndex(item => item.id === printId && item.merchantId === merchantId);
       
       if (itemIndex === -1) {
         this.logger.error('[UPDATE_PRINT_STATUS] 인쇄 작업을 찾을 수 없음:', {
           printId,
-          totalItems: this.printQueue.length,
-          existingIds: this.printQueue.map(item => item.id)
+          merchantId,
+          totalItems: this.printQueue.length
         });
         throw new Error(`인쇄 작업을 찾을 수 없습니다: ${printId}`);
       }
@@ -1182,6 +1662,29 @@ export class AppService implements OnModuleInit {
       });
 
       if (status === 'completed') {
+        // 가맹점 웹훅 / POS 화면으로 인쇄 완료 알림 (같은 작업의 중복 완료 보고는 무시)
+        if (oldStatus !== 'completed') {
+          this.paymentEvents.publishStatus('receipt_printed', {
+            txHash: item.receiptData.txHash,
+            invoiceId: item.receiptData.invoiceId ?? null,
+            merchantId: item.merchantId,
+            data: { printId },
+          });
+          this.paymentEvents.emit('receipt.printed', item.merchantId, {
+            printId,
+            txHash: item.receiptData.txHash,
+            from: item.receiptData.from,
+            to: item.receiptData.to,
+            token: item.receiptData.token,
+            amount: item.receiptData.amount,
+            tokenAmount: item.receiptData.tokenAmount ?? null,
+            tokenSymbol: item.receiptData.tokenSymbol ?? null,
+            productName: item.receiptData.productName ?? null,
+            invoiceId: item.receiptData.invoiceId ?? null,
+            printedAt: new Date().toISOString(),
+          });
+        }
+
         this.logger.log('[UPDATE_PRINT_STATUS] 완료된 인쇄 작업 자동 정리 예약 (30초 후):', printId);
         
         // 완료된 항목은 30초 후 대기열에서 제거
@@ -1245,15 +1748,16 @@ export class AppService implements OnModuleInit {
   }
 
   // 인쇄 대기열 통계
-  async getPrintQueueStats() {
+  async getPrintQueueStats(merchantId: string) {
     this.logger.debug('[GET_PRINT_STATS] 인쇄 대기열 통계 조회 시작');
     
+    const queue = this.printQueueOf(merchantId);
     const stats = {
-      total: this.printQueue.length,
-      pending: this.printQueue.filter(item => item.status === 'pending').length,
-      printing: this.printQueue.filter(item => item.status === 'printing').length,
-      completed: this.printQueue.filter(item => item.status === 'completed').length,
-      failed: this.printQueue.filter(item => item.status === 'failed').length,
+      total: queue.length,
+      pending: queue.filter(item => item.status === 'pending').length,
+      printing: queue.filter(item => item.status === 'printing').length,
+      completed: queue.filter(item => item.status === 'completed').length,
+      failed: queue.filter(item => item.status === 'failed').length,
     };
 
     const lastUpdate = new Date().toISOString();
@@ -1324,36 +1828,27 @@ export class AppService implements OnModuleInit {
 
       this.logger.log('[WALLET_BALANCE] ERC20 토큰 정보 조회 시작');
 
-      // ERC20 잔액 조회
-      const tokenAddress = process.env.TOKEN!;
+      // ERC20 잔액 조회 (기본 체인의 첫 번째 등록 토큰, 메타데이터는 레지스트리 값)
+      const tokenInfo = this.tokens.defaultToken();
       
-      if (!tokenAddress) {
-        this.logger.warn('[WALLET_BALANCE] TOKEN 환경변수가 설정되지 않음');
-        throw new Error('TOKEN 환경변수가 설정되지 않았습니다.');
+      if (!tokenInfo) {
+        this.logger.warn('[WALLET_BALANCE] 등록된 토큰이 없음');
+        throw new Error('등록된 토큰이 없습니다.');
       }
+      const tokenAddress = tokenInfo.address;
 
       this.logger.debug('[WALLET_BALANCE] 토큰 컨트랙트 설정:', {
         tokenAddress,
         rpcUrl: process.env.RPC_URL
       });
 
-      const erc20Abi = [
-        'function balanceOf(address) view returns (uint256)',
-        'function decimals() view returns (uint8)',
-        'function symbol() view returns (string)',
-        'function name() view returns (string)',
-      ] as const;
-
-      const token = new ethers.Contract(tokenAddress, erc20Abi, this.provider);
+      const token = this.tokens.contract(tokenAddress);
       
-      this.logger.log('[WALLET_BALANCE] 토큰 정보 병렬 조회 시작');
+      this.logger.log('[WALLET_BALANCE] 토큰 잔액 조회 시작');
       
-      const [rawBal, decimals, symbol, name] = await Promise.all([
-        token.balanceOf(address),
-        token.decimals(),
-        token.symbol(),
-        token.name(),
-      ]);
+      const rawBal = await token.balanceOf(address);
+      const { symbol, name } = tokenInfo;
+      const decimals = tokenInfo.decimals!;
 
       this.logger.debug('[WALLET_BALANCE] 토큰 정보 조회 완료:', {
         symbol,
@@ -1404,7 +1899,7 @@ export class AppService implements OnModuleInit {
         error: error.message,
         stack: error.stack,
         privateKeyPrefix: privateKey?.substring(0, 10) + '...',
-        tokenAddress: process.env.TOKEN,
+        tokenAddress: this.tokens.defaultToken()?.address,
         chainId: process.env.CHAIN_ID,
         rpcUrl: process.env.RPC_URL
       });
@@ -1427,23 +1922,86 @@ export class AppService implements OnModuleInit {
 
   // Transfer 데이터 준비
   async prepareTransferData(body: any) {
-    const { authority, token, to, amount } = body;
+    const { authority, delegateAddress } = body;
+    let { token, to, amount } = body;
+
+    // 인보이스 결제: 서명할 금액은 고정된 인보이스 금액
+    const invoice = this.invoices.resolve(body?.invoiceId);
+    if (invoice) {
+      ({ token, to, amount } = this.invoices.lockedTerms(invoice, { token, to, amount }));
+    }
+    const chainId = invoice?.chainId ?? (Number(body?.chainId) || this.chain.chainId);
     
     this.logger.log('[PREPARE_TRANSFER] Transfer 데이터 준비 시작');
     this.logger.debug('[PREPARE_TRANSFER] 요청 데이터:', { authority, token, to, amount });
+
+    // 서명할 금액 (10진수로 받았으면 기본 단위로 환산해 돌려줌)
+    const normalized =
+      token || amount != null ? this.tokens.normalize(token, amount, chainId) : null;
+    if (normalized) {
+      this.merchantSignatures.verify(
+        body?.merchantSignature,
+        {
+          chainId,
+          token: normalized.token.address,
+          recipient: to,
+          amount: normalized.amount,
+          invoiceId: invoice?.id,
+        },
+        { invoice: !!invoice },
+      );
+    }
     
     try {
-      // EOA transaction nonce 조회 (EIP-7702는 EOA nonce 사용)
-      this.logger.debug('[PREPARE_TRANSFER] EOA transaction nonce 조회 시작');
-      const eoaNonce = await this.provider.getTransactionCount(authority, 'latest');
-      this.logger.debug('[PREPARE_TRANSFER] EOA transaction nonce 조회 결과:', eoaNonce);
+      const provider = this.chain.get(chainId).provider;
+      // 이미 지원 버전으로 위임된 계정은 authorization 없이 위임을 재사용하므로 컨트랙트 nonce(slot0)로 검증됨
+      // (다른 위임 대상을 요청했으면 새 authorization을 서명하므로 EOA nonce)
+      const delegation = await this.delegation.getDelegation(authority, chainId);
+      const reuseDelegation =
+        delegation.supported && (!delegateAddress || this.eqAddr(delegateAddress, delegation.delegate ?? undefined));
+      let nonce: bigint;
+      if (reuseDelegation) {
+        nonce = await this.readNextNonce(authority, undefined, provider);
+        this.logger.debug('[PREPARE_TRANSFER] 위임 재사용, contract nonce 조회 결과:', nonce);
+      } else {
+        // EOA transaction nonce 조회 (새 authorization과 함께 보내는 결제는 EOA nonce 사용)
+        nonce = BigInt(await provider.getTransactionCount(authority, 'latest'));
+        this.logger.debug('[PREPARE_TRANSFER] EOA transaction nonce 조회 결과:', nonce);
+      }
       
       // deadline 설정 (5분 후)
       const deadline = Math.floor(Date.now() / 1000) + 300;
       
+      // 서명할 EIP-712 domain (재사용하는 위임 버전 또는 위임 대상 버전, 없으면 현재 버전)
+      const version =
+        this.delegates.findByAddress(reuseDelegation ? delegation.delegate : delegateAddress, chainId) ??
+        this.delegates.current();
+
       const result = {
-        nonce: eoaNonce.toString(),
-        deadline: deadline.toString()
+        nonce: nonce.toString(),
+        nonceSource: reuseDelegation ? 'contract' : 'eoa',
+        reuseDelegation,
+        deadline: deadline.toString(),
+        domain: version?.domain ?? null,
+        delegateVersion: version?.version ?? null,
+        ...(normalized
+          ? {
+              token: normalized.token.address,
+              amount: normalized.amount.toString(),
+              decimals: normalized.token.decimals,
+              symbol: normalized.token.symbol,
+            }
+          : {}),
+        ...(invoice
+          ? {
+              to: invoice.recipient,
+              invoiceId: invoice.id,
+              fiatAmount: invoice.fiatAmount,
+              fiatCurrency: invoice.fiatCurrency,
+              rate: invoice.rate,
+              expiresAt: invoice.expiresAt,
+            }
+          : {}),
       };
       
       this.logger.debug('[PREPARE_TRANSFER] Transfer 데이터 준비 완료:', result);
@@ -1456,7 +2014,7 @@ export class AppService implements OnModuleInit {
   }
 
   // 서명된 결제 처리
-  async processSignedPayment(body: any) {
+  async processSignedPayment(body: any, clientIp?: string) {
     const { authority, authorization, transfer, publicKey, productName, product } = body;
     
     this.logger.log('[SIGNED_PAYMENT] 서명된 결제 처리 시작');
@@ -1506,6 +2064,21 @@ export class AppService implements OnModuleInit {
         signature712: transfer.signature?.substring(0, 20) + '...'
       });
 
+      // 가맹점 서명 확인 (서명한 transfer의 수취인 / 금액 기준)
+      const chainId = Number(transfer.domain?.chainId) || undefined;
+      const signedTransfer = this.tokens.normalize(transfer.transfer?.token, transfer.transfer?.amount, chainId);
+      this.merchantSignatures.verify(
+        body.merchantSignature,
+        {
+          chainId,
+          token: signedTransfer.token.address,
+          recipient: transfer.transfer?.to,
+          amount: signedTransfer.amount,
+          invoiceId: body.invoiceId,
+        },
+        { invoice: !!body.invoiceId },
+      );
+
       // 기존 payment 로직 재사용 (이미 서명된 데이터 사용)
       const paymentResult = await this.payment({
         authority,
@@ -1513,41 +2086,11 @@ export class AppService implements OnModuleInit {
         domain: transfer.domain,
         types: transfer.types,
         signature712: transfer.signature,
-        authorization: authorization
-      });
-      
-      // 결제 성공 시 영수증 인쇄 요청
-      if (paymentResult.status === 'ok') {
-        this.logger.log('[SIGNED_PAYMENT] 결제 성공, 영수증 인쇄 요청 시작');
-        
-        try {
-          // 결제 데이터에서 금액과 토큰 정보 추출
-          const amount = transfer.transfer?.amount || '0';
-          const token = transfer.transfer?.token || 'UNKNOWN';
-          const toAddress = transfer.transfer?.to || 'UNKNOWN';
-          
-          const receiptData = {
-            txHash: paymentResult.txHash,
-            amount: amount,
-            token: token,
-            from: authority, // 결제자 주소
-            to: toAddress, // 수취인 주소  
-            timestamp: new Date().toISOString(),
-            status: 'success',
-            productName: productName || product || '기타상품', // 상품명
-          };
-          
-          await this.printReceipt(receiptData);
-          this.logger.log('[SIGNED_PAYMENT] 영수증 인쇄 요청 완료');
-        } catch (printError: any) {
-          this.logger.warn('[SIGNED_PAYMENT] 영수증 인쇄 실패:', {
-            error: printError.message,
-            txHash: paymentResult.txHash
-          });
-          // 영수증 인쇄 실패해도 결제 성공은 유지
-        }
-      }
-      
+        authorization: authorization,
+        invoiceId: body.invoiceId,
+      }, { kind: 'signed', productName: productName || product || '기타상품', clientIp });
+      // 영수증은 확정을 반영한 쪽(executePayment 또는 TxTracker)에서 인쇄
+
       // 상품명 정보를 응답에 추가
       if (productName || product) {
         this.logger.log(`[PRODUCT_NAME_TRACKING] 응답에 상품명 추가: ${productName || product}`);
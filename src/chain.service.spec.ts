@@ -0,0 +1,126 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChainService } from './chain.service';
+import { RelayerPoolService } from './relayer-pool.service';
+
+describe('ChainService', () => {
+  const BSC_KEY = '0x' + '11'.repeat(32);
+  const AMOY_KEY = '0x' + '22'.repeat(32);
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chains-'));
+    const file = path.join(dir, 'chains.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        defaultChainId: 97,
+        chains: [
+          {
+            chainId: 97,
+            name: 'bsc-testnet',
+            rpcUrls: ['http://127.0.0.1:1'],
+            delegateAddress: '0x' + '01'.repeat(20),
+            tokens: [{ address: '0x' + '10'.repeat(20), symbol: 'USDT' }],
+            explorerUrl: 'https://testnet.bscscan.com/',
+          },
+          {
+            chainId: 80002,
+            name: 'polygon-amoy',
+            rpcUrls: ['http://127.0.0.1:2'],
+            delegateAddress: null,
+            relayerKeysEnv: 'AMOY_SPONSOR_PKS',
+            tokens: [],
+            explorerUrl: null,
+          },
+          {
+            chainId: 1,
+            name: 'ethereum',
+            rpcUrls: ['http://127.0.0.1:3'],
+            delegateAddress: null,
+            tokens: [],
+            explorerUrl: null,
+            enabled: false,
+          },
+        ],
+      }),
+    );
+    process.env.CHAINS_CONFIG_PATH = file;
+    process.env.SPONSOR_PKS = BSC_KEY;
+    process.env.AMOY_SPONSOR_PKS = AMOY_KEY;
+  });
+
+  afterEach(() => {
+    delete process.env.CHAINS_CONFIG_PATH;
+    delete process.env.SPONSOR_PKS;
+    delete process.env.AMOY_SPONSOR_PKS;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lists enabled chains and rejects unknown chain ids', () => {
+    const chain = new ChainService();
+
+    expect(chain.chainId).toBe(97);
+    expect(chain.has(1)).toBe(false);
+    expect(chain.describe()).toEqual([
+      expect.objectContaining({
+        chainId: 97,
+        paymentRail: 'eip7702',
+        isDefault: true,
+      }),
+      expect.objectContaining({
+        chainId: 80002,
+        paymentRail: 'fallback',
+        isDefault: false,
+      }),
+    ]);
+    expect(chain.explorerTxUrl(97, '0xabc')).toBe(
+      'https://testnet.bscscan.com/tx/0xabc',
+    );
+    expect(() => chain.get(1)).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({
+          code: 'UNSUPPORTED_CHAIN',
+          supported: [97, 80002],
+        }),
+      }),
+    );
+  });
+
+  it('routes relayed transactions to the wallets of the requested chain', async () => {
+    const chain = new ChainService();
+    for (const { provider } of chain.list()) {
+      jest.spyOn(provider, 'getTransactionCount').mockResolvedValue(0);
+    }
+    const sendSpy = jest
+      .spyOn(ethers.Wallet.prototype, 'sendTransaction')
+      .mockImplementation(function (this: ethers.Wallet, tx) {
+        return Promise.resolve({
+          hash: `${this.address}:${tx.nonce}`,
+          nonce: tx.nonce,
+        } as unknown as ethers.TransactionResponse);
+      });
+
+    try {
+      const pool = new RelayerPoolService(chain);
+      const amoy = await pool.send(
+        { to: ethers.ZeroAddress },
+        { chainId: 80002 },
+      );
+      const bsc = await pool.send({ to: ethers.ZeroAddress });
+
+      expect(amoy).toMatchObject({
+        chainId: 80002,
+        relayer: new ethers.Wallet(AMOY_KEY).address,
+      });
+      expect(bsc).toMatchObject({
+        chainId: 97,
+        relayer: new ethers.Wallet(BSC_KEY).address,
+      });
+    } finally {
+      sendSpy.mockRestore();
+    }
+  });
+});
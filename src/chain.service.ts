@@ -0,0 +1,256 @@
+// chain.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// 비어 있는 값은 시작 시 토큰 컨트랙트에서 읽음 (TokenRegistryService)
+export interface ChainTokenConfig {
+  address: string;
+  symbol?: string;
+  decimals?: number;
+  // 표시 이름
+  name?: string;
+  enabled?: boolean;
+  // 스폰서 결제 최소 금액 (VELOCITY_MIN_AMOUNT 대신 적용, 형식은 같음)
+  minSponsoredAmount?: string;
+}
+
+// 체인별 설정 (chains.json 한 항목)
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  // 앞에서부터 시도, 시작 시 chainId가 맞는 첫 URL 사용
+  rpcUrls: string[];
+  delegateAddress: string | null;
+  // 릴레이어 개인키(콤마 구분)가 들어 있는 환경변수 이름 (기본 SPONSOR_PKS / SPONSOR_PK)
+  // .env 화이트리스트(main.ts KEYS) 밖이므로 프로세스 환경변수로 설정
+  relayerKeysEnv?: string;
+  tokens: ChainTokenConfig[];
+  explorerUrl: string | null;
+  nativeSymbol?: string;
+  // 지정하지 않으면 EIP7702_UNSUPPORTED_CHAIN_IDS 기준
+  paymentRail?: 'eip7702' | 'fallback';
+  // 스폰서 가스 가격 상한 (gwei), 없으면 기본 체인만 GAS_PRICE_CEILING_GWEI
+  gasPriceCeilingGwei?: string | number;
+  // 가맹점별 예산이 없을 때의 기본 예산 (이 체인의 네이티브 코인 wei), 없으면 기본 체인만 GAS_BUDGET_*_WEI
+  gasBudgetDailyWei?: string;
+  gasBudgetMonthlyWei?: string;
+  enabled?: boolean;
+}
+
+interface ChainsFile {
+  defaultChainId?: number;
+  chains: ChainConfig[];
+}
+
+export interface ChainContext {
+  config: ChainConfig;
+  provider: ethers.JsonRpcProvider;
+  rpcUrl: string;
+}
+
+// 알려진 EIP-7702 미지원 네트워크 (BSC는 지원한다고 하니 제외)
+export const EIP7702_UNSUPPORTED_CHAIN_IDS = [
+  // 56,     // BSC Mainnet - 사용자가 지원한다고 확인
+  // 97,     // BSC Testnet - 사용자가 지원한다고 확인
+  137, // Polygon Mainnet
+  80001, // Polygon Mumbai (deprecated)
+  80002, // Polygon Amoy
+  43114, // Avalanche C-Chain
+  43113, // Avalanche Fuji Testnet
+  250, // Fantom Opera
+  4002, // Fantom Testnet
+  25, // Cronos Mainnet
+  338, // Cronos Testnet
+  1284, // Moonbeam
+  1287, // Moonriver
+  42161, // Arbitrum One
+  421613, // Arbitrum Goerli (deprecated)
+  421614, // Arbitrum Sepolia
+  10, // Optimism
+  420, // Optimism Goerli (deprecated)
+  11155420, // Optimism Sepolia
+];
+
+const KNOWN_NAMES: Record<number, string> = {
+  1: 'ethereum',
+  56: 'bsc',
+  97: 'bsc-testnet',
+  137: 'polygon',
+  8453: 'base',
+  84532: 'base-sepolia',
+  11155111: 'sepolia',
+};
+
+/**
+ * 체인 레지스트리 (RPC provider를 한 곳에서 관리).
+ * CHAINS_CONFIG_PATH 파일이 없으면 RPC_URL / CHAIN_ID 환경변수로 체인 하나만 구성.
+ * provider / chainId는 기본 체인 (단일 체인 코드 호환).
+ * RPC 장애 시 provider가 교체될 수 있으므로 provider 객체를 오래 보관하지 말 것.
+ */
+@Injectable()
+export class ChainService implements OnModuleInit {
+  private readonly logger = new Logger('ChainService');
+
+  readonly chainId: number;
+
+  private readonly chains = new Map<number, ChainContext>();
+
+  constructor() {
+    const configPath = path.resolve(
+      process.env.CHAINS_CONFIG_PATH || 'config/chains.json',
+    );
+    const file = fs.existsSync(configPath)
+      ? (JSON.parse(fs.readFileSync(configPath, 'utf8')) as ChainsFile)
+      : this.fromEnv();
+
+    for (const config of file.chains) {
+      if (config.enabled === false) continue;
+      if (!config.rpcUrls?.length) {
+        throw new Error(`rpcUrls missing for chain ${config.chainId}`);
+      }
+      this.chains.set(config.chainId, this.connect(config, config.rpcUrls[0]));
+    }
+
+    const defaultChainId =
+      file.defaultChainId ??
+      (Number(process.env.CHAIN_ID) || file.chains[0]?.chainId);
+    if (!this.chains.has(defaultChainId)) {
+      throw new Error(`default chain ${defaultChainId} not enabled`);
+    }
+    this.chainId = defaultChainId;
+  }
+
+  get provider(): ethers.JsonRpcProvider {
+    return this.get(this.chainId).provider;
+  }
+
+  // 설정 파일이 없을 때: 기존 단일 체인 환경변수
+  private fromEnv(): ChainsFile {
+    const RPC_URL = process.env.RPC_URL!;
+    const CHAIN_ID = Number(process.env.CHAIN_ID!);
+    if (!RPC_URL) throw new Error('RPC_URL missing');
+    if (!CHAIN_ID) throw new Error('CHAIN_ID missing');
+
+    return {
+      defaultChainId: CHAIN_ID,
+      chains: [
+        {
+          chainId: CHAIN_ID,
+          name: KNOWN_NAMES[CHAIN_ID] ?? 'custom',
+          rpcUrls: [RPC_URL],
+          delegateAddress: process.env.DELEGATE_ADDRESS || null,
+          tokens: process.env.TOKEN ? [{ address: process.env.TOKEN }] : [],
+          explorerUrl: process.env.EXPLORER_URL || null,
+        },
+      ],
+    };
+  }
+
+  private connect(config: ChainConfig, rpcUrl: string): ChainContext {
+    const staticNet = {
+      name: config.name || KNOWN_NAMES[config.chainId] || 'custom',
+      chainId: config.chainId,
+    };
+    return {
+      config,
+      rpcUrl,
+      provider: new ethers.JsonRpcProvider(rpcUrl, staticNet),
+    };
+  }
+
+  async onModuleInit() {
+    for (const ctx of [...this.chains.values()]) {
+      const { config } = ctx;
+      let healthy: ChainContext | null = null;
+      for (const url of config.rpcUrls) {
+        const candidate = url === ctx.rpcUrl ? ctx : this.connect(config, url);
+        try {
+          const rpcId = Number(
+            await candidate.provider.send('eth_chainId', []),
+          );
+          if (rpcId === config.chainId) {
+            healthy = candidate;
+            break;
+          }
+          this.logger.error(
+            `[RPC] ${url} chainId(${rpcId}) != ${config.chainId}`,
+          );
+        } catch (e: any) {
+          this.logger.warn(`[RPC] ${url} 연결 실패: ${e?.message || e}`);
+        }
+      }
+
+      if (!healthy) {
+        // 기본 체인은 기존처럼 기동 실패, 그 외 체인은 비활성화
+        if (config.chainId === this.chainId) {
+          throw new Error(
+            `RPC chainId mismatch or unreachable (${config.chainId})`,
+          );
+        }
+        this.logger.error(`[RPC] chain ${config.chainId} 사용 불가, 비활성화`);
+        this.chains.delete(config.chainId);
+        continue;
+      }
+      if (healthy !== ctx) this.chains.set(config.chainId, healthy);
+      this.logger.log(`[RPC_OK] chainId=${config.chainId} (${healthy.rpcUrl})`);
+    }
+  }
+
+  has(chainId: number) {
+    return this.chains.has(Number(chainId));
+  }
+
+  // 결제 요청의 chainId로 체인 선택 (미지원이면 400)
+  get(chainId: number | string = this.chainId): ChainContext {
+    const ctx = this.chains.get(Number(chainId));
+    if (!ctx) {
+      throw new BadRequestException({
+        code: 'UNSUPPORTED_CHAIN',
+        message: `지원하지 않는 체인입니다: ${chainId}`,
+        chainId: String(chainId),
+        supported: [...this.chains.keys()],
+      });
+    }
+    return ctx;
+  }
+
+  list(): ChainContext[] {
+    return [...this.chains.values()];
+  }
+
+  // 설정값 우선, 없으면 알려진 미지원 목록으로 판단
+  railOf(chainId: number): 'eip7702' | 'fallback' {
+    const { config } = this.get(chainId);
+    if (config.paymentRail) return config.paymentRail;
+    return EIP7702_UNSUPPORTED_CHAIN_IDS.includes(config.chainId)
+      ? 'fallback'
+      : 'eip7702';
+  }
+
+  explorerTxUrl(chainId: number, txHash: string) {
+    const base = this.chains.get(Number(chainId))?.config.explorerUrl;
+    return base ? `${base.replace(/\/$/, '')}/tx/${txHash}` : null;
+  }
+
+  // 클라이언트용 (RPC URL 외 비밀값 없음)
+  describe() {
+    return this.list().map(({ config, rpcUrl }) => ({
+      chainId: config.chainId,
+      name: config.name,
+      rpcUrl,
+      delegateAddress: config.delegateAddress,
+      tokens: config.tokens,
+      explorerUrl: config.explorerUrl,
+      nativeSymbol: config.nativeSymbol ?? null,
+      paymentRail: this.railOf(config.chainId),
+      isDefault: config.chainId === this.chainId,
+    }));
+  }
+}
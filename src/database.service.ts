@@ -0,0 +1,49 @@
+// database.service.ts
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// SQLite 연결을 한 곳에서 관리 (테이블 생성은 각 서비스가 담당)
+@Injectable()
+export class DatabaseService implements OnModuleDestroy {
+  private readonly logger = new Logger('DatabaseService');
+
+  readonly db: Database.Database;
+
+  constructor() {
+    const dbPath =
+      process.env.DB_PATH || path.resolve(process.cwd(), 'data', 'payments.db');
+
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.logger.log(`[DB] SQLite 연결 완료: ${dbPath}`);
+  }
+
+  // 기존 DB에 누락된 컬럼 추가 (CREATE TABLE IF NOT EXISTS 이후 호출)
+  ensureColumns(table: string, columns: Record<string, string>) {
+    const existing = new Set(
+      (
+        this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+          name: string;
+        }>
+      ).map((c) => c.name),
+    );
+    for (const [name, type] of Object.entries(columns)) {
+      if (!existing.has(name)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+        this.logger.log(`[DB] 컬럼 추가: ${table}.${name}`);
+      }
+    }
+  }
+
+  onModuleDestroy() {
+    this.db.close();
+    this.logger.log('[DB] SQLite 연결 종료');
+  }
+}
@@ -0,0 +1,209 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChainService } from './chain.service';
+import { DatabaseService } from './database.service';
+import {
+  DEFAULT_DELEGATE_ABI,
+  DelegateRegistryService,
+} from './delegate-registry.service';
+import { DelegationService } from './delegation.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+
+describe('DelegateRegistryService', () => {
+  const V1 = ethers.getAddress('0x' + '8d'.repeat(20));
+  const V2 = ethers.getAddress('0x' + '5a'.repeat(20));
+  const V1_AMOY = ethers.getAddress('0x' + '9e'.repeat(20));
+  const V2_AMOY = ethers.getAddress('0x' + 'af'.repeat(20));
+  const V2_ABI = [
+    ...DEFAULT_DELEGATE_ABI,
+    'function version() view returns (string)',
+  ];
+
+  const provider = { getCode: jest.fn() };
+  // 기본 체인 97 + 위임 주소가 체인 설정에만 있는 80002
+  const chains = [
+    { provider, config: { chainId: 97, delegateAddress: V2 } },
+    { provider, config: { chainId: 80002, delegateAddress: V2_AMOY } },
+  ];
+
+  let module: TestingModule;
+  let registry: DelegateRegistryService;
+
+  const build = async () => {
+    module = await Test.createTestingModule({
+      providers: [
+        DatabaseService,
+        PaymentLedgerService,
+        DelegateRegistryService,
+        DelegationService,
+        {
+          provide: ChainService,
+          useValue: {
+            provider,
+            chainId: 97,
+            get: () => ({ provider }),
+            list: () => chains,
+          },
+        },
+      ],
+    }).compile();
+    registry = module.get(DelegateRegistryService);
+  };
+
+  const writeVersions = (file: unknown) => {
+    const target = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'delegates-')),
+      'delegate-versions.json',
+    );
+    fs.writeFileSync(target, JSON.stringify(file));
+    process.env.DELEGATE_VERSIONS_PATH = target;
+  };
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    jest.clearAllMocks();
+    writeVersions({
+      current: 'v2',
+      versions: [
+        { version: 'v1', address: V1, addresses: { '80002': V1_AMOY } },
+        {
+          version: 'v2',
+          address: V2,
+          domain: { name: 'DelegatedTransfer', version: '2' },
+          abi: V2_ABI,
+        },
+      ],
+    });
+    await build();
+  });
+
+  afterEach(async () => {
+    delete process.env.DELEGATE_ADDRESS;
+    delete process.env.DELEGATE_VERSIONS_PATH;
+    await module.close();
+  });
+
+  it('loads the version file with domains and ABIs per version', () => {
+    expect(registry.list().map((v) => [v.version, v.current])).toEqual([
+      ['v1', false],
+      ['v2', true],
+    ]);
+    expect(registry.current()).toMatchObject({
+      version: 'v2',
+      address: V2,
+      domain: { name: 'DelegatedTransfer', version: '2' },
+      abi: V2_ABI,
+    });
+    // domain / abi가 없는 버전은 v1 기본값
+    expect(registry.list()[0]).toMatchObject({
+      domain: { name: 'DelegatedTransfer', version: '1' },
+      abi: DEFAULT_DELEGATE_ABI,
+    });
+    expect(registry.current()!.iface.getFunction('version')).not.toBeNull();
+
+    // 응답용 목록에는 Interface / ABI가 없음
+    expect(registry.describe()[1]).toEqual({
+      version: 'v2',
+      address: V2,
+      addresses: { 97: V2, 80002: V2_AMOY },
+      domain: { name: 'DelegatedTransfer', version: '2' },
+      current: true,
+    });
+  });
+
+  it('finds versions by their address on each chain', () => {
+    const [v1, v2] = registry.list();
+
+    expect(registry.findByAddress(V1.toLowerCase())?.version).toBe('v1');
+    expect(registry.findByAddress(V1_AMOY, 80002)?.version).toBe('v1');
+    // 현재 버전은 체인 설정의 delegateAddress를 사용
+    expect(registry.findByAddress(V2_AMOY, 80002)?.version).toBe('v2');
+    // 다른 체인의 주소로는 찾지 않음
+    expect(registry.findByAddress(V1_AMOY)).toBeNull();
+    expect(registry.findByAddress(V1, 80002)).toBeNull();
+    expect(registry.findByAddress('not-an-address')).toBeNull();
+    expect(registry.findByAddress(null)).toBeNull();
+
+    expect(registry.addressOn(v1, 80002)).toBe(V1_AMOY);
+    expect(registry.addressOn(v2)).toBe(V2);
+    expect(registry.addressOn(v2, 1)).toBeNull();
+  });
+
+  it('falls back to DELEGATE_ADDRESS and rejects an unknown current version', async () => {
+    process.env.DELEGATE_VERSIONS_PATH = path.join(
+      os.tmpdir(),
+      'delegate-versions.missing.json',
+    );
+    process.env.DELEGATE_ADDRESS = V1;
+    await module.close();
+    await build();
+
+    expect(registry.describe()).toEqual([
+      {
+        version: 'v1',
+        address: V1,
+        addresses: { 97: V1, 80002: V2_AMOY },
+        domain: { name: 'DelegatedTransfer', version: '1' },
+        current: true,
+      },
+    ]);
+
+    delete process.env.DELEGATE_ADDRESS;
+    await module.close();
+    await build();
+    expect(registry.list()).toEqual([]);
+    expect(registry.current()).toBeNull();
+
+    writeVersions({
+      current: 'v3',
+      versions: [{ version: 'v1', address: V1 }],
+    });
+    expect(() => new DelegateRegistryService(module.get(ChainService))).toThrow(
+      'current delegate version not found: v3',
+    );
+  });
+
+  it('counts users per version for the migration view', async () => {
+    const ledger = module.get(PaymentLedgerService);
+    const delegation = module.get(DelegationService);
+    const code = (delegate: string) => '0xef0100' + delegate.slice(2);
+    // 결제자별 위임 대상: v1 2명, v2 1명, 미지원 1명, 미위임 1명
+    const payers: Record<string, string> = {
+      ['0x' + '11'.repeat(20)]: code(V1),
+      ['0x' + '12'.repeat(20)]: code(V1),
+      ['0x' + '13'.repeat(20)]: code(V2),
+      ['0x' + '14'.repeat(20)]: code('0x' + '6b'.repeat(20)),
+      ['0x' + '15'.repeat(20)]: '0x',
+    };
+    for (const authority of Object.keys(payers)) {
+      ledger.create({ kind: 'signed', authority });
+    }
+    provider.getCode.mockImplementation((address: string) =>
+      Promise.resolve(payers[address.toLowerCase()]),
+    );
+
+    // 관측값이 없으면 모두 0
+    await expect(delegation.countByVersion()).resolves.toMatchObject({
+      unsupported: 0,
+      undelegated: 0,
+    });
+
+    const counts = await delegation.countByVersion({ refresh: true });
+    expect(counts.versions.map((v) => [v.version, v.current, v.users])).toEqual(
+      [
+        ['v1', false, 2],
+        ['v2', true, 1],
+      ],
+    );
+    expect(counts).toMatchObject({ unsupported: 1, undelegated: 1 });
+
+    // v1 사용자 한 명이 현재 버전으로 재위임
+    payers['0x' + '11'.repeat(20)] = code(V2);
+    await delegation.getDelegation('0x' + '11'.repeat(20));
+    const after = await delegation.countByVersion();
+    expect(after.versions.map((v) => v.users)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,149 @@
+// delegate-registry.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { ethers, Interface } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChainService } from './chain.service';
+
+// v1 DelegatedTransfer (버전 파일에 abi가 없으면 사용)
+export const DEFAULT_DELEGATE_ABI = [
+  'function executeSignedTransfer((address from,address token,address to,uint256 amount,uint256 nonce,uint256 deadline) t, bytes sig) external',
+  'function nonce() view returns (uint256)', // 뷰 호출용
+];
+
+const DEFAULT_DOMAIN = { name: 'DelegatedTransfer', version: '1' };
+
+export interface DelegateVersion {
+  version: string;
+  // 기본 체인 주소
+  address: string;
+  // 체인별 배포 주소 (chainId → address)
+  addresses: Record<number, string>;
+  // EIP-712 domain name / version (chainId, verifyingContract는 결제마다 다름)
+  domain: { name: string; version: string };
+  abi: string[];
+  iface: Interface;
+  current: boolean;
+}
+
+// 버전 파일 형식
+interface DelegateVersionsFile {
+  current: string;
+  versions: Array<{
+    version: string;
+    address: string;
+    addresses?: Record<string, string>;
+    domain?: { name: string; version: string };
+    abi?: string[];
+  }>;
+}
+
+/**
+ * 위임 컨트랙트 버전 목록.
+ * DELEGATE_VERSIONS_PATH 파일이 없으면 DELEGATE_ADDRESS 하나를 v1(현재 버전)으로 사용.
+ * 체인별 주소가 없으면 현재 버전은 체인 설정의 delegateAddress를 사용.
+ */
+@Injectable()
+export class DelegateRegistryService {
+  private readonly logger = new Logger('DelegateRegistryService');
+
+  private readonly versionsPath = path.resolve(
+    process.env.DELEGATE_VERSIONS_PATH || 'config/delegate-versions.json',
+  );
+  private readonly versions: DelegateVersion[];
+
+  constructor(private readonly chain: ChainService) {
+    this.versions = this.load();
+  }
+
+  private build(
+    entry: DelegateVersionsFile['versions'][number],
+    current: boolean,
+  ): DelegateVersion {
+    const abi = entry.abi ?? DEFAULT_DELEGATE_ABI;
+    const address = ethers.getAddress(entry.address);
+    const addresses: Record<number, string> = {
+      [this.chain.chainId]: address,
+    };
+    for (const { config } of this.chain.list()) {
+      const perChain = entry.addresses?.[String(config.chainId)];
+      if (perChain) {
+        addresses[config.chainId] = ethers.getAddress(perChain);
+      } else if (
+        current &&
+        config.chainId !== this.chain.chainId &&
+        config.delegateAddress
+      ) {
+        addresses[config.chainId] = ethers.getAddress(config.delegateAddress);
+      }
+    }
+    return {
+      version: entry.version,
+      address,
+      addresses,
+      domain: entry.domain ?? DEFAULT_DOMAIN,
+      abi,
+      iface: new Interface(abi),
+      current,
+    };
+  }
+
+  private load(): DelegateVersion[] {
+    if (fs.existsSync(this.versionsPath)) {
+      const file = JSON.parse(
+        fs.readFileSync(this.versionsPath, 'utf8'),
+      ) as DelegateVersionsFile;
+      const versions = file.versions.map((v) =>
+        this.build(v, v.version === file.current),
+      );
+      if (!versions.some((v) => v.current)) {
+        throw new Error(`current delegate version not found: ${file.current}`);
+      }
+      this.logger.log(
+        `[DELEGATE_REGISTRY] ${versions.length}개 버전 로드, 현재=${file.current}`,
+      );
+      return versions;
+    }
+
+    const addr = process.env.DELEGATE_ADDRESS;
+    if (!addr || !ethers.isAddress(addr)) {
+      this.logger.warn('[DELEGATE_REGISTRY] DELEGATE_ADDRESS 미설정');
+      return [];
+    }
+    return [this.build({ version: 'v1', address: addr }, true)];
+  }
+
+  list(): DelegateVersion[] {
+    return this.versions;
+  }
+
+  current(): DelegateVersion | null {
+    return this.versions.find((v) => v.current) ?? null;
+  }
+
+  findByAddress(
+    address: string | null | undefined,
+    chainId: number = this.chain.chainId,
+  ): DelegateVersion | null {
+    if (!address || !ethers.isAddress(address)) return null;
+    const target = ethers.getAddress(address);
+    return this.versions.find((v) => v.addresses[chainId] === target) ?? null;
+  }
+
+  addressOn(version: DelegateVersion, chainId: number = this.chain.chainId) {
+    return version.addresses[chainId] ?? null;
+  }
+
+  // 응답용 (Interface 객체 제외)
+  describe() {
+    return this.versions.map(
+      ({ version, address, addresses, domain, current }) => ({
+        version,
+        address,
+        addresses,
+        domain,
+        current,
+      }),
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChainService } from './chain.service';
+import { DatabaseService } from './database.service';
+import { DelegateRegistryService } from './delegate-registry.service';
+import {
+  DelegationService,
+  parseDelegationDesignator,
+} from './delegation.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+
+describe('DelegationService', () => {
+  const DELEGATE = '0x' + '5a'.repeat(20);
+  const OTHER = '0x' + '6b'.repeat(20);
+  const LEGACY = '0x' + '8d'.repeat(20);
+  const EOA = '0x' + '7c'.repeat(20);
+  const provider = { getCode: jest.fn() };
+  let module: TestingModule;
+  let service: DelegationService;
+
+  const build = async () => {
+    module = await Test.createTestingModule({
+      providers: [
+        DatabaseService,
+        PaymentLedgerService,
+        DelegateRegistryService,
+        DelegationService,
+        {
+          provide: ChainService,
+          useValue: {
+            provider,
+            chainId: 97,
+            get: () => ({ provider }),
+            list: () => [],
+          },
+        },
+      ],
+    }).compile();
+    service = module.get(DelegationService);
+  };
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    process.env.DELEGATE_ADDRESS = DELEGATE;
+    process.env.DELEGATE_VERSIONS_PATH = path.join(
+      os.tmpdir(),
+      'delegate-versions.missing.json',
+    );
+    jest.clearAllMocks();
+    await build();
+  });
+
+  afterEach(async () => {
+    delete process.env.DELEGATE_ADDRESS;
+    delete process.env.DELEGATE_VERSIONS_PATH;
+    await module.close();
+  });
+
+  it('parses the 0xef0100 delegation designator', () => {
+    expect(parseDelegationDesignator('0xef0100' + '5a'.repeat(20))).toBe(
+      ethers.getAddress(DELEGATE),
+    );
+    expect(parseDelegationDesignator('0x')).toBeNull();
+    expect(parseDelegationDesignator('0x6080604052')).toBeNull();
+  });
+
+  it('reports whether a new authorization is needed', async () => {
+    provider.getCode.mockResolvedValueOnce('0xef0100' + DELEGATE.slice(2));
+    await expect(service.getDelegation(EOA)).resolves.toMatchObject({
+      delegated: true,
+      isExpectedDelegate: true,
+      needsAuthorization: false,
+    });
+
+    provider.getCode.mockResolvedValueOnce('0xef0100' + OTHER.slice(2));
+    await expect(service.getDelegation(EOA)).resolves.toMatchObject({
+      delegated: true,
+      isExpectedDelegate: false,
+      needsAuthorization: true,
+    });
+
+    provider.getCode.mockResolvedValueOnce('0x');
+    await expect(service.getDelegation(EOA)).resolves.toMatchObject({
+      delegated: false,
+      delegate: null,
+      needsAuthorization: true,
+      isContract: false,
+    });
+  });
+
+  it('accepts older delegate versions and counts users per version', async () => {
+    const file = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'delegates-')),
+      'delegate-versions.json',
+    );
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        current: 'v2',
+        versions: [
+          { version: 'v1', address: LEGACY },
+          {
+            version: 'v2',
+            address: DELEGATE,
+            domain: { name: 'DelegatedTransfer', version: '2' },
+          },
+        ],
+      }),
+    );
+    process.env.DELEGATE_VERSIONS_PATH = file;
+    await module.close();
+    await build();
+
+    provider.getCode.mockResolvedValueOnce('0xef0100' + LEGACY.slice(2));
+    await expect(service.getDelegation(EOA)).resolves.toMatchObject({
+      version: 'v1',
+      currentVersion: 'v2',
+      supported: true,
+      needsMigration: true,
+      needsAuthorization: false,
+    });
+
+    provider.getCode.mockResolvedValueOnce('0xef0100' + DELEGATE.slice(2));
+    await service.getDelegation('0x' + '9e'.repeat(20));
+    provider.getCode.mockResolvedValueOnce('0xef0100' + OTHER.slice(2));
+    await service.getDelegation('0x' + 'af'.repeat(20));
+
+    const counts = await service.countByVersion();
+    expect(counts.versions.map((v) => [v.version, v.users])).toEqual([
+      ['v1', 1],
+      ['v2', 1],
+    ]);
+    expect(counts).toMatchObject({ unsupported: 1, undelegated: 0 });
+  });
+});
@@ -0,0 +1,162 @@
+// delegation.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { ChainService } from './chain.service';
+import { DatabaseService } from './database.service';
+import { DelegateRegistryService } from './delegate-registry.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+
+// EIP-7702 위임 지정자: 0xef0100 || delegate(20 bytes)
+const DESIGNATOR_PREFIX = '0xef0100';
+
+export interface DelegationStatus {
+  address: string;
+  // EOA 코드가 위임 지정자인지
+  delegated: boolean;
+  delegate: string | null;
+  expectedDelegate: string | null;
+  // 현재 버전 위임 컨트랙트로 위임되어 있는지
+  isExpectedDelegate: boolean;
+  // 위임 컨트랙트 버전 (지원하지 않는 컨트랙트면 null)
+  version: string | null;
+  currentVersion: string | null;
+  // 결제에 쓸 수 있는 버전인지 (현재 버전이 아니어도 됨)
+  supported: boolean;
+  // 지원 버전이지만 현재 버전으로 재위임을 권장
+  needsMigration: boolean;
+  // 새 authorization 서명이 필요한지
+  needsAuthorization: boolean;
+  // 결제 EIP-712 서명에 쓸 domain (위임된 버전, 새로 위임해야 하면 현재 버전)
+  domain: { name: string; version: string } | null;
+  // 위임 지정자가 아닌 코드가 있는 계정 (컨트랙트)
+  isContract: boolean;
+}
+
+interface ObservationCountRow {
+  delegate: string | null;
+  users: number;
+}
+
+// 7702 위임 지정자 파싱 (아니면 null)
+export function parseDelegationDesignator(code: string | null | undefined) {
+  if (!code) return null;
+  const hex = code.toLowerCase();
+  if (hex.length !== 2 + 23 * 2 || !hex.startsWith(DESIGNATOR_PREFIX)) {
+    return null;
+  }
+  return ethers.getAddress('0x' + hex.slice(DESIGNATOR_PREFIX.length));
+}
+
+@Injectable()
+export class DelegationService {
+  private readonly logger = new Logger('DelegationService');
+
+  constructor(
+    private readonly chain: ChainService,
+    private readonly registry: DelegateRegistryService,
+    private readonly database: DatabaseService,
+    private readonly ledger: PaymentLedgerService,
+  ) {
+    // 계정별 마지막으로 확인한 위임 대상 (버전별 사용자 수 집계용)
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS delegation_observations (
+        address     TEXT PRIMARY KEY,
+        delegate    TEXT,
+        observed_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_delegation_observations_delegate
+        ON delegation_observations(delegate);
+    `);
+  }
+
+  get expectedDelegate(): string | null {
+    return this.registry.current()?.address ?? null;
+  }
+
+  // 체인별 현재 버전 위임 컨트랙트 주소 (해당 체인에 배포되지 않았으면 null)
+  expectedDelegateOn(chainId?: number): string | null {
+    const current = this.registry.current();
+    return current ? this.registry.addressOn(current, chainId) : null;
+  }
+
+  async getDelegation(
+    address: string,
+    chainId?: number,
+  ): Promise<DelegationStatus> {
+    const code = await this.chain.get(chainId).provider.getCode(address);
+    const delegate = parseDelegationDesignator(code);
+    const current = this.registry.current();
+    const expected = current ? this.registry.addressOn(current, chainId) : null;
+    const isExpectedDelegate =
+      !!delegate && !!expected && delegate === expected;
+    const version = this.registry.findByAddress(delegate, chainId);
+
+    this.logger.debug(
+      `[DELEGATION] ${address} code=${code.slice(0, 10)}… delegate=${delegate ?? '-'} version=${version?.version ?? '-'}`,
+    );
+    // 버전별 사용자 수는 기본 체인 기준
+    if (chainId == null || chainId === this.chain.chainId) {
+      this.observe(address, delegate);
+    }
+
+    return {
+      address: ethers.getAddress(address),
+      delegated: !!delegate,
+      delegate,
+      expectedDelegate: expected,
+      isExpectedDelegate,
+      version: version?.version ?? null,
+      currentVersion: this.registry.current()?.version ?? null,
+      supported: !!version,
+      needsMigration: !!version && !version.current,
+      needsAuthorization: !version,
+      domain: (version ?? this.registry.current())?.domain ?? null,
+      isContract: !delegate && code !== '0x',
+    };
+  }
+
+  private observe(address: string, delegate: string | null) {
+    this.database.db
+      .prepare(
+        `INSERT INTO delegation_observations (address, delegate, observed_at)
+         VALUES (?, ?, ?)
+         ON CONFLICT(address) DO UPDATE SET
+           delegate = excluded.delegate, observed_at = excluded.observed_at`,
+      )
+      .run(ethers.getAddress(address), delegate, new Date().toISOString());
+  }
+
+  /**
+   * 위임 컨트랙트 버전별 사용자 수.
+   * refresh면 원장에 있는 결제자 전원의 코드를 다시 읽어 관측값을 갱신한다.
+   */
+  async countByVersion(opts: { refresh?: boolean } = {}) {
+    if (opts.refresh) {
+      for (const authority of this.ledger.listAuthorities()) {
+        if (ethers.isAddress(authority)) await this.getDelegation(authority);
+      }
+    }
+
+    const rows = this.database.db
+      .prepare(
+        `SELECT delegate, COUNT(*) AS users
+         FROM delegation_observations GROUP BY delegate`,
+      )
+      .all() as ObservationCountRow[];
+
+    const versions = this.registry.describe().map((v) => ({ ...v, users: 0 }));
+    let undelegated = 0;
+    let unsupported = 0;
+    for (const row of rows) {
+      const version = this.registry.findByAddress(row.delegate);
+      if (version) {
+        versions.find((v) => v.version === version.version)!.users += row.users;
+      } else if (row.delegate) {
+        unsupported += row.users;
+      } else {
+        undelegated += row.users;
+      }
+    }
+    return { versions, unsupported, undelegated };
+  }
+}
@@ -0,0 +1,52 @@
+import { buildTransferUri, parseTransferUri } from './eip681';
+
+describe('eip681', () => {
+  const TOKEN = '0x3333333333333333333333333333333333333333';
+  const SHOP = '0x2222222222222222222222222222222222222222';
+
+  it('round-trips an invoice transfer URI', () => {
+    const uri = buildTransferUri({
+      token: TOKEN,
+      chainId: 97,
+      recipient: SHOP,
+      amount: 2_500_000n,
+      invoiceId: 'inv_1_abc',
+    });
+
+    expect(uri).toBe(
+      `ethereum:${TOKEN}@97/transfer?address=${SHOP}&uint256=2500000&invoiceId=inv_1_abc`,
+    );
+    expect(parseTransferUri(uri)).toEqual({
+      token: TOKEN,
+      chainId: 97,
+      recipient: SHOP,
+      amount: 2_500_000n,
+      invoiceId: 'inv_1_abc',
+    });
+  });
+
+  it('accepts pay- prefix and scientific amounts, rejects other requests', () => {
+    expect(
+      parseTransferUri(
+        `ethereum:pay-${TOKEN}/transfer?address=${SHOP}&uint256=2.5e6`,
+      ),
+    ).toMatchObject({ chainId: null, amount: 2_500_000n, invoiceId: null });
+
+    for (const uri of [
+      `ethereum:${SHOP}@97?value=1e18`,
+      `ethereum:${TOKEN}@97/approve?address=${SHOP}&uint256=1`,
+      `ethereum:${TOKEN}@97/transfer?address=${SHOP}&uint256=1.5`,
+      `ethereum:${TOKEN}@97/transfer?address=shop.eth&uint256=1`,
+      `ethereum:${TOKEN}@97/transfer?address=${SHOP}&uint256=1e999999999`,
+      `ethereum:${TOKEN}@97/transfer?address=${SHOP}&uint256=2e77`,
+      `ethereum:${TOKEN}@97/transfer?address=${SHOP}&uint256=1&invoiceId=%E0%A4%A`,
+      '{"type":"payment_request"}',
+    ]) {
+      expect(() => parseTransferUri(uri)).toThrow(
+        expect.objectContaining({
+          response: expect.objectContaining({ code: 'INVALID_PAYMENT_URI' }),
+        }),
+      );
+    }
+  });
+});
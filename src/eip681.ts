@@ -0,0 +1,116 @@
+// eip681.ts
+import { BadRequestException } from '@nestjs/common';
+import { ethers } from 'ethers';
+
+// ERC-20 transfer 결제 요청 (EIP-681)
+export interface TransferRequest {
+  token: string;
+  // URI에 @chainId가 없으면 null (지갑의 현재 체인)
+  chainId: number | null;
+  recipient: string;
+  // 기본 단위
+  amount: bigint;
+  // 우리 서버가 발급한 인보이스 (표준 외 파라미터, 다른 지갑은 무시)
+  invoiceId: string | null;
+}
+
+/**
+ * ERC-20 transfer 결제 URI.
+ * ethereum:<token>@<chainId>/transfer?address=<recipient>&uint256=<amount>&invoiceId=<id>
+ */
+export function buildTransferUri(request: TransferRequest): string {
+  const params = [
+    `address=${ethers.getAddress(request.recipient)}`,
+    `uint256=${request.amount.toString()}`,
+  ];
+  if (request.invoiceId) {
+    params.push(`invoiceId=${encodeURIComponent(request.invoiceId)}`);
+  }
+  const chain = request.chainId ? `@${request.chainId}` : '';
+  return `ethereum:${ethers.getAddress(request.token)}${chain}/transfer?${params.join('&')}`;
+}
+
+function invalid(uri: string, reason: string): BadRequestException {
+  return new BadRequestException({
+    code: 'INVALID_PAYMENT_URI',
+    message: `결제 URI를 해석할 수 없습니다: ${reason}`,
+    uri,
+  });
+}
+
+// uint256 최댓값의 10진수 자릿수
+const UINT256_DIGITS = 78;
+
+// EIP-681 숫자 (10진수 / 지수 표기, 예: 2.5e6) → bigint
+function parseNumber(uri: string, field: string, raw: string): bigint {
+  const m = /^(\d+)(?:\.(\d+))?(?:[eE](\d+))?$/.exec(raw);
+  if (!m) throw invalid(uri, `${field}=${raw}`);
+  const [, int, frac = '', exp = '0'] = m;
+  const shift = Number(exp) - frac.length;
+  // 큰 지수(1e999999999 등)를 계산하기 전에 자릿수로 거절
+  const digits = (int + frac).replace(/^0+/, '').length;
+  if (digits > 0 && digits + Math.max(shift, 0) > UINT256_DIGITS) {
+    throw invalid(uri, `${field}=${raw} (uint256 범위 초과)`);
+  }
+  if (shift < 0) {
+    // 소수점 아래가 남으면 정수가 아님
+    if (!/^0*$/.test(frac.slice(frac.length + shift))) {
+      throw invalid(uri, `${field}=${raw} (정수가 아님)`);
+    }
+    return BigInt(int + frac.slice(0, frac.length + shift));
+  }
+  const value = BigInt(int + frac) * 10n ** BigInt(digits > 0 ? shift : 0);
+  if (value > ethers.MaxUint256) {
+    throw invalid(uri, `${field}=${raw} (uint256 범위 초과)`);
+  }
+  return value;
+}
+
+/**
+ * EIP-681 ERC-20 transfer URI 해석.
+ * 네이티브 코인 송금이나 transfer 외의 함수 호출, ENS 이름은 지원하지 않는다.
+ */
+export function parseTransferUri(uri: string): TransferRequest {
+  const raw = String(uri ?? '').trim();
+  const m =
+    /^ethereum:(?:pay-)?([^@/?]+)(?:@(\d+))?(?:\/([^?]+))?(?:\?(.*))?$/i.exec(
+      raw,
+    );
+  if (!m) throw invalid(raw, 'ethereum: URI가 아님');
+  const [, target, chainId, fn, query = ''] = m;
+
+  if (!ethers.isAddress(target)) {
+    throw invalid(raw, '토큰 주소가 아님');
+  }
+  if (fn !== 'transfer') {
+    throw invalid(raw, 'ERC-20 transfer 요청만 지원합니다.');
+  }
+
+  const params = new Map<string, string>();
+  for (const pair of query.split('&')) {
+    if (!pair) continue;
+    const i = pair.indexOf('=');
+    const key = i < 0 ? pair : pair.slice(0, i);
+    try {
+      params.set(key, decodeURIComponent(i < 0 ? '' : pair.slice(i + 1)));
+    } catch {
+      // 잘못된 퍼센트 인코딩 (URIError)
+      throw invalid(raw, `${key} 값의 인코딩이 잘못됨`);
+    }
+  }
+
+  const recipient = params.get('address');
+  if (!recipient || !ethers.isAddress(recipient)) {
+    throw invalid(raw, `수취인 주소가 아님: ${recipient ?? '(없음)'}`);
+  }
+  const amount = params.get('uint256');
+  if (amount == null) throw invalid(raw, 'uint256(금액) 없음');
+
+  return {
+    token: ethers.getAddress(target),
+    chainId: chainId ? Number(chainId) : null,
+    recipient: ethers.getAddress(recipient),
+    amount: parseNumber(raw, 'uint256', amount),
+    invoiceId: params.get('invoiceId') || null,
+  };
+}
@@ -0,0 +1,254 @@
+import { ethers } from 'ethers';
+import { AppService } from './app.service';
+import { ChainService } from './chain.service';
+import { FallbackRailService } from './fallback-rail.service';
+import { GasBudgetService } from './gas-budget.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { RelayerPoolService } from './relayer-pool.service';
+import { SponsorshipPolicyService } from './sponsorship-policy.service';
+import { TokenRegistryService } from './token-registry.service';
+import { InvoiceService } from './invoice.service';
+import { MerchantSignatureService } from './merchant-signature.service';
+import { VelocityService } from './velocity.service';
+
+describe('FallbackRailService', () => {
+  const TOKEN = ethers.getAddress('0x' + '3c'.repeat(20));
+  const SHOP = ethers.getAddress('0x' + '4d'.repeat(20));
+  const RELAYER = ethers.getAddress('0x' + '01'.repeat(20));
+  const user = new ethers.Wallet('0x' + '42'.repeat(32));
+  // 토큰의 authorizationState 응답 (이미 사용한 EIP-3009 nonce)
+  let authorizationUsed = false;
+
+  const tokenIface = new ethers.Interface([
+    'function eip712Domain() view returns (bytes1 fields,string name,string version,uint256 chainId,address verifyingContract,bytes32 salt,uint256[] extensions)',
+    'function balanceOf(address) view returns (uint256)',
+    'function authorizationState(address authorizer,bytes32 nonce) view returns (bool)',
+    'function nonces(address owner) view returns (uint256)',
+    'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  ]);
+
+  // 토큰 컨트랙트 view 호출을 흉내 내는 provider (supports3009=false면 permit 토큰)
+  function tokenProvider(supports3009: boolean) {
+    return {
+      estimateGas: jest.fn().mockResolvedValue(60_000n),
+      call: jest.fn((tx: { data: string }) => {
+        const fn = tokenIface.parseTransaction({ data: tx.data });
+        switch (fn?.name) {
+          case 'eip712Domain':
+            return Promise.resolve(
+              tokenIface.encodeFunctionResult('eip712Domain', [
+                '0x0f',
+                'USD Coin',
+                '2',
+                97,
+                TOKEN,
+                ethers.ZeroHash,
+                [],
+              ]),
+            );
+          case 'balanceOf':
+            return Promise.resolve(
+              tokenIface.encodeFunctionResult('balanceOf', [1_000_000n]),
+            );
+          case 'authorizationState':
+            return supports3009
+              ? Promise.resolve(
+                  tokenIface.encodeFunctionResult('authorizationState', [
+                    authorizationUsed,
+                  ]),
+                )
+              : Promise.reject(new Error('execution reverted'));
+          case 'nonces':
+            return Promise.resolve(
+              tokenIface.encodeFunctionResult('nonces', [0n]),
+            );
+          case 'DOMAIN_SEPARATOR':
+            return Promise.resolve(
+              tokenIface.encodeFunctionResult('DOMAIN_SEPARATOR', [
+                ethers.ZeroHash,
+              ]),
+            );
+          default:
+            return Promise.reject(new Error('execution reverted'));
+        }
+      }),
+    };
+  }
+
+  function build(supports3009: boolean) {
+    authorizationUsed = false;
+    const provider = tokenProvider(supports3009);
+    const service = new FallbackRailService(
+      {} as AppService,
+      {
+        provider,
+        chainId: 97,
+        get: () => ({ provider, config: { chainId: 97 } }),
+      } as unknown as ChainService,
+      {} as PaymentLedgerService,
+      {
+        primaryAddress: RELAYER,
+        primaryAddressOf: () => RELAYER,
+        isRelayer: (a: string) => a?.toLowerCase() === RELAYER.toLowerCase(),
+      } as unknown as RelayerPoolService,
+      {} as GasBudgetService,
+      {} as VelocityService,
+      {} as SponsorshipPolicyService,
+      {
+        normalize: (_token: string, amount: string) => ({
+          amount: BigInt(amount),
+        }),
+        require: () => ({}),
+      } as unknown as TokenRegistryService,
+      { resolve: () => null } as unknown as InvoiceService,
+      { verify: () => null } as unknown as MerchantSignatureService,
+    );
+    return { service, provider };
+  }
+
+  it('prepares and verifies an EIP-3009 transferWithAuthorization', async () => {
+    const { service } = build(true);
+    const prepared = await service.prepare({
+      from: user.address,
+      token: TOKEN,
+      to: SHOP,
+      amount: '500000',
+    });
+    expect(prepared).toMatchObject({
+      method: 'eip3009',
+      primaryType: 'TransferWithAuthorization',
+      domain: { name: 'USD Coin', version: '2', chainId: 97 },
+      message: { from: user.address, to: SHOP, value: '500000' },
+    });
+
+    const signature = await user.signTypedData(
+      prepared.domain,
+      prepared.types,
+      prepared.message,
+    );
+    await expect(
+      service.sign({
+        method: 'eip3009',
+        token: TOKEN,
+        message: prepared.message,
+        signature,
+      }),
+    ).resolves.toMatchObject({
+      payer: user.address,
+      to: SHOP,
+      transactions: 1,
+      willSucceed: true,
+    });
+
+    const stranger = ethers.Wallet.createRandom();
+    await expect(
+      service.sign({
+        method: 'eip3009',
+        token: TOKEN,
+        message: prepared.message,
+        signature: await stranger.signTypedData(
+          prepared.domain,
+          prepared.types,
+          prepared.message,
+        ),
+      }),
+    ).rejects.toMatchObject({ response: { code: 'BAD_SIGNATURE' } });
+  });
+
+  it('falls back to permit with a relayer spender', async () => {
+    const { service } = build(false);
+    const prepared = await service.prepare({
+      from: user.address,
+      token: TOKEN,
+      to: SHOP,
+      amount: '500000',
+    });
+    expect(prepared).toMatchObject({
+      method: 'permit',
+      message: { owner: user.address, spender: RELAYER, nonce: '0' },
+    });
+
+    const message = { ...prepared.message, spender: SHOP };
+    await expect(
+      service.sign({
+        method: 'permit',
+        token: TOKEN,
+        to: SHOP,
+        message,
+        signature: await user.signTypedData(
+          prepared.domain,
+          prepared.types,
+          message,
+        ),
+      }),
+    ).rejects.toMatchObject({ response: { code: 'BAD_SPENDER' } });
+
+    await expect(
+      service.prepare({
+        from: user.address,
+        token: TOKEN,
+        to: SHOP,
+        amount: '1',
+        method: 'eip3009',
+      }),
+    ).rejects.toMatchObject({ response: { code: 'TOKEN_AUTH_UNSUPPORTED' } });
+  });
+
+  it('rejects used EIP-3009 nonces and permits without a bound recipient', async () => {
+    const { service } = build(true);
+    const prepared = await service.prepare({
+      from: user.address,
+      token: TOKEN,
+      to: SHOP,
+      amount: '500000',
+    });
+    const signed = {
+      method: 'eip3009' as const,
+      token: TOKEN,
+      message: prepared.message,
+      signature: await user.signTypedData(
+        prepared.domain,
+        prepared.types,
+        prepared.message,
+      ),
+    };
+    // 같은 서명의 재시도는 같은 EIP-712 digest
+    const typed = await service.typedDataOf(signed);
+    expect(
+      ethers.TypedDataEncoder.hash(typed!.domain, typed!.types, typed!.message),
+    ).toBe(
+      ethers.TypedDataEncoder.hash(
+        prepared.domain,
+        prepared.types,
+        prepared.message,
+      ),
+    );
+
+    authorizationUsed = true;
+    await expect(service.sign(signed)).rejects.toMatchObject({
+      response: { code: 'BAD_NONCE' },
+    });
+
+    // permit 서명에는 수취인이 없으므로 인보이스 / 가맹점 서명 없이는 제출 불가
+    const permit = build(false).service;
+    const permitPrepared = await permit.prepare({
+      from: user.address,
+      token: TOKEN,
+      to: SHOP,
+      amount: '500000',
+    });
+    await expect(
+      permit.submit({
+        method: 'permit',
+        token: TOKEN,
+        to: SHOP,
+        message: permitPrepared.message,
+        signature: await user.signTypedData(
+          permitPrepared.domain,
+          permitPrepared.types,
+          permitPrepared.message,
+        ),
+      }),
+    ).rejects.toMatchObject({ response: { code: 'RECIPIENT_UNBOUND' } });
+  });
+});
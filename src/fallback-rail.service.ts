@@ -0,0 +1,684 @@
+// fallback-rail.service.ts
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { AppService } from './app.service';
+import { ChainService } from './chain.service';
+import { GasBudgetService } from './gas-budget.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { RelayerPoolService } from './relayer-pool.service';
+import {
+  PaymentRevertException,
+  decodeRevert,
+  toRevertProblem,
+} from './revert-errors';
+import { SponsorshipPolicyService } from './sponsorship-policy.service';
+import { TokenRegistryService } from './token-registry.service';
+import { InvoiceService } from './invoice.service';
+import {
+  MerchantSignature,
+  MerchantSignatureService,
+} from './merchant-signature.service';
+import { VelocityService } from './velocity.service';
+
+export type PaymentRail = 'eip7702' | 'fallback';
+// eip3009: transferWithAuthorization 한 번 / permit: permit + transferFrom 두 번
+export type FallbackMethod = 'eip3009' | 'permit';
+
+const TOKEN_AUTH_ABI = [
+  'function eip712Domain() view returns (bytes1 fields,string name,string version,uint256 chainId,address verifyingContract,bytes32 salt,uint256[] extensions)',
+  'function name() view returns (string)',
+  'function version() view returns (string)',
+  'function balanceOf(address) view returns (uint256)',
+  // EIP-3009
+  'function authorizationState(address authorizer,bytes32 nonce) view returns (bool)',
+  'function transferWithAuthorization(address from,address to,uint256 value,uint256 validAfter,uint256 validBefore,bytes32 nonce,uint8 v,bytes32 r,bytes32 s)',
+  // EIP-2612
+  'function nonces(address owner) view returns (uint256)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  'function permit(address owner,address spender,uint256 value,uint256 deadline,uint8 v,bytes32 r,bytes32 s)',
+  'function transferFrom(address from,address to,uint256 value) returns (bool)',
+];
+const tokenIface = new ethers.Interface(TOKEN_AUTH_ABI);
+
+const TYPES: Record<
+  FallbackMethod,
+  Record<string, Array<{ name: string; type: string }>>
+> = {
+  eip3009: {
+    TransferWithAuthorization: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'validAfter', type: 'uint256' },
+      { name: 'validBefore', type: 'uint256' },
+      { name: 'nonce', type: 'bytes32' },
+    ],
+  },
+  permit: {
+    Permit: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+  },
+};
+
+// permit 직후 transferFrom은 승인 전이라 추정할 수 없으므로 고정값 사용
+const TRANSFER_FROM_GAS = 100_000n;
+
+// 서명 유효 시간 (7702 경로의 prepare-transfer와 같은 5분)
+const VALIDITY_SEC = 300;
+
+export interface FallbackPrepareInput {
+  from: string;
+  token: string;
+  to: string;
+  amount: string | number;
+  method?: FallbackMethod;
+  // 생략 시 기본 체인
+  chainId?: number | string;
+  // 있으면 token / to / amount / chainId는 인보이스 값 사용
+  invoiceId?: string;
+  // 결제 요청 QR의 가맹점 서명
+  merchantSignature?: MerchantSignature;
+}
+
+export interface FallbackSignedInput {
+  method: FallbackMethod;
+  token: string;
+  // permit 서명에는 수취인이 없으므로 별도로 받음 (eip3009는 message.to)
+  to?: string;
+  message: Record<string, string | number>;
+  signature: string;
+  productName?: string;
+  chainId?: number | string;
+  // 법정화폐 인보이스 결제 (고정 금액 / 토큰 / 수취인과 일치해야 함)
+  invoiceId?: string;
+  merchantSignature?: MerchantSignature;
+}
+
+interface VerifiedTransfer {
+  chainId: number;
+  method: FallbackMethod;
+  token: string;
+  payer: string;
+  to: string;
+  amount: bigint;
+  deadline: bigint;
+  sig: ethers.Signature;
+  calls: Array<{ data: string; gas: bigint | null }>;
+  relayer: string | null;
+}
+
+/**
+ * EIP-7702 미지원 체인용 가스리스 결제 경로.
+ * 토큰 자체의 서명 승인(EIP-3009 transferWithAuthorization, 없으면 EIP-2612 permit)을
+ * 릴레이어가 제출한다. 원장(kind=fallback) / 영수증 / 가스 예산은 7702 경로와 공유.
+ */
+@Injectable()
+export class FallbackRailService {
+  private readonly logger = new Logger('FallbackRailService');
+
+  private readonly methodCache = new Map<string, FallbackMethod | null>();
+
+  constructor(
+    private readonly appService: AppService,
+    private readonly chain: ChainService,
+    private readonly ledger: PaymentLedgerService,
+    private readonly relayers: RelayerPoolService,
+    private readonly gasBudget: GasBudgetService,
+    private readonly velocity: VelocityService,
+    private readonly sponsorshipPolicy: SponsorshipPolicyService,
+    private readonly tokens: TokenRegistryService,
+    private readonly invoices: InvoiceService,
+    private readonly merchantSignatures: MerchantSignatureService,
+  ) {}
+
+  private chainIdOf(chainId?: number | string) {
+    return this.chain.get(chainId ?? this.chain.chainId).config.chainId;
+  }
+
+  private providerOf(chainId: number) {
+    return this.chain.get(chainId).provider;
+  }
+
+  private token(address: string, chainId: number) {
+    return new ethers.Contract(
+      address,
+      TOKEN_AUTH_ABI,
+      this.providerOf(chainId),
+    );
+  }
+
+  /**
+   * PAYMENT_RAIL=eip7702|fallback으로 고정 가능.
+   * 기본 체인은 RPC 지원 여부로, 그 외 체인은 체인 설정(paymentRail)으로 결정.
+   */
+  async getRail(chainId?: number | string): Promise<PaymentRail> {
+    const forced = process.env.PAYMENT_RAIL;
+    if (forced === 'eip7702' || forced === 'fallback') return forced;
+    const id = this.chainIdOf(chainId);
+    if (id !== this.chain.chainId) return this.chain.railOf(id);
+    return (await this.appService.checkEIP7702Support())
+      ? 'eip7702'
+      : 'fallback';
+  }
+
+  // /api/config 용
+  async describeRail(token?: string, chainId?: number | string) {
+    const paymentRail = await this.getRail(chainId);
+    const fallbackMethod =
+      paymentRail === 'fallback' && token && ethers.isAddress(token)
+        ? await this.detectMethod(token, this.chainIdOf(chainId))
+        : null;
+    return { paymentRail, fallbackMethod };
+  }
+
+  // 토큰이 지원하는 서명 승인 방식 (EIP-3009 우선)
+  async detectMethod(
+    tokenAddress: string,
+    chainId: number = this.chain.chainId,
+  ): Promise<FallbackMethod | null> {
+    const key = `${chainId}:${tokenAddress.toLowerCase()}`;
+    if (this.methodCache.has(key)) return this.methodCache.get(key)!;
+
+    const token = this.token(tokenAddress, chainId);
+    let method: FallbackMethod | null = null;
+    try {
+      await token.authorizationState(ethers.ZeroAddress, ethers.ZeroHash);
+      method = 'eip3009';
+    } catch {
+      try {
+        await token.nonces(ethers.ZeroAddress);
+        await token.DOMAIN_SEPARATOR();
+        method = 'permit';
+      } catch {
+        method = null;
+      }
+    }
+    this.logger.log(`[FALLBACK] ${tokenAddress} 서명 승인 방식: ${method}`);
+    this.methodCache.set(key, method);
+    return method;
+  }
+
+  private async resolveMethod(
+    token: string,
+    chainId: number,
+    requested?: FallbackMethod,
+  ) {
+    const supported = await this.detectMethod(token, chainId);
+    // eip3009 토큰도 대부분 permit을 함께 지원하므로 permit 요청은 허용
+    if (
+      !supported ||
+      (requested && requested !== supported && requested !== 'permit')
+    ) {
+      throw new BadRequestException({
+        code: 'TOKEN_AUTH_UNSUPPORTED',
+        message: '토큰이 서명 승인(EIP-3009 / EIP-2612)을 지원하지 않습니다.',
+        token,
+        requested: requested ?? null,
+        supported,
+      });
+    }
+    return requested ?? supported;
+  }
+
+  // EIP-5267 eip712Domain() 우선, 없으면 name() + version() (기본 "1")
+  async tokenDomain(
+    tokenAddress: string,
+    chainId: number = this.chain.chainId,
+  ): Promise<ethers.TypedDataDomain> {
+    const token = this.token(tokenAddress, chainId);
+    try {
+      const d = await token.eip712Domain();
+      return {
+        name: String(d.name),
+        version: String(d.version),
+        chainId: Number(d.chainId),
+        verifyingContract: String(d.verifyingContract),
+      };
+    } catch {
+      const name = String(await token.name());
+      const version = await token
+        .version()
+        .then(String)
+        .catch(() => '1');
+      return {
+        name,
+        version,
+        chainId,
+        verifyingContract: ethers.getAddress(tokenAddress),
+      };
+    }
+  }
+
+  private assertAddresses(fields: Record<string, string | undefined>) {
+    for (const [name, value] of Object.entries(fields)) {
+      if (!value || !ethers.isAddress(value)) {
+        throw new BadRequestException({
+          code: 'INVALID_ADDRESS',
+          message: `${name} invalid`,
+        });
+      }
+    }
+  }
+
+  // 사용자가 서명할 EIP-712 typed data
+  async prepare(input: FallbackPrepareInput) {
+    const invoice = this.invoices.resolve(input?.invoiceId);
+    if (invoice) {
+      input = { ...input, ...this.invoices.lockedTerms(invoice, input) };
+    }
+    const { from, token, to, amount } = input ?? ({} as FallbackPrepareInput);
+    this.assertAddresses({ from, token, to });
+    const chainId = this.chainIdOf(input.chainId);
+    // 등록된 토큰만 허용, 10진수 금액은 기본 단위로 환산
+    const { amount: value } = this.tokens.normalize(token, amount, chainId);
+    this.merchantSignatures.verify(
+      input.merchantSignature,
+      { chainId, token, recipient: to, amount: value, invoiceId: invoice?.id },
+      { invoice: !!invoice },
+    );
+
+    const method = await this.resolveMethod(token, chainId, input.method);
+    const domain = await this.tokenDomain(token, chainId);
+    const deadline = Math.floor(Date.now() / 1000) + VALIDITY_SEC;
+
+    const message: Record<string, string> =
+      method === 'eip3009'
+        ? {
+            from: ethers.getAddress(from),
+            to: ethers.getAddress(to),
+            value: value.toString(),
+            validAfter: '0',
+            validBefore: String(deadline),
+            nonce: ethers.hexlify(ethers.randomBytes(32)),
+          }
+        : {
+            owner: ethers.getAddress(from),
+            spender: this.relayers.primaryAddressOf(chainId),
+            value: value.toString(),
+            nonce: String(await this.token(token, chainId).nonces(from)),
+            deadline: String(deadline),
+          };
+
+    this.logger.log(
+      `[FALLBACK] prepare ${method}: ${from} → ${to} amount=${value}`,
+    );
+    return {
+      rail: 'fallback' as const,
+      chainId,
+      method,
+      token: ethers.getAddress(token),
+      to: ethers.getAddress(to),
+      domain,
+      types: TYPES[method],
+      primaryType: Object.keys(TYPES[method])[0],
+      message,
+      ...(input.invoiceId ? { invoiceId: input.invoiceId } : {}),
+    };
+  }
+
+  /**
+   * 서명 검증 + 실행할 호출 구성.
+   * 서명자 / 유효기간 / nonce / 잔고를 확인하고 첫 호출을 시뮬레이션한다.
+   */
+  private async verify(input: FallbackSignedInput): Promise<VerifiedTransfer> {
+    const { method, token, message, signature } =
+      input ?? ({} as FallbackSignedInput);
+    if (!TYPES[method]) {
+      throw new BadRequestException({
+        code: 'TOKEN_AUTH_UNSUPPORTED',
+        message: `unknown method: ${method}`,
+      });
+    }
+    this.assertAddresses({ token });
+    const chainId = this.chainIdOf(input.chainId);
+    this.tokens.require(token, chainId);
+    if (!message || !signature) {
+      throw new BadRequestException({
+        code: 'BAD_SIGNATURE',
+        message: 'message / signature missing',
+      });
+    }
+    await this.resolveMethod(token, chainId, method);
+
+    const payer = String(method === 'eip3009' ? message.from : message.owner);
+    const to = String(method === 'eip3009' ? message.to : input.to);
+    this.assertAddresses({ payer, to });
+    const amount = BigInt(String(message.value));
+    const deadline = BigInt(
+      String(method === 'eip3009' ? message.validBefore : message.deadline),
+    );
+
+    const domain = await this.tokenDomain(token, chainId);
+    let recovered: string;
+    try {
+      recovered = ethers.verifyTypedData(
+        domain,
+        TYPES[method],
+        message,
+        signature,
+      );
+    } catch (e: any) {
+      throw new BadRequestException({
+        code: 'BAD_SIGNATURE',
+        message: `서명 검증 실패: ${e?.message}`,
+      });
+    }
+    if (recovered.toLowerCase() !== payer.toLowerCase()) {
+      throw new BadRequestException({
+        code: 'BAD_SIGNATURE',
+        message: '서명자가 결제자와 일치하지 않습니다.',
+        recovered,
+        payer,
+      });
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    if (deadline <= now) {
+      throw new BadRequestException({
+        code: 'SIGNATURE_EXPIRED',
+        message: '서명 유효기간이 지났습니다.',
+        deadline: deadline.toString(),
+      });
+    }
+
+    const contract = this.token(token, chainId);
+    const balance = BigInt(String(await contract.balanceOf(payer)));
+    if (balance < amount) {
+      throw new BadRequestException({
+        code: 'INSUFFICIENT_BALANCE',
+        balance: balance.toString(),
+        needed: amount.toString(),
+      });
+    }
+
+    const sig = ethers.Signature.from(signature);
+    let relayer: string | null = null;
+    let calls: VerifiedTransfer['calls'];
+    if (method === 'eip3009') {
+      // 이미 사용한 authorization nonce면 릴레이 전에 거절 (재제출 / 중복 요청)
+      if (await contract.authorizationState(payer, message.nonce)) {
+        throw new BadRequestException({
+          code: 'BAD_NONCE',
+          message: '이미 사용된 authorization nonce입니다.',
+          nonce: String(message.nonce),
+        });
+      }
+      calls = [
+        {
+          data: tokenIface.encodeFunctionData('transferWithAuthorization', [
+            payer,
+            to,
+            amount,
+            BigInt(String(message.validAfter)),
+            deadline,
+            message.nonce,
+            sig.v,
+            sig.r,
+            sig.s,
+          ]),
+          gas: null,
+        },
+      ];
+    } else {
+      // permit의 spender가 transferFrom을 보내야 하므로 해당 릴레이어로 고정
+      relayer = String(message.spender);
+      if (!this.relayers.isRelayer(relayer, chainId)) {
+        throw new BadRequestException({
+          code: 'BAD_SPENDER',
+          message: 'permit spender must be a relayer',
+          spender: relayer,
+        });
+      }
+      const expectedNonce = BigInt(String(await contract.nonces(payer)));
+      if (BigInt(String(message.nonce)) !== expectedNonce) {
+        throw new BadRequestException({
+          code: 'BAD_NONCE',
+          got: String(message.nonce),
+          expected: expectedNonce.toString(),
+        });
+      }
+      calls = [
+        {
+          data: tokenIface.encodeFunctionData('permit', [
+            payer,
+            relayer,
+            amount,
+            deadline,
+            sig.v,
+            sig.r,
+            sig.s,
+          ]),
+          gas: null,
+        },
+        {
+          data: tokenIface.encodeFunctionData('transferFrom', [
+            payer,
+            to,
+            amount,
+          ]),
+          gas: TRANSFER_FROM_GAS,
+        },
+      ];
+    }
+
+    // 첫 호출 시뮬레이션 (토큰 컨트랙트 호출이라 RPC 지원 여부와 무관)
+    const simFrom = relayer ?? this.relayers.primaryAddressOf(chainId);
+    try {
+      calls[0].gas = await this.providerOf(chainId).estimateGas({
+        from: simFrom,
+        to: token,
+        data: calls[0].data,
+      });
+    } catch (e: any) {
+      throw new PaymentRevertException(
+        toRevertProblem(decodeRevert(e), 'simulate', {
+          fallbackDetail: e?.shortMessage || e?.message,
+        }),
+      );
+    }
+
+    return {
+      chainId,
+      method,
+      token: ethers.getAddress(token),
+      payer: ethers.getAddress(payer),
+      to: ethers.getAddress(to),
+      amount,
+      deadline,
+      sig,
+      calls,
+      relayer,
+    };
+  }
+
+  /**
+   * 제출 요청의 EIP-712 typed data (멱등성 키 계산용).
+   * 같은 서명의 재시도는 같은 digest → 한 번만 릴레이. 형식이 잘못되면 null.
+   */
+  async typedDataOf(input: FallbackSignedInput) {
+    if (!TYPES[input?.method] || !input.message) return null;
+    if (!input.token || !ethers.isAddress(input.token)) return null;
+    const chainId = this.chainIdOf(input.chainId);
+    return {
+      domain: await this.tokenDomain(input.token, chainId),
+      types: TYPES[input.method],
+      message: input.message,
+    };
+  }
+
+  // 서명 확인 단계: 검증 + 시뮬레이션만 하고 제출하지 않음
+  async sign(input: FallbackSignedInput) {
+    const verified = await this.verify(input);
+    return {
+      chainId: verified.chainId,
+      method: verified.method,
+      payer: verified.payer,
+      to: verified.to,
+      amount: verified.amount.toString(),
+      deadline: verified.deadline.toString(),
+      signature: { v: verified.sig.v, r: verified.sig.r, s: verified.sig.s },
+      transactions: verified.calls.length,
+      willSucceed: true,
+    };
+  }
+
+  async submit(input: FallbackSignedInput, clientIp?: string) {
+    const verified = await this.verify(input);
+    const { chainId, method, token, payer, to, amount, calls, relayer } =
+      verified;
+    const provider = this.providerOf(chainId);
+    const invoice = this.invoices.resolve(input.invoiceId);
+    if (invoice) {
+      this.invoices.assertMatches(invoice, { token, amount, to });
+    }
+    // permit 서명에는 수취인이 없으므로 인보이스 또는 가맹점 서명으로 수취인을 고정해야 함
+    if (
+      method === 'permit' &&
+      !invoice &&
+      !input.merchantSignature?.signature
+    ) {
+      throw new BadRequestException({
+        code: 'RECIPIENT_UNBOUND',
+        message:
+          'permit 결제는 인보이스 또는 가맹점 서명으로 수취인을 확인해야 합니다.',
+        to,
+      });
+    }
+    this.merchantSignatures.verify(
+      input.merchantSignature,
+      { chainId, token, recipient: to, amount, invoiceId: invoice?.id },
+      { invoice: !!invoice },
+    );
+    const productName = input.productName || '기타상품';
+
+    const record = this.ledger.create({
+      kind: 'fallback',
+      chainId,
+      authority: payer,
+      from: payer,
+      token,
+      to,
+      amount,
+      nonce: input.message.nonce,
+      deadline: verified.deadline,
+      productName,
+      clientIp,
+      invoiceId: input.invoiceId ?? null,
+    });
+
+    let hashes: string[];
+    try {
+      this.velocity.assertAllowed({
+        payer,
+        clientIp,
+        amount,
+        token,
+        chainId,
+        paymentId: record.id,
+      });
+      this.sponsorshipPolicy.assertEligible({ token, to, amount });
+      await this.gasBudget.assertGasPriceWithinCeiling({ hold: true, chainId });
+
+      const fee = await provider.getFeeData();
+      const gasPrice = fee.gasPrice ?? fee.maxFeePerGas ?? 0n;
+      const gasLimits = calls.map((c) => ((c.gas ?? 0n) * 120n) / 100n);
+      this.gasBudget.assertWithinBudget(
+        to,
+        gasLimits.reduce((a, b) => a + b, 0n) * gasPrice,
+        { paymentId: record.id, chainId },
+      );
+
+      // 같은 릴레이어 큐에 넣으므로 permit → transferFrom 순서가 nonce로 보장됨
+      hashes = [];
+      let last: Awaited<ReturnType<RelayerPoolService['send']>> | null = null;
+      for (const [i, call] of calls.entries()) {
+        last = await this.relayers.send(
+          { to: token, data: call.data, gasLimit: gasLimits[i] || undefined },
+          relayer ? { from: relayer, chainId } : { chainId },
+        );
+        hashes.push(last.tx.hash);
+      }
+      this.ledger.markSubmitted(record.id, last!.tx.hash, {
+        address: last!.relayer,
+        nonce: last!.nonce,
+      });
+      this.logger.log(
+        `[FALLBACK] ${method} 제출: ${payer} → ${to} hash=${hashes.join(',')}`,
+      );
+    } catch (e: any) {
+      this.ledger.markFailed(
+        record.id,
+        e?.shortMessage || e?.message || String(e),
+      );
+      throw e;
+    }
+
+    const txHash = hashes[hashes.length - 1];
+    const base = {
+      paymentId: record.id,
+      rail: 'fallback' as const,
+      chainId,
+      method,
+      txHash,
+      ...(hashes.length > 1 ? { permitTxHash: hashes[0] } : {}),
+    };
+
+    // 60초 안에 확정되지 않으면 pending (이후 TxTracker가 추적 / 영수증 인쇄)
+    const receipts = await Promise.race([
+      Promise.all(hashes.map((h) => provider.waitForTransaction(h))),
+      new Promise<null>((resolve) => setTimeout(() => resolve(null), 60_000)),
+    ]).catch(() => null);
+    const rc = receipts?.[receipts.length - 1];
+    if (!receipts || !rc) {
+      this.ledger.markPending(record.id, 'WAIT_TIMEOUT');
+      return { status: 'pending', ...base };
+    }
+
+    // permit 가스도 같은 결제 비용으로 합산
+    const gasUsed = receipts.reduce((sum, r) => sum + (r?.gasUsed ?? 0n), 0n);
+    this.ledger.recordGasCost(record.id, gasUsed, rc.gasPrice);
+    if (rc.status !== 1) {
+      const reason = await this.appService.readRevertReason(
+        { from: rc.from, to: token, data: calls[calls.length - 1].data },
+        rc.blockNumber,
+        chainId,
+      );
+      this.ledger.markReverted(record.id, reason ?? 'reverted', rc.blockNumber);
+      return {
+        status: 'reverted',
+        ...base,
+        error: toRevertProblem(null, 'onchain', {
+          txHash,
+          fallbackDetail: reason ?? undefined,
+        }),
+      };
+    }
+
+    // TxTracker가 먼저 확정했으면 영수증도 그쪽에서 인쇄
+    if (!this.ledger.markConfirmed(record.id, rc.blockNumber)) {
+      return { status: 'ok', ...base };
+    }
+    try {
+      await this.appService.printReceipt({
+        txHash,
+        amount: amount.toString(),
+        token,
+        from: payer,
+        to,
+        timestamp: new Date().toISOString(),
+        status: 'success',
+        productName,
+        invoiceId: input.invoiceId,
+      });
+    } catch (e: any) {
+      // 영수증 인쇄 실패해도 결제 성공은 유지
+      this.logger.warn(`[FALLBACK] 영수증 인쇄 실패: ${e?.message}`);
+    }
+    return { status: 'ok', ...base };
+  }
+}
@@ -0,0 +1,222 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ethers } from 'ethers';
+import { ChainService } from './chain.service';
+import { DatabaseService } from './database.service';
+import { GasBudgetService } from './gas-budget.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+
+describe('GasBudgetService', () => {
+  let module: TestingModule;
+  let budget: GasBudgetService;
+  let ledger: PaymentLedgerService;
+
+  const MERCHANT = '0x' + 'aa'.repeat(20);
+  const provider = { getFeeData: jest.fn() };
+  // 두 번째 체인: 체인 설정에 자체 상한 / 기본 예산
+  const polygon = { getFeeData: jest.fn() };
+  const chains: Record<number, unknown> = {
+    97: { provider, config: { chainId: 97 } },
+    137: {
+      provider: polygon,
+      config: {
+        chainId: 137,
+        gasPriceCeilingGwei: '300',
+        gasBudgetDailyWei: '1000000000000000000',
+      },
+    },
+  };
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    process.env.GAS_PRICE_CEILING_GWEI = '5';
+    jest.clearAllMocks();
+    module = await Test.createTestingModule({
+      providers: [
+        DatabaseService,
+        PaymentLedgerService,
+        GasBudgetService,
+        {
+          provide: ChainService,
+          useValue: {
+            chainId: 97,
+            provider,
+            get: (chainId: number = 97) => chains[chainId],
+          },
+        },
+      ],
+    }).compile();
+
+    budget = module.get(GasBudgetService);
+    ledger = module.get(PaymentLedgerService);
+  });
+
+  afterEach(async () => {
+    delete process.env.GAS_PRICE_CEILING_GWEI;
+    await module.close();
+  });
+
+  it('refuses relays while the gas price is above the ceiling', async () => {
+    provider.getFeeData.mockResolvedValue({
+      gasPrice: ethers.parseUnits('6', 'gwei'),
+    });
+    await expect(budget.assertGasPriceWithinCeiling()).rejects.toMatchObject({
+      response: { code: 'GAS_PRICE_TOO_HIGH' },
+    });
+
+    provider.getFeeData.mockResolvedValue({
+      gasPrice: ethers.parseUnits('3', 'gwei'),
+    });
+    await expect(budget.assertGasPriceWithinCeiling()).resolves.toBeUndefined();
+  });
+
+  it('sums recorded gas costs and rejects payments over the daily budget', () => {
+    const record = ledger.create({
+      kind: 'payment',
+      to: MERCHANT,
+      amount: '1',
+    });
+    ledger.recordGasCost(record.id, 100_000n, 2_000_000_000n);
+    expect(ledger.getById(record.id).gasCostWei).toBe('200000000000000');
+
+    budget.setLimits(MERCHANT, {
+      dailyLimitWei: '300000000000000',
+      monthlyLimitWei: null,
+    });
+
+    expect(() =>
+      budget.assertWithinBudget(MERCHANT, 50_000_000_000_000n),
+    ).not.toThrow();
+    let error: unknown;
+    try {
+      budget.assertWithinBudget(MERCHANT, 150_000_000_000_000n);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ForbiddenException);
+    expect((error as ForbiddenException).getResponse()).toMatchObject({
+      code: 'SPONSOR_BUDGET_EXCEEDED',
+      period: 'daily',
+      spentWei: '200000000000000',
+    });
+  });
+
+  it('counts reserved costs of in-flight payments against the budget', () => {
+    budget.setLimits(MERCHANT, {
+      dailyLimitWei: '300000000000000',
+      monthlyLimitWei: null,
+    });
+
+    // 동시에 들어온 결제: 앞선 결제가 채굴 전이어도 예약한 비용만큼 한도에서 차감
+    const first = ledger.create({ kind: 'signed', to: MERCHANT });
+    budget.assertWithinBudget(MERCHANT, 200_000_000_000_000n, {
+      paymentId: first.id,
+    });
+    ledger.markSubmitted(first.id, '0x' + 'ab'.repeat(32));
+    const second = ledger.create({ kind: 'signed', to: MERCHANT });
+    expect(() =>
+      budget.assertWithinBudget(MERCHANT, 200_000_000_000_000n, {
+        paymentId: second.id,
+      }),
+    ).toThrow(ForbiddenException);
+
+    // 채굴되면 실제 비용으로, 실패한 결제의 예약은 풀림
+    ledger.recordGasCost(first.id, 50_000n, 1_000_000_000n);
+    ledger.markConfirmed(first.id, 1);
+    expect(budget.getUsage(MERCHANT).daily.spentWei).toBe('50000000000000');
+    ledger.markFailed(second.id, 'boom');
+    expect(budget.getUsage(MERCHANT).daily.spentWei).toBe('50000000000000');
+  });
+
+  it('applies the gas price ceiling of the relaying chain', async () => {
+    // 기본 체인은 GAS_PRICE_CEILING_GWEI(5), 폴리곤은 체인 설정(300)
+    polygon.getFeeData.mockResolvedValue({
+      gasPrice: ethers.parseUnits('120', 'gwei'),
+    });
+    await expect(
+      budget.assertGasPriceWithinCeiling({ chainId: 137 }),
+    ).resolves.toBeUndefined();
+
+    polygon.getFeeData.mockResolvedValue({
+      gasPrice: ethers.parseUnits('400', 'gwei'),
+    });
+    await expect(
+      budget.assertGasPriceWithinCeiling({ chainId: 137 }),
+    ).rejects.toMatchObject({
+      response: {
+        code: 'GAS_PRICE_TOO_HIGH',
+        chainId: 137,
+        ceilingGwei: '300.0',
+      },
+    });
+  });
+
+  it('keeps budgets and spending separate per chain', () => {
+    budget.setLimits(MERCHANT, {
+      dailyLimitWei: '300000000000000',
+      monthlyLimitWei: null,
+    });
+    const bsc = ledger.create({ kind: 'signed', to: MERCHANT, chainId: 97 });
+    ledger.recordGasCost(bsc.id, 100_000n, 2_000_000_000n);
+    const pol = ledger.create({ kind: 'signed', to: MERCHANT, chainId: 137 });
+    ledger.recordGasCost(pol.id, 100_000n, 100_000_000_000n);
+
+    expect(budget.getUsage(MERCHANT).daily).toEqual({
+      limitWei: '300000000000000',
+      spentWei: '200000000000000',
+    });
+    // 폴리곤은 개별 설정이 없으므로 체인 설정의 기본 예산, 사용량도 폴리곤 결제만
+    expect(budget.getUsage(MERCHANT, 137)).toMatchObject({
+      chainId: 137,
+      daily: {
+        limitWei: '1000000000000000000',
+        spentWei: '10000000000000000',
+      },
+    });
+    expect(() =>
+      budget.assertWithinBudget(MERCHANT, 500_000_000_000_000n, {
+        chainId: 137,
+      }),
+    ).not.toThrow();
+    expect(() =>
+      budget.assertWithinBudget(MERCHANT, 500_000_000_000_000n),
+    ).toThrow(ForbiddenException);
+
+    budget.setLimits(
+      MERCHANT,
+      { dailyLimitWei: '1', monthlyLimitWei: null },
+      137,
+    );
+    expect(budget.getLimits(MERCHANT).dailyLimitWei).toBe('300000000000000');
+    expect(budget.getLimits(MERCHANT, 137).dailyLimitWei).toBe('1');
+  });
+
+  it('moves budgets from the pre-chain table to the default chain', () => {
+    const db = module.get(DatabaseService).db;
+    db.exec(`
+      DROP TABLE gas_budgets;
+      CREATE TABLE gas_budgets (
+        recipient         TEXT PRIMARY KEY,
+        daily_limit_wei   TEXT,
+        monthly_limit_wei TEXT,
+        updated_at        TEXT NOT NULL
+      );
+    `);
+    db.prepare(
+      "INSERT INTO gas_budgets VALUES (?, '42', NULL, '2025-01-01T00:00:00.000Z')",
+    ).run(MERCHANT);
+
+    const migrated = new GasBudgetService(
+      module.get(DatabaseService),
+      module.get(ChainService),
+    );
+
+    expect(migrated.getLimits(MERCHANT)).toEqual({
+      dailyLimitWei: '42',
+      monthlyLimitWei: null,
+    });
+    expect(migrated.getLimits(MERCHANT, 137).dailyLimitWei).toBe(
+      '1000000000000000000',
+    );
+  });
+});
@@ -0,0 +1,337 @@
+// gas-budget.service.ts
+import {
+  ForbiddenException,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ethers } from 'ethers';
+import { ChainService } from './chain.service';
+import { DatabaseService } from './database.service';
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+interface GasBudgetRow {
+  recipient: string;
+  chain_id: number;
+  daily_limit_wei: string | null;
+  monthly_limit_wei: string | null;
+  updated_at: string;
+}
+
+export interface GasBudgetLimits {
+  dailyLimitWei: string | null;
+  monthlyLimitWei: string | null;
+}
+
+/**
+ * 스폰서 가스비 통제: 가스 가격 상한 + 수취 가맹점별 일/월 예산.
+ * 체인마다 가스 시세와 네이티브 코인이 다르므로 상한 / 예산 / 사용량은 모두 체인별로 따로 본다.
+ */
+@Injectable()
+export class GasBudgetService {
+  private readonly logger = new Logger('GasBudgetService');
+
+  // refuse: 즉시 거절 / hold: GAS_HOLD_MAX_MS 동안 가격이 내려가길 대기
+  private readonly mode =
+    process.env.GAS_CEILING_MODE === 'hold' ? 'hold' : 'refuse';
+  private readonly holdMaxMs = Number(process.env.GAS_HOLD_MAX_MS) || 60_000;
+  private readonly holdPollMs = 5_000;
+
+  constructor(
+    private readonly database: DatabaseService,
+    private readonly chain: ChainService,
+  ) {
+    this.migrateLegacyTable();
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS gas_budgets (
+        recipient         TEXT NOT NULL,
+        chain_id          INTEGER NOT NULL,
+        daily_limit_wei   TEXT,
+        monthly_limit_wei TEXT,
+        updated_at        TEXT NOT NULL,
+        PRIMARY KEY (recipient, chain_id)
+      );
+    `);
+  }
+
+  // 체인 구분 전 테이블(recipient만 키)의 예산은 기본 체인 예산으로 옮김
+  private migrateLegacyTable() {
+    const columns = this.database.db
+      .prepare('PRAGMA table_info(gas_budgets)')
+      .all() as Array<{ name: string }>;
+    if (columns.length === 0 || columns.some((c) => c.name === 'chain_id')) {
+      return;
+    }
+    this.database.db.transaction(() => {
+      this.database.db.exec(`
+        ALTER TABLE gas_budgets RENAME TO gas_budgets_legacy;
+        CREATE TABLE gas_budgets (
+          recipient         TEXT NOT NULL,
+          chain_id          INTEGER NOT NULL,
+          daily_limit_wei   TEXT,
+          monthly_limit_wei TEXT,
+          updated_at        TEXT NOT NULL,
+          PRIMARY KEY (recipient, chain_id)
+        );
+      `);
+      this.database.db
+        .prepare(
+          `INSERT INTO gas_budgets
+             SELECT recipient, ?, daily_limit_wei, monthly_limit_wei, updated_at
+               FROM gas_budgets_legacy`,
+        )
+        .run(this.chain.chainId);
+      this.database.db.exec('DROP TABLE gas_budgets_legacy');
+    })();
+    this.logger.log(
+      `[GAS_BUDGET] 기존 예산을 기본 체인(${this.chain.chainId}) 예산으로 이전`,
+    );
+  }
+
+  private gwei(v: bigint) {
+    return ethers.formatUnits(v, 'gwei');
+  }
+
+  /**
+   * 체인 설정의 값 우선, 없으면 기본 체인에만 환경변수 값을 적용.
+   * (다른 체인은 시세 / 네이티브 코인이 달라 같은 숫자를 쓸 수 없음)
+   */
+  private chainSetting(
+    chainId: number,
+    key: 'gasPriceCeilingGwei' | 'gasBudgetDailyWei' | 'gasBudgetMonthlyWei',
+    envKey: string,
+  ): string | null {
+    const { config } = this.chain.get(chainId);
+    const value =
+      config[key] ??
+      (config.chainId === this.chain.chainId ? process.env[envKey] : null);
+    return value == null || value === '' ? null : String(value);
+  }
+
+  // 이 가격을 넘으면 릴레이 거절(또는 대기), 미설정 시 상한 없음
+  private ceilingOf(chainId: number): bigint | null {
+    const gwei = this.chainSetting(
+      chainId,
+      'gasPriceCeilingGwei',
+      'GAS_PRICE_CEILING_GWEI',
+    );
+    return gwei ? ethers.parseUnits(gwei, 'gwei') : null;
+  }
+
+  // 현재 시세 (eth_gasPrice 우선, 없으면 maxFeePerGas)
+  private async currentGasPrice(chainId: number): Promise<bigint | null> {
+    const fee = await this.chain.get(chainId).provider.getFeeData();
+    return fee.gasPrice ?? fee.maxFeePerGas ?? null;
+  }
+
+  /**
+   * 가스 가격 상한 확인.
+   * hold 모드면 상한 아래로 내려올 때까지 기다렸다가 통과시키고, 시간 초과 시 거절.
+   * opts.hold=false면 모드와 관계없이 바로 판정 (사전 점검용).
+   */
+  async assertGasPriceWithinCeiling(
+    opts: { hold?: boolean; chainId?: number } = {},
+  ) {
+    const chainId = opts.chainId ?? this.chain.chainId;
+    const ceiling = this.ceilingOf(chainId);
+    if (!ceiling) return;
+
+    const hold = this.mode === 'hold' && opts.hold !== false;
+    const deadline = Date.now() + (hold ? this.holdMaxMs : 0);
+    for (;;) {
+      const price = await this.currentGasPrice(chainId);
+      if (price == null || price <= ceiling) return;
+
+      if (Date.now() >= deadline) {
+        this.logger.warn(
+          `[GAS_CEILING] 거절: chainId=${chainId} price=${this.gwei(price)} gwei > ceiling=${this.gwei(ceiling)} gwei`,
+        );
+        throw new ServiceUnavailableException({
+          code: 'GAS_PRICE_TOO_HIGH',
+          message: '네트워크 가스 가격이 스폰서 상한을 초과했습니다.',
+          chainId,
+          gasPriceGwei: this.gwei(price),
+          ceilingGwei: this.gwei(ceiling),
+        });
+      }
+
+      this.logger.log(
+        `[GAS_CEILING] 대기: chainId=${chainId} price=${this.gwei(price)} gwei > ceiling=${this.gwei(ceiling)} gwei`,
+      );
+      await new Promise((r) => setTimeout(r, this.holdPollMs));
+    }
+  }
+
+  // 개별 설정이 없으면 체인의 기본 예산 (미설정 시 무제한)
+  getLimits(
+    recipient: string,
+    chainId: number = this.chain.chainId,
+  ): GasBudgetLimits {
+    const row = this.database.db
+      .prepare('SELECT * FROM gas_budgets WHERE recipient = ? AND chain_id = ?')
+      .get(recipient.toLowerCase(), chainId) as GasBudgetRow | undefined;
+    if (row) {
+      return {
+        dailyLimitWei: row.daily_limit_wei,
+        monthlyLimitWei: row.monthly_limit_wei,
+      };
+    }
+    return {
+      dailyLimitWei: this.chainSetting(
+        chainId,
+        'gasBudgetDailyWei',
+        'GAS_BUDGET_DAILY_WEI',
+      ),
+      monthlyLimitWei: this.chainSetting(
+        chainId,
+        'gasBudgetMonthlyWei',
+        'GAS_BUDGET_MONTHLY_WEI',
+      ),
+    };
+  }
+
+  setLimits(
+    recipient: string,
+    limits: GasBudgetLimits,
+    chainId: number = this.chain.chainId,
+  ) {
+    // 지원하지 않는 체인이면 UNSUPPORTED_CHAIN
+    this.chain.get(chainId);
+    const norm = (v: string | null | undefined) =>
+      v == null || v === '' ? null : BigInt(v).toString();
+    this.database.db
+      .prepare(
+        `INSERT INTO gas_budgets (recipient, chain_id, daily_limit_wei, monthly_limit_wei, updated_at)
+         VALUES (@recipient, @chainId, @daily, @monthly, @now)
+         ON CONFLICT (recipient, chain_id) DO UPDATE SET
+           daily_limit_wei = @daily, monthly_limit_wei = @monthly, updated_at = @now`,
+      )
+      .run({
+        recipient: recipient.toLowerCase(),
+        chainId,
+        daily: norm(limits.dailyLimitWei),
+        monthly: norm(limits.monthlyLimitWei),
+        now: new Date().toISOString(),
+      });
+    this.logger.log(
+      `[GAS_BUDGET] 예산 설정: ${recipient} chainId=${chainId}`,
+      limits,
+    );
+    return this.getUsage(recipient, chainId);
+  }
+
+  private periodStart(period: BudgetPeriod, now = new Date()) {
+    const start = new Date(
+      Date.UTC(
+        now.getUTCFullYear(),
+        now.getUTCMonth(),
+        period === 'daily' ? now.getUTCDate() : 1,
+      ),
+    );
+    return start.toISOString();
+  }
+
+  /**
+   * 기간 내 가맹점(수취인) 결제 + 가맹점이 보낸 환불의 스폰서 가스비 합계 (해당 체인의 결제만).
+   * 아직 채굴되지 않은 결제는 릴레이 전에 예약한 예상 비용으로 계산 (동시 결제가 한도를 함께 넘지 않도록).
+   */
+  spentSince(
+    recipient: string,
+    since: string,
+    chainId: number = this.chain.chainId,
+  ): bigint {
+    const rows = this.database.db
+      .prepare(
+        `SELECT COALESCE(
+                  gas_cost_wei,
+                  CASE WHEN status IN ('received', 'submitted', 'pending')
+                       THEN estimated_cost_wei END
+                ) AS cost
+           FROM payments
+          WHERE (to_address = @recipient OR (kind = 'refund' AND from_address = @recipient))
+            AND COALESCE(chain_id, @defaultChainId) = @chainId
+            AND created_at >= @since`,
+      )
+      .all({
+        recipient: recipient.toLowerCase(),
+        since,
+        chainId,
+        defaultChainId: this.chain.chainId,
+      }) as Array<{
+      cost: string | null;
+    }>;
+    return rows.reduce((sum, r) => sum + BigInt(r.cost ?? 0), 0n);
+  }
+
+  getUsage(recipient: string, chainId: number = this.chain.chainId) {
+    const limits = this.getLimits(recipient, chainId);
+    return {
+      recipient: recipient.toLowerCase(),
+      chainId,
+      daily: {
+        limitWei: limits.dailyLimitWei,
+        spentWei: this.spentSince(
+          recipient,
+          this.periodStart('daily'),
+          chainId,
+        ).toString(),
+      },
+      monthly: {
+        limitWei: limits.monthlyLimitWei,
+        spentWei: this.spentSince(
+          recipient,
+          this.periodStart('monthly'),
+          chainId,
+        ).toString(),
+      },
+    };
+  }
+
+  /**
+   * 가맹점 예산 확인 (릴레이하는 체인 기준). 이미 쓴 금액 + 이번 예상 비용이 한도를 넘으면 거절.
+   * paymentId를 주면 통과 즉시 예상 비용을 그 결제에 예약 (확인과 예약 사이에 await 없음).
+   */
+  assertWithinBudget(
+    recipient: string,
+    estimatedCostWei: bigint = 0n,
+    opts: { paymentId?: string; chainId?: number } = {},
+  ) {
+    const { paymentId, chainId = this.chain.chainId } = opts;
+    const limits = this.getLimits(recipient, chainId);
+    const checks: Array<[BudgetPeriod, string | null]> = [
+      ['daily', limits.dailyLimitWei],
+      ['monthly', limits.monthlyLimitWei],
+    ];
+
+    for (const [period, limit] of checks) {
+      if (limit == null) continue;
+      const spent = this.spentSince(
+        recipient,
+        this.periodStart(period),
+        chainId,
+      );
+      if (spent + estimatedCostWei > BigInt(limit)) {
+        this.logger.warn(
+          `[GAS_BUDGET] 예산 초과: ${recipient} chainId=${chainId} ${period} spent=${spent} est=${estimatedCostWei} limit=${limit}`,
+        );
+        throw new ForbiddenException({
+          code: 'SPONSOR_BUDGET_EXCEEDED',
+          message: '가맹점의 가스비 후원 예산을 초과했습니다.',
+          recipient,
+          chainId,
+          period,
+          limitWei: limit,
+          spentWei: spent.toString(),
+          estimatedCostWei: estimatedCostWei.toString(),
+        });
+      }
+    }
+
+    if (paymentId) {
+      this.database.db
+        .prepare('UPDATE payments SET estimated_cost_wei = ? WHERE id = ?')
+        .run(estimatedCostWei.toString(), paymentId);
+    }
+  }
+}
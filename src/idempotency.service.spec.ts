@@ -0,0 +1,119 @@
+import { ethers } from 'ethers';
+import { DatabaseService } from './database.service';
+import { IdempotencyService } from './idempotency.service';
+
+describe('IdempotencyService', () => {
+  let database: DatabaseService;
+  let idempotency: IdempotencyService;
+
+  beforeEach(() => {
+    process.env.DB_PATH = ':memory:';
+    database = new DatabaseService();
+    idempotency = new IdempotencyService(database);
+  });
+
+  afterEach(() => database.onModuleDestroy());
+
+  // 키의 시각을 과거로 (TTL / 처리 시간 초과 흉내)
+  function age(key: string, ms: number) {
+    const past = new Date(Date.now() - ms).toISOString();
+    database.db
+      .prepare(
+        'UPDATE idempotency_keys SET created_at = ?, updated_at = ? WHERE key = ?',
+      )
+      .run(past, past, key);
+  }
+
+  it('replays the stored response for a completed key', async () => {
+    const fn = jest.fn().mockResolvedValue({ status: 'ok', txHash: '0x1' });
+
+    await idempotency.execute('k1', 'h1', fn);
+    const replay = await idempotency.execute('k1', 'h1', fn);
+
+    expect(replay).toEqual({ status: 'ok', txHash: '0x1' });
+    expect(fn).toHaveBeenCalledTimes(1);
+    await expect(idempotency.execute('k1', 'other', fn)).rejects.toMatchObject({
+      response: { code: 'IDEMPOTENCY_KEY_REUSED' },
+    });
+  });
+
+  it('answers 409 while the first request is in flight', async () => {
+    let finish!: (v: unknown) => void;
+    const first = idempotency.execute(
+      'k1',
+      'h1',
+      () => new Promise((resolve) => (finish = resolve)),
+    );
+
+    await expect(
+      idempotency.execute('k1', 'h1', jest.fn()),
+    ).rejects.toMatchObject({
+      status: 409,
+      response: { code: 'REQUEST_IN_FLIGHT', status: 'in_flight' },
+    });
+
+    finish({ status: 'ok' });
+    await expect(first).resolves.toEqual({ status: 'ok' });
+  });
+
+  it('re-runs a key whose first attempt failed', async () => {
+    await expect(
+      idempotency.execute('k1', 'h1', () =>
+        Promise.reject(new Error('chainId mismatch')),
+      ),
+    ).rejects.toThrow('chainId mismatch');
+
+    const fn = jest.fn().mockResolvedValue({ status: 'ok' });
+    await expect(idempotency.execute('k1', 'h1', fn)).resolves.toEqual({
+      status: 'ok',
+    });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('forgets keys older than the TTL', async () => {
+    const fn = jest.fn().mockResolvedValue({ status: 'ok' });
+    await idempotency.execute('k1', 'h1', fn);
+    age('k1', 25 * 3600_000);
+
+    await idempotency.execute('k1', 'h1', fn);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('re-runs in-flight keys that are stale or left over from a restart', async () => {
+    void idempotency.execute('stuck', 'h1', () => new Promise(() => {}));
+    age('stuck', 11 * 60_000);
+
+    const fn = jest.fn().mockResolvedValue({ status: 'ok' });
+    await expect(idempotency.execute('stuck', 'h1', fn)).resolves.toEqual({
+      status: 'ok',
+    });
+
+    // 재시작 시 남아 있던 in_flight는 실패로 바뀌어 바로 다시 실행 가능
+    void idempotency.execute('crashed', 'h2', () => new Promise(() => {}));
+    const restarted = new IdempotencyService(database);
+    await restarted.execute('crashed', 'h2', fn);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('derives the same key from the EIP-712 digest with or without EIP712Domain', () => {
+    const domain = { name: 'DelegatedTransfer', version: '1', chainId: 97 };
+    const types = { Ping: [{ name: 'n', type: 'uint256' }] };
+    const withDomain = {
+      EIP712Domain: [{ name: 'name', type: 'string' }],
+      ...types,
+    };
+
+    const key = idempotency.deriveKeyFromTypedData(domain, types, { n: 1 });
+
+    expect(key).toBe(
+      `eip712:${ethers.TypedDataEncoder.hash(domain, types, { n: 1 })}`,
+    );
+    expect(
+      idempotency.deriveKeyFromTypedData(domain, withDomain, { n: 1 }),
+    ).toBe(key);
+    expect(idempotency.deriveKeyFromTypedData(domain, null, { n: 1 })).toBe(
+      null,
+    );
+  });
+});
@@ -0,0 +1,171 @@
+// idempotency.service.ts
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { DatabaseService } from './database.service';
+
+type IdempotencyState = 'in_flight' | 'completed' | 'failed';
+
+interface IdempotencyRow {
+  key: string;
+  request_hash: string;
+  state: IdempotencyState;
+  response: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// 같은 결제 요청의 재시도가 릴레이를 두 번 일으키지 않도록 결과를 키별로 저장
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger('IdempotencyService');
+
+  private readonly ttlMs =
+    (Number(process.env.IDEMPOTENCY_TTL_HOURS) || 24) * 3600_000;
+  // 이 시간이 지나도 in_flight면 응답 없이 끝난 요청으로 보고 다시 실행 허용
+  private readonly inFlightTimeoutMs =
+    (Number(process.env.IDEMPOTENCY_IN_FLIGHT_TIMEOUT_SEC) || 600) * 1000;
+
+  constructor(private readonly database: DatabaseService) {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        key          TEXT PRIMARY KEY,
+        request_hash TEXT NOT NULL,
+        state        TEXT NOT NULL,
+        response     TEXT,
+        created_at   TEXT NOT NULL,
+        updated_at   TEXT NOT NULL
+      );
+    `);
+
+    // 재시작 전에 처리 중이던 요청은 이어서 끝낼 수 없으므로 실패로 (재시도 시 다시 실행)
+    const interrupted = this.database.db
+      .prepare(
+        `UPDATE idempotency_keys SET state = 'failed', response = ?, updated_at = ?
+          WHERE state = 'in_flight'`,
+      )
+      .run(
+        this.j({ error: 'interrupted by restart' }),
+        new Date().toISOString(),
+      );
+    if (interrupted.changes > 0) {
+      this.logger.warn(
+        `[IDEMPOTENCY] 재시작으로 중단된 요청 ${interrupted.changes}건 실패 처리`,
+      );
+    }
+  }
+
+  private j(obj: any) {
+    return JSON.stringify(obj, (_k, v) =>
+      typeof v === 'bigint' ? v.toString() : v,
+    );
+  }
+
+  // 요청 본문 해시 (같은 키로 다른 요청을 보낸 경우 감지용)
+  hashBody(body: any) {
+    return ethers.id(this.j(body ?? {}));
+  }
+
+  // EIP-712 digest 기반 키 (헤더가 없는 재시도도 같은 서명이면 같은 키)
+  deriveKeyFromTypedData(domain: any, types: any, message: any): string | null {
+    if (!domain || !types || !message) return null;
+    try {
+      // EIP712Domain 항목은 ethers가 domain에서 직접 계산
+      const structTypes = Object.fromEntries(
+        Object.entries(types).filter(([name]) => name !== 'EIP712Domain'),
+      ) as Record<string, ethers.TypedDataField[]>;
+      return `eip712:${ethers.TypedDataEncoder.hash(domain, structTypes, message)}`;
+    } catch (e: any) {
+      this.logger.warn(`[IDEMPOTENCY] EIP-712 digest 계산 실패: ${e?.message}`);
+      return null;
+    }
+  }
+
+  private purgeExpired() {
+    const cutoff = new Date(Date.now() - this.ttlMs).toISOString();
+    this.database.db
+      .prepare('DELETE FROM idempotency_keys WHERE created_at < ?')
+      .run(cutoff);
+  }
+
+  /**
+   * key로 한 번만 실행.
+   * - completed: 저장된 원래 응답 반환
+   * - in_flight: 409 + 진행 중 상태 반환 (릴레이 재시도 안 함)
+   *   IDEMPOTENCY_IN_FLIGHT_TIMEOUT_SEC(기본 600초)가 지난 in_flight는 중단된 요청으로 보고 다시 실행
+   * - failed: 릴레이 전 실패이므로 다시 실행 허용
+   */
+  async execute<T>(
+    key: string,
+    requestHash: string,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    this.purgeExpired();
+
+    const existing = this.database.db
+      .prepare('SELECT * FROM idempotency_keys WHERE key = ?')
+      .get(key) as IdempotencyRow | undefined;
+
+    if (existing) {
+      if (existing.request_hash !== requestHash) {
+        this.logger.warn(`[IDEMPOTENCY] 다른 요청에 재사용된 키: ${key}`);
+        throw new ConflictException({
+          code: 'IDEMPOTENCY_KEY_REUSED',
+          message: '같은 Idempotency-Key로 다른 요청이 들어왔습니다.',
+          idempotencyKey: key,
+        });
+      }
+      if (existing.state === 'completed') {
+        this.logger.log(`[IDEMPOTENCY] 저장된 응답 재사용: ${key}`);
+        return JSON.parse(existing.response!) as T;
+      }
+      const stale =
+        existing.state === 'in_flight' &&
+        Date.now() - new Date(existing.updated_at).getTime() >
+          this.inFlightTimeoutMs;
+      if (stale) {
+        this.logger.warn(
+          `[IDEMPOTENCY] 응답 없이 오래된 요청, 다시 실행: ${key} (시작 ${existing.created_at})`,
+        );
+      } else if (existing.state === 'in_flight') {
+        this.logger.warn(`[IDEMPOTENCY] 처리 중인 요청 재시도: ${key}`);
+        throw new ConflictException({
+          code: 'REQUEST_IN_FLIGHT',
+          message: '같은 결제 요청이 이미 처리 중입니다.',
+          idempotencyKey: key,
+          status: 'in_flight',
+          startedAt: existing.created_at,
+        });
+      }
+      this.database.db
+        .prepare('DELETE FROM idempotency_keys WHERE key = ?')
+        .run(key);
+    }
+
+    const now = new Date().toISOString();
+    this.database.db
+      .prepare(
+        `INSERT INTO idempotency_keys (key, request_hash, state, created_at, updated_at)
+         VALUES (?, ?, 'in_flight', ?, ?)`,
+      )
+      .run(key, requestHash, now, now);
+
+    try {
+      const result = await fn();
+      this.finish(key, 'completed', result);
+      return result;
+    } catch (e: any) {
+      this.finish(key, 'failed', {
+        error: e?.response ?? e?.message ?? String(e),
+      });
+      throw e;
+    }
+  }
+
+  private finish(key: string, state: IdempotencyState, response: any) {
+    this.database.db
+      .prepare(
+        'UPDATE idempotency_keys SET state = ?, response = ?, updated_at = ? WHERE key = ?',
+      )
+      .run(state, this.j(response), new Date().toISOString(), key);
+  }
+}
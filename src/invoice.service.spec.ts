@@ -0,0 +1,249 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DatabaseService } from './database.service';
+import { InvoiceService } from './invoice.service';
+import type { Merchant } from './merchant.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { FixedPriceSource, PriceService } from './price.service';
+import { TokenInfo, TokenRegistryService } from './token-registry.service';
+
+describe('InvoiceService', () => {
+  const USDT: TokenInfo = {
+    chainId: 97,
+    address: '0x3333333333333333333333333333333333333333',
+    symbol: 'USDT',
+    decimals: 6,
+    name: 'Tether USD',
+    enabled: true,
+    minSponsoredAmount: null,
+  };
+  const RECIPIENT = '0x2222222222222222222222222222222222222222';
+
+  let module: TestingModule;
+  let invoices: InvoiceService;
+  let price: PriceService;
+  let ledger: PaymentLedgerService;
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    process.env.PRICE_SOURCE = 'fixed';
+    module = await Test.createTestingModule({
+      providers: [
+        DatabaseService,
+        PaymentLedgerService,
+        PriceService,
+        InvoiceService,
+        {
+          provide: TokenRegistryService,
+          useValue: {
+            defaultToken: () => USDT,
+            require: () => USDT,
+            toBaseUnits: (amount: string) => BigInt(amount),
+            normalize: (_: string, amount: string) => ({
+              token: USDT,
+              amount: BigInt(amount),
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    invoices = module.get(InvoiceService);
+    price = module.get(PriceService);
+    ledger = module.get(PaymentLedgerService);
+    price.use(new FixedPriceSource('KRW/USDT=1380'));
+  });
+
+  afterEach(async () => {
+    delete process.env.PRICE_SOURCE;
+    jest.useRealTimers();
+    await module.close();
+  });
+
+  it('converts a KRW price at a locked rate', async () => {
+    const invoice = await invoices.create({
+      fiatCurrency: 'krw',
+      fiatAmount: '15000',
+      recipient: RECIPIENT,
+      productName: '아메리카노',
+    });
+
+    // 15000 / 1380 = 10.869565.. USDT → 기본 단위 올림
+    expect(invoice).toMatchObject({
+      fiatCurrency: 'KRW',
+      fiatAmount: '15000',
+      rate: '1380',
+      rateSource: 'fixed',
+      token: USDT.address,
+      tokenAmount: '10869566',
+      tokenAmountFormatted: '10.869566',
+    });
+
+    // 환율이 바뀌어도 발급된 인보이스 금액은 그대로
+    price.use(new FixedPriceSource('KRW/USDT=1500'));
+    expect(invoices.getPayable(invoice.id).tokenAmount).toBe('10869566');
+
+    expect(() =>
+      invoices.assertMatches(invoice, {
+        token: USDT.address,
+        amount: '10000000',
+        to: RECIPIENT,
+      }),
+    ).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({
+          code: 'INVOICE_MISMATCH',
+          field: 'amount',
+        }),
+      }),
+    );
+  });
+
+  it('rejects expired invoices and missing prices', async () => {
+    const invoice = await invoices.create({
+      fiatCurrency: 'KRW',
+      fiatAmount: 5000,
+      recipient: RECIPIENT,
+      ttlSec: 60,
+    });
+
+    jest.useFakeTimers({ now: Date.now() + 61_000 });
+    expect(() => invoices.getPayable(invoice.id)).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({ code: 'INVOICE_EXPIRED' }),
+      }),
+    );
+
+    await expect(
+      invoices.create({
+        fiatCurrency: 'USD',
+        fiatAmount: '10',
+        recipient: RECIPIENT,
+      }),
+    ).rejects.toMatchObject({ response: { code: 'PRICE_UNAVAILABLE' } });
+  });
+
+  it('moves through open → paid via the ledger and guards the lifecycle', async () => {
+    const invoice = await invoices.create({
+      amount: '2500000',
+      recipient: RECIPIENT,
+      description: '라떼 x1',
+    });
+    expect(invoice).toMatchObject({
+      status: 'open',
+      fiatCurrency: null,
+      tokenAmount: '2500000',
+      productName: '라떼 x1',
+    });
+    expect(invoices.paymentRequest(invoice)).toMatchObject({
+      type: 'payment_request',
+      invoiceId: invoice.id,
+      amount: '2500000',
+      recipient: RECIPIENT,
+    });
+
+    // QR의 수취인이 바뀌었으면 거절
+    expect(() =>
+      invoices.lockedTerms(invoice, {
+        to: '0x4444444444444444444444444444444444444444',
+      }),
+    ).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({
+          code: 'INVOICE_MISMATCH',
+          field: 'to',
+        }),
+      }),
+    );
+
+    const payment = ledger.create({ kind: 'signed', invoiceId: invoice.id });
+    ledger.markSubmitted(payment.id, '0x' + 'ab'.repeat(32));
+    expect(() => invoices.getPayable(invoice.id)).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({ code: 'INVOICE_IN_PROGRESS' }),
+      }),
+    );
+    expect(() => invoices.cancel(invoice.id)).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({ code: 'INVOICE_IN_PROGRESS' }),
+      }),
+    );
+
+    ledger.markConfirmed(payment.id, 123);
+    expect(invoices.getById(invoice.id)).toMatchObject({
+      status: 'paid',
+      paymentId: payment.id,
+      txHash: '0x' + 'ab'.repeat(32),
+    });
+    expect(() => invoices.resolve(invoice.id)).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({ code: 'INVOICE_ALREADY_PAID' }),
+      }),
+    );
+
+    const other = await invoices.create({
+      amount: '1000000',
+      recipient: RECIPIENT,
+    });
+    expect(invoices.cancel(other.id).status).toBe('cancelled');
+    expect(invoices.list({ status: 'open' })).toHaveLength(0);
+  });
+
+  it('scopes invoices to the issuing merchant', async () => {
+    const merchant = {
+      id: 'mer_1',
+      payoutAddresses: [RECIPIENT],
+    } as Merchant;
+
+    // 수취인을 생략하면 첫 번째 정산 주소
+    const invoice = await invoices.create({ amount: '1000000' }, merchant);
+    expect(invoice).toMatchObject({
+      merchantId: 'mer_1',
+      recipient: RECIPIENT,
+    });
+
+    await expect(
+      invoices.create(
+        {
+          amount: '1000000',
+          recipient: '0x4444444444444444444444444444444444444444',
+        },
+        merchant,
+      ),
+    ).rejects.toMatchObject({ response: { code: 'RECIPIENT_NOT_OWNED' } });
+
+    expect(invoices.getOwned(invoice.id, 'mer_1').id).toBe(invoice.id);
+    expect(() => invoices.getOwned(invoice.id, 'mer_2')).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({ code: 'INVOICE_NOT_FOUND' }),
+      }),
+    );
+    expect(() => invoices.cancel(invoice.id, 'mer_2')).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({ code: 'INVOICE_NOT_FOUND' }),
+      }),
+    );
+    expect(invoices.list({ merchantId: 'mer_2' })).toHaveLength(0);
+    expect(invoices.list({ merchantId: 'mer_1' })).toHaveLength(1);
+  });
+
+  it('requires an invoice only when REQUIRE_INVOICE is set', () => {
+    expect(() => invoices.assertInvoiceNotRequired()).not.toThrow();
+    expect(invoices.resolve(null)).toBeNull();
+
+    process.env.REQUIRE_INVOICE = 'true';
+    try {
+      expect(() => invoices.assertInvoiceNotRequired()).toThrow(
+        expect.objectContaining({
+          response: expect.objectContaining({ code: 'INVOICE_REQUIRED' }),
+        }),
+      );
+      expect(() => invoices.resolve(undefined)).toThrow(
+        expect.objectContaining({
+          response: expect.objectContaining({ code: 'INVOICE_REQUIRED' }),
+        }),
+      );
+    } finally {
+      delete process.env.REQUIRE_INVOICE;
+    }
+  });
+});
@@ -0,0 +1,600 @@
+// invoice.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ethers } from 'ethers';
+import { DatabaseService } from './database.service';
+import type { Merchant } from './merchant.service';
+import {
+  PaymentLedgerService,
+  PaymentRecord,
+  PaymentStatus,
+} from './payment-ledger.service';
+import { PriceService } from './price.service';
+import { TokenRegistryService } from './token-registry.service';
+
+// open → paid | expired | cancelled (expired 상태에서도 진행 중이던 결제가 확정되면 paid)
+export type InvoiceStatus = 'open' | 'paid' | 'expired' | 'cancelled';
+
+export interface Invoice {
+  id: string;
+  status: InvoiceStatus;
+  // 발급한 가맹점
+  merchantId: string | null;
+  chainId: number;
+  token: string;
+  tokenSymbol: string | null;
+  tokenDecimals: number;
+  // 결제 금액 (기본 단위, 법정화폐 인보이스는 고정된 환율로 환산한 값)
+  tokenAmount: string;
+  tokenAmountFormatted: string;
+  // 법정화폐 인보이스만
+  fiatCurrency: string | null;
+  fiatAmount: string | null;
+  rate: string | null;
+  rateSource: string | null;
+  recipient: string;
+  productName: string | null;
+  // 품목 설명
+  description: string | null;
+  expiresAt: string;
+  paymentId: string | null;
+  txHash: string | null;
+  paidAt: string | null;
+  cancelledAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateInvoiceInput {
+  // 생략 시 가맹점의 첫 번째 정산 주소
+  recipient?: string;
+  // 토큰 금액 (기본 단위 또는 10진수) 또는 법정화폐 금액 중 하나
+  amount?: string | number;
+  fiatCurrency?: string;
+  fiatAmount?: string | number;
+  // 생략 시 체인의 기본 토큰
+  token?: string;
+  chainId?: number | string;
+  productName?: string;
+  description?: string;
+  ttlSec?: number;
+}
+
+export interface InvoiceQuery {
+  merchantId?: string;
+  status?: string;
+  recipient?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// invoices 테이블 row (snake_case)
+interface InvoiceRow {
+  id: string;
+  status: InvoiceStatus;
+  merchant_id: string | null;
+  chain_id: number;
+  token: string;
+  token_symbol: string | null;
+  token_decimals: number;
+  token_amount: string;
+  fiat_currency: string | null;
+  fiat_amount: string | null;
+  rate: string | null;
+  rate_source: string | null;
+  recipient: string;
+  product_name: string | null;
+  description: string | null;
+  expires_at: string;
+  payment_id: string | null;
+  tx_hash: string | null;
+  paid_at: string | null;
+  cancelled_at: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+// 같은 인보이스에 다른 결제를 시작하지 못하게 하는 원장 상태
+const IN_PROGRESS: PaymentStatus[] = ['received', 'submitted', 'pending'];
+
+/**
+ * 가맹점이 발급하는 결제 요청(인보이스).
+ * 결제 QR에는 invoiceId가 들어가고, 금액 / 토큰 / 수취인은 서버에 저장된 값으로만 결제받는다.
+ * 법정화폐 금액이면 생성 시 가격 소스의 환율로 토큰 금액을 환산해 고정한다.
+ * 원장의 결제가 confirmed가 되면 paid로 바뀐다.
+ */
+@Injectable()
+export class InvoiceService {
+  private readonly logger = new Logger('InvoiceService');
+
+  private readonly ttlSec = Number(process.env.INVOICE_TTL_SEC) || 900;
+
+  constructor(
+    private readonly database: DatabaseService,
+    private readonly tokens: TokenRegistryService,
+    private readonly price: PriceService,
+    private readonly ledger: PaymentLedgerService,
+  ) {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS invoices (
+        id             TEXT PRIMARY KEY,
+        chain_id       INTEGER NOT NULL,
+        token          TEXT NOT NULL,
+        token_symbol   TEXT,
+        token_decimals INTEGER NOT NULL,
+        token_amount   TEXT NOT NULL,
+        fiat_currency  TEXT,
+        fiat_amount    TEXT,
+        rate           TEXT,
+        rate_source    TEXT,
+        recipient      TEXT NOT NULL,
+        product_name   TEXT,
+        expires_at     TEXT NOT NULL,
+        created_at     TEXT NOT NULL
+      );
+    `);
+    this.database.ensureColumns('invoices', {
+      status: "TEXT NOT NULL DEFAULT 'open'",
+      merchant_id: 'TEXT',
+      description: 'TEXT',
+      payment_id: 'TEXT',
+      tx_hash: 'TEXT',
+      paid_at: 'TEXT',
+      cancelled_at: 'TEXT',
+      updated_at: 'TEXT',
+    });
+    this.database.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_invoices_status    ON invoices (status);
+      CREATE INDEX IF NOT EXISTS idx_invoices_recipient ON invoices (recipient);
+      CREATE INDEX IF NOT EXISTS idx_invoices_merchant  ON invoices (merchant_id);
+    `);
+
+    this.ledger.onTransition((record) => this.onPaymentTransition(record));
+  }
+
+  private toInvoice(row: InvoiceRow): Invoice {
+    return {
+      id: row.id,
+      status: row.status,
+      merchantId: row.merchant_id,
+      chainId: row.chain_id,
+      token: row.token,
+      tokenSymbol: row.token_symbol,
+      tokenDecimals: row.token_decimals,
+      tokenAmount: row.token_amount,
+      tokenAmountFormatted: ethers.formatUnits(
+        BigInt(row.token_amount),
+        row.token_decimals,
+      ),
+      fiatCurrency: row.fiat_currency,
+      fiatAmount: row.fiat_amount,
+      rate: row.rate,
+      rateSource: row.rate_source,
+      recipient: row.recipient,
+      productName: row.product_name,
+      description: row.description,
+      expiresAt: row.expires_at,
+      paymentId: row.payment_id,
+      txHash: row.tx_hash,
+      paidAt: row.paid_at,
+      cancelledAt: row.cancelled_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at ?? row.created_at,
+    };
+  }
+
+  // merchant가 있으면 수취인은 그 가맹점의 정산 주소여야 함
+  async create(
+    input: CreateInvoiceInput,
+    merchant?: Merchant,
+  ): Promise<Invoice> {
+    const { fiatCurrency, fiatAmount, amount } =
+      input ?? ({} as CreateInvoiceInput);
+    const recipient = input?.recipient ?? merchant?.payoutAddresses[0];
+    if (!recipient || !ethers.isAddress(recipient)) {
+      throw new BadRequestException({
+        code: 'INVALID_ADDRESS',
+        message: 'recipient invalid',
+      });
+    }
+    if (
+      merchant &&
+      !merchant.payoutAddresses.some(
+        (a) => a.toLowerCase() === recipient.toLowerCase(),
+      )
+    ) {
+      throw new ForbiddenException({
+        code: 'RECIPIENT_NOT_OWNED',
+        message: '가맹점에 등록된 정산 주소가 아닙니다.',
+        recipient,
+        payoutAddresses: merchant.payoutAddresses,
+      });
+    }
+    const isFiat = fiatAmount != null;
+    if (isFiat === (amount != null)) {
+      throw new BadRequestException({
+        code: 'INVALID_AMOUNT',
+        message: 'amount 또는 fiatAmount 중 하나만 지정해야 합니다.',
+      });
+    }
+    if (isFiat && !fiatCurrency) {
+      throw new BadRequestException({
+        code: 'INVALID_CURRENCY',
+        message: 'fiatCurrency missing',
+      });
+    }
+
+    const chainId = Number(input.chainId) || undefined;
+    const token = input.token
+      ? this.tokens.require(input.token, chainId)
+      : this.tokens.defaultToken(chainId);
+    if (!token) {
+      throw new BadRequestException({
+        code: 'UNSUPPORTED_TOKEN',
+        message: '결제에 사용할 토큰이 없습니다.',
+      });
+    }
+
+    const quote = isFiat
+      ? await this.price.quote(fiatCurrency!, fiatAmount, token)
+      : null;
+    const tokenAmount =
+      quote?.tokenAmount ?? this.tokens.toBaseUnits(amount, token);
+    const ttlSec = Math.max(Number(input.ttlSec) || this.ttlSec, 60);
+    const now = new Date();
+    const id = `inv_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+    this.database.db
+      .prepare(
+        `INSERT INTO invoices (
+          id, status, merchant_id, chain_id, token, token_symbol, token_decimals, token_amount,
+          fiat_currency, fiat_amount, rate, rate_source, recipient, product_name,
+          description, expires_at, created_at, updated_at
+        ) VALUES (
+          @id, 'open', @merchantId, @chainId, @token, @symbol, @decimals, @tokenAmount,
+          @fiatCurrency, @fiatAmount, @rate, @rateSource, @recipient, @productName,
+          @description, @expiresAt, @now, @now
+        )`,
+      )
+      .run({
+        id,
+        merchantId: merchant?.id ?? null,
+        chainId: token.chainId,
+        token: token.address,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        tokenAmount: tokenAmount.toString(),
+        fiatCurrency: quote?.fiatCurrency ?? null,
+        fiatAmount: quote?.fiatAmount ?? null,
+        rate: quote?.rate ?? null,
+        rateSource: quote?.rateSource ?? null,
+        recipient: ethers.getAddress(recipient),
+        productName: input.productName ?? input.description ?? null,
+        description: input.description ?? null,
+        expiresAt: new Date(now.getTime() + ttlSec * 1000).toISOString(),
+        now: now.toISOString(),
+      });
+
+    this.logger.log(
+      quote
+        ? `[INVOICE] 생성: id=${id} ${quote.fiatAmount} ${quote.fiatCurrency} → ${tokenAmount} ${token.symbol} (rate=${quote.rate}, ${quote.rateSource})`
+        : `[INVOICE] 생성: id=${id} ${tokenAmount} ${token.symbol}`,
+    );
+    return this.getById(id);
+  }
+
+  // 만료 시간이 지난 open 인보이스를 expired로 (조회 시점에 반영)
+  private expireOverdue() {
+    const now = new Date().toISOString();
+    const res = this.database.db
+      .prepare(
+        `UPDATE invoices SET status = 'expired', updated_at = @now
+          WHERE status = 'open' AND expires_at <= @now`,
+      )
+      .run({ now });
+    if (res.changes > 0) {
+      this.logger.log(`[INVOICE] ${res.changes}건 만료 처리`);
+    }
+  }
+
+  find(id: string): Invoice | null {
+    this.expireOverdue();
+    const row = this.database.db
+      .prepare('SELECT * FROM invoices WHERE id = ?')
+      .get(id) as InvoiceRow | undefined;
+    return row ? this.toInvoice(row) : null;
+  }
+
+  getById(id: string): Invoice {
+    const invoice = this.find(id);
+    if (!invoice) {
+      throw new NotFoundException({
+        code: 'INVOICE_NOT_FOUND',
+        message: `인보이스를 찾을 수 없습니다: ${id}`,
+      });
+    }
+    return invoice;
+  }
+
+  // 다른 가맹점의 인보이스는 없는 것으로 취급 (존재 여부도 노출하지 않음)
+  getOwned(id: string, merchantId: string): Invoice {
+    const invoice = this.getById(id);
+    if (invoice.merchantId !== merchantId) {
+      throw new NotFoundException({
+        code: 'INVOICE_NOT_FOUND',
+        message: `인보이스를 찾을 수 없습니다: ${id}`,
+      });
+    }
+    return invoice;
+  }
+
+  list(query: InvoiceQuery = {}): Invoice[] {
+    this.expireOverdue();
+    const where: string[] = [];
+    const params: Record<string, any> = {};
+    if (query.merchantId) {
+      where.push('merchant_id = @merchantId');
+      params.merchantId = query.merchantId;
+    }
+    if (query.status) {
+      where.push('status = @status');
+      params.status = query.status;
+    }
+    if (query.recipient && ethers.isAddress(query.recipient)) {
+      where.push('recipient = @recipient');
+      params.recipient = ethers.getAddress(query.recipient);
+    }
+    params.limit = Math.min(Math.max(Number(query.limit) || 50, 1), 500);
+    params.offset = Math.max(Number(query.offset) || 0, 0);
+
+    const rows = this.database.db
+      .prepare(
+        `SELECT * FROM invoices
+          ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+          ORDER BY created_at DESC LIMIT @limit OFFSET @offset`,
+      )
+      .all(params) as InvoiceRow[];
+    return rows.map((r) => this.toInvoice(r));
+  }
+
+  private activePayment(id: string): PaymentRecord | null {
+    return (
+      this.ledger
+        .list({ invoiceId: id, limit: 500 })
+        .find((p) => IN_PROGRESS.includes(p.status)) ?? null
+    );
+  }
+
+  private assertOpen(invoice: Invoice) {
+    if (invoice.status === 'paid') {
+      throw new ConflictException({
+        code: 'INVOICE_ALREADY_PAID',
+        message: '이미 결제된 인보이스입니다.',
+        invoiceId: invoice.id,
+        paymentId: invoice.paymentId,
+        txHash: invoice.txHash,
+      });
+    }
+    if (invoice.status === 'cancelled') {
+      throw new ConflictException({
+        code: 'INVOICE_CANCELLED',
+        message: '취소된 인보이스입니다.',
+        invoiceId: invoice.id,
+      });
+    }
+    if (invoice.status === 'expired') {
+      throw new BadRequestException({
+        code: 'INVOICE_EXPIRED',
+        message: '인보이스가 만료되었습니다. 새 인보이스를 발급받아 주세요.',
+        invoiceId: invoice.id,
+        expiresAt: invoice.expiresAt,
+      });
+    }
+    const active = this.activePayment(invoice.id);
+    if (active) {
+      throw new ConflictException({
+        code: 'INVOICE_IN_PROGRESS',
+        message: '이 인보이스의 결제가 진행 중입니다.',
+        invoiceId: invoice.id,
+        paymentId: active.id,
+        paymentStatus: active.status,
+      });
+    }
+  }
+
+  // 결제 가능한 인보이스 (open이고 진행 중인 결제가 없어야 함)
+  getPayable(id: string): Invoice {
+    const invoice = this.getById(id);
+    this.assertOpen(invoice);
+    return invoice;
+  }
+
+  /**
+   * 지갑에서 직접 보낸 송금에 맞는 인보이스 (체인 / 토큰 / 수취인 / 금액이 모두 같은 인보이스).
+   * 만료 여부는 인덱싱 시각이 아니라 송금이 채굴된 블록 시각(minedAt)으로 판단한다
+   * (만료 전에 채굴됐으면 인덱서가 늦게 읽어 expired가 된 인보이스도 결제 처리).
+   * 여러 건이면 먼저 발급한 것부터, 진행 중인 결제가 있는 인보이스는 제외.
+   */
+  matchTransfer(transfer: {
+    chainId: number;
+    token: string;
+    to: string;
+    amount: string | bigint;
+    minedAt: Date;
+  }): Invoice | null {
+    const rows = this.database.db
+      .prepare(
+        `SELECT * FROM invoices
+          WHERE status IN ('open', 'expired') AND expires_at > @minedAt
+            AND chain_id = @chainId
+            AND LOWER(token) = @token AND LOWER(recipient) = @to
+            AND token_amount = @amount
+          ORDER BY created_at ASC`,
+      )
+      .all({
+        chainId: transfer.chainId,
+        token: transfer.token.toLowerCase(),
+        to: transfer.to.toLowerCase(),
+        amount: String(transfer.amount),
+        minedAt: transfer.minedAt.toISOString(),
+      }) as InvoiceRow[];
+    const row = rows.find((r) => !this.activePayment(r.id));
+    return row ? this.toInvoice(row) : null;
+  }
+
+  /**
+   * 결제 요청의 invoiceId 확인.
+   * REQUIRE_INVOICE=true면 인보이스 없는 결제는 거절.
+   */
+  resolve(invoiceId: string | null | undefined): Invoice | null {
+    if (invoiceId) return this.getPayable(invoiceId);
+    this.assertInvoiceNotRequired();
+    return null;
+  }
+
+  // 인보이스를 받지 않는 결제 경로용: REQUIRE_INVOICE=true면 거절
+  assertInvoiceNotRequired() {
+    if (process.env.REQUIRE_INVOICE === 'true') {
+      throw new BadRequestException({
+        code: 'INVOICE_REQUIRED',
+        message: '인보이스(invoiceId)가 필요합니다.',
+      });
+    }
+  }
+
+  // 결제 토큰 / 금액 / 수취인이 고정된 인보이스 값과 같은지 확인
+  assertMatches(
+    invoice: Invoice,
+    payment: {
+      token?: string | null;
+      amount?: string | number | bigint | null;
+      to?: string | null;
+    },
+  ) {
+    const mismatch = (
+      field: string,
+      got: string | number | bigint | null | undefined,
+      expected: string,
+    ) =>
+      new BadRequestException({
+        code: 'INVOICE_MISMATCH',
+        message: `인보이스와 결제 ${field}가 다릅니다.`,
+        invoiceId: invoice.id,
+        field,
+        got: got == null ? null : String(got),
+        expected,
+      });
+
+    if (
+      !payment.token ||
+      payment.token.toLowerCase() !== invoice.token.toLowerCase()
+    ) {
+      throw mismatch('token', payment.token, invoice.token);
+    }
+    if (String(payment.amount) !== invoice.tokenAmount) {
+      throw mismatch('amount', payment.amount, invoice.tokenAmount);
+    }
+    if (
+      !payment.to ||
+      payment.to.toLowerCase() !== invoice.recipient.toLowerCase()
+    ) {
+      throw mismatch('to', payment.to, invoice.recipient);
+    }
+  }
+
+  /**
+   * QR에 금액 / 토큰 / 수취인이 함께 들어 있으면 인보이스와 같은지 확인하고 (변조 감지),
+   * 결제에는 항상 인보이스에 저장된 값을 사용한다.
+   */
+  lockedTerms(
+    invoice: Invoice,
+    given: {
+      token?: string | null;
+      amount?: string | number | null;
+      to?: string | null;
+    } = {},
+  ) {
+    const token = given.token || invoice.token;
+    this.assertMatches(invoice, {
+      token,
+      amount:
+        given.amount == null || given.amount === ''
+          ? invoice.tokenAmount
+          : this.tokens.normalize(token, given.amount, invoice.chainId).amount,
+      to: given.to || invoice.recipient,
+    });
+    return {
+      token: invoice.token,
+      amount: invoice.tokenAmount,
+      to: invoice.recipient,
+      chainId: invoice.chainId,
+    };
+  }
+
+  cancel(id: string, merchantId?: string): Invoice {
+    const invoice = merchantId
+      ? this.getOwned(id, merchantId)
+      : this.getById(id);
+    if (invoice.status !== 'cancelled') this.assertOpen(invoice);
+
+    const now = new Date().toISOString();
+    this.database.db
+      .prepare(
+        `UPDATE invoices SET status = 'cancelled', cancelled_at = @now, updated_at = @now
+          WHERE id = @id AND status = 'open'`,
+      )
+      .run({ id, now });
+    this.logger.log(`[INVOICE] 취소: id=${id}`);
+    return this.getById(id);
+  }
+
+  // 원장 결제가 확정되면 인보이스를 paid로
+  private onPaymentTransition(record: PaymentRecord) {
+    if (!record.invoiceId || record.status !== 'confirmed') return;
+
+    const now = new Date().toISOString();
+    const res = this.database.db
+      .prepare(
+        `UPDATE invoices
+            SET status = 'paid', payment_id = @paymentId, tx_hash = @txHash,
+                paid_at = @now, updated_at = @now
+          WHERE id = @id AND status IN ('open', 'expired')`,
+      )
+      .run({
+        id: record.invoiceId,
+        paymentId: record.id,
+        txHash: record.txHash,
+        now,
+      });
+    if (res.changes > 0) {
+      this.logger.log(
+        `[INVOICE] 결제 완료: id=${record.invoiceId} payment=${record.id}`,
+      );
+    } else {
+      this.logger.error(
+        `[INVOICE] 결제가 확정됐지만 인보이스를 paid로 바꿀 수 없음: id=${record.invoiceId} payment=${record.id}`,
+      );
+    }
+  }
+
+  // 결제 QR에 넣을 payment_request (금액 등은 표시용, 서버는 invoiceId로 검증)
+  paymentRequest(invoice: Invoice) {
+    return {
+      type: 'payment_request',
+      invoiceId: invoice.id,
+      serverUrl: process.env.SERVER_URL,
+      chainId: invoice.chainId,
+      token: invoice.token,
+      recipient: invoice.recipient,
+      amount: invoice.tokenAmount,
+      productName: invoice.productName,
+      expiresAt: invoice.expiresAt,
+    };
+  }
+}
@@ -34,7 +34,52 @@ try {
     'AMOUNT_WEI',
     'CHAIN_ID',
     'SPONSOR_PK',
+    'SPONSOR_PKS',
     'PORT',
+    'DB_PATH',
+    'TX_TRACKER_INTERVAL_MS',
+    'TX_DROP_AFTER_MS',
+    'IDEMPOTENCY_TTL_HOURS',
+    'IDEMPOTENCY_IN_FLIGHT_TIMEOUT_SEC',
+    'RELAYER_NONCE_RESYNC_MS',
+    'RELAYER_STUCK_AFTER_MS',
+    'RELAYER_FEE_BUMP_PERCENT',
+    'RELAYER_MAX_FEE_GWEI',
+    'ADMIN_API_TOKEN',
+    'GAS_PRICE_CEILING_GWEI',
+    'GAS_CEILING_MODE',
+    'GAS_HOLD_MAX_MS',
+    'GAS_BUDGET_DAILY_WEI',
+    'GAS_BUDGET_MONTHLY_WEI',
+    'VELOCITY_PAYER_MAX_PER_MINUTE',
+    'VELOCITY_PAYER_MAX_PER_DAY',
+    'VELOCITY_IP_MAX_PER_MINUTE',
+    'VELOCITY_IP_MAX_PER_DAY',
+    'VELOCITY_MIN_AMOUNT',
+    'VELOCITY_IP_EXEMPT',
+    'SPONSORSHIP_POLICY_PATH',
+    'DELEGATE_VERSIONS_PATH',
+    'PAYMENT_RAIL',
+    'CHAINS_CONFIG_PATH',
+    'EXPLORER_URL',
+    'PRICE_SOURCE',
+    'PRICE_FILE_PATH',
+    'PRICE_FIXED_RATES',
+    'INVOICE_TTL_SEC',
+    'REQUIRE_INVOICE',
+    'MERCHANTS_CONFIG_PATH',
+    'STRICT_PAYMENT_REQUESTS',
+    'WEBHOOK_MAX_ATTEMPTS',
+    'WEBHOOK_RETRY_BASE_MS',
+    'WEBHOOK_RETRY_MAX_DELAY_MS',
+    'WEBHOOK_TIMEOUT_MS',
+    'WEBHOOK_RETRY_INTERVAL_MS',
+    'WEBHOOK_ALLOWED_HOSTS',
+    'STREAM_TOKEN_TTL_SEC',
+    'INDEXER_INTERVAL_MS',
+    'INDEXER_CONFIRMATIONS',
+    'INDEXER_BATCH_BLOCKS',
+    'INDEXER_START_BLOCK',
   ] as const;
   
   const loadedKeys: string[] = [];
@@ -0,0 +1,134 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChainService } from './chain.service';
+import { MerchantService } from './merchant.service';
+import {
+  MerchantSignatureService,
+  SignedPaymentTerms,
+  paymentRequestMessage,
+  paymentRequestTypedData,
+} from './merchant-signature.service';
+
+describe('MerchantSignatureService', () => {
+  const merchantKey = ethers.Wallet.createRandom();
+  const SHOP = ethers.getAddress('0x' + '4d'.repeat(20));
+  const ATTACKER = ethers.getAddress('0x' + '6f'.repeat(20));
+  const TOKEN = ethers.getAddress('0x' + '3c'.repeat(20));
+
+  const terms: SignedPaymentTerms = {
+    merchantId: 'cafe-01',
+    chainId: 97,
+    token: TOKEN,
+    recipient: SHOP,
+    amount: '2500000',
+  };
+
+  let dir: string;
+  let service: MerchantSignatureService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'merchants-'));
+    const file = path.join(dir, 'merchants.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        merchants: [
+          {
+            id: 'cafe-01',
+            signers: [merchantKey.address],
+            recipients: [SHOP],
+          },
+        ],
+      }),
+    );
+    process.env.MERCHANTS_CONFIG_PATH = file;
+    service = new MerchantSignatureService(
+      { chainId: 97 } as unknown as ChainService,
+      { list: () => [] } as unknown as MerchantService,
+    );
+  });
+
+  afterEach(() => {
+    delete process.env.MERCHANTS_CONFIG_PATH;
+    delete process.env.STRICT_PAYMENT_REQUESTS;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const code = (code: string) =>
+    expect.objectContaining({
+      response: expect.objectContaining({ code }),
+    });
+
+  it('accepts EIP-712 and EIP-191 signed requests and detects tampering', async () => {
+    const { domain, types, message } = paymentRequestTypedData(terms);
+    const sig712 = {
+      merchantId: 'cafe-01',
+      scheme: 'eip712' as const,
+      signature: await merchantKey.signTypedData(domain, types, message),
+    };
+    const sig191 = {
+      merchantId: 'cafe-01',
+      scheme: 'eip191' as const,
+      signature: await merchantKey.signMessage(paymentRequestMessage(terms)),
+    };
+
+    for (const sig of [sig712, sig191]) {
+      expect(service.verify(sig, terms)).toEqual({
+        merchantId: 'cafe-01',
+        signer: merchantKey.address,
+        scheme: sig.scheme,
+      });
+      // QR 스티커의 수취인 / 금액을 바꾸면 서명자가 달라짐
+      expect(() =>
+        service.verify(sig, { ...terms, recipient: ATTACKER }),
+      ).toThrow(code('MERCHANT_SIGNATURE_INVALID'));
+      expect(() => service.verify(sig, { ...terms, amount: '1' })).toThrow(
+        code('MERCHANT_SIGNATURE_INVALID'),
+      );
+    }
+
+    // 가맹점 키로 서명했어도 등록되지 않은 수취인이면 거절
+    const rogue = { ...terms, recipient: ATTACKER };
+    const rogueData = paymentRequestTypedData(rogue);
+    const rogueSig = {
+      merchantId: 'cafe-01',
+      scheme: 'eip712' as const,
+      signature: await merchantKey.signTypedData(
+        rogueData.domain,
+        rogueData.types,
+        rogueData.message,
+      ),
+    };
+    expect(() => service.verify(rogueSig, rogue)).toThrow(
+      code('MERCHANT_RECIPIENT_MISMATCH'),
+    );
+    expect(() =>
+      service.verify({ ...sig712, merchantId: 'other' }, terms),
+    ).toThrow(code('MERCHANT_UNKNOWN'));
+  });
+
+  it('rejects unsigned requests only in strict mode', () => {
+    expect(service.verify(undefined, terms)).toBeNull();
+    expect(
+      service.verify(
+        undefined,
+        { ...terms, recipient: SHOP },
+        { invoice: true },
+      ),
+    ).toMatchObject({ merchantId: 'cafe-01', scheme: 'invoice' });
+
+    process.env.STRICT_PAYMENT_REQUESTS = 'true';
+    expect(() => service.verify(undefined, terms)).toThrow(
+      code('PAYMENT_REQUEST_UNSIGNED'),
+    );
+    expect(() =>
+      service.verify(
+        undefined,
+        { ...terms, recipient: ATTACKER },
+        { invoice: true },
+      ),
+    ).toThrow(code('MERCHANT_RECIPIENT_MISMATCH'));
+  });
+});
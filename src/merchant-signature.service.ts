@@ -0,0 +1,317 @@
+// merchant-signature.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChainService } from './chain.service';
+import { MerchantService } from './merchant.service';
+
+// 가맹점 설정 파일 형식 (가맹점 계정의 서명 키 / 정산 주소도 같은 형태로 변환)
+export interface MerchantConfig {
+  id: string;
+  name?: string;
+  // 결제 요청에 서명하는 키의 주소
+  signers: string[];
+  // 이 가맹점이 받을 수 있는 수취인 주소
+  recipients: string[];
+  enabled?: boolean;
+}
+
+export type MerchantSignatureScheme = 'eip712' | 'eip191';
+
+// 결제 요청 QR의 merchantSignature 필드
+export interface MerchantSignature {
+  merchantId: string;
+  scheme: MerchantSignatureScheme;
+  signature: string;
+  // unix 초, 0 또는 생략 시 만료 없음 (매장에 붙여 두는 고정 QR)
+  expiresAt?: number | string;
+}
+
+// 서명 대상 (금액은 기본 단위)
+export interface SignedPaymentTerms {
+  merchantId: string;
+  chainId: number;
+  token: string;
+  recipient: string;
+  amount: string | bigint;
+  invoiceId?: string | null;
+  expiresAt?: number | string;
+}
+
+export interface VerifiedMerchantRequest {
+  merchantId: string;
+  // 인보이스 결제는 서버가 값을 고정하므로 서명 없이 수취인 바인딩만 확인
+  signer: string | null;
+  scheme: MerchantSignatureScheme | 'invoice';
+}
+
+export const PAYMENT_REQUEST_TYPES = {
+  PaymentRequest: [
+    { name: 'merchantId', type: 'string' },
+    { name: 'recipient', type: 'address' },
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'invoiceId', type: 'string' },
+    { name: 'expiresAt', type: 'uint256' },
+  ],
+};
+
+function canonical(terms: SignedPaymentTerms) {
+  return {
+    merchantId: terms.merchantId,
+    recipient: ethers.getAddress(terms.recipient),
+    token: ethers.getAddress(terms.token),
+    amount: BigInt(terms.amount).toString(),
+    invoiceId: terms.invoiceId ?? '',
+    expiresAt: String(Number(terms.expiresAt) || 0),
+  };
+}
+
+// EIP-712 서명 데이터
+export function paymentRequestTypedData(terms: SignedPaymentTerms) {
+  return {
+    domain: { name: 'PaymentRequest', version: '1', chainId: terms.chainId },
+    types: PAYMENT_REQUEST_TYPES,
+    message: canonical(terms),
+  };
+}
+
+// EIP-191 (personal_sign) 서명 메시지
+export function paymentRequestMessage(terms: SignedPaymentTerms) {
+  const m = canonical(terms);
+  return [
+    'PaymentRequest',
+    `merchantId: ${m.merchantId}`,
+    `chainId: ${terms.chainId}`,
+    `recipient: ${m.recipient}`,
+    `token: ${m.token}`,
+    `amount: ${m.amount}`,
+    `invoiceId: ${m.invoiceId}`,
+    `expiresAt: ${m.expiresAt}`,
+  ].join('\n');
+}
+
+/**
+ * 가맹점 서명 결제 요청 검증.
+ * 가맹점은 등록된 키로 결제 요청(수취인 / 토큰 / 금액 / 체인)에 서명하고,
+ * 서버는 릴레이 전에 서명자와 수취인이 같은 가맹점에 속하는지 확인한다 (QR 스티커 바꿔치기 방지).
+ * STRICT_PAYMENT_REQUESTS=true면 서명 없는 요청은 거절, 아니면 경고만 남긴다.
+ * 가맹점은 활성 가맹점 계정(서명 키 / 정산 주소) + MERCHANTS_CONFIG_PATH 파일 (기본 config/merchants.json, 바뀌면 다음 검증 때 다시 읽음).
+ */
+@Injectable()
+export class MerchantSignatureService {
+  private readonly logger = new Logger('MerchantSignatureService');
+
+  private readonly configPath = path.resolve(
+    process.env.MERCHANTS_CONFIG_PATH || 'config/merchants.json',
+  );
+  private merchants: MerchantConfig[] = [];
+  private loadedMtimeMs = -1;
+
+  constructor(
+    private readonly chain: ChainService,
+    private readonly accounts: MerchantService,
+  ) {}
+
+  get strict() {
+    return process.env.STRICT_PAYMENT_REQUESTS === 'true';
+  }
+
+  list(): MerchantConfig[] {
+    const accounts = this.accounts
+      .list()
+      .filter((m) => m.status === 'active')
+      .map((m) => ({
+        id: m.id,
+        name: m.name,
+        signers: m.signers.map((a) => a.toLowerCase()),
+        recipients: m.payoutAddresses.map((a) => a.toLowerCase()),
+      }));
+    return [...accounts, ...this.fileMerchants()];
+  }
+
+  // 가맹점 파일 로드 (mtime이 같으면 캐시 사용)
+  private fileMerchants(): MerchantConfig[] {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(this.configPath).mtimeMs;
+    } catch {
+      this.merchants = [];
+      this.loadedMtimeMs = -1;
+      return this.merchants;
+    }
+    if (mtimeMs === this.loadedMtimeMs) return this.merchants;
+
+    let raw: { merchants?: MerchantConfig[] };
+    try {
+      raw = JSON.parse(fs.readFileSync(this.configPath, 'utf8')) as {
+        merchants?: MerchantConfig[];
+      };
+    } catch (e: any) {
+      this.logger.error(`[MERCHANT] 가맹점 파일 파싱 실패: ${e?.message}`);
+      throw new InternalServerErrorException({
+        code: 'MERCHANTS_CONFIG_INVALID',
+        message: '가맹점 설정 파일을 읽을 수 없습니다.',
+      });
+    }
+    this.merchants = (raw.merchants ?? [])
+      .filter((m) => m.enabled !== false)
+      .map((m) => ({
+        ...m,
+        signers: (m.signers ?? []).map((a) => a.toLowerCase()),
+        recipients: (m.recipients ?? []).map((a) => a.toLowerCase()),
+      }));
+    this.loadedMtimeMs = mtimeMs;
+    this.logger.log(
+      `[MERCHANT] 가맹점 ${this.merchants.length}개 로드: ${this.configPath}`,
+    );
+    return this.merchants;
+  }
+
+  find(merchantId: string | null | undefined): MerchantConfig | null {
+    return this.list().find((m) => m.id === merchantId) ?? null;
+  }
+
+  private byRecipient(
+    recipient: string | null | undefined,
+  ): MerchantConfig | null {
+    const target = (recipient ?? '').toLowerCase();
+    return this.list().find((m) => m.recipients.includes(target)) ?? null;
+  }
+
+  private reject(code: string, message: string, extra: object = {}) {
+    this.logger.warn(`[MERCHANT] 결제 요청 거절: ${code} ${message}`);
+    return new BadRequestException({ code, message, ...extra });
+  }
+
+  private recover(sig: MerchantSignature, terms: SignedPaymentTerms) {
+    try {
+      if (sig.scheme === 'eip712') {
+        const { domain, types, message } = paymentRequestTypedData(terms);
+        return ethers.verifyTypedData(domain, types, message, sig.signature);
+      }
+      if (sig.scheme === 'eip191') {
+        return ethers.verifyMessage(
+          paymentRequestMessage(terms),
+          sig.signature,
+        );
+      }
+    } catch {
+      // 형식이 잘못된 서명
+    }
+    return null;
+  }
+
+  // 가맹점 서명 도구용: 서명할 EIP-712 typed data와 EIP-191 메시지
+  signingPayload(terms: SignedPaymentTerms) {
+    if (!this.find(terms.merchantId)) {
+      throw this.reject(
+        'MERCHANT_UNKNOWN',
+        `등록되지 않은 가맹점입니다: ${terms.merchantId}`,
+        { merchantId: terms.merchantId ?? null },
+      );
+    }
+    return {
+      typedData: paymentRequestTypedData(terms),
+      message: paymentRequestMessage(terms),
+    };
+  }
+
+  /**
+   * 결제 요청 검증. terms는 정규화된 실제 결제 값 (QR 값이 아니라 릴레이할 값).
+   * 서명 없는 비인보이스 요청은 strict 모드가 아니면 null.
+   */
+  verify(
+    sig: MerchantSignature | null | undefined,
+    terms: {
+      chainId?: number | string | null;
+      token: string;
+      recipient: string;
+      amount: string | bigint;
+      invoiceId?: string | null;
+    },
+    options: { invoice?: boolean } = {},
+  ): VerifiedMerchantRequest | null {
+    if (!sig?.signature) {
+      // 인보이스 결제: 금액 / 수취인은 서버 값, 수취인이 등록된 가맹점 것인지만 확인
+      if (options.invoice) {
+        const merchant = this.byRecipient(terms.recipient);
+        if (merchant) {
+          return { merchantId: merchant.id, signer: null, scheme: 'invoice' };
+        }
+        if (this.strict) {
+          throw this.reject(
+            'MERCHANT_RECIPIENT_MISMATCH',
+            '등록된 가맹점의 수취인 주소가 아닙니다.',
+            { recipient: terms.recipient },
+          );
+        }
+        return null;
+      }
+      if (this.strict) {
+        throw this.reject(
+          'PAYMENT_REQUEST_UNSIGNED',
+          '가맹점 서명이 없는 결제 요청입니다.',
+        );
+      }
+      this.logger.warn(
+        `[MERCHANT] 서명 없는 결제 요청 허용 (strict 모드 아님): to=${terms.recipient}`,
+      );
+      return null;
+    }
+
+    const merchant = this.find(sig.merchantId);
+    if (!merchant) {
+      throw this.reject(
+        'MERCHANT_UNKNOWN',
+        `등록되지 않은 가맹점입니다: ${sig.merchantId}`,
+        { merchantId: sig.merchantId ?? null },
+      );
+    }
+
+    const expiresAt = Number(sig.expiresAt) || 0;
+    if (expiresAt && expiresAt * 1000 <= Date.now()) {
+      throw this.reject(
+        'PAYMENT_REQUEST_EXPIRED',
+        '가맹점 결제 요청의 유효기간이 지났습니다.',
+        { expiresAt },
+      );
+    }
+
+    // 값이 하나라도 바뀌면 다른 주소가 복구됨
+    const signer = this.recover(sig, {
+      merchantId: merchant.id,
+      chainId: Number(terms.chainId) || this.chain.chainId,
+      token: terms.token,
+      recipient: terms.recipient,
+      amount: terms.amount,
+      invoiceId: terms.invoiceId,
+      expiresAt,
+    });
+    if (!signer || !merchant.signers.includes(signer.toLowerCase())) {
+      throw this.reject(
+        'MERCHANT_SIGNATURE_INVALID',
+        '가맹점 서명이 올바르지 않습니다. 결제 요청이 변조되었을 수 있습니다.',
+        { merchantId: merchant.id },
+      );
+    }
+    if (!merchant.recipients.includes(terms.recipient.toLowerCase())) {
+      throw this.reject(
+        'MERCHANT_RECIPIENT_MISMATCH',
+        '가맹점에 등록된 수취인 주소가 아닙니다.',
+        { merchantId: merchant.id, recipient: terms.recipient },
+      );
+    }
+
+    this.logger.log(
+      `[MERCHANT] 결제 요청 서명 확인: merchant=${merchant.id} signer=${signer} (${sig.scheme})`,
+    );
+    return { merchantId: merchant.id, signer, scheme: sig.scheme };
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Logger,
+  Param,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { CurrentMerchant, MerchantGuard } from './merchant.guard';
+import { MerchantService } from './merchant.service';
+import type { Merchant } from './merchant.service';
+import { WebhookService } from './webhook.service';
+import type {
+  WebhookDeliveryQuery,
+  WebhookEndpointInput,
+} from './webhook.service';
+
+// 가맹점 본인 계정 API (X-Api-Key 필요)
+@Controller('api/merchant')
+@UseGuards(MerchantGuard)
+export class MerchantController {
+  private readonly logger = new Logger('MerchantController');
+
+  constructor(
+    private readonly merchants: MerchantService,
+    private readonly webhooks: WebhookService,
+  ) {}
+
+  @Get('me')
+  getMe(@CurrentMerchant() merchant: Merchant) {
+    return {
+      status: 'success',
+      merchant,
+      apiKeys: this.merchants.listApiKeys(merchant.id),
+    };
+  }
+
+  // 키 교체용 새 API 키 발급 (기존 키는 revoke로 폐기)
+  @Post('api-keys')
+  issueApiKey(
+    @CurrentMerchant() merchant: Merchant,
+    @Body() body: { label?: string },
+  ) {
+    this.logger.log(
+      `[POST /api/merchant/api-keys] API 키 발급 요청: ${merchant.id}`,
+    );
+    return {
+      status: 'success',
+      ...this.merchants.issueApiKey(merchant.id, body?.label),
+    };
+  }
+
+  @Post('api-keys/:keyId/revoke')
+  revokeApiKey(
+    @CurrentMerchant() merchant: Merchant,
+    @Param('keyId') keyId: string,
+  ) {
+    this.logger.log(
+      `[POST /api/merchant/api-keys/:keyId/revoke] API 키 폐기 요청: ${merchant.id} ${keyId}`,
+    );
+    return {
+      status: 'success',
+      key: this.merchants.revokeApiKey(merchant.id, keyId),
+    };
+  }
+
+  // 웹훅 엔드포인트 등록 (서명 비밀키는 이 응답에서만 확인 가능)
+  @Post('webhooks')
+  createWebhook(
+    @CurrentMerchant() merchant: Merchant,
+    @Body() body: WebhookEndpointInput,
+  ) {
+    this.logger.log(
+      `[POST /api/merchant/webhooks] 웹훅 등록 요청: ${merchant.id} ${body?.url}`,
+    );
+    return {
+      status: 'success',
+      ...this.webhooks.createEndpoint(merchant.id, body),
+    };
+  }
+
+  @Get('webhooks')
+  listWebhooks(@CurrentMerchant() merchant: Merchant) {
+    return {
+      status: 'success',
+      endpoints: this.webhooks.listEndpoints(merchant.id),
+    };
+  }
+
+  // 전송 기록 (?endpointId=&status=&eventType=&limit=)
+  @Get('webhooks/deliveries')
+  listWebhookDeliveries(
+    @CurrentMerchant() merchant: Merchant,
+    @Query() query: WebhookDeliveryQuery,
+  ) {
+    return {
+      status: 'success',
+      deliveries: this.webhooks.listDeliveries(merchant.id, query),
+    };
+  }
+
+  @Get('webhooks/deliveries/:deliveryId')
+  getWebhookDelivery(
+    @CurrentMerchant() merchant: Merchant,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    return {
+      status: 'success',
+      delivery: this.webhooks.getDelivery(merchant.id, deliveryId),
+    };
+  }
+
+  @Post('webhooks/deliveries/:deliveryId/redeliver')
+  async redeliverWebhook(
+    @CurrentMerchant() merchant: Merchant,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    this.logger.log(
+      `[POST /api/merchant/webhooks/deliveries/:deliveryId/redeliver] 재전송 요청: ${merchant.id} ${deliveryId}`,
+    );
+    return {
+      status: 'success',
+      delivery: await this.webhooks.redeliver(merchant.id, deliveryId),
+    };
+  }
+
+  @Put('webhooks/:id')
+  updateWebhook(
+    @CurrentMerchant() merchant: Merchant,
+    @Param('id') id: string,
+    @Body() body: WebhookEndpointInput,
+  ) {
+    this.logger.log(
+      `[PUT /api/merchant/webhooks/:id] 웹훅 수정 요청: ${merchant.id} ${id}`,
+    );
+    return {
+      status: 'success',
+      endpoint: this.webhooks.updateEndpoint(merchant.id, id, body),
+    };
+  }
+
+  @Delete('webhooks/:id')
+  deleteWebhook(
+    @CurrentMerchant() merchant: Merchant,
+    @Param('id') id: string,
+  ) {
+    this.logger.log(
+      `[DELETE /api/merchant/webhooks/:id] 웹훅 삭제 요청: ${merchant.id} ${id}`,
+    );
+    return {
+      status: 'success',
+      endpoint: this.webhooks.deleteEndpoint(merchant.id, id),
+    };
+  }
+
+  @Post('webhooks/:id/rotate-secret')
+  rotateWebhookSecret(
+    @CurrentMerchant() merchant: Merchant,
+    @Param('id') id: string,
+  ) {
+    this.logger.log(
+      `[POST /api/merchant/webhooks/:id/rotate-secret] 비밀키 교체 요청: ${merchant.id} ${id}`,
+    );
+    return {
+      status: 'success',
+      ...this.webhooks.rotateSecret(merchant.id, id),
+    };
+  }
+
+  // 테스트 핑: webhook.ping을 즉시 보내고 응답 결과 반환
+  @Post('webhooks/:id/ping')
+  async pingWebhook(
+    @CurrentMerchant() merchant: Merchant,
+    @Param('id') id: string,
+  ) {
+    this.logger.log(
+      `[POST /api/merchant/webhooks/:id/ping] 테스트 핑 요청: ${merchant.id} ${id}`,
+    );
+    const delivery = await this.webhooks.ping(merchant.id, id);
+    return {
+      status: delivery.status === 'succeeded' ? 'success' : 'failed',
+      delivery,
+    };
+  }
+}
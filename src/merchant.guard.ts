@@ -0,0 +1,49 @@
+// merchant.guard.ts
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+  createParamDecorator,
+} from '@nestjs/common';
+import { Merchant, MerchantService } from './merchant.service';
+
+interface MerchantRequest {
+  headers: Record<string, string | undefined>;
+  path: string;
+  merchant?: Merchant;
+}
+
+// 가맹점 전용 엔드포인트: X-Api-Key (또는 Authorization: Bearer) 헤더의 가맹점 API 키 확인
+@Injectable()
+export class MerchantGuard implements CanActivate {
+  private readonly logger = new Logger('MerchantGuard');
+
+  constructor(private readonly merchants: MerchantService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const req = context.switchToHttp().getRequest<MerchantRequest>();
+    const bearer = /^Bearer\s+(.+)$/i.exec(req.headers['authorization'] ?? '');
+    const apiKey = req.headers['x-api-key'] ?? bearer?.[1];
+
+    const merchant = this.merchants.authenticate(apiKey);
+    if (!merchant) {
+      this.logger.warn(
+        `[MERCHANT_GUARD] 가맹점 인증 실패: ${req.path} (${apiKey ? '잘못된 키' : '키 없음'})`,
+      );
+      throw new UnauthorizedException({
+        code: 'MERCHANT_UNAUTHORIZED',
+        message: '가맹점 API 키가 없거나 올바르지 않습니다.',
+      });
+    }
+    req.merchant = merchant;
+    return true;
+  }
+}
+
+// MerchantGuard가 확인한 가맹점
+export const CurrentMerchant = createParamDecorator(
+  (_: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<MerchantRequest>().merchant,
+);
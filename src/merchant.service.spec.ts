@@ -0,0 +1,101 @@
+import { ExecutionContext } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { MerchantGuard } from './merchant.guard';
+import { MerchantService } from './merchant.service';
+
+describe('MerchantService', () => {
+  const SHOP = '0x2222222222222222222222222222222222222222';
+  const SHOP2 = '0x4444444444444444444444444444444444444444';
+
+  let database: DatabaseService;
+  let merchants: MerchantService;
+
+  beforeEach(() => {
+    process.env.DB_PATH = ':memory:';
+    database = new DatabaseService();
+    merchants = new MerchantService(database);
+  });
+
+  afterEach(() => database.onModuleDestroy());
+
+  const code = (code: string) =>
+    expect.objectContaining({
+      response: expect.objectContaining({ code }),
+    });
+
+  it('creates accounts with unique payout addresses', () => {
+    const cafe = merchants.create({
+      name: '카페',
+      businessRegistrationNo: '123-45-67890',
+      payoutAddresses: [SHOP.toLowerCase()],
+      stores: [{ name: '강남점', location: '서울 강남구' }],
+    });
+    expect(cafe).toMatchObject({
+      name: '카페',
+      status: 'active',
+      payoutAddresses: [SHOP],
+      signers: [],
+      stores: [expect.objectContaining({ name: '강남점' })],
+    });
+    expect(merchants.findByAddress(SHOP)?.id).toBe(cafe.id);
+    expect(merchants.ownsAddress(cafe, SHOP.toLowerCase())).toBe(true);
+
+    // 다른 가맹점의 정산 주소는 등록 불가
+    expect(() =>
+      merchants.create({ name: '사칭', payoutAddresses: [SHOP] }),
+    ).toThrow(code('MERCHANT_ADDRESS_TAKEN'));
+    expect(() => merchants.create({ name: '주소 없음' })).toThrow(
+      code('INVALID_MERCHANT'),
+    );
+
+    const updated = merchants.update(cafe.id, { payoutAddresses: [SHOP2] });
+    expect(updated.payoutAddresses).toEqual([SHOP2]);
+    expect(merchants.findByAddress(SHOP)).toBeNull();
+  });
+
+  it('authenticates hashed API keys through the guard', () => {
+    const cafe = merchants.create({ name: '카페', payoutAddresses: [SHOP] });
+    const { apiKey, key } = merchants.issueApiKey(cafe.id, 'pos');
+
+    // 원문은 저장하지 않음
+    const stored = database.db
+      .prepare('SELECT key_hash FROM merchant_api_keys WHERE id = ?')
+      .get(key.id) as { key_hash: string };
+    expect(stored.key_hash).not.toContain(apiKey);
+    expect(JSON.stringify(merchants.listApiKeys(cafe.id))).not.toContain(
+      apiKey,
+    );
+
+    const guard = new MerchantGuard(merchants);
+    const request = (headers: Record<string, string>) => {
+      const req: Record<string, any> = { headers, path: '/api/invoices' };
+      const context = {
+        switchToHttp: () => ({ getRequest: () => req }),
+      } as unknown as ExecutionContext;
+      return { req, context };
+    };
+
+    const ok = request({ 'x-api-key': apiKey });
+    expect(guard.canActivate(ok.context)).toBe(true);
+    expect(ok.req.merchant.id).toBe(cafe.id);
+    expect(
+      guard.canActivate(request({ authorization: `Bearer ${apiKey}` }).context),
+    ).toBe(true);
+
+    const tampered = apiKey.slice(0, -1) + (apiKey.endsWith('A') ? 'B' : 'A');
+    expect(() =>
+      guard.canActivate(request({ 'x-api-key': tampered }).context),
+    ).toThrow(code('MERCHANT_UNAUTHORIZED'));
+    expect(() => guard.canActivate(request({}).context)).toThrow(
+      code('MERCHANT_UNAUTHORIZED'),
+    );
+
+    merchants.revokeApiKey(cafe.id, key.id);
+    expect(merchants.authenticate(apiKey)).toBeNull();
+
+    // 정지된 가맹점의 키는 거절
+    const second = merchants.issueApiKey(cafe.id).apiKey;
+    merchants.update(cafe.id, { status: 'suspended' });
+    expect(merchants.authenticate(second)).toBeNull();
+  });
+});
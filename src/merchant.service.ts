@@ -0,0 +1,514 @@
+// merchant.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ethers } from 'ethers';
+import { DatabaseService } from './database.service';
+
+export type MerchantStatus = 'active' | 'suspended';
+
+// payout: 결제를 받는 주소, signer: 결제 요청 QR 서명 키 주소
+export type MerchantAddressKind = 'payout' | 'signer';
+
+export interface MerchantStore {
+  id: string;
+  name: string;
+  location: string | null;
+  createdAt: string;
+}
+
+export interface Merchant {
+  id: string;
+  name: string;
+  businessName: string | null;
+  // 사업자등록번호
+  businessRegistrationNo: string | null;
+  contactEmail: string | null;
+  status: MerchantStatus;
+  payoutAddresses: string[];
+  signers: string[];
+  stores: MerchantStore[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MerchantInput {
+  name?: string;
+  businessName?: string | null;
+  businessRegistrationNo?: string | null;
+  contactEmail?: string | null;
+  status?: MerchantStatus;
+  // 지정하면 기존 목록을 통째로 교체
+  payoutAddresses?: string[];
+  signers?: string[];
+  stores?: Array<{ name: string; location?: string | null }>;
+}
+
+// API 키 메타데이터 (키 원문 / 해시는 내보내지 않음)
+export interface MerchantApiKey {
+  id: string;
+  merchantId: string;
+  prefix: string;
+  label: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+interface MerchantRow {
+  id: string;
+  name: string;
+  business_name: string | null;
+  business_registration_no: string | null;
+  contact_email: string | null;
+  status: MerchantStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ApiKeyRow {
+  id: string;
+  merchant_id: string;
+  key_prefix: string;
+  key_hash: string;
+  label: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+// 키 형식: mk_<prefix 8자>_<secret>
+const API_KEY_PATTERN = /^mk_([0-9a-f]{8})_[A-Za-z0-9_-]{43}$/;
+
+/**
+ * 가맹점 계정 (상호 / 사업자 정보 / 정산 주소 / 매장) 과 API 키.
+ * API 키는 발급 시 한 번만 원문을 돌려주고 SHA-256 해시만 저장한다.
+ * 정산(payout) 주소는 한 가맹점에만 속할 수 있다 — 결제 / 인보이스 / 인쇄 작업의 소유 가맹점을 이 주소로 찾음.
+ */
+@Injectable()
+export class MerchantService {
+  private readonly logger = new Logger('MerchantService');
+
+  constructor(private readonly database: DatabaseService) {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS merchants (
+        id                       TEXT PRIMARY KEY,
+        name                     TEXT NOT NULL,
+        business_name            TEXT,
+        business_registration_no TEXT,
+        contact_email            TEXT,
+        status                   TEXT NOT NULL DEFAULT 'active',
+        created_at               TEXT NOT NULL,
+        updated_at               TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS merchant_addresses (
+        merchant_id TEXT NOT NULL REFERENCES merchants (id),
+        kind        TEXT NOT NULL,
+        address     TEXT NOT NULL,
+        created_at  TEXT NOT NULL,
+        PRIMARY KEY (kind, address)
+      );
+      CREATE TABLE IF NOT EXISTS merchant_stores (
+        id          TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL REFERENCES merchants (id),
+        name        TEXT NOT NULL,
+        location    TEXT,
+        created_at  TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS merchant_api_keys (
+        id           TEXT PRIMARY KEY,
+        merchant_id  TEXT NOT NULL REFERENCES merchants (id),
+        key_prefix   TEXT NOT NULL UNIQUE,
+        key_hash     TEXT NOT NULL,
+        label        TEXT,
+        created_at   TEXT NOT NULL,
+        last_used_at TEXT,
+        revoked_at   TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_merchant_addresses_merchant ON merchant_addresses (merchant_id);
+      CREATE INDEX IF NOT EXISTS idx_merchant_stores_merchant    ON merchant_stores (merchant_id);
+      CREATE INDEX IF NOT EXISTS idx_merchant_api_keys_merchant  ON merchant_api_keys (merchant_id);
+    `);
+  }
+
+  private newId(prefix: string) {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+
+  private hashKey(apiKey: string) {
+    return createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  private toMerchant(row: MerchantRow): Merchant {
+    const addresses = this.database.db
+      .prepare(
+        'SELECT kind, address FROM merchant_addresses WHERE merchant_id = ? ORDER BY created_at',
+      )
+      .all(row.id) as Array<{ kind: MerchantAddressKind; address: string }>;
+    const stores = this.database.db
+      .prepare(
+        'SELECT * FROM merchant_stores WHERE merchant_id = ? ORDER BY created_at',
+      )
+      .all(row.id) as Array<{
+      id: string;
+      name: string;
+      location: string | null;
+      created_at: string;
+    }>;
+    return {
+      id: row.id,
+      name: row.name,
+      businessName: row.business_name,
+      businessRegistrationNo: row.business_registration_no,
+      contactEmail: row.contact_email,
+      status: row.status,
+      payoutAddresses: addresses
+        .filter((a) => a.kind === 'payout')
+        .map((a) => a.address),
+      signers: addresses
+        .filter((a) => a.kind === 'signer')
+        .map((a) => a.address),
+      stores: stores.map((s) => ({
+        id: s.id,
+        name: s.name,
+        location: s.location,
+        createdAt: s.created_at,
+      })),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private toApiKey(row: ApiKeyRow): MerchantApiKey {
+    return {
+      id: row.id,
+      merchantId: row.merchant_id,
+      prefix: row.key_prefix,
+      label: row.label,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at,
+      revokedAt: row.revoked_at,
+    };
+  }
+
+  private normalizeAddresses(field: string, addresses: unknown): string[] {
+    if (!Array.isArray(addresses)) {
+      throw new BadRequestException({
+        code: 'INVALID_MERCHANT',
+        message: `${field}는 주소 배열이어야 합니다.`,
+      });
+    }
+    return [
+      ...new Set(
+        addresses.map((a) => {
+          if (typeof a !== 'string' || !ethers.isAddress(a)) {
+            throw new BadRequestException({
+              code: 'INVALID_ADDRESS',
+              message: `${field} 주소가 올바르지 않습니다: ${String(a)}`,
+            });
+          }
+          return ethers.getAddress(a);
+        }),
+      ),
+    ];
+  }
+
+  // 주소 목록 교체 (다른 가맹점에 이미 등록된 주소면 409)
+  private replaceAddresses(
+    merchantId: string,
+    kind: MerchantAddressKind,
+    addresses: string[],
+    now: string,
+  ) {
+    const taken = this.database.db.prepare(
+      'SELECT merchant_id FROM merchant_addresses WHERE kind = ? AND address = ?',
+    );
+    for (const address of addresses) {
+      const owner = taken.get(kind, address) as
+        | { merchant_id: string }
+        | undefined;
+      if (owner && owner.merchant_id !== merchantId) {
+        throw new ConflictException({
+          code: 'MERCHANT_ADDRESS_TAKEN',
+          message: `다른 가맹점에 등록된 주소입니다: ${address}`,
+          kind,
+          address,
+        });
+      }
+    }
+    this.database.db
+      .prepare(
+        'DELETE FROM merchant_addresses WHERE merchant_id = ? AND kind = ?',
+      )
+      .run(merchantId, kind);
+    const insert = this.database.db.prepare(
+      'INSERT INTO merchant_addresses (merchant_id, kind, address, created_at) VALUES (?, ?, ?, ?)',
+    );
+    for (const address of addresses) insert.run(merchantId, kind, address, now);
+  }
+
+  private replaceStores(
+    merchantId: string,
+    stores: NonNullable<MerchantInput['stores']>,
+    now: string,
+  ) {
+    this.database.db
+      .prepare('DELETE FROM merchant_stores WHERE merchant_id = ?')
+      .run(merchantId);
+    const insert = this.database.db.prepare(
+      'INSERT INTO merchant_stores (id, merchant_id, name, location, created_at) VALUES (?, ?, ?, ?, ?)',
+    );
+    for (const store of stores) {
+      if (!store?.name) {
+        throw new BadRequestException({
+          code: 'INVALID_MERCHANT',
+          message: '매장 이름(name)이 필요합니다.',
+        });
+      }
+      insert.run(
+        this.newId('store'),
+        merchantId,
+        store.name,
+        store.location ?? null,
+        now,
+      );
+    }
+  }
+
+  create(input: MerchantInput): Merchant {
+    if (!input?.name) {
+      throw new BadRequestException({
+        code: 'INVALID_MERCHANT',
+        message: '가맹점 이름(name)이 필요합니다.',
+      });
+    }
+    const payout = this.normalizeAddresses(
+      'payoutAddresses',
+      input.payoutAddresses ?? [],
+    );
+    if (payout.length === 0) {
+      throw new BadRequestException({
+        code: 'INVALID_MERCHANT',
+        message: '정산 주소(payoutAddresses)가 하나 이상 필요합니다.',
+      });
+    }
+    const signers = this.normalizeAddresses('signers', input.signers ?? []);
+
+    const id = this.newId('mer');
+    const now = new Date().toISOString();
+    this.database.db.transaction(() => {
+      this.database.db
+        .prepare(
+          `INSERT INTO merchants (
+            id, name, business_name, business_registration_no, contact_email,
+            status, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, 'active', ?, ?)`,
+        )
+        .run(
+          id,
+          input.name,
+          input.businessName ?? null,
+          input.businessRegistrationNo ?? null,
+          input.contactEmail ?? null,
+          now,
+          now,
+        );
+      this.replaceAddresses(id, 'payout', payout, now);
+      this.replaceAddresses(id, 'signer', signers, now);
+      this.replaceStores(id, input.stores ?? [], now);
+    })();
+
+    this.logger.log(`[MERCHANT] 가맹점 생성: id=${id} name=${input.name}`);
+    return this.getById(id);
+  }
+
+  update(id: string, input: MerchantInput): Merchant {
+    const current = this.getById(id);
+    if (input?.status && !['active', 'suspended'].includes(input.status)) {
+      throw new BadRequestException({
+        code: 'INVALID_MERCHANT',
+        message: `status는 active | suspended: ${input.status}`,
+      });
+    }
+    const payout =
+      input?.payoutAddresses &&
+      this.normalizeAddresses('payoutAddresses', input.payoutAddresses);
+    if (payout && payout.length === 0) {
+      throw new BadRequestException({
+        code: 'INVALID_MERCHANT',
+        message: '정산 주소(payoutAddresses)가 하나 이상 필요합니다.',
+      });
+    }
+    const signers =
+      input?.signers && this.normalizeAddresses('signers', input.signers);
+
+    const now = new Date().toISOString();
+    this.database.db.transaction(() => {
+      this.database.db
+        .prepare(
+          `UPDATE merchants
+              SET name = ?, business_name = ?, business_registration_no = ?,
+                  contact_email = ?, status = ?, updated_at = ?
+            WHERE id = ?`,
+        )
+        .run(
+          input?.name ?? current.name,
+          input?.businessName !== undefined
+            ? input.businessName
+            : current.businessName,
+          input?.businessRegistrationNo !== undefined
+            ? input.businessRegistrationNo
+            : current.businessRegistrationNo,
+          input?.contactEmail !== undefined
+            ? input.contactEmail
+            : current.contactEmail,
+          input?.status ?? current.status,
+          now,
+          id,
+        );
+      if (payout) this.replaceAddresses(id, 'payout', payout, now);
+      if (signers) this.replaceAddresses(id, 'signer', signers, now);
+      if (input?.stores) this.replaceStores(id, input.stores, now);
+    })();
+
+    this.logger.log(`[MERCHANT] 가맹점 수정: id=${id}`);
+    return this.getById(id);
+  }
+
+  find(id: string): Merchant | null {
+    const row = this.database.db
+      .prepare('SELECT * FROM merchants WHERE id = ?')
+      .get(id) as MerchantRow | undefined;
+    return row ? this.toMerchant(row) : null;
+  }
+
+  getById(id: string): Merchant {
+    const merchant = this.find(id);
+    if (!merchant) {
+      throw new NotFoundException({
+        code: 'MERCHANT_NOT_FOUND',
+        message: `가맹점을 찾을 수 없습니다: ${id}`,
+      });
+    }
+    return merchant;
+  }
+
+  list(): Merchant[] {
+    const rows = this.database.db
+      .prepare('SELECT * FROM merchants ORDER BY created_at DESC')
+      .all() as MerchantRow[];
+    return rows.map((r) => this.toMerchant(r));
+  }
+
+  // 정산 주소(또는 서명 키)의 소유 가맹점
+  findByAddress(
+    address: string | null | undefined,
+    kind: MerchantAddressKind = 'payout',
+  ): Merchant | null {
+    if (!address || !ethers.isAddress(address)) return null;
+    const row = this.database.db
+      .prepare(
+        'SELECT merchant_id FROM merchant_addresses WHERE kind = ? AND address = ?',
+      )
+      .get(kind, ethers.getAddress(address)) as
+      | { merchant_id: string }
+      | undefined;
+    return row ? this.find(row.merchant_id) : null;
+  }
+
+  ownsAddress(merchant: Merchant, address: string | null | undefined) {
+    return (
+      !!address &&
+      merchant.payoutAddresses.some(
+        (a) => a.toLowerCase() === address.toLowerCase(),
+      )
+    );
+  }
+
+  // 새 API 키 발급 (원문은 이 응답에서만 확인 가능)
+  issueApiKey(merchantId: string, label?: string | null) {
+    this.getById(merchantId);
+    const prefix = randomBytes(4).toString('hex');
+    const apiKey = `mk_${prefix}_${randomBytes(32).toString('base64url')}`;
+    const id = this.newId('key');
+    this.database.db
+      .prepare(
+        `INSERT INTO merchant_api_keys (id, merchant_id, key_prefix, key_hash, label, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        id,
+        merchantId,
+        prefix,
+        this.hashKey(apiKey),
+        label ?? null,
+        new Date().toISOString(),
+      );
+    this.logger.log(
+      `[MERCHANT] API 키 발급: merchant=${merchantId} key=${id} (mk_${prefix}_…)`,
+    );
+    const row = this.database.db
+      .prepare('SELECT * FROM merchant_api_keys WHERE id = ?')
+      .get(id) as ApiKeyRow;
+    return { apiKey, key: this.toApiKey(row) };
+  }
+
+  listApiKeys(merchantId: string): MerchantApiKey[] {
+    const rows = this.database.db
+      .prepare(
+        'SELECT * FROM merchant_api_keys WHERE merchant_id = ? ORDER BY created_at DESC',
+      )
+      .all(merchantId) as ApiKeyRow[];
+    return rows.map((r) => this.toApiKey(r));
+  }
+
+  revokeApiKey(merchantId: string, keyId: string): MerchantApiKey {
+    const res = this.database.db
+      .prepare(
+        `UPDATE merchant_api_keys SET revoked_at = COALESCE(revoked_at, ?)
+          WHERE id = ? AND merchant_id = ?`,
+      )
+      .run(new Date().toISOString(), keyId, merchantId);
+    if (res.changes === 0) {
+      throw new NotFoundException({
+        code: 'API_KEY_NOT_FOUND',
+        message: `API 키를 찾을 수 없습니다: ${keyId}`,
+      });
+    }
+    this.logger.log(
+      `[MERCHANT] API 키 폐기: merchant=${merchantId} key=${keyId}`,
+    );
+    const row = this.database.db
+      .prepare('SELECT * FROM merchant_api_keys WHERE id = ?')
+      .get(keyId) as ApiKeyRow;
+    return this.toApiKey(row);
+  }
+
+  // API 키 → 가맹점 (형식 오류 / 폐기 / 정지된 가맹점이면 null)
+  authenticate(apiKey: string | null | undefined): Merchant | null {
+    const match = API_KEY_PATTERN.exec(apiKey ?? '');
+    if (!match) return null;
+    const row = this.database.db
+      .prepare('SELECT * FROM merchant_api_keys WHERE key_prefix = ?')
+      .get(match[1]) as ApiKeyRow | undefined;
+    if (!row || row.revoked_at) return null;
+
+    const given = Buffer.from(this.hashKey(apiKey!), 'hex');
+    const stored = Buffer.from(row.key_hash, 'hex');
+    if (given.length !== stored.length || !timingSafeEqual(given, stored)) {
+      return null;
+    }
+    const merchant = this.find(row.merchant_id);
+    if (!merchant || merchant.status !== 'active') return null;
+
+    this.database.db
+      .prepare('UPDATE merchant_api_keys SET last_used_at = ? WHERE id = ?')
+      .run(new Date().toISOString(), row.id);
+    return merchant;
+  }
+}
@@ -0,0 +1,150 @@
+import { DatabaseService } from './database.service';
+import { MerchantService } from './merchant.service';
+import {
+  PaymentEvent,
+  PaymentEventsService,
+  PaymentStatusEvent,
+} from './payment-events.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+
+describe('PaymentEventsService', () => {
+  const SHOP = '0x2222222222222222222222222222222222222222';
+  const HASH = '0x' + 'ab'.repeat(32);
+  const FASTER = '0x' + 'cd'.repeat(32);
+
+  let database: DatabaseService;
+  let merchants: MerchantService;
+  let ledger: PaymentLedgerService;
+  let events: PaymentEventsService;
+
+  beforeEach(() => {
+    process.env.DB_PATH = ':memory:';
+    database = new DatabaseService();
+    merchants = new MerchantService(database);
+    ledger = new PaymentLedgerService(database);
+    events = new PaymentEventsService(ledger, merchants);
+  });
+
+  afterEach(() => database.onModuleDestroy());
+
+  it('streams progress by invoice id and by tx hash across replacements', () => {
+    const cafe = merchants.create({ name: '카페', payoutAddresses: [SHOP] });
+    const byInvoice: PaymentStatusEvent[] = [];
+    const byTx: PaymentStatusEvent[] = [];
+    const webhooks: PaymentEvent[] = [];
+    events.events$.subscribe((e) => webhooks.push(e));
+    events.watch({ invoiceId: 'inv_1' }).subscribe((e) => byInvoice.push(e));
+
+    const payment = ledger.create({
+      kind: 'signed',
+      to: SHOP,
+      invoiceId: 'inv_1',
+    });
+    ledger.markSubmitted(payment.id, HASH);
+    events.watch({ txHash: HASH }).subscribe((e) => byTx.push(e));
+
+    // 가속으로 해시가 바뀌어도 같은 결제로 계속 전달
+    ledger.recordReplacement(HASH, FASTER, 'speed_up');
+    ledger.markConfirmed(payment.id, 123);
+    events.publishStatus('receipt_queued', { txHash: FASTER.toUpperCase() });
+    events.publishStatus('receipt_printed', { txHash: FASTER });
+
+    // 다른 결제 이벤트는 섞이지 않음
+    const other = ledger.create({ kind: 'signed', to: SHOP });
+    ledger.markFailed(other.id, 'boom');
+
+    // 교체는 상태 전이가 아니므로 submitted를 다시 보내지 않음
+    expect(byInvoice.map((e) => e.type)).toEqual([
+      'submitted',
+      'mined',
+      'receipt_queued',
+      'receipt_printed',
+    ]);
+    expect(byTx.map((e) => e.type)).toEqual([
+      'mined',
+      'receipt_queued',
+      'receipt_printed',
+    ]);
+    expect(byTx[2]).toMatchObject({
+      paymentId: payment.id,
+      invoiceId: 'inv_1',
+      txHash: FASTER,
+    });
+    // 교체 이력은 원장 이벤트에만 남음
+    expect(
+      ledger.getEvents(payment.id).map((e) => [e.status, e.detail]),
+    ).toContainEqual(['submitted', `speed_up: ${HASH} → ${FASTER}`]);
+    expect(byInvoice[1]).toMatchObject({
+      merchantId: cafe.id,
+      data: { blockNumber: 123 },
+    });
+
+    expect(webhooks.map((e) => [e.type, e.merchantId])).toEqual([
+      ['payment.confirmed', cafe.id],
+      ['payment.failed', cafe.id],
+    ]);
+  });
+
+  it('does not notify merchants of payments rejected before signature checks', () => {
+    const cafe = merchants.create({ name: '카페', payoutAddresses: [SHOP] });
+    const statuses: PaymentStatusEvent[] = [];
+    const webhooks: PaymentEvent[] = [];
+    events.events$.subscribe((e) => webhooks.push(e));
+    events.watch({ invoiceId: 'inv_1' }).subscribe((e) => statuses.push(e));
+
+    // 아무나 보낼 수 있는 잘못된 결제: 원장에는 실패로 남지만 알림 없음
+    const forged = ledger.create({
+      kind: 'payment',
+      to: SHOP,
+      invoiceId: 'inv_1',
+      unverified: true,
+    });
+    ledger.markFailed(forged.id, 'EIP-712 서명 검증 실패');
+    expect(ledger.getById(forged.id)).toMatchObject({
+      status: 'failed',
+      unverified: true,
+    });
+    expect(webhooks).toEqual([]);
+    expect(statuses).toEqual([]);
+
+    // 서명 검증을 통과한 뒤의 실패는 알림
+    const signed = ledger.create({
+      kind: 'payment',
+      to: SHOP,
+      invoiceId: 'inv_1',
+      unverified: true,
+    });
+    ledger.markVerified(signed.id);
+    ledger.markFailed(signed.id, 'INSUFFICIENT_BALANCE');
+
+    expect(
+      webhooks.map((e) => [e.type, e.merchantId, e.data.paymentId]),
+    ).toEqual([['payment.failed', cafe.id, signed.id]]);
+    expect(statuses.map((e) => [e.type, e.paymentId])).toEqual([
+      ['failed', signed.id],
+    ]);
+  });
+
+  it('issues stream tokens scoped to one target until they expire', () => {
+    const issued = events.issueStreamToken('mch_1', {
+      invoiceId: 'inv_1',
+      txHash: HASH,
+    });
+    expect(issued.token).toMatch(/^sst_[0-9a-f]{48}$/);
+
+    // EventSource 재연결에도 같은 토큰을 쓸 수 있음
+    for (let i = 0; i < 2; i++) {
+      expect(events.resolveStreamToken(issued.token)).toEqual({
+        merchantId: 'mch_1',
+        target: { invoiceId: 'inv_1' },
+        expiresAt: issued.expiresAt,
+      });
+    }
+    expect(events.resolveStreamToken('sst_unknown')).toBeNull();
+    expect(events.resolveStreamToken(undefined)).toBeNull();
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse(issued.expiresAt) + 1);
+    expect(events.resolveStreamToken(issued.token)).toBeNull();
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,263 @@
+// payment-events.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { Observable, Subject, filter } from 'rxjs';
+import { MerchantService } from './merchant.service';
+import {
+  PaymentLedgerService,
+  PaymentRecord,
+  PaymentStatus,
+  merchantAddressOf,
+} from './payment-ledger.service';
+
+export type PaymentEventType =
+  | 'payment.confirmed'
+  | 'payment.failed'
+  | 'payment.reverted'
+  | 'receipt.printed';
+
+export const PAYMENT_EVENT_TYPES: PaymentEventType[] = [
+  'payment.confirmed',
+  'payment.failed',
+  'payment.reverted',
+  'receipt.printed',
+];
+
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  // 수취인(정산 주소)의 가맹점, 미등록 주소면 null
+  merchantId: string | null;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+// 알림 대상 상태 전이 (드롭도 결제 실패로 알림)
+const TRANSITION_EVENTS: Partial<Record<PaymentStatus, PaymentEventType>> = {
+  confirmed: 'payment.confirmed',
+  failed: 'payment.failed',
+  dropped: 'payment.failed',
+  reverted: 'payment.reverted',
+};
+
+// POS 화면용 실시간 진행 상태
+export type PaymentStatusEventType =
+  | 'submitted'
+  | 'mined'
+  | 'reverted'
+  | 'failed'
+  | 'receipt_queued'
+  | 'receipt_printed';
+
+export interface PaymentStatusEvent {
+  type: PaymentStatusEventType;
+  paymentId: string | null;
+  invoiceId: string | null;
+  txHash: string | null;
+  merchantId: string | null;
+  at: string;
+  data: Record<string, unknown>;
+}
+
+const TRANSITION_STATUS_EVENTS: Partial<
+  Record<PaymentStatus, PaymentStatusEventType>
+> = {
+  submitted: 'submitted',
+  confirmed: 'mined',
+  reverted: 'reverted',
+  failed: 'failed',
+  dropped: 'failed',
+};
+
+// 진행 상태 구독 대상 (인보이스 또는 txHash 하나)
+export interface StreamTarget {
+  invoiceId?: string;
+  txHash?: string;
+}
+
+export interface StreamGrant {
+  merchantId: string;
+  target: StreamTarget;
+  expiresAt: string;
+}
+
+/**
+ * 결제 / 영수증 이벤트 스트림.
+ * 원장 상태 전이와 영수증 인쇄 완료를 가맹점 단위 이벤트로 바꿔 구독자(웹훅 등)에 전달한다.
+ * POS 화면용 진행 상태(제출 / 채굴 / 리버트 / 영수증 대기·인쇄)는 인보이스 또는 txHash 단위로 따로 구독한다.
+ */
+@Injectable()
+export class PaymentEventsService {
+  private readonly logger = new Logger('PaymentEventsService');
+
+  private readonly subject = new Subject<PaymentEvent>();
+  private readonly statusSubject = new Subject<PaymentStatusEvent>();
+  // EventSource는 헤더를 보낼 수 없으므로 ?token=으로 쓰는 구독 전용 토큰
+  private readonly streamTokens = new Map<string, StreamGrant>();
+  private readonly streamTokenTtlMs =
+    (Number(process.env.STREAM_TOKEN_TTL_SEC) || 600) * 1000;
+
+  constructor(
+    private readonly ledger: PaymentLedgerService,
+    private readonly merchants: MerchantService,
+  ) {
+    this.ledger.onTransition((record) => this.onPaymentTransition(record));
+  }
+
+  get events$(): Observable<PaymentEvent> {
+    return this.subject.asObservable();
+  }
+
+  emit(
+    type: PaymentEventType,
+    merchantId: string | null,
+    data: Record<string, unknown>,
+  ): PaymentEvent {
+    const event: PaymentEvent = {
+      id: `evt_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      type,
+      merchantId,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+    this.logger.log(
+      `[EVENTS] ${type}: merchant=${merchantId ?? '-'} id=${event.id}`,
+    );
+    this.subject.next(event);
+    return event;
+  }
+
+  // 진행 상태 알림 (영수증처럼 결제 ID를 모르면 txHash로 원장에서 찾음)
+  publishStatus(
+    type: PaymentStatusEventType,
+    fields: {
+      paymentId?: string | null;
+      invoiceId?: string | null;
+      txHash?: string | null;
+      merchantId?: string | null;
+      data?: Record<string, unknown>;
+    },
+  ): PaymentStatusEvent {
+    const txHash = fields.txHash?.toLowerCase() ?? null;
+    const payment =
+      !fields.paymentId && txHash
+        ? (this.ledger.findByTxHash(txHash)[0] ?? null)
+        : null;
+    const event: PaymentStatusEvent = {
+      type,
+      paymentId: fields.paymentId ?? payment?.id ?? null,
+      invoiceId: fields.invoiceId ?? payment?.invoiceId ?? null,
+      txHash,
+      merchantId: fields.merchantId ?? null,
+      at: new Date().toISOString(),
+      data: fields.data ?? {},
+    };
+    this.logger.debug(
+      `[EVENTS] 진행 상태 ${type}: payment=${event.paymentId ?? '-'} tx=${txHash ?? '-'}`,
+    );
+    this.statusSubject.next(event);
+    return event;
+  }
+
+  /**
+   * 인보이스 또는 txHash의 진행 상태 구독.
+   * txHash는 구독 시점에 원장의 결제로 바꿔서 비교 (가속 / 취소로 해시가 바뀌어도 같은 결제로 취급).
+   */
+  watch(target: {
+    invoiceId?: string;
+    txHash?: string;
+  }): Observable<PaymentStatusEvent> {
+    const paymentIds = new Set(
+      target.txHash
+        ? this.ledger.findByTxHash(target.txHash).map((p) => p.id)
+        : [],
+    );
+    const txHash = target.txHash?.toLowerCase();
+    return this.statusSubject.pipe(
+      filter((e) =>
+        target.invoiceId
+          ? e.invoiceId === target.invoiceId
+          : (e.paymentId !== null && paymentIds.has(e.paymentId)) ||
+            (!!txHash && e.txHash === txHash),
+      ),
+    );
+  }
+
+  /**
+   * 한 대상(인보이스 / txHash)만 구독할 수 있는 단기 토큰 발급.
+   * EventSource가 끊기면 같은 URL로 다시 연결하므로 만료 전까지는 여러 번 쓸 수 있다.
+   */
+  issueStreamToken(merchantId: string, target: StreamTarget) {
+    const now = Date.now();
+    for (const [token, grant] of this.streamTokens) {
+      if (Date.parse(grant.expiresAt) <= now) this.streamTokens.delete(token);
+    }
+    const token = `sst_${randomBytes(24).toString('hex')}`;
+    const grant: StreamGrant = {
+      merchantId,
+      target: target.invoiceId
+        ? { invoiceId: target.invoiceId }
+        : { txHash: target.txHash },
+      expiresAt: new Date(now + this.streamTokenTtlMs).toISOString(),
+    };
+    this.streamTokens.set(token, grant);
+    return { token, ...grant };
+  }
+
+  // 유효한 구독 토큰의 가맹점 / 대상 (없거나 만료되면 null)
+  resolveStreamToken(token: string | null | undefined): StreamGrant | null {
+    const grant = token ? this.streamTokens.get(token) : undefined;
+    if (!grant) return null;
+    if (Date.parse(grant.expiresAt) <= Date.now()) {
+      this.streamTokens.delete(token!);
+      return null;
+    }
+    return grant;
+  }
+
+  // 정산 주소의 가맹점 (미등록 / 잘못된 주소면 null)
+  merchantIdOf(address: string | null | undefined): string | null {
+    return this.merchants.findByAddress(address)?.id ?? null;
+  }
+
+  private onPaymentTransition(record: PaymentRecord) {
+    // 서명 검증 전에 거절된 결제는 아무나 수취인을 정해 보낼 수 있으므로 알리지 않음
+    if (record.unverified && !record.txHash) return;
+    const merchantId = this.merchantIdOf(merchantAddressOf(record));
+    const statusType = TRANSITION_STATUS_EVENTS[record.status];
+    if (statusType) {
+      this.publishStatus(statusType, {
+        paymentId: record.id,
+        invoiceId: record.invoiceId,
+        txHash: record.txHash,
+        merchantId,
+        data: {
+          status: record.status,
+          blockNumber: record.blockNumber,
+          revertReason: record.revertReason,
+          errorMessage: record.errorMessage,
+        },
+      });
+    }
+
+    const type = TRANSITION_EVENTS[record.status];
+    if (!type) return;
+    this.emit(type, merchantId, {
+      paymentId: record.id,
+      kind: record.kind,
+      status: record.status,
+      txHash: record.txHash,
+      chainId: record.chainId,
+      from: record.fromAddress ?? record.authority,
+      to: record.toAddress,
+      token: record.token,
+      amount: record.amount,
+      productName: record.productName,
+      invoiceId: record.invoiceId,
+      refundOf: record.refundOf,
+      blockNumber: record.blockNumber,
+      revertReason: record.revertReason,
+      errorMessage: record.errorMessage,
+    });
+  }
+}
@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DatabaseService } from './database.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+
+describe('PaymentLedgerService', () => {
+  let module: TestingModule;
+  let ledger: PaymentLedgerService;
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    module = await Test.createTestingModule({
+      providers: [DatabaseService, PaymentLedgerService],
+    }).compile();
+
+    ledger = module.get<PaymentLedgerService>(PaymentLedgerService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  const AUTHORITY = '0x1111111111111111111111111111111111111111';
+  const RECIPIENT = '0x2222222222222222222222222222222222222222';
+  const TX_HASH = '0x' + 'ab'.repeat(32);
+
+  it('records an attempt and its status transitions', () => {
+    const created = ledger.create({
+      kind: 'signed',
+      authority: AUTHORITY,
+      from: AUTHORITY,
+      token: '0x3333333333333333333333333333333333333333',
+      to: RECIPIENT,
+      amount: 1000n,
+      nonce: 3,
+      productName: '커피',
+    });
+    expect(created.status).toBe('received');
+    expect(created.amount).toBe('1000');
+
+    ledger.markSubmitted(created.id, TX_HASH);
+    ledger.markConfirmed(created.id, 123);
+
+    const payment = ledger.getById(created.id);
+    expect(payment.status).toBe('confirmed');
+    expect(payment.txHash).toBe(TX_HASH);
+    expect(payment.blockNumber).toBe(123);
+    expect(ledger.getEvents(created.id).map((e) => e.status)).toEqual([
+      'received',
+      'submitted',
+      'confirmed',
+    ]);
+  });
+
+  it('keeps the revert reason and error message', () => {
+    const reverted = ledger.create({ kind: 'payment', authority: AUTHORITY });
+    ledger.markSubmitted(reverted.id, TX_HASH);
+    ledger.markReverted(reverted.id, 'BadNonce(1,2)', 10);
+    expect(ledger.getById(reverted.id).revertReason).toBe('BadNonce(1,2)');
+
+    const failed = ledger.create({ kind: 'payment', authority: AUTHORITY });
+    ledger.markFailed(failed.id, 'authorization missing');
+    expect(ledger.getById(failed.id)).toMatchObject({
+      status: 'failed',
+      errorMessage: 'authorization missing',
+    });
+  });
+
+  it('ignores transitions out of a settled state or backwards', () => {
+    const listener = jest.fn();
+    ledger.onTransition(listener);
+    const record = ledger.create({ kind: 'signed', authority: AUTHORITY });
+    ledger.markSubmitted(record.id, TX_HASH);
+
+    // TxTracker와 릴레이 응답 대기가 동시에 확정해도 한 번만 반영
+    expect(ledger.markConfirmed(record.id, 7)).toMatchObject({
+      status: 'confirmed',
+    });
+    expect(ledger.markConfirmed(record.id, 7)).toBeNull();
+    // 늦게 도착한 대기 시간 초과가 확정을 되돌리지 않음
+    expect(ledger.markPending(record.id, 'WAIT_TIMEOUT')).toBeNull();
+    expect(ledger.markReverted(record.id, 'late')).toBeNull();
+    expect(ledger.getById(record.id)).toMatchObject({
+      status: 'confirmed',
+      blockNumber: 7,
+    });
+    expect(listener.mock.calls.map(([r]) => r.status)).toEqual([
+      'submitted',
+      'confirmed',
+    ]);
+
+    const pending = ledger.create({ kind: 'signed' });
+    ledger.markSubmitted(pending.id, '0x' + 'ef'.repeat(32));
+    ledger.markPending(pending.id, 'awaiting confirmation');
+    expect(ledger.markSubmitted(pending.id, '0x' + 'ef'.repeat(32))).toBeNull();
+    expect(ledger.getById(pending.id).status).toBe('pending');
+  });
+
+  it('filters by txHash, payer and recipient case-insensitively', () => {
+    const a = ledger.create({
+      kind: 'payment',
+      authority: AUTHORITY,
+      to: RECIPIENT,
+    });
+    ledger.markSubmitted(a.id, TX_HASH);
+    ledger.create({
+      kind: 'scan',
+      to: '0x4444444444444444444444444444444444444444',
+    });
+
+    expect(
+      ledger.findByTxHash(TX_HASH.toUpperCase().replace('0X', '0x')),
+    ).toHaveLength(1);
+    expect(
+      ledger.list({ payer: AUTHORITY.toUpperCase().replace('0X', '0x') }),
+    ).toHaveLength(1);
+    expect(ledger.list({ recipient: RECIPIENT })).toHaveLength(1);
+    expect(ledger.list()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,768 @@
+// payment-ledger.service.ts
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+
+// 결제 경로 구분 (revoke: 스폰서한 EIP-7702 위임 해제 트랜잭션, refund: 가맹점 → 결제자 환불,
+// transfer: 릴레이어를 거치지 않은 지갑 송금을 Transfer 로그에서 찾은 것)
+export type PaymentKind =
+  | 'payment'
+  | 'signed'
+  | 'gasless'
+  | 'scan'
+  | 'revoke'
+  | 'migrate'
+  | 'fallback'
+  | 'refund'
+  | 'transfer';
+
+// 결제 상태 전이: received → submitted → (pending) → confirmed | reverted | dropped
+//                 received → failed (릴레이 전 거절/오류)
+export type PaymentStatus =
+  | 'received'
+  | 'submitted'
+  | 'pending'
+  | 'confirmed'
+  | 'reverted'
+  | 'dropped'
+  | 'failed';
+
+// 확정 / 리버트 / 드롭 / 실패 이후에는 상태를 바꾸지 않음
+export const TERMINAL_STATUSES: PaymentStatus[] = [
+  'confirmed',
+  'reverted',
+  'dropped',
+  'failed',
+];
+
+// 전이 순서 (뒤로 가는 전이는 무시: 늦게 도착한 pending이 confirmed를 덮지 않도록)
+const STATUS_ORDER: Record<PaymentStatus, number> = {
+  received: 0,
+  submitted: 1,
+  pending: 2,
+  confirmed: 3,
+  reverted: 3,
+  dropped: 3,
+  failed: 3,
+};
+
+export interface PaymentRecord {
+  id: string;
+  kind: PaymentKind;
+  status: PaymentStatus;
+  authority: string | null;
+  fromAddress: string | null;
+  token: string | null;
+  toAddress: string | null;
+  amount: string | null;
+  transferNonce: string | null;
+  deadline: string | null;
+  productName: string | null;
+  txHash: string | null;
+  relayerAddress: string | null;
+  relayerNonce: number | null;
+  blockNumber: number | null;
+  revertReason: string | null;
+  errorMessage: string | null;
+  gasUsed: string | null;
+  effectiveGasPrice: string | null;
+  gasCostWei: string | null;
+  clientIp: string | null;
+  // 결제가 실행된 체인 (체인 레지스트리 도입 전 기록은 null = 기본 체인)
+  chainId: number | null;
+  // 법정화폐 인보이스로 결제한 경우
+  invoiceId: string | null;
+  // 환불이면 원 결제 ID
+  refundOf: string | null;
+  // 결제자 서명(EIP-712) 검증 전 기록 (누구나 만들 수 있으므로 실패해도 가맹점에 알리지 않음)
+  unverified: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 결제 1건에 연결된 릴레이 트랜잭션 해시 이력 (원본 / 가속 / 취소)
+export type TxHashReason = 'original' | 'speed_up' | 'cancel';
+
+export interface PaymentTxHash {
+  paymentId: string;
+  txHash: string;
+  reason: TxHashReason;
+  createdAt: string;
+}
+
+export interface PaymentEvent {
+  id: number;
+  paymentId: string;
+  status: PaymentStatus;
+  detail: string | null;
+  createdAt: string;
+}
+
+export interface CreatePaymentInput {
+  kind: PaymentKind;
+  authority?: string | null;
+  from?: string | null;
+  token?: string | null;
+  to?: string | null;
+  amount?: string | number | bigint | null;
+  nonce?: string | number | bigint | null;
+  deadline?: string | number | bigint | null;
+  productName?: string | null;
+  clientIp?: string | null;
+  chainId?: number | null;
+  invoiceId?: string | null;
+  refundOf?: string | null;
+  // 서명 검증 전에 만드는 기록이면 true (검증 후 markVerified)
+  unverified?: boolean;
+}
+
+export interface PaymentQuery {
+  txHash?: string;
+  payer?: string;
+  recipient?: string;
+  // 가맹점 정산 주소 중 하나 (가맹점별 조회 범위 제한)
+  recipients?: string[];
+  status?: string;
+  kind?: string;
+  chainId?: number | string;
+  invoiceId?: string;
+  refundOf?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// 상태 전이 시 함께 갱신할 수 있는 컬럼
+interface PaymentPatch {
+  txHash?: string;
+  relayerAddress?: string;
+  relayerNonce?: number;
+  blockNumber?: number | null;
+  revertReason?: string | null;
+  errorMessage?: string | null;
+}
+
+// payments 테이블 row (snake_case)
+interface PaymentRow {
+  id: string;
+  kind: PaymentKind;
+  status: PaymentStatus;
+  authority: string | null;
+  from_address: string | null;
+  token: string | null;
+  to_address: string | null;
+  amount: string | null;
+  transfer_nonce: string | null;
+  deadline: string | null;
+  product_name: string | null;
+  tx_hash: string | null;
+  relayer_address: string | null;
+  relayer_nonce: number | null;
+  block_number: number | null;
+  revert_reason: string | null;
+  error_message: string | null;
+  gas_used: string | null;
+  effective_gas_price: string | null;
+  gas_cost_wei: string | null;
+  client_ip: string | null;
+  chain_id: number | null;
+  invoice_id: string | null;
+  refund_of: string | null;
+  unverified: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface PaymentTxHashRow {
+  payment_id: string;
+  tx_hash: string;
+  reason: TxHashReason;
+  created_at: string;
+}
+
+interface PaymentEventRow {
+  id: number;
+  payment_id: string;
+  status: PaymentStatus;
+  detail: string | null;
+  created_at: string;
+}
+
+const COLUMN_MAP: Record<keyof PaymentPatch, string> = {
+  txHash: 'tx_hash',
+  relayerAddress: 'relayer_address',
+  relayerNonce: 'relayer_nonce',
+  blockNumber: 'block_number',
+  revertReason: 'revert_reason',
+  errorMessage: 'error_message',
+};
+
+@Injectable()
+export class PaymentLedgerService {
+  private readonly logger = new Logger('PaymentLedgerService');
+
+  private transitionListeners: Array<(record: PaymentRecord) => void> = [];
+  // deferTransitions 실행 중 미뤄 둔 전이 (null이면 바로 알림)
+  private deferred: PaymentRecord[] | null = null;
+
+  constructor(private readonly database: DatabaseService) {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS payments (
+        id             TEXT PRIMARY KEY,
+        kind           TEXT NOT NULL,
+        status         TEXT NOT NULL,
+        authority      TEXT,
+        from_address   TEXT,
+        token          TEXT,
+        to_address     TEXT,
+        amount         TEXT,
+        transfer_nonce TEXT,
+        deadline       TEXT,
+        product_name   TEXT,
+        tx_hash        TEXT,
+        relayer_address TEXT,
+        relayer_nonce  INTEGER,
+        block_number   INTEGER,
+        revert_reason  TEXT,
+        error_message  TEXT,
+        created_at     TEXT NOT NULL,
+        updated_at     TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_payments_tx_hash   ON payments (tx_hash);
+      CREATE INDEX IF NOT EXISTS idx_payments_authority ON payments (authority);
+      CREATE INDEX IF NOT EXISTS idx_payments_to        ON payments (to_address);
+      CREATE INDEX IF NOT EXISTS idx_payments_status    ON payments (status);
+
+      CREATE TABLE IF NOT EXISTS payment_events (
+        id         INTEGER PRIMARY KEY AUTOINCREMENT,
+        payment_id TEXT NOT NULL REFERENCES payments (id),
+        status     TEXT NOT NULL,
+        detail     TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_payment_events_payment ON payment_events (payment_id);
+
+      CREATE TABLE IF NOT EXISTS payment_tx_hashes (
+        payment_id TEXT NOT NULL REFERENCES payments (id),
+        tx_hash    TEXT NOT NULL,
+        reason     TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (payment_id, tx_hash)
+      );
+      CREATE INDEX IF NOT EXISTS idx_payment_tx_hashes_hash ON payment_tx_hashes (tx_hash);
+    `);
+    this.database.ensureColumns('payments', {
+      relayer_address: 'TEXT',
+      relayer_nonce: 'INTEGER',
+      gas_used: 'TEXT',
+      effective_gas_price: 'TEXT',
+      gas_cost_wei: 'TEXT',
+      client_ip: 'TEXT',
+      chain_id: 'INTEGER',
+      invoice_id: 'TEXT',
+      refund_of: 'TEXT',
+      // 릴레이 전 예산 확인 시 예약한 예상 가스비 (채굴 전까지 예산에 포함)
+      estimated_cost_wei: 'TEXT',
+      unverified: 'INTEGER NOT NULL DEFAULT 0',
+    });
+    this.database.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_payments_client_ip ON payments (client_ip);
+      CREATE INDEX IF NOT EXISTS idx_payments_invoice   ON payments (invoice_id);
+      CREATE INDEX IF NOT EXISTS idx_payments_refund_of ON payments (refund_of);
+    `);
+  }
+
+  private lower(a?: string | null) {
+    return a ? a.toLowerCase() : null;
+  }
+
+  private str(v?: string | number | bigint | null) {
+    return v == null ? null : String(v);
+  }
+
+  private toRecord(row: PaymentRow): PaymentRecord {
+    return {
+      id: row.id,
+      kind: row.kind,
+      status: row.status,
+      authority: row.authority,
+      fromAddress: row.from_address,
+      token: row.token,
+      toAddress: row.to_address,
+      amount: row.amount,
+      transferNonce: row.transfer_nonce,
+      deadline: row.deadline,
+      productName: row.product_name,
+      txHash: row.tx_hash,
+      relayerAddress: row.relayer_address,
+      relayerNonce: row.relayer_nonce,
+      blockNumber: row.block_number,
+      revertReason: row.revert_reason,
+      errorMessage: row.error_message,
+      gasUsed: row.gas_used,
+      effectiveGasPrice: row.effective_gas_price,
+      gasCostWei: row.gas_cost_wei,
+      clientIp: row.client_ip,
+      chainId: row.chain_id,
+      invoiceId: row.invoice_id,
+      refundOf: row.refund_of,
+      unverified: row.unverified === 1,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  // 결제 시도 기록 (status=received)
+  create(input: CreatePaymentInput): PaymentRecord {
+    const id = `pay_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+    const now = new Date().toISOString();
+
+    this.database.db
+      .prepare(
+        `INSERT INTO payments (
+          id, kind, status, authority, from_address, token, to_address, amount,
+          transfer_nonce, deadline, product_name, client_ip, chain_id, invoice_id,
+          refund_of, unverified, created_at, updated_at
+        ) VALUES (
+          @id, @kind, 'received', @authority, @from, @token, @to, @amount,
+          @nonce, @deadline, @productName, @clientIp, @chainId, @invoiceId,
+          @refundOf, @unverified, @now, @now
+        )`,
+      )
+      .run({
+        id,
+        kind: input.kind,
+        authority: this.lower(input.authority),
+        from: this.lower(input.from),
+        token: this.lower(input.token),
+        to: this.lower(input.to),
+        amount: this.str(input.amount),
+        nonce: this.str(input.nonce),
+        deadline: this.str(input.deadline),
+        productName: input.productName ?? null,
+        clientIp: input.clientIp ?? null,
+        chainId: input.chainId ?? null,
+        invoiceId: input.invoiceId ?? null,
+        refundOf: input.refundOf ?? null,
+        unverified: input.unverified ? 1 : 0,
+        now,
+      });
+    this.addEvent(id, 'received', null, now);
+
+    this.logger.log(`[LEDGER] 결제 기록 생성: id=${id}, kind=${input.kind}`);
+    return this.getById(id);
+  }
+
+  /**
+   * 상태 전이 + 이벤트 기록.
+   * 종료 상태(TERMINAL_STATUSES)에서 나가거나 순서를 거스르는 전이는 반영하지 않고 null을 돌려준다
+   * (TxTracker와 릴레이 응답 대기가 같은 결제를 동시에 확정해도 알림 / 영수증은 한 번).
+   */
+  transition(
+    id: string,
+    status: PaymentStatus,
+    patch: PaymentPatch = {},
+    detail?: string,
+  ) {
+    const now = new Date().toISOString();
+    const sets = ['status = @status', 'updated_at = @now'];
+    const params: Record<string, any> = { id, status, now };
+
+    for (const [key, column] of Object.entries(COLUMN_MAP)) {
+      const value = patch[key as keyof PaymentPatch];
+      if (value !== undefined) {
+        sets.push(`${column} = @${key}`);
+        params[key] = value;
+      }
+    }
+
+    // 같은 순서 이하의 진행 중 상태에서만 전이 (조건부 UPDATE라 동시 호출에도 한 번만 반영)
+    const from = (Object.keys(STATUS_ORDER) as PaymentStatus[]).filter(
+      (s) =>
+        !TERMINAL_STATUSES.includes(s) &&
+        STATUS_ORDER[s] <= STATUS_ORDER[status],
+    );
+    const res = this.database.db
+      .prepare(
+        `UPDATE payments SET ${sets.join(', ')}
+          WHERE id = @id AND status IN (${from.map((s) => `'${s}'`).join(', ')})`,
+      )
+      .run(params);
+    if (res.changes === 0) {
+      const current = this.findById(id);
+      this.logger.warn(
+        current
+          ? `[LEDGER] 상태 전이 무시: id=${id}, ${current.status} → ${status}`
+          : `[LEDGER] 상태 전이 대상 없음: id=${id}, status=${status}`,
+      );
+      return null;
+    }
+    this.addEvent(id, status, detail ?? null, now);
+
+    this.logger.log(`[LEDGER] 상태 전이: id=${id} → ${status}`);
+    const record = this.getById(id);
+    if (this.deferred) this.deferred.push(record);
+    else this.notify(record);
+    return record;
+  }
+
+  /**
+   * fn 안에서 일어난 전이의 알림을 fn이 끝난 뒤에 보낸다.
+   * fn이 DB 트랜잭션이면 커밋된 뒤에만 알림 / 웹훅이 나가고, 롤백(예외)되면 버린다.
+   */
+  deferTransitions<T>(fn: () => T): T {
+    if (this.deferred) return fn();
+    this.deferred = [];
+    let records: PaymentRecord[];
+    let result: T;
+    try {
+      result = fn();
+      records = this.deferred;
+    } finally {
+      this.deferred = null;
+    }
+    for (const record of records) this.notify(record);
+    return result;
+  }
+
+  private notify(record: PaymentRecord) {
+    for (const listener of this.transitionListeners) {
+      try {
+        listener(record);
+      } catch (e: any) {
+        this.logger.error(
+          `[LEDGER] 상태 전이 알림 처리 실패: ${e?.message || e}`,
+        );
+      }
+    }
+  }
+
+  // 상태 전이 알림 (인보이스 결제 완료 처리 등)
+  onTransition(listener: (record: PaymentRecord) => void) {
+    this.transitionListeners.push(listener);
+  }
+
+  markSubmitted(
+    id: string,
+    txHash: string,
+    relayer?: { address: string; nonce: number },
+  ) {
+    this.addTxHash(id, txHash, 'original');
+    return this.transition(
+      id,
+      'submitted',
+      {
+        txHash: txHash.toLowerCase(),
+        relayerAddress: relayer?.address.toLowerCase(),
+        relayerNonce: relayer?.nonce,
+      },
+      txHash,
+    );
+  }
+
+  /**
+   * 릴레이어가 같은 nonce로 트랜잭션을 교체한 경우 이력 기록.
+   * speed_up이면 대표 tx_hash를 새 해시로 옮기고, cancel은 이력에만 남긴다
+   * (취소 트랜잭션이 채굴되면 TxTracker가 dropped로 처리).
+   * 상태는 그대로라 전이 알림(submitted 등)을 다시 보내지 않는다.
+   */
+  recordReplacement(oldHash: string, newHash: string, reason: TxHashReason) {
+    const records = this.findByTxHash(oldHash);
+    const now = new Date().toISOString();
+    for (const record of records) {
+      this.addTxHash(record.id, newHash, reason);
+      if (reason === 'speed_up' && !TERMINAL_STATUSES.includes(record.status)) {
+        this.database.db
+          .prepare(
+            'UPDATE payments SET tx_hash = ?, updated_at = ? WHERE id = ?',
+          )
+          .run(newHash.toLowerCase(), now, record.id);
+      }
+      this.addEvent(
+        record.id,
+        record.status,
+        `${reason}: ${oldHash} → ${newHash}`,
+        now,
+      );
+    }
+    return records.length;
+  }
+
+  private addTxHash(paymentId: string, txHash: string, reason: TxHashReason) {
+    this.database.db
+      .prepare(
+        `INSERT OR IGNORE INTO payment_tx_hashes (payment_id, tx_hash, reason, created_at)
+         VALUES (?, ?, ?, ?)`,
+      )
+      .run(paymentId, txHash.toLowerCase(), reason, new Date().toISOString());
+  }
+
+  getTxHashes(paymentId: string): PaymentTxHash[] {
+    return (
+      this.database.db
+        .prepare(
+          'SELECT * FROM payment_tx_hashes WHERE payment_id = ? ORDER BY created_at ASC',
+        )
+        .all(paymentId) as PaymentTxHashRow[]
+    ).map((row) => ({
+      paymentId: row.payment_id,
+      txHash: row.tx_hash,
+      reason: row.reason,
+      createdAt: row.created_at,
+    }));
+  }
+
+  markPending(id: string, detail?: string) {
+    return this.transition(id, 'pending', {}, detail);
+  }
+
+  // txHash: 교체 이력 중 실제로 채굴된 해시 (원래 대표 해시와 다를 수 있음)
+  markConfirmed(id: string, blockNumber?: number | null, txHash?: string) {
+    return this.transition(id, 'confirmed', {
+      blockNumber: blockNumber ?? null,
+      txHash: txHash?.toLowerCase(),
+    });
+  }
+
+  markReverted(
+    id: string,
+    revertReason: string | null,
+    blockNumber?: number | null,
+    txHash?: string,
+  ) {
+    return this.transition(
+      id,
+      'reverted',
+      {
+        revertReason,
+        blockNumber: blockNumber ?? null,
+        txHash: txHash?.toLowerCase(),
+      },
+      revertReason ?? undefined,
+    );
+  }
+
+  // 스폰서가 실제 부담한 가스비 (gasUsed × effectiveGasPrice), 상태는 바꾸지 않음
+  recordGasCost(
+    id: string,
+    gasUsed: bigint | null | undefined,
+    effectiveGasPrice: bigint | null | undefined,
+  ) {
+    if (gasUsed == null || effectiveGasPrice == null) return;
+    this.database.db
+      .prepare(
+        `UPDATE payments
+         SET gas_used = ?, effective_gas_price = ?, gas_cost_wei = ?, updated_at = ?
+         WHERE id = ?`,
+      )
+      .run(
+        gasUsed.toString(),
+        effectiveGasPrice.toString(),
+        (gasUsed * effectiveGasPrice).toString(),
+        new Date().toISOString(),
+        id,
+      );
+  }
+
+  // 결제자 서명 검증 통과 (이후 실패는 가맹점에 알림)
+  markVerified(id: string) {
+    this.database.db
+      .prepare('UPDATE payments SET unverified = 0 WHERE id = ?')
+      .run(id);
+  }
+
+  markDropped(id: string, detail?: string) {
+    return this.transition(id, 'dropped', {}, detail);
+  }
+
+  markFailed(id: string, errorMessage: string) {
+    return this.transition(id, 'failed', { errorMessage }, errorMessage);
+  }
+
+  private addEvent(
+    paymentId: string,
+    status: PaymentStatus,
+    detail: string | null,
+    at: string,
+  ) {
+    this.database.db
+      .prepare(
+        'INSERT INTO payment_events (payment_id, status, detail, created_at) VALUES (?, ?, ?, ?)',
+      )
+      .run(paymentId, status, detail, at);
+  }
+
+  findById(id: string): PaymentRecord | null {
+    const row = this.database.db
+      .prepare('SELECT * FROM payments WHERE id = ?')
+      .get(id) as PaymentRow | undefined;
+    return row ? this.toRecord(row) : null;
+  }
+
+  getById(id: string): PaymentRecord {
+    const record = this.findById(id);
+    if (!record) {
+      throw new NotFoundException(`결제 기록을 찾을 수 없습니다: ${id}`);
+    }
+    return record;
+  }
+
+  findByTxHash(txHash: string): PaymentRecord[] {
+    return (
+      this.database.db
+        .prepare(
+          `SELECT * FROM payments
+           WHERE tx_hash = @hash
+              OR id IN (SELECT payment_id FROM payment_tx_hashes WHERE tx_hash = @hash)
+           ORDER BY created_at DESC`,
+        )
+        .all({ hash: txHash.toLowerCase() }) as PaymentRow[]
+    ).map((row) => this.toRecord(row));
+  }
+
+  // 같은 릴레이어 주소를 여러 체인에서 쓰므로 chainId로 구분 (null 기록은 기본 체인)
+  findByRelayerNonce(
+    relayer: string,
+    nonce: number,
+    chainId?: number,
+  ): PaymentRecord | null {
+    const row = this.database.db
+      .prepare(
+        `SELECT * FROM payments WHERE relayer_address = @relayer AND relayer_nonce = @nonce
+           AND (@chainId IS NULL OR chain_id = @chainId OR chain_id IS NULL)
+         ORDER BY created_at DESC LIMIT 1`,
+      )
+      .get({
+        relayer: relayer.toLowerCase(),
+        nonce,
+        chainId: chainId ?? null,
+      }) as PaymentRow | undefined;
+    return row ? this.toRecord(row) : null;
+  }
+
+  // 원 결제에 연결된 환불 (오래된 순)
+  findRefunds(paymentId: string): PaymentRecord[] {
+    return (
+      this.database.db
+        .prepare(
+          'SELECT * FROM payments WHERE refund_of = ? ORDER BY created_at ASC',
+        )
+        .all(paymentId) as PaymentRow[]
+    ).map((row) => this.toRecord(row));
+  }
+
+  // 환불했거나 진행 중인 금액 합계 (실패 / 리버트 / 드롭된 환불은 제외)
+  refundedAmount(paymentId: string): bigint {
+    return this.findRefunds(paymentId)
+      .filter((r) => !['failed', 'reverted', 'dropped'].includes(r.status))
+      .reduce((sum, r) => sum + BigInt(r.amount ?? '0'), 0n);
+  }
+
+  // 브로드캐스트됐지만 아직 확정되지 않은 결제 (TxTracker 감시 대상)
+  findUnsettled(limit = 100): PaymentRecord[] {
+    return (
+      this.database.db
+        .prepare(
+          `SELECT * FROM payments
+           WHERE status IN ('submitted', 'pending') AND tx_hash IS NOT NULL
+           ORDER BY created_at ASC LIMIT ?`,
+        )
+        .all(limit) as PaymentRow[]
+    ).map((row) => this.toRecord(row));
+  }
+
+  getEvents(paymentId: string): PaymentEvent[] {
+    return (
+      this.database.db
+        .prepare(
+          'SELECT * FROM payment_events WHERE payment_id = ? ORDER BY id ASC',
+        )
+        .all(paymentId) as PaymentEventRow[]
+    ).map((row) => ({
+      id: row.id,
+      paymentId: row.payment_id,
+      status: row.status,
+      detail: row.detail,
+      createdAt: row.created_at,
+    }));
+  }
+
+  // 원장에 한 번이라도 나온 결제자 주소
+  listAuthorities(): string[] {
+    return (
+      this.database.db
+        .prepare(
+          'SELECT DISTINCT authority FROM payments WHERE authority IS NOT NULL',
+        )
+        .all() as Array<{ authority: string }>
+    ).map((r) => r.authority);
+  }
+
+  list(query: PaymentQuery = {}): PaymentRecord[] {
+    const where: string[] = [];
+    const params: Record<string, any> = {};
+
+    if (query.txHash) {
+      where.push(
+        '(tx_hash = @txHash OR id IN (SELECT payment_id FROM payment_tx_hashes WHERE tx_hash = @txHash))',
+      );
+      params.txHash = query.txHash.toLowerCase();
+    }
+    if (query.payer) {
+      where.push('(authority = @payer OR from_address = @payer)');
+      params.payer = query.payer.toLowerCase();
+    }
+    if (query.recipient) {
+      where.push('to_address = @recipient');
+      params.recipient = query.recipient.toLowerCase();
+    }
+    if (query.recipients) {
+      const names = query.recipients.map((address, i) => {
+        params[`recipient${i}`] = address.toLowerCase();
+        return `@recipient${i}`;
+      });
+      // 환불은 가맹점이 보낸 송금이므로 보낸 주소로 판단
+      const list = names.join(', ');
+      where.push(
+        names.length
+          ? `(to_address IN (${list}) OR (kind = 'refund' AND from_address IN (${list})))`
+          : '0',
+      );
+    }
+    if (query.status) {
+      where.push('status = @status');
+      params.status = query.status;
+    }
+    if (query.kind) {
+      where.push('kind = @kind');
+      params.kind = query.kind;
+    }
+    if (query.chainId) {
+      where.push('chain_id = @chainId');
+      params.chainId = Number(query.chainId);
+    }
+    if (query.invoiceId) {
+      where.push('invoice_id = @invoiceId');
+      params.invoiceId = query.invoiceId;
+    }
+    if (query.refundOf) {
+      where.push('refund_of = @refundOf');
+      params.refundOf = query.refundOf;
+    }
+
+    params.limit = Math.min(Math.max(Number(query.limit) || 50, 1), 500);
+    params.offset = Math.max(Number(query.offset) || 0, 0);
+
+    const sql =
+      'SELECT * FROM payments' +
+      (where.length ? ` WHERE ${where.join(' AND ')}` : '') +
+      ' ORDER BY created_at DESC LIMIT @limit OFFSET @offset';
+
+    return (this.database.db.prepare(sql).all(params) as PaymentRow[]).map(
+      (row) => this.toRecord(row),
+    );
+  }
+}
+
+// 결제를 받은 가맹점 쪽 주소 (환불은 가맹점이 보낸 송금이므로 보낸 주소)
+export function merchantAddressOf(record: PaymentRecord): string | null {
+  return record.kind === 'refund' ? record.fromAddress : record.toAddress;
+}
@@ -0,0 +1,57 @@
+import { Invoice, InvoiceService } from './invoice.service';
+import { PaymentQrService } from './payment-qr.service';
+
+describe('PaymentQrService', () => {
+  const invoice = {
+    id: 'inv_1_abc',
+    status: 'open',
+    chainId: 97,
+    token: '0x3333333333333333333333333333333333333333',
+    recipient: '0x2222222222222222222222222222222222222222',
+    tokenAmount: '2500000',
+  } as Invoice;
+
+  const invoices = {
+    getById: jest.fn(() => invoice),
+    getPayable: jest.fn(() => invoice),
+    paymentRequest: jest.fn(() => ({ invoiceId: invoice.id })),
+    assertMatches: jest.fn(),
+  };
+  const qr = new PaymentQrService(invoices as unknown as InvoiceService);
+
+  it('renders PNG and SVG codes for the invoice URI', async () => {
+    const png = await qr.render(invoice.id, 'png');
+    expect(png.contentType).toBe('image/png');
+    expect((png.body as Buffer).subarray(1, 4).toString()).toBe('PNG');
+    expect(png.uri).toBe(
+      `ethereum:${invoice.token}@97/transfer?address=${invoice.recipient}&uint256=2500000&invoiceId=inv_1_abc`,
+    );
+
+    const svg = await qr.render(invoice.id, 'svg');
+    expect(svg.contentType).toBe('image/svg+xml');
+    expect(svg.body).toContain('<svg');
+
+    await expect(qr.render(invoice.id, 'gif')).rejects.toMatchObject({
+      response: { code: 'INVALID_QR_FORMAT' },
+    });
+  });
+
+  it('parses a URI back and checks it against the invoice', () => {
+    const parsed = qr.parse(qr.uriFor(invoice));
+    expect(parsed.paymentRequest).toEqual({ invoiceId: invoice.id });
+    expect(invoices.assertMatches).toHaveBeenCalledWith(invoice, {
+      token: invoice.token,
+      amount: 2_500_000n,
+      to: invoice.recipient,
+    });
+
+    expect(() => qr.parse(qr.uriFor(invoice).replace('@97/', '@56/'))).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({
+          code: 'INVOICE_MISMATCH',
+          field: 'chainId',
+        }),
+      }),
+    );
+  });
+});
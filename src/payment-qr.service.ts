@@ -0,0 +1,109 @@
+// payment-qr.service.ts
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import * as QRCode from 'qrcode';
+import { buildTransferUri, parseTransferUri } from './eip681';
+import { Invoice, InvoiceService } from './invoice.service';
+
+export type QrFormat = 'png' | 'svg';
+
+export interface QrImage {
+  contentType: string;
+  body: Buffer | string;
+  uri: string;
+}
+
+/**
+ * 인보이스 결제 QR.
+ * QR 내용은 EIP-681 URI라서 우리 스캔 페이지가 아닌 지갑으로도 결제할 수 있고,
+ * 스캔 페이지는 URI의 invoiceId로 서버에서 결제 요청을 다시 받아온다.
+ */
+@Injectable()
+export class PaymentQrService {
+  private readonly logger = new Logger('PaymentQrService');
+
+  constructor(private readonly invoices: InvoiceService) {}
+
+  uriFor(invoice: Invoice): string {
+    return buildTransferUri({
+      token: invoice.token,
+      chainId: invoice.chainId,
+      recipient: invoice.recipient,
+      amount: BigInt(invoice.tokenAmount),
+      invoiceId: invoice.id,
+    });
+  }
+
+  // 결제 가능한(open) 인보이스만 렌더링
+  async render(
+    invoiceId: string,
+    format: string = 'png',
+    size?: number | string,
+  ): Promise<QrImage> {
+    if (format !== 'png' && format !== 'svg') {
+      throw new BadRequestException({
+        code: 'INVALID_QR_FORMAT',
+        message: `지원하지 않는 QR 형식입니다: ${format} (png | svg)`,
+      });
+    }
+    const uri = this.uriFor(this.invoices.getPayable(invoiceId));
+    const width = Math.min(Math.max(Number(size) || 320, 128), 1024);
+    const options = { errorCorrectionLevel: 'M' as const, margin: 2, width };
+
+    this.logger.log(`[QR] ${format} 생성: invoice=${invoiceId}`);
+    if (format === 'svg') {
+      return {
+        contentType: 'image/svg+xml',
+        body: await QRCode.toString(uri, { ...options, type: 'svg' }),
+        uri,
+      };
+    }
+    return {
+      contentType: 'image/png',
+      body: await QRCode.toBuffer(uri, { ...options, type: 'png' }),
+      uri,
+    };
+  }
+
+  /**
+   * EIP-681 URI → 결제 요청.
+   * invoiceId가 있으면 URI의 토큰 / 체인 / 수취인 / 금액이 인보이스와 같은지 확인한다 (변조 감지).
+   */
+  parse(uri: string) {
+    const request = parseTransferUri(uri);
+    const result = {
+      token: request.token,
+      chainId: request.chainId,
+      recipient: request.recipient,
+      amount: request.amount.toString(),
+      invoiceId: request.invoiceId,
+    };
+    if (!request.invoiceId) {
+      return { request: result, invoice: null, paymentRequest: null };
+    }
+
+    const invoice = this.invoices.getById(request.invoiceId);
+    if (request.chainId !== null && request.chainId !== invoice.chainId) {
+      throw new BadRequestException({
+        code: 'INVOICE_MISMATCH',
+        message: '인보이스와 결제 chainId가 다릅니다.',
+        invoiceId: invoice.id,
+        field: 'chainId',
+        got: String(request.chainId),
+        expected: String(invoice.chainId),
+      });
+    }
+    this.invoices.assertMatches(invoice, {
+      token: request.token,
+      amount: request.amount,
+      to: request.recipient,
+    });
+    return {
+      request: result,
+      invoice,
+      paymentRequest:
+        invoice.status === 'open'
+          ? this.invoices.paymentRequest(invoice)
+          : null,
+    };
+  }
+}
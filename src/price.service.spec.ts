@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  FilePriceSource,
+  FixedPriceSource,
+  PriceService,
+  PriceSource,
+} from './price.service';
+import { TokenInfo } from './token-registry.service';
+
+describe('PriceService', () => {
+  const USDT: TokenInfo = {
+    chainId: 97,
+    address: '0x3333333333333333333333333333333333333333',
+    symbol: 'USDT',
+    decimals: 6,
+    name: 'Tether USD',
+    enabled: true,
+    minSponsoredAmount: null,
+  };
+
+  let dir: string;
+  let priceFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prices-'));
+    priceFile = path.join(dir, 'prices.json');
+    process.env.PRICE_FILE_PATH = priceFile;
+  });
+
+  afterEach(() => {
+    delete process.env.PRICE_FILE_PATH;
+    delete process.env.PRICE_SOURCE;
+    delete process.env.PRICE_FIXED_RATES;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writePrices = (prices: unknown) =>
+    fs.writeFileSync(priceFile, JSON.stringify(prices));
+
+  it('reads fixed rates case-insensitively', async () => {
+    const source = new FixedPriceSource(' krw/usdt = 1380 ,KRW/USDC=1375,bad');
+
+    await expect(source.getRate('KRW', 'USDT')).resolves.toBe('1380');
+    await expect(source.getRate('krw', 'usdc')).resolves.toBe('1375');
+    await expect(source.getRate('USD', 'USDT')).resolves.toBeNull();
+  });
+
+  it('re-reads the price file on every lookup', async () => {
+    const source = new FilePriceSource(priceFile);
+    await expect(source.getRate('KRW', 'USDT')).resolves.toBeNull();
+
+    writePrices({ KRW: { USDT: '1380.50', USDC: 1379 } });
+    await expect(source.getRate('krw', 'usdt')).resolves.toBe('1380.50');
+    await expect(source.getRate('KRW', 'USDC')).resolves.toBe('1379');
+
+    // 외부 수집기가 갱신하면 재시작 없이 반영
+    writePrices({ KRW: { USDT: '1400' } });
+    await expect(source.getRate('KRW', 'USDT')).resolves.toBe('1400');
+    await expect(source.getRate('KRW', 'USDC')).resolves.toBeNull();
+  });
+
+  it('picks the price source from PRICE_SOURCE or the price file', async () => {
+    process.env.PRICE_FIXED_RATES = 'KRW/USDT=1000';
+    await expect(
+      new PriceService().quote('KRW', '1000', USDT),
+    ).resolves.toMatchObject({ rateSource: 'fixed', rate: '1000' });
+
+    // 가격 파일이 있으면 기본은 file
+    writePrices({ KRW: { USDT: '2000' } });
+    await expect(
+      new PriceService().quote('KRW', '1000', USDT),
+    ).resolves.toMatchObject({ rateSource: 'file', rate: '2000' });
+
+    process.env.PRICE_SOURCE = 'fixed';
+    await expect(
+      new PriceService().quote('KRW', '1000', USDT),
+    ).resolves.toMatchObject({ rateSource: 'fixed', rate: '1000' });
+  });
+
+  it('quotes through a pluggable source and rounds token amounts up', async () => {
+    const service = new PriceService();
+    const getRate = jest.fn().mockResolvedValue('1380');
+    const source: PriceSource = { name: 'exchange', getRate };
+    service.use(source);
+
+    // 10000 / 1380 = 7.2463768… → 기본 단위 올림
+    const quote = await service.quote('krw', '10000', USDT);
+    expect(quote).toEqual({
+      fiatCurrency: 'KRW',
+      fiatAmount: '10000',
+      rate: '1380',
+      rateSource: 'exchange',
+      tokenAmount: 7_246_377n,
+    });
+    expect(getRate).toHaveBeenCalledWith('KRW', 'USDT');
+
+    // 나누어떨어지면 그대로
+    await expect(service.quote('KRW', '2760', USDT)).resolves.toMatchObject({
+      tokenAmount: 2_000_000n,
+    });
+  });
+
+  it('keeps the quoted rate once issued even if the source moves', async () => {
+    const service = new PriceService();
+    let rate = '1380.5';
+    service.use({ name: 'exchange', getRate: () => Promise.resolve(rate) });
+
+    const locked = await service.quote('KRW', '13805', USDT);
+    rate = '1500';
+    const fresh = await service.quote('KRW', '13805', USDT);
+
+    expect(locked).toMatchObject({ rate: '1380.5', tokenAmount: 10_000_000n });
+    expect(fresh).toMatchObject({ rate: '1500', tokenAmount: 9_203_334n });
+  });
+
+  it('rejects missing prices and malformed amounts', async () => {
+    const service = new PriceService();
+    const failing = { name: 'exchange', getRate: jest.fn() };
+    service.use(failing);
+
+    for (const outcome of [
+      () => Promise.resolve(null),
+      () => Promise.resolve('0'),
+      () => Promise.reject(new Error('timeout')),
+    ]) {
+      failing.getRate.mockImplementationOnce(outcome);
+      await expect(service.quote('KRW', '1000', USDT)).rejects.toMatchObject({
+        status: 503,
+        response: {
+          code: 'PRICE_UNAVAILABLE',
+          fiatCurrency: 'KRW',
+          symbol: 'USDT',
+          source: 'exchange',
+        },
+      });
+    }
+
+    failing.getRate.mockResolvedValue('1380');
+    for (const amount of ['-1', '1e3', 'abc', '0']) {
+      await expect(service.quote('KRW', amount, USDT)).rejects.toMatchObject({
+        response: { code: 'INVALID_AMOUNT' },
+      });
+    }
+    // 소스가 이상한 형식을 돌려줘도 계산하지 않음
+    failing.getRate.mockResolvedValue('1.38e3');
+    await expect(service.quote('KRW', '1000', USDT)).rejects.toMatchObject({
+      response: { code: 'INVALID_AMOUNT' },
+    });
+  });
+});
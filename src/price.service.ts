@@ -0,0 +1,168 @@
+// price.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TokenInfo } from './token-registry.service';
+
+// 토큰 1개의 법정화폐 가격 (10진수 문자열, 예: KRW/USDT = "1380.5")
+export interface PriceSource {
+  readonly name: string;
+  getRate(fiatCurrency: string, symbol: string): Promise<string | null>;
+}
+
+/**
+ * 고정 환율 (테스트 / 단일 환율 운영용).
+ * PRICE_FIXED_RATES="KRW/USDT=1380,KRW/USDC=1375"
+ */
+export class FixedPriceSource implements PriceSource {
+  readonly name = 'fixed';
+
+  private readonly rates = new Map<string, string>();
+
+  constructor(spec = process.env.PRICE_FIXED_RATES || '') {
+    for (const entry of spec.split(',')) {
+      const [pair, rate] = entry.split('=').map((s) => s?.trim());
+      if (pair && rate) this.rates.set(pair.toUpperCase(), rate);
+    }
+  }
+
+  getRate(fiatCurrency: string, symbol: string) {
+    return Promise.resolve(
+      this.rates.get(`${fiatCurrency}/${symbol}`.toUpperCase()) ?? null,
+    );
+  }
+}
+
+/**
+ * 로컬 가격 파일 (외부 시세 수집기가 주기적으로 갱신).
+ * { "KRW": { "USDT": "1380.5", "USDC": "1379" } } — 조회할 때마다 다시 읽음.
+ */
+export class FilePriceSource implements PriceSource {
+  readonly name = 'file';
+
+  constructor(
+    private readonly filePath = path.resolve(
+      process.env.PRICE_FILE_PATH || 'config/prices.json',
+    ),
+  ) {}
+
+  getRate(fiatCurrency: string, symbol: string) {
+    if (!fs.existsSync(this.filePath)) return Promise.resolve(null);
+    const prices = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as Record<
+      string,
+      Record<string, string | number>
+    >;
+    const rate = prices[fiatCurrency.toUpperCase()]?.[symbol.toUpperCase()];
+    return Promise.resolve(rate == null ? null : String(rate));
+  }
+}
+
+export interface FiatQuote {
+  fiatCurrency: string;
+  fiatAmount: string;
+  // 토큰 1개당 법정화폐 가격
+  rate: string;
+  rateSource: string;
+  tokenAmount: bigint;
+}
+
+// 환율 / 금액 계산 정밀도 (소수점 18자리 고정소수점)
+const SCALE = 18;
+
+/**
+ * 법정화폐 금액 → 스테이블코인 금액 환산.
+ * 가격 소스는 PRICE_SOURCE=fixed|file (기본: 가격 파일이 있으면 file, 없으면 fixed),
+ * use()로 다른 구현(거래소 API 등)으로 교체할 수 있다.
+ */
+@Injectable()
+export class PriceService {
+  private readonly logger = new Logger('PriceService');
+
+  private source: PriceSource;
+
+  constructor() {
+    const file = new FilePriceSource();
+    const kind =
+      process.env.PRICE_SOURCE ||
+      (fs.existsSync(
+        path.resolve(process.env.PRICE_FILE_PATH || 'config/prices.json'),
+      )
+        ? 'file'
+        : 'fixed');
+    this.source = kind === 'file' ? file : new FixedPriceSource();
+    this.logger.log(`[PRICE] 가격 소스: ${this.source.name}`);
+  }
+
+  use(source: PriceSource) {
+    this.logger.log(`[PRICE] 가격 소스 교체: ${source.name}`);
+    this.source = source;
+  }
+
+  private parseDecimal(value: string | number, field: string) {
+    const raw = String(value ?? '').trim();
+    if (!/^\d+(\.\d+)?$/.test(raw)) {
+      throw new BadRequestException({
+        code: 'INVALID_AMOUNT',
+        message: `${field} 형식이 잘못되었습니다: ${raw}`,
+      });
+    }
+    return raw;
+  }
+
+  /**
+   * 현재 환율로 견적. 토큰 금액은 기본 단위로 올림
+   * (반올림 오차로 가맹점이 덜 받지 않도록).
+   */
+  async quote(
+    fiatCurrency: string,
+    fiatAmount: string | number,
+    token: TokenInfo,
+  ): Promise<FiatQuote> {
+    const currency = String(fiatCurrency || '').toUpperCase();
+    const amount = this.parseDecimal(fiatAmount, 'fiatAmount');
+    const symbol = token.symbol ?? '';
+
+    let rate: string | null;
+    try {
+      rate = await this.source.getRate(currency, symbol);
+    } catch (e: any) {
+      this.logger.error(`[PRICE] 가격 조회 실패: ${e?.message}`);
+      rate = null;
+    }
+    if (!rate || Number(rate) <= 0) {
+      throw new ServiceUnavailableException({
+        code: 'PRICE_UNAVAILABLE',
+        message: `${currency}/${symbol} 가격을 가져올 수 없습니다.`,
+        fiatCurrency: currency,
+        symbol,
+        source: this.source.name,
+      });
+    }
+    rate = this.parseDecimal(rate, 'rate');
+
+    const fiatScaled = ethers.parseUnits(amount, SCALE);
+    const rateScaled = ethers.parseUnits(rate, SCALE);
+    const numerator = fiatScaled * 10n ** BigInt(token.decimals!);
+    const tokenAmount = (numerator + rateScaled - 1n) / rateScaled;
+    if (tokenAmount <= 0n) {
+      throw new BadRequestException({
+        code: 'INVALID_AMOUNT',
+        message: 'fiatAmount must be positive',
+      });
+    }
+
+    return {
+      fiatCurrency: currency,
+      fiatAmount: amount,
+      rate,
+      rateSource: this.source.name,
+      tokenAmount,
+    };
+  }
+}
@@ -0,0 +1,219 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ethers } from 'ethers';
+import { ChainService } from './chain.service';
+import { DatabaseService } from './database.service';
+import { DelegationService } from './delegation.service';
+import { GasBudgetService } from './gas-budget.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { RedelegationService } from './redelegation.service';
+import { RelayerPoolService } from './relayer-pool.service';
+import { TxTrackerService } from './tx-tracker.service';
+import { VelocityService } from './velocity.service';
+
+describe('RedelegationService', () => {
+  let module: TestingModule;
+  let service: RedelegationService;
+  let ledger: PaymentLedgerService;
+
+  const user = new ethers.Wallet('0x' + '42'.repeat(32));
+  const TX_HASH = '0x' + 'ab'.repeat(32);
+  const provider = {
+    getTransactionCount: jest.fn().mockResolvedValue(3),
+    estimateGas: jest.fn().mockResolvedValue(50_000n),
+    getFeeData: jest
+      .fn()
+      .mockResolvedValue({ maxFeePerGas: 2_000_000_000n, gasPrice: null }),
+  };
+  const CURRENT = ethers.getAddress('0x' + '5a'.repeat(20));
+  const delegation = {
+    getDelegation: jest.fn(),
+    expectedDelegateOn: () => CURRENT,
+  };
+  const relayers = {
+    send: jest.fn().mockResolvedValue({
+      tx: { hash: TX_HASH },
+      relayer: '0x' + '01'.repeat(20),
+      nonce: 0,
+    }),
+  };
+  const txTracker = { check: jest.fn() };
+  const gasBudget = {
+    assertGasPriceWithinCeiling: jest.fn().mockResolvedValue(undefined),
+    assertWithinBudget: jest.fn(),
+  };
+  const velocity = { assertAllowed: jest.fn() };
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    jest.clearAllMocks();
+    module = await Test.createTestingModule({
+      providers: [
+        DatabaseService,
+        PaymentLedgerService,
+        RedelegationService,
+        {
+          provide: ChainService,
+          useValue: {
+            provider,
+            chainId: 97,
+            get: (chainId: number = 97) => {
+              if (chainId !== 97) {
+                throw new BadRequestException({ code: 'UNSUPPORTED_CHAIN' });
+              }
+              return { provider, config: { chainId } };
+            },
+          },
+        },
+        { provide: DelegationService, useValue: delegation },
+        { provide: RelayerPoolService, useValue: relayers },
+        { provide: TxTrackerService, useValue: txTracker },
+        { provide: GasBudgetService, useValue: gasBudget },
+        { provide: VelocityService, useValue: velocity },
+      ],
+    }).compile();
+
+    service = module.get(RedelegationService);
+    ledger = module.get(PaymentLedgerService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  async function signRevoke(nonce = 3, address = ethers.ZeroAddress) {
+    const auth = await user.authorize({
+      address,
+      nonce,
+      chainId: 97,
+    });
+    return {
+      chainId: 97,
+      address: auth.address,
+      nonce,
+      signature: auth.signature.serialized,
+    };
+  }
+
+  it('relays a zero-address authorization and confirms the code is cleared', async () => {
+    delegation.getDelegation.mockResolvedValueOnce({ delegated: true });
+
+    const submitted = await service.revoke(user.address, await signRevoke());
+
+    expect(submitted).toMatchObject({ status: 'submitted', txHash: TX_HASH });
+    const [txReq] = relayers.send.mock.calls[0] as [
+      { type: number; to: string; authorizationList: unknown[] },
+    ];
+    expect(txReq).toMatchObject({ type: 4, to: user.address });
+    expect(relayers.send.mock.calls[0][1]).toEqual({ chainId: 97 });
+    expect(txReq.authorizationList).toHaveLength(1);
+
+    txTracker.check.mockImplementation(({ id }: { id: string }) =>
+      Promise.resolve(ledger.markConfirmed(id, 10)),
+    );
+    delegation.getDelegation.mockResolvedValueOnce({ delegated: false });
+
+    await expect(
+      service.getRevokeStatus(submitted.revokeId),
+    ).resolves.toMatchObject({
+      status: 'confirmed',
+      codeCleared: true,
+      revoked: true,
+    });
+  });
+
+  it('rejects authorizations that do not target the zero address or are stale', async () => {
+    delegation.getDelegation.mockResolvedValue({ delegated: true });
+
+    const wrongTarget = {
+      ...(await signRevoke()),
+      address: '0x' + '99'.repeat(20),
+    };
+    await expect(
+      service.revoke(user.address, wrongTarget),
+    ).rejects.toMatchObject({ response: { code: 'BAD_AUTHORIZATION_TARGET' } });
+    await expect(
+      service.revoke(user.address, await signRevoke(2)),
+    ).rejects.toMatchObject({ response: { code: 'BAD_NONCE' } });
+    // authorization의 체인으로 라우팅, 레지스트리에 없는 체인은 거절
+    await expect(
+      service.revoke(user.address, { ...(await signRevoke()), chainId: 1 }),
+    ).rejects.toMatchObject({ response: { code: 'UNSUPPORTED_CHAIN' } });
+    expect(relayers.send).not.toHaveBeenCalled();
+  });
+
+  it('re-delegates older versions to the current delegate', async () => {
+    delegation.getDelegation.mockResolvedValueOnce({
+      isExpectedDelegate: false,
+      version: 'v1',
+      currentVersion: 'v2',
+    });
+    await expect(
+      service.migrate(user.address, await signRevoke(3)),
+    ).rejects.toMatchObject({ response: { code: 'BAD_AUTHORIZATION_TARGET' } });
+
+    delegation.getDelegation.mockResolvedValueOnce({
+      isExpectedDelegate: false,
+      version: 'v1',
+      currentVersion: 'v2',
+    });
+    const submitted = await service.migrate(
+      user.address,
+      await signRevoke(3, CURRENT),
+    );
+    expect(submitted).toMatchObject({
+      status: 'submitted',
+      fromVersion: 'v1',
+      toVersion: 'v2',
+    });
+
+    txTracker.check.mockImplementation(({ id }: { id: string }) =>
+      Promise.resolve(ledger.markConfirmed(id, 11)),
+    );
+    delegation.getDelegation.mockResolvedValueOnce({
+      isExpectedDelegate: true,
+      version: 'v2',
+    });
+    await expect(
+      service.getMigrationStatus(submitted.migrationId),
+    ).resolves.toMatchObject({ migrated: true, version: 'v2' });
+
+    delegation.getDelegation.mockResolvedValueOnce({
+      isExpectedDelegate: true,
+    });
+    await expect(
+      service.migrate(user.address, await signRevoke(3, CURRENT)),
+    ).rejects.toMatchObject({ response: { code: 'ALREADY_CURRENT' } });
+  });
+
+  it('applies sponsor controls and refuses when gas estimation fails', async () => {
+    delegation.getDelegation.mockResolvedValue({ delegated: true });
+
+    const submitted = await service.revoke(
+      user.address,
+      await signRevoke(),
+      '10.0.0.7',
+    );
+    expect(velocity.assertAllowed).toHaveBeenCalledWith({
+      payer: user.address,
+      clientIp: '10.0.0.7',
+      paymentId: submitted.revokeId,
+    });
+    expect(gasBudget.assertGasPriceWithinCeiling).toHaveBeenCalled();
+    // (50000 * 1.2) * 2 gwei
+    expect(gasBudget.assertWithinBudget).toHaveBeenCalledWith(
+      user.address,
+      120_000_000_000_000n,
+      { paymentId: submitted.revokeId, chainId: 97 },
+    );
+
+    provider.estimateGas.mockRejectedValueOnce(new Error('execution reverted'));
+    await expect(
+      service.revoke(user.address, await signRevoke()),
+    ).rejects.toMatchObject({
+      response: { code: 'REDELEGATION_ESTIMATE_FAILED' },
+    });
+    expect(relayers.send).toHaveBeenCalledTimes(1);
+    expect(ledger.list({ kind: 'revoke', status: 'failed' })).toHaveLength(1);
+  });
+});
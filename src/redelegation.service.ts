@@ -0,0 +1,389 @@
+// redelegation.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ethers } from 'ethers';
+import { ChainService } from './chain.service';
+import { DelegationService, DelegationStatus } from './delegation.service';
+import { GasBudgetService } from './gas-budget.service';
+import {
+  PaymentKind,
+  PaymentLedgerService,
+  PaymentRecord,
+} from './payment-ledger.service';
+import { RelayerPoolService } from './relayer-pool.service';
+import { TxTrackerService } from './tx-tracker.service';
+import { VelocityService } from './velocity.service';
+
+export interface SignedAuthorization {
+  chainId: number | string;
+  address: string;
+  nonce: number | string;
+  signature: string | { serialized: string };
+}
+
+/**
+ * 위임 변경(해제 / 현재 버전으로 이전) 트랜잭션 스폰서.
+ * 사용자가 서명한 EIP-7702 authorization을 릴레이어가 type-4 트랜잭션으로 제출하고,
+ * 원장(kind=revoke|migrate)으로 상태를 추적한 뒤 계정 코드로 실제 반영 여부를 확인한다.
+ */
+@Injectable()
+export class RedelegationService {
+  private readonly logger = new Logger('RedelegationService');
+
+  constructor(
+    private readonly chain: ChainService,
+    private readonly delegation: DelegationService,
+    private readonly ledger: PaymentLedgerService,
+    private readonly relayers: RelayerPoolService,
+    private readonly txTracker: TxTrackerService,
+    private readonly gasBudget: GasBudgetService,
+    private readonly velocity: VelocityService,
+  ) {}
+
+  private assertAddress(address: string) {
+    if (!ethers.isAddress(address)) {
+      throw new BadRequestException({
+        code: 'INVALID_ADDRESS',
+        message: 'address invalid',
+      });
+    }
+  }
+
+  // 사용자가 서명할 authorization 필드 (nonce = 현재 EOA nonce, 생략 시 기본 체인)
+  private async prepare(
+    address: string,
+    target: (chainId: number) => string,
+    chainId?: number | string,
+  ) {
+    this.assertAddress(address);
+    const ctx = this.chain.get(chainId);
+    const current = await this.delegation.getDelegation(
+      address,
+      ctx.config.chainId,
+    );
+    const nonce = await ctx.provider.getTransactionCount(address, 'latest');
+    return {
+      delegation: current,
+      authorization: {
+        chainId: ctx.config.chainId,
+        address: target(ctx.config.chainId),
+        nonce,
+      },
+    };
+  }
+
+  prepareRevoke(address: string, chainId?: number | string) {
+    return this.prepare(address, () => ethers.ZeroAddress, chainId);
+  }
+
+  // 현재 버전 위임 컨트랙트로 재위임할 authorization
+  prepareMigration(address: string, chainId?: number | string) {
+    return this.prepare(address, (id) => this.currentDelegate(id), chainId);
+  }
+
+  private currentDelegate(chainId: number) {
+    const current = this.delegation.expectedDelegateOn(chainId);
+    if (!current) {
+      throw new ServiceUnavailableException({
+        code: 'DELEGATE_NOT_CONFIGURED',
+        message: '현재 위임 컨트랙트가 설정되지 않았습니다.',
+        chainId,
+      });
+    }
+    return current;
+  }
+
+  // authorization이 서명된 체인 (레지스트리에 없으면 UNSUPPORTED_CHAIN)
+  private chainOf(auth: SignedAuthorization) {
+    if (!auth || !this.signatureOf(auth)) {
+      throw new BadRequestException({
+        code: 'AUTHORIZATION_REQUIRED',
+        message: 'authorization missing',
+      });
+    }
+    return this.chain.get(Number(auth.chainId)).config.chainId;
+  }
+
+  private signatureOf(auth: SignedAuthorization) {
+    return typeof auth.signature === 'string'
+      ? auth.signature
+      : auth.signature?.serialized;
+  }
+
+  // authorization 서명자 / 대상 / nonce 검증 (체인은 chainOf에서 확인)
+  private async verifyAuthorization(
+    authority: string,
+    auth: SignedAuthorization,
+    target: string,
+  ) {
+    if (
+      !ethers.isAddress(auth.address) ||
+      ethers.getAddress(auth.address) !== ethers.getAddress(target)
+    ) {
+      throw new BadRequestException({
+        code: 'BAD_AUTHORIZATION_TARGET',
+        message: `authorization.address must be ${target}`,
+        got: auth.address,
+        expected: target,
+      });
+    }
+    const signer = ethers.verifyAuthorization(
+      {
+        address: auth.address,
+        nonce: BigInt(auth.nonce),
+        chainId: BigInt(auth.chainId),
+      },
+      this.signatureOf(auth),
+    );
+    if (signer.toLowerCase() !== authority.toLowerCase()) {
+      throw new BadRequestException({
+        code: 'BAD_AUTHORIZATION_SIGNER',
+        message: 'authorization signer mismatch',
+        recovered: signer,
+        authority,
+      });
+    }
+
+    const eoaNonce = await this.chain
+      .get(Number(auth.chainId))
+      .provider.getTransactionCount(authority, 'latest');
+    if (BigInt(auth.nonce) !== BigInt(eoaNonce)) {
+      throw new BadRequestException({
+        code: 'BAD_NONCE',
+        message: 'authorization nonce mismatch',
+        got: String(auth.nonce),
+        expected: String(eoaNonce),
+      });
+    }
+  }
+
+  /**
+   * authorization만 담은 type-4 트랜잭션 제출 (to = authority, data 없음).
+   * 결제 릴레이와 같은 스폰서 통제: 속도 제한(결제자 + IP), 가스 가격 상한,
+   * 계정(to = authority)별 가스비 예산. 가스 추정이 실패하면 제출하지 않음.
+   */
+  private async submit(
+    kind: PaymentKind,
+    authority: string,
+    auth: SignedAuthorization,
+    clientIp?: string,
+  ) {
+    const chainId = Number(auth.chainId);
+    const provider = this.chain.get(chainId).provider;
+    const record = this.ledger.create({
+      kind,
+      chainId,
+      authority,
+      from: authority,
+      to: authority,
+      clientIp,
+    });
+    try {
+      this.velocity.assertAllowed({
+        payer: authority,
+        clientIp,
+        paymentId: record.id,
+      });
+      await this.gasBudget.assertGasPriceWithinCeiling({
+        hold: true,
+        chainId,
+      });
+
+      const authList = [
+        {
+          chainId: Number(auth.chainId),
+          address: auth.address,
+          nonce: Number(auth.nonce),
+          signature: this.signatureOf(auth),
+        },
+      ];
+      const txReq: ethers.TransactionRequest = {
+        to: authority,
+        data: '0x',
+        type: 4,
+        authorizationList: authList,
+        customData: { authorizationList: authList },
+      };
+      let est: bigint;
+      try {
+        est = await provider.estimateGas(txReq);
+      } catch (e: any) {
+        this.logger.warn(
+          `[REDELEGATION] ${kind} 가스 추정 실패: ${authority} ${e?.shortMessage || e?.message || e}`,
+        );
+        throw new UnprocessableEntityException({
+          code: 'REDELEGATION_ESTIMATE_FAILED',
+          message: '위임 변경 트랜잭션의 가스 추정에 실패했습니다.',
+          reason: e?.shortMessage || e?.message || null,
+        });
+      }
+      txReq.gasLimit = (est * 120n) / 100n;
+
+      const fee = await provider.getFeeData();
+      const price = fee.maxFeePerGas ?? fee.gasPrice ?? 0n;
+      this.gasBudget.assertWithinBudget(
+        authority,
+        BigInt(txReq.gasLimit) * price,
+        { paymentId: record.id, chainId },
+      );
+
+      const { tx, relayer, nonce } = await this.relayers.send(txReq, {
+        chainId,
+      });
+      this.logger.log(
+        `[REDELEGATION] ${kind} 제출: ${authority} → ${auth.address} hash=${tx.hash}`,
+      );
+      return this.ledger.markSubmitted(record.id, tx.hash, {
+        address: relayer,
+        nonce,
+      })!;
+    } catch (e: any) {
+      this.ledger.markFailed(
+        record.id,
+        e?.shortMessage || e?.message || String(e),
+      );
+      throw e;
+    }
+  }
+
+  async revoke(
+    authority: string,
+    auth: SignedAuthorization,
+    clientIp?: string,
+  ) {
+    this.assertAddress(authority);
+    const chainId = this.chainOf(auth);
+    const current = await this.delegation.getDelegation(authority, chainId);
+    if (!current.delegated) {
+      throw new ConflictException({
+        code: 'NOT_DELEGATED',
+        message: '위임되어 있지 않은 계정입니다.',
+        address: current.address,
+      });
+    }
+    await this.verifyAuthorization(authority, auth, ethers.ZeroAddress);
+
+    const record = await this.submit('revoke', authority, auth, clientIp);
+    return {
+      revokeId: record.id,
+      status: record.status,
+      txHash: record.txHash,
+    };
+  }
+
+  // 이전 버전 위임을 현재 버전으로 재위임
+  async migrate(
+    authority: string,
+    auth: SignedAuthorization,
+    clientIp?: string,
+  ) {
+    this.assertAddress(authority);
+    const chainId = this.chainOf(auth);
+    const target = this.currentDelegate(chainId);
+    const current = await this.delegation.getDelegation(authority, chainId);
+    if (current.isExpectedDelegate) {
+      throw new ConflictException({
+        code: 'ALREADY_CURRENT',
+        message: '이미 현재 버전으로 위임되어 있습니다.',
+        address: current.address,
+        version: current.version,
+      });
+    }
+    await this.verifyAuthorization(authority, auth, target);
+
+    const record = await this.submit('migrate', authority, auth, clientIp);
+    this.logger.log(
+      `[REDELEGATION] 버전 이전: ${authority} ${current.version ?? current.delegate ?? '-'} → ${current.currentVersion}`,
+    );
+    return {
+      migrationId: record.id,
+      status: record.status,
+      txHash: record.txHash,
+      fromVersion: current.version,
+      toVersion: current.currentVersion,
+    };
+  }
+
+  /**
+   * 위임 변경 상태 확인.
+   * 트랜잭션이 성공해도 authorization이 무시될 수 있으므로(nonce 불일치 등)
+   * 계정 코드가 실제로 바뀌었는지 함께 확인한다.
+   */
+  private async getChangeStatus(id: string, kind: 'revoke' | 'migrate') {
+    let record: PaymentRecord = this.ledger.getById(id);
+    if (record.kind !== kind) {
+      throw new BadRequestException({
+        code: kind === 'revoke' ? 'NOT_A_REVOKE' : 'NOT_A_MIGRATION',
+        message:
+          kind === 'revoke'
+            ? '위임 해제 요청이 아닙니다.'
+            : '위임 버전 이전 요청이 아닙니다.',
+      });
+    }
+    if (record.status === 'submitted' || record.status === 'pending') {
+      record = await this.txTracker.check(record);
+    }
+
+    let delegation: DelegationStatus | null = null;
+    let applied: boolean | null = null;
+    if (record.status === 'confirmed') {
+      delegation = await this.delegation.getDelegation(
+        record.authority!,
+        record.chainId ?? undefined,
+      );
+      applied =
+        kind === 'revoke'
+          ? !delegation.delegated
+          : delegation.isExpectedDelegate;
+      if (!applied) {
+        this.logger.warn(
+          `[REDELEGATION] 트랜잭션은 성공했지만 위임이 바뀌지 않음: ${record.authority} → ${delegation.delegate}`,
+        );
+      }
+    }
+    return { record, delegation, applied };
+  }
+
+  async getRevokeStatus(id: string) {
+    const { record, delegation, applied } = await this.getChangeStatus(
+      id,
+      'revoke',
+    );
+    return {
+      revokeId: record.id,
+      authority: record.authority,
+      status: record.status,
+      txHash: record.txHash,
+      blockNumber: record.blockNumber,
+      codeCleared: applied,
+      // confirmed인데 코드가 남아 있으면 authorization이 적용되지 않은 것
+      revoked: applied === true,
+      delegation,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  async getMigrationStatus(id: string) {
+    const { record, delegation, applied } = await this.getChangeStatus(
+      id,
+      'migrate',
+    );
+    return {
+      migrationId: record.id,
+      authority: record.authority,
+      status: record.status,
+      txHash: record.txHash,
+      blockNumber: record.blockNumber,
+      migrated: applied === true,
+      version: delegation?.version ?? null,
+      delegation,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,218 @@
+import { AppService, confirmedReceipt } from './app.service';
+import { ChainService } from './chain.service';
+import { DatabaseService } from './database.service';
+import { DelegateRegistryService } from './delegate-registry.service';
+import { DelegationService } from './delegation.service';
+import { MerchantService } from './merchant.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { RefundInput, RefundService } from './refund.service';
+import { TokenRegistryService } from './token-registry.service';
+
+describe('RefundService', () => {
+  const SHOP = '0x2222222222222222222222222222222222222222';
+  const OTHER = '0x4444444444444444444444444444444444444444';
+  const PAYER = '0x1111111111111111111111111111111111111111';
+  const TOKEN = '0x3333333333333333333333333333333333333333';
+
+  let database: DatabaseService;
+  let merchants: MerchantService;
+  let ledger: PaymentLedgerService;
+  let refunds: RefundService;
+  let relayed: 'ok' | 'reverted';
+
+  // 실제 payment()처럼 원장 기록 후 릴레이 결과 반영
+  const appService = {
+    payment: jest.fn((body: any, meta: any) => {
+      const record = ledger.create({
+        kind: meta.kind,
+        authority: body.authority,
+        from: body.transfer.from,
+        token: body.transfer.token,
+        to: body.transfer.to,
+        amount: body.transfer.amount,
+        chainId: Number(body.domain.chainId),
+        refundOf: meta.refundOf,
+      });
+      const txHash = '0x' + 'ef'.repeat(32);
+      ledger.markSubmitted(record.id, txHash);
+      if (relayed === 'ok') ledger.markConfirmed(record.id, 7);
+      else ledger.markReverted(record.id, 'boom', 7);
+      return Promise.resolve({
+        status: relayed,
+        txHash,
+        paymentId: record.id,
+      });
+    }),
+    printReceipt: jest.fn().mockResolvedValue({ status: 'success' }),
+    getNextNonce: jest.fn().mockResolvedValue({ nextNonce: '5' }),
+  };
+  const delegation = {
+    getDelegation: jest.fn().mockResolvedValue({
+      supported: true,
+      delegate: OTHER,
+    }),
+  };
+  const delegates = {
+    findByAddress: () => ({
+      version: 'v1',
+      domain: { name: 'DelegatedTransfer', version: '1' },
+    }),
+  };
+
+  beforeEach(() => {
+    process.env.DB_PATH = ':memory:';
+    jest.clearAllMocks();
+    relayed = 'ok';
+    database = new DatabaseService();
+    merchants = new MerchantService(database);
+    ledger = new PaymentLedgerService(database);
+    refunds = new RefundService(
+      ledger,
+      appService as unknown as AppService,
+      merchants,
+      {
+        normalize: (token: string, amount: string) => ({
+          token: { address: token },
+          amount: BigInt(amount),
+        }),
+      } as unknown as TokenRegistryService,
+      { chainId: 97 } as unknown as ChainService,
+      delegation as unknown as DelegationService,
+      delegates as unknown as DelegateRegistryService,
+    );
+  });
+
+  afterEach(() => database.onModuleDestroy());
+
+  const code = (code: string) =>
+    expect.objectContaining({
+      response: expect.objectContaining({ code }),
+    });
+
+  function sale(chainId = 97) {
+    const payment = ledger.create({
+      kind: 'signed',
+      authority: PAYER,
+      from: PAYER,
+      token: TOKEN,
+      to: SHOP,
+      amount: '1000',
+      chainId,
+      productName: '라떼',
+    });
+    ledger.markSubmitted(payment.id, '0x' + 'ab'.repeat(32));
+    return ledger.markConfirmed(payment.id, 1)!;
+  }
+
+  const signed = (amount: string, to = PAYER): RefundInput => ({
+    authority: SHOP,
+    transfer: { from: SHOP, token: TOKEN, to, amount, nonce: '0' },
+    domain: { chainId: 97 },
+    types: {},
+    signature712: '0x',
+  });
+
+  it('relays partial refunds up to the original amount', async () => {
+    const cafe = merchants.create({ name: '카페', payoutAddresses: [SHOP] });
+    const payment = sale();
+
+    const first = await refunds.refund(cafe, payment.id, signed('400'));
+    expect(first).toMatchObject({
+      status: 'ok',
+      refund: { kind: 'refund', refundOf: payment.id, status: 'confirmed' },
+      refundableAmount: '600',
+    });
+    expect(appService.payment).toHaveBeenCalledWith(
+      expect.objectContaining({ authority: SHOP }),
+      expect.objectContaining({ kind: 'refund', refundOf: payment.id }),
+    );
+    // 환불 영수증은 확정을 반영한 쪽에서 원장 기록으로 인쇄 (가맹점 → 결제자)
+    expect(appService.printReceipt).not.toHaveBeenCalled();
+    expect(confirmedReceipt(first.refund, payment.txHash)).toEqual(
+      expect.objectContaining({
+        kind: 'refund',
+        refundOf: payment.id,
+        from: SHOP.toLowerCase(),
+        to: PAYER.toLowerCase(),
+        amount: '400',
+        originalTxHash: '0x' + 'ab'.repeat(32),
+      }),
+    );
+
+    await expect(
+      refunds.refund(cafe, payment.id, signed('601')),
+    ).rejects.toEqual(code('REFUND_EXCEEDS_PAYMENT'));
+    await expect(
+      refunds.refund(cafe, payment.id, signed('100', OTHER)),
+    ).rejects.toEqual(code('REFUND_MISMATCH'));
+
+    // 리버트된 환불은 한도에서 제외
+    relayed = 'reverted';
+    await refunds.refund(cafe, payment.id, signed('600'));
+    relayed = 'ok';
+    await refunds.refund(cafe, payment.id, signed('600'));
+    expect(refunds.summary(cafe, payment.id)).toMatchObject({
+      refundedAmount: '1000',
+      refundableAmount: '0',
+      refunds: [
+        expect.objectContaining({ amount: '400' }),
+        expect.objectContaining({ status: 'reverted' }),
+        expect.objectContaining({ amount: '600', status: 'confirmed' }),
+      ],
+    });
+    await expect(refunds.refund(cafe, payment.id, signed('1'))).rejects.toEqual(
+      code('REFUND_EXCEEDS_PAYMENT'),
+    );
+
+    // 가맹점 결제 목록에 환불도 포함
+    expect(
+      ledger.list({ recipients: cafe.payoutAddresses }).map((p) => p.kind),
+    ).toEqual(expect.arrayContaining(['signed', 'refund']));
+  });
+
+  it("rejects refunds of another merchant's or unsettled payments", async () => {
+    const cafe = merchants.create({ name: '카페', payoutAddresses: [SHOP] });
+    const other = merchants.create({
+      name: '옆 가게',
+      payoutAddresses: [OTHER],
+    });
+    const payment = sale();
+
+    await expect(
+      refunds.refund(other, payment.id, signed('100')),
+    ).rejects.toEqual(code('PAYMENT_NOT_FOUND'));
+
+    const unsettled = ledger.create({
+      kind: 'signed',
+      from: PAYER,
+      token: TOKEN,
+      to: SHOP,
+      amount: '500',
+    });
+    await expect(
+      refunds.refund(cafe, unsettled.id, signed('100')),
+    ).rejects.toEqual(code('PAYMENT_NOT_REFUNDABLE'));
+    expect(appService.payment).not.toHaveBeenCalled();
+  });
+
+  it('prepares the refund with the nonce of the payment chain', async () => {
+    const cafe = merchants.create({ name: '카페', payoutAddresses: [SHOP] });
+    const payment = sale(80002);
+
+    const prepared = await refunds.prepare(cafe, payment.id, '400');
+
+    expect(delegation.getDelegation).toHaveBeenCalledWith(SHOP, 80002);
+    expect(appService.getNextNonce).toHaveBeenCalledWith(
+      SHOP,
+      undefined,
+      80002,
+    );
+    expect(prepared).toMatchObject({
+      chainId: 80002,
+      authority: SHOP,
+      transfer: { from: SHOP, to: PAYER, amount: '400', nonce: '5' },
+      domain: { name: 'DelegatedTransfer', version: '1', chainId: 80002 },
+      needsAuthorization: false,
+    });
+  });
+});
@@ -0,0 +1,272 @@
+// refund.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { AppService } from './app.service';
+import { ChainService } from './chain.service';
+import { DelegateRegistryService } from './delegate-registry.service';
+import { DelegationService } from './delegation.service';
+import { Merchant, MerchantService } from './merchant.service';
+import { PaymentLedgerService, PaymentRecord } from './payment-ledger.service';
+import { TokenRegistryService } from './token-registry.service';
+
+// 가맹점이 서명한 환불 송금 (결제와 같은 EIP-712 Transfer + 선택적 EIP-7702 authorization)
+export interface RefundInput {
+  authority: string;
+  transfer: {
+    from: string;
+    token: string;
+    to: string;
+    amount: string;
+    nonce: string;
+    deadline?: string;
+  };
+  domain: Record<string, any>;
+  types: Record<string, any>;
+  signature712: string;
+  authorization?: any;
+  reason?: string;
+}
+
+/**
+ * 가맹점 환불.
+ * 확정된 결제를 받은 가맹점이 원 결제자에게 보내는 송금을 서명하면, 결제와 같은 위임 경로로 릴레이하고
+ * 원장에 원 결제와 연결(refund_of)해 기록한다. 부분 환불 가능, 합계는 원 결제 금액까지.
+ * 진행 중인 환불도 한도에 포함하므로 동시에 요청해도 원 결제 금액을 넘지 않는다.
+ */
+@Injectable()
+export class RefundService {
+  private readonly logger = new Logger('RefundService');
+
+  constructor(
+    private readonly ledger: PaymentLedgerService,
+    private readonly appService: AppService,
+    private readonly merchants: MerchantService,
+    private readonly tokens: TokenRegistryService,
+    private readonly chain: ChainService,
+    private readonly delegation: DelegationService,
+    private readonly delegates: DelegateRegistryService,
+  ) {}
+
+  private payerOf(payment: PaymentRecord) {
+    return payment.fromAddress ?? payment.authority;
+  }
+
+  // 가맹점이 받은 결제 (다른 가맹점 결제는 404)
+  private ownedPayment(merchant: Merchant, paymentId: string): PaymentRecord {
+    const payment = this.ledger.findById(paymentId);
+    if (
+      !payment ||
+      payment.kind === 'refund' ||
+      !this.merchants.ownsAddress(merchant, payment.toAddress)
+    ) {
+      throw new NotFoundException({
+        code: 'PAYMENT_NOT_FOUND',
+        message: `환불할 결제를 찾을 수 없습니다: ${paymentId}`,
+      });
+    }
+    return payment;
+  }
+
+  // 환불 가능 금액 (원 결제 금액 - 환불했거나 진행 중인 금액)
+  refundable(payment: PaymentRecord): bigint {
+    const remaining =
+      BigInt(payment.amount ?? '0') - this.ledger.refundedAmount(payment.id);
+    return remaining > 0n ? remaining : 0n;
+  }
+
+  private assertRefundable(payment: PaymentRecord) {
+    if (payment.status !== 'confirmed') {
+      throw new ConflictException({
+        code: 'PAYMENT_NOT_REFUNDABLE',
+        message: `확정된 결제만 환불할 수 있습니다 (현재 ${payment.status}).`,
+        status: payment.status,
+      });
+    }
+    if (!payment.token || !payment.toAddress || !this.payerOf(payment)) {
+      throw new ConflictException({
+        code: 'PAYMENT_NOT_REFUNDABLE',
+        message: '토큰 / 결제자 정보가 없는 결제는 환불할 수 없습니다.',
+      });
+    }
+  }
+
+  // 환불 현황: 원 결제, 연결된 환불, 남은 환불 가능 금액
+  summary(merchant: Merchant, paymentId: string) {
+    const payment = this.ownedPayment(merchant, paymentId);
+    return {
+      payment,
+      refunds: this.ledger.findRefunds(payment.id),
+      refundedAmount: this.ledger.refundedAmount(payment.id).toString(),
+      refundableAmount: this.refundable(payment).toString(),
+    };
+  }
+
+  /**
+   * 가맹점이 서명할 환불 transfer 준비 (금액 생략 시 남은 전액).
+   * nonce는 위임이 있으면 컨트랙트 nonce, 없으면 EOA nonce (authorization 함께 서명 필요).
+   */
+  async prepare(
+    merchant: Merchant,
+    paymentId: string,
+    amount?: string | number | null,
+  ) {
+    const payment = this.ownedPayment(merchant, paymentId);
+    this.assertRefundable(payment);
+    const chainId = payment.chainId ?? this.chain.chainId;
+    const value = this.resolveAmount(payment, amount, chainId);
+
+    const authority = payment.toAddress!;
+    const delegation = await this.delegation.getDelegation(authority, chainId);
+    const version = delegation.supported
+      ? this.delegates.findByAddress(delegation.delegate, chainId)
+      : this.delegates.current();
+    const nonce = delegation.supported
+      ? (await this.appService.getNextNonce(authority, undefined, chainId))
+          .nextNonce
+      : String(
+          await this.chain
+            .get(chainId)
+            .provider.getTransactionCount(authority, 'latest'),
+        );
+
+    return {
+      paymentId: payment.id,
+      chainId,
+      authority,
+      transfer: {
+        from: authority,
+        token: payment.token,
+        to: this.payerOf(payment),
+        amount: value.toString(),
+        nonce,
+        deadline: String(Math.floor(Date.now() / 1000) + 300),
+      },
+      domain: version ? { ...version.domain, chainId } : null,
+      delegateVersion: version?.version ?? null,
+      needsAuthorization: !delegation.supported,
+      refundableAmount: this.refundable(payment).toString(),
+    };
+  }
+
+  // 요청 금액을 기본 단위로 환산해 환불 가능 금액 이내인지 확인
+  private resolveAmount(
+    payment: PaymentRecord,
+    amount: string | number | null | undefined,
+    chainId: number,
+  ): bigint {
+    const refundable = this.refundable(payment);
+    const value =
+      amount == null || amount === ''
+        ? refundable
+        : this.tokens.normalize(payment.token, amount, chainId).amount;
+    if (value <= 0n || value > refundable) {
+      throw new BadRequestException({
+        code: 'REFUND_EXCEEDS_PAYMENT',
+        message:
+          refundable === 0n
+            ? '이미 전액 환불된 결제입니다.'
+            : `환불 금액은 0보다 크고 환불 가능 금액(${refundable}) 이하여야 합니다.`,
+        requested: value.toString(),
+        refundableAmount: refundable.toString(),
+      });
+    }
+    return value;
+  }
+
+  private mismatch(field: string, expected: string | null, got: unknown) {
+    this.logger.warn(
+      `[REFUND] 환불 transfer 불일치: ${field} expected=${expected} got=${String(got)}`,
+    );
+    return new BadRequestException({
+      code: 'REFUND_MISMATCH',
+      message: `환불 transfer의 ${field}가 원 결제와 맞지 않습니다.`,
+      field,
+      expected,
+    });
+  }
+
+  private sameAddress(a: unknown, b: string | null) {
+    return typeof a === 'string' && !!b && a.toLowerCase() === b.toLowerCase();
+  }
+
+  // 서명된 환불 릴레이 → 원장 기록 (refund_of) → 확정 시 환불 영수증 인쇄
+  async refund(
+    merchant: Merchant,
+    paymentId: string,
+    body: RefundInput,
+    clientIp?: string,
+  ) {
+    const payment = this.ownedPayment(merchant, paymentId);
+    this.assertRefundable(payment);
+    const transfer = body?.transfer;
+    if (!transfer) {
+      throw new BadRequestException({
+        code: 'INVALID_REFUND',
+        message: '서명된 환불 transfer가 필요합니다.',
+      });
+    }
+
+    // 원 결제를 받은 주소에서 원 결제자에게, 같은 체인 / 토큰으로만 환불
+    const chainId = payment.chainId ?? this.chain.chainId;
+    const payer = this.payerOf(payment);
+    if (Number(body.domain?.chainId) !== chainId) {
+      throw this.mismatch('chainId', String(chainId), body.domain?.chainId);
+    }
+    if (
+      !this.sameAddress(body.authority, payment.toAddress) ||
+      !this.sameAddress(transfer.from, payment.toAddress)
+    ) {
+      throw this.mismatch('from', payment.toAddress, transfer.from);
+    }
+    if (!this.sameAddress(transfer.to, payer)) {
+      throw this.mismatch('to', payer, transfer.to);
+    }
+    const { token, amount } = this.tokens.normalize(
+      transfer.token,
+      transfer.amount,
+      chainId,
+    );
+    if (!this.sameAddress(token.address, payment.token)) {
+      throw this.mismatch('token', payment.token, transfer.token);
+    }
+    this.resolveAmount(payment, amount.toString(), chainId);
+
+    this.logger.log(
+      `[REFUND] 환불 요청: payment=${payment.id} amount=${amount} → ${payer}` +
+        (body.reason ? ` (${body.reason})` : ''),
+    );
+    // 한도 확인과 원장 기록 사이에 await가 없어 동시 요청도 한도를 넘지 않음
+    const result = await this.appService.payment(
+      {
+        authority: body.authority,
+        transfer: {
+          ...transfer,
+          token: token.address,
+          amount: amount.toString(),
+        },
+        domain: body.domain,
+        types: body.types,
+        signature712: body.signature712,
+        authorization: body.authorization,
+      },
+      {
+        kind: 'refund',
+        refundOf: payment.id,
+        productName: `환불: ${payment.productName ?? '결제'}`,
+        clientIp,
+      },
+    );
+
+    // 환불 영수증은 확정을 반영한 쪽(릴레이 응답 대기 또는 TxTracker)에서 인쇄
+    return {
+      ...result,
+      refund: this.ledger.getById(result.paymentId),
+      refundableAmount: this.refundable(payment).toString(),
+    };
+  }
+}
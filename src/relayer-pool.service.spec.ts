@@ -0,0 +1,71 @@
+import { ethers } from 'ethers';
+import { ChainService } from './chain.service';
+import { RelayerPoolService } from './relayer-pool.service';
+
+describe('RelayerPoolService', () => {
+  const KEYS = ['0x' + '11'.repeat(32), '0x' + '22'.repeat(32)];
+  let chainNonce: Record<string, number>;
+  let pool: RelayerPoolService;
+  let sendSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    process.env.SPONSOR_PKS = KEYS.join(',');
+    chainNonce = {};
+    const provider = {
+      getTransactionCount: jest.fn((addr: string) =>
+        Promise.resolve(chainNonce[addr] ?? 0),
+      ),
+    };
+    const ctx = { provider, config: { chainId: 97 } };
+    pool = new RelayerPoolService({
+      chainId: 97,
+      provider,
+      list: () => [ctx],
+      get: () => ctx,
+      has: () => true,
+    } as unknown as ChainService);
+
+    sendSpy = jest
+      .spyOn(ethers.Wallet.prototype, 'sendTransaction')
+      .mockImplementation(function (this: ethers.Wallet, tx) {
+        return Promise.resolve({
+          hash: `${this.address}:${tx.nonce}`,
+          nonce: tx.nonce,
+        } as unknown as ethers.TransactionResponse);
+      });
+  });
+
+  afterEach(() => {
+    sendSpy.mockRestore();
+    delete process.env.SPONSOR_PKS;
+  });
+
+  it('spreads concurrent sends across wallets with sequential nonces', async () => {
+    const results = await Promise.all(
+      Array.from({ length: 4 }, () => pool.send({ to: ethers.ZeroAddress })),
+    );
+
+    const byRelayer: Record<string, number[]> = {};
+    for (const r of results) {
+      (byRelayer[r.relayer] ??= []).push(r.nonce);
+    }
+    expect(Object.keys(byRelayer)).toHaveLength(2);
+    for (const nonces of Object.values(byRelayer)) {
+      expect(nonces.sort()).toEqual([0, 1]);
+    }
+  });
+
+  it('resyncs with the chain and retries once on a nonce error', async () => {
+    const [first] = pool.addresses;
+    chainNonce[first] = 7;
+    sendSpy.mockImplementationOnce(() =>
+      Promise.reject(new Error('nonce too low')),
+    );
+
+    const result = await pool.send({ to: ethers.ZeroAddress });
+
+    expect(result.relayer).toBe(first);
+    expect(result.nonce).toBe(7);
+    expect(sendSpy).toHaveBeenCalledTimes(2);
+  });
+});
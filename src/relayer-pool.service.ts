@@ -0,0 +1,540 @@
+// relayer-pool.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ethers } from 'ethers';
+import { ChainService } from './chain.service';
+
+// 미채굴 릴레이 트랜잭션 (가속/취소 대상)
+interface OutstandingTx {
+  hash: string;
+  request: ethers.TransactionRequest;
+  sentAt: number;
+  bumps: number;
+  cancelled: boolean;
+}
+
+// 스폰서 지갑 1개(체인별) = 로컬 nonce + 직렬 전송 큐
+interface RelayerSlot {
+  chainId: number;
+  wallet: ethers.Wallet;
+  nextNonce: number | null;
+  queue: Promise<unknown>;
+  inFlight: number;
+  outstanding: Map<number, OutstandingTx>;
+}
+
+export interface RelayedTx {
+  tx: ethers.TransactionResponse;
+  relayer: string;
+  nonce: number;
+  chainId: number;
+}
+
+// 같은 nonce로 트랜잭션을 교체했을 때 알림 (원장이 새 해시를 따라가도록)
+export interface ReplacementEvent {
+  chainId: number;
+  relayer: string;
+  nonce: number;
+  oldHash: string;
+  newHash: string;
+  reason: 'speed_up' | 'cancel';
+}
+
+type FeeFields = Pick<
+  ethers.TransactionRequest,
+  'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'
+>;
+
+// nonce 충돌로 판단되는 RPC 에러 메시지
+const NONCE_ERRORS = [
+  'nonce too low',
+  'nonce too high',
+  'nonce has already been used',
+  'replacement transaction underpriced',
+  'replacement underpriced',
+  'already known',
+];
+
+// 여러 스폰서 지갑에 릴레이 트랜잭션을 분산하고 지갑별 nonce를 직렬로 관리
+@Injectable()
+export class RelayerPoolService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger('RelayerPoolService');
+
+  private readonly resyncMs =
+    Number(process.env.RELAYER_NONCE_RESYNC_MS) || 60_000;
+  // 이 시간 이상 미채굴이면 자동 가속 (replace-by-fee)
+  private readonly stuckAfterMs =
+    Number(process.env.RELAYER_STUCK_AFTER_MS) || 3 * 60_000;
+  // 교체 시 수수료 인상률 (노드 최소 요구치 10%)
+  private readonly bumpPercent = BigInt(
+    Math.max(Number(process.env.RELAYER_FEE_BUMP_PERCENT) || 20, 10),
+  );
+  // 교체 트랜잭션 maxFee / gasPrice 상한
+  private readonly maxFeeCeiling = ethers.parseUnits(
+    process.env.RELAYER_MAX_FEE_GWEI || '50',
+    'gwei',
+  );
+
+  private slots: RelayerSlot[] = [];
+  // 체인별 라운드로빈 위치
+  private cursors = new Map<number, number>();
+  private timer: NodeJS.Timeout | null = null;
+  private rbfTimer: NodeJS.Timeout | null = null;
+  private replacementListeners: Array<(e: ReplacementEvent) => void> = [];
+
+  constructor(private readonly chain: ChainService) {
+    for (const { config } of this.chain.list()) {
+      // 체인 설정의 relayerKeysEnv 우선, 없으면 SPONSOR_PKS(콤마 구분) → 단일 SPONSOR_PK
+      const keys = (
+        (config.relayerKeysEnv && process.env[config.relayerKeysEnv]) ||
+        process.env.SPONSOR_PKS ||
+        process.env.SPONSOR_PK ||
+        ''
+      )
+        .split(',')
+        .map((k) => k.trim())
+        .filter(Boolean);
+      if (keys.length === 0) {
+        throw new Error(`SPONSOR_PK missing (chain ${config.chainId})`);
+      }
+
+      for (const k of keys) {
+        this.slots.push({
+          chainId: config.chainId,
+          wallet: new ethers.Wallet(k),
+          nextNonce: null,
+          queue: Promise.resolve(),
+          inFlight: 0,
+          outstanding: new Map(),
+        });
+      }
+    }
+  }
+
+  // 지갑은 체인과 분리해 두고 사용할 때 현재 provider에 연결 (RPC 교체 대응)
+  private providerOf(slot: RelayerSlot) {
+    return this.chain.get(slot.chainId).provider;
+  }
+
+  private signerOf(slot: RelayerSlot) {
+    return slot.wallet.connect(this.providerOf(slot));
+  }
+
+  async onModuleInit() {
+    for (const slot of this.slots) {
+      if (!this.chain.has(slot.chainId)) continue;
+      await this.resync(slot);
+      const bal = await this.providerOf(slot).getBalance(slot.wallet.address);
+      const symbol = this.chain.get(slot.chainId).config.nativeSymbol ?? 'BNB';
+      this.logger.log(
+        `[RELAYER] chain=${slot.chainId} ${slot.wallet.address} balance=${ethers.formatEther(bal)} ${symbol} nonce=${slot.nextNonce}`,
+      );
+    }
+    this.timer = setInterval(() => void this.checkDrift(), this.resyncMs);
+    this.rbfTimer = setInterval(
+      () => void this.checkStuck(),
+      Math.max(this.stuckAfterMs / 4, 5_000),
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+    if (this.rbfTimer) clearInterval(this.rbfTimer);
+    this.timer = null;
+    this.rbfTimer = null;
+  }
+
+  onReplaced(listener: (e: ReplacementEvent) => void) {
+    this.replacementListeners.push(listener);
+  }
+
+  get addresses(): string[] {
+    return [...new Set(this.slots.map((s) => s.wallet.address))];
+  }
+
+  private slotsOf(chainId: number) {
+    const slots = this.slots.filter((s) => s.chainId === chainId);
+    if (slots.length === 0) {
+      throw new NotFoundException(`체인 ${chainId}에 릴레이어가 없습니다.`);
+    }
+    return slots;
+  }
+
+  // revert 사유 재현 등 from 주소가 필요한 경우 사용
+  get primaryAddress(): string {
+    return this.primaryAddressOf(this.chain.chainId);
+  }
+
+  primaryAddressOf(chainId: number): string {
+    return this.slotsOf(chainId)[0].wallet.address;
+  }
+
+  // chainId를 주면 해당 체인의 릴레이어인지 확인
+  isRelayer(address?: string | null, chainId?: number) {
+    return (
+      !!address &&
+      this.slots.some(
+        (s) =>
+          (chainId === undefined || s.chainId === chainId) &&
+          s.wallet.address.toLowerCase() === address.toLowerCase(),
+      )
+    );
+  }
+
+  // 처리 중인 요청이 가장 적은 지갑 선택 (동률이면 라운드로빈)
+  private pick(chainId: number): RelayerSlot {
+    const slots = this.slotsOf(chainId);
+    const cursor = this.cursors.get(chainId) ?? 0;
+    let best: RelayerSlot | null = null;
+    for (let i = 0; i < slots.length; i++) {
+      const slot = slots[(cursor + i) % slots.length];
+      if (!best || slot.inFlight < best.inFlight) best = slot;
+    }
+    this.cursors.set(chainId, (cursor + 1) % slots.length);
+    return best!;
+  }
+
+  private isNonceError(e: any) {
+    const msg = String(
+      e?.info?.error?.message || e?.shortMessage || e?.message || '',
+    ).toLowerCase();
+    return (
+      e?.code === 'NONCE_EXPIRED' || NONCE_ERRORS.some((m) => msg.includes(m))
+    );
+  }
+
+  // 체인의 pending nonce로 로컬 nonce 재동기화
+  private async resync(slot: RelayerSlot) {
+    const chainNonce = await this.providerOf(slot).getTransactionCount(
+      slot.wallet.address,
+      'pending',
+    );
+    if (slot.nextNonce !== null && slot.nextNonce !== chainNonce) {
+      this.logger.warn(
+        `[RELAYER_NONCE] ${slot.wallet.address} drift local=${slot.nextNonce} chain=${chainNonce} → 재동기화`,
+      );
+    }
+    slot.nextNonce = chainNonce;
+  }
+
+  // 유휴 지갑만 주기적으로 drift 점검 (전송 중인 지갑은 로컬 값이 앞설 수 있음)
+  private async checkDrift() {
+    for (const slot of this.slots) {
+      if (slot.inFlight > 0) continue;
+      try {
+        await this.resync(slot);
+      } catch (e: any) {
+        this.logger.warn(
+          `[RELAYER_NONCE] ${slot.wallet.address} 동기화 실패: ${e?.message || e}`,
+        );
+      }
+    }
+  }
+
+  // 지갑별 큐에서 직렬 실행
+  private enqueue<T>(slot: RelayerSlot, task: () => Promise<T>): Promise<T> {
+    slot.inFlight++;
+    const result = slot.queue.then(task, task);
+    slot.queue = result.catch(() => undefined);
+    return result.finally(() => {
+      slot.inFlight--;
+    });
+  }
+
+  // 지갑별 큐에 넣어 nonce 순서대로 전송 (from을 주면 그 지갑으로 고정, chainId 기본은 기본 체인)
+  send(
+    txReq: ethers.TransactionRequest,
+    opts: { from?: string; chainId?: number } = {},
+  ): Promise<RelayedTx> {
+    const chainId = opts.chainId ?? this.chain.chainId;
+    const slot = opts.from
+      ? this.slotOf(opts.from, chainId)
+      : this.pick(chainId);
+
+    return this.enqueue(slot, async (): Promise<RelayedTx> => {
+      if (slot.nextNonce === null) await this.resync(slot);
+
+      for (let attempt = 0; ; attempt++) {
+        const nonce = slot.nextNonce!;
+        try {
+          const tx = await this.signerOf(slot).sendTransaction({
+            ...txReq,
+            nonce,
+          });
+          slot.nextNonce = nonce + 1;
+          slot.outstanding.set(nonce, {
+            hash: tx.hash,
+            request: { ...txReq, nonce, ...this.feesOf(tx) },
+            sentAt: Date.now(),
+            bumps: 0,
+            cancelled: false,
+          });
+          this.logger.debug(
+            `[RELAYER_SEND] ${slot.wallet.address} nonce=${nonce} hash=${tx.hash}`,
+          );
+          return { tx, relayer: slot.wallet.address, nonce, chainId };
+        } catch (e: any) {
+          // 전송 실패 시 브로드캐스트 여부가 불확실하므로 항상 체인과 재동기화
+          await this.resync(slot).catch(() => undefined);
+          if (attempt === 0 && this.isNonceError(e)) {
+            this.logger.warn(
+              `[RELAYER_SEND] nonce 충돌, 재시도: ${e?.shortMessage || e?.message}`,
+            );
+            continue;
+          }
+          throw e;
+        }
+      }
+    });
+  }
+
+  private feesOf(tx: ethers.TransactionLike): FeeFields {
+    return tx.maxFeePerGas != null
+      ? {
+          maxFeePerGas: tx.maxFeePerGas,
+          maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+        }
+      : { gasPrice: tx.gasPrice };
+  }
+
+  private slotOf(address: string, chainId = this.chain.chainId): RelayerSlot {
+    const slot = this.slots.find(
+      (s) =>
+        s.chainId === chainId &&
+        s.wallet.address.toLowerCase() === address.toLowerCase(),
+    );
+    if (!slot)
+      throw new NotFoundException(`등록된 릴레이어가 아닙니다: ${address}`);
+    return slot;
+  }
+
+  // 이전 수수료 대비 bumpPercent 인상, 현재 시세보다 낮지 않게, 상한 적용
+  private async bumpFees(
+    provider: ethers.Provider,
+    prev: FeeFields,
+  ): Promise<FeeFields> {
+    const up = (v: bigint) => (v * (100n + this.bumpPercent)) / 100n;
+    const minUp = (v: bigint) => (v * 110n) / 100n;
+    const fee = await provider.getFeeData();
+
+    if (prev.maxFeePerGas != null) {
+      const prevTip = BigInt(prev.maxPriorityFeePerGas ?? 0);
+      const prevMax = BigInt(prev.maxFeePerGas);
+      const latest = await provider.getBlock('latest');
+
+      let tip = up(prevTip);
+      if (fee.maxPriorityFeePerGas && fee.maxPriorityFeePerGas > tip) {
+        tip = fee.maxPriorityFeePerGas;
+      }
+      let maxFee = up(prevMax);
+      const market = (latest?.baseFeePerGas ?? 0n) * 2n + tip;
+      if (market > maxFee) maxFee = market;
+      if (maxFee > this.maxFeeCeiling) maxFee = this.maxFeeCeiling;
+      if (tip > maxFee) tip = maxFee;
+
+      if (maxFee < minUp(prevMax) || tip < minUp(prevTip)) {
+        throw new BadRequestException({
+          code: 'FEE_CEILING_REACHED',
+          message: `수수료 상한(${ethers.formatUnits(this.maxFeeCeiling, 'gwei')} gwei)에 도달하여 교체할 수 없습니다.`,
+        });
+      }
+      return { maxFeePerGas: maxFee, maxPriorityFeePerGas: tip };
+    }
+
+    const prevPrice = BigInt(prev.gasPrice ?? 0);
+    let gasPrice = up(prevPrice);
+    if (fee.gasPrice && fee.gasPrice > gasPrice) gasPrice = fee.gasPrice;
+    if (gasPrice > this.maxFeeCeiling) gasPrice = this.maxFeeCeiling;
+    if (gasPrice < minUp(prevPrice)) {
+      throw new BadRequestException({
+        code: 'FEE_CEILING_REACHED',
+        message: `수수료 상한(${ethers.formatUnits(this.maxFeeCeiling, 'gwei')} gwei)에 도달하여 교체할 수 없습니다.`,
+      });
+    }
+    return { gasPrice };
+  }
+
+  // 재시작 등으로 메모리에 없는 트랜잭션은 체인에서 복원
+  private async loadOutstanding(
+    slot: RelayerSlot,
+    nonce: number,
+    knownHash?: string,
+  ): Promise<OutstandingTx> {
+    const cached = slot.outstanding.get(nonce);
+    if (cached) return cached;
+    if (!knownHash) {
+      throw new NotFoundException(
+        `추적 중인 트랜잭션이 없습니다: ${slot.wallet.address} nonce=${nonce}`,
+      );
+    }
+
+    const tx = await this.providerOf(slot).getTransaction(knownHash);
+    if (!tx || tx.nonce !== nonce) {
+      throw new NotFoundException(`트랜잭션을 찾을 수 없습니다: ${knownHash}`);
+    }
+    const entry: OutstandingTx = {
+      hash: tx.hash,
+      request: {
+        to: tx.to,
+        data: tx.data,
+        value: tx.value,
+        type: tx.type,
+        gasLimit: tx.gasLimit,
+        nonce,
+        authorizationList: tx.authorizationList ?? undefined,
+        ...this.feesOf(tx),
+      },
+      sentAt: Date.now(),
+      bumps: 0,
+      cancelled: false,
+    };
+    slot.outstanding.set(nonce, entry);
+    return entry;
+  }
+
+  private async replace(
+    slot: RelayerSlot,
+    nonce: number,
+    entry: OutstandingTx,
+    request: ethers.TransactionRequest,
+    reason: ReplacementEvent['reason'],
+  ) {
+    const fees = await this.bumpFees(this.providerOf(slot), entry.request);
+    const next = { ...request, ...fees, nonce };
+    const tx = await this.enqueue(slot, () =>
+      this.signerOf(slot).sendTransaction(next),
+    );
+
+    const event: ReplacementEvent = {
+      chainId: slot.chainId,
+      relayer: slot.wallet.address,
+      nonce,
+      oldHash: entry.hash,
+      newHash: tx.hash,
+      reason,
+    };
+    entry.hash = tx.hash;
+    entry.request = next;
+    entry.sentAt = Date.now();
+    entry.bumps++;
+    entry.cancelled = reason === 'cancel';
+
+    this.logger.warn(
+      `[RELAYER_RBF] ${reason} ${slot.wallet.address} nonce=${nonce} ${event.oldHash} → ${event.newHash}`,
+    );
+    for (const listener of this.replacementListeners) {
+      try {
+        listener(event);
+      } catch (e: any) {
+        this.logger.error(
+          `[RELAYER_RBF] 교체 알림 처리 실패: ${e?.message || e}`,
+        );
+      }
+    }
+    return event;
+  }
+
+  // 같은 nonce, 같은 내용으로 수수료만 올려 재전송
+  async speedUp(
+    address: string,
+    nonce: number,
+    knownHash?: string,
+    chainId?: number,
+  ) {
+    const slot = this.slotOf(address, chainId);
+    const entry = await this.loadOutstanding(slot, nonce, knownHash);
+    // 취소 트랜잭션을 가속하는 경우에도 취소로 기록
+    return this.replace(
+      slot,
+      nonce,
+      entry,
+      entry.request,
+      entry.cancelled ? 'cancel' : 'speed_up',
+    );
+  }
+
+  // 같은 nonce로 자기 자신에게 0원 전송 → 원래 트랜잭션 무효화
+  async cancel(
+    address: string,
+    nonce: number,
+    knownHash?: string,
+    chainId?: number,
+  ) {
+    const slot = this.slotOf(address, chainId);
+    const entry = await this.loadOutstanding(slot, nonce, knownHash);
+    const legacy = entry.request.maxFeePerGas == null;
+    return this.replace(
+      slot,
+      nonce,
+      entry,
+      {
+        to: slot.wallet.address,
+        value: 0n,
+        data: '0x',
+        gasLimit: 21_000n,
+        type: legacy ? 0 : 2,
+      },
+      'cancel',
+    );
+  }
+
+  // 채굴된 항목 정리 후 오래 걸린 트랜잭션 자동 가속
+  async checkStuck() {
+    for (const slot of this.slots) {
+      if (slot.outstanding.size === 0) continue;
+      try {
+        const mined = await this.providerOf(slot).getTransactionCount(
+          slot.wallet.address,
+          'latest',
+        );
+        for (const nonce of [...slot.outstanding.keys()]) {
+          if (nonce < mined) slot.outstanding.delete(nonce);
+        }
+
+        for (const [nonce, entry] of slot.outstanding) {
+          if (Date.now() - entry.sentAt < this.stuckAfterMs) continue;
+          this.logger.warn(
+            `[RELAYER_RBF] 미채굴 ${Math.round((Date.now() - entry.sentAt) / 1000)}s: ${entry.hash} → 자동 가속`,
+          );
+          await this.speedUp(
+            slot.wallet.address,
+            nonce,
+            undefined,
+            slot.chainId,
+          ).catch((e: any) =>
+            this.logger.warn(
+              `[RELAYER_RBF] 자동 가속 실패: ${e?.message || e}`,
+            ),
+          );
+        }
+      } catch (e: any) {
+        this.logger.warn(
+          `[RELAYER_RBF] ${slot.wallet.address} 점검 실패: ${e?.message || e}`,
+        );
+      }
+    }
+  }
+
+  // 관리자 조회용
+  describe() {
+    return this.slots.map((s) => ({
+      chainId: s.chainId,
+      address: s.wallet.address,
+      nextNonce: s.nextNonce,
+      inFlight: s.inFlight,
+      outstanding: [...s.outstanding.entries()].map(([nonce, e]) => ({
+        nonce,
+        hash: e.hash,
+        ageMs: Date.now() - e.sentAt,
+        bumps: e.bumps,
+        cancelled: e.cancelled,
+      })),
+    }));
+  }
+}
@@ -0,0 +1,83 @@
+import { Interface } from 'ethers';
+import {
+  ERR_ABI,
+  decodeRevert,
+  formatRevert,
+  parseFormattedRevert,
+  toRevertProblem,
+  waitForReceipt,
+} from './revert-errors';
+
+describe('revert-errors', () => {
+  const iface = new Interface(ERR_ABI);
+  const expiredData = iface.encodeErrorResult('Expired', [10, 5]);
+
+  it('decodes ethers call errors into named arguments', () => {
+    const decoded = decodeRevert({ info: { error: { data: expiredData } } });
+
+    expect(decoded).toEqual({
+      name: 'Expired',
+      args: { nowTs: '10', deadline: '5' },
+    });
+    expect(formatRevert(decoded!)).toBe('Expired(10,5)');
+    expect(decodeRevert({ data: '0xdeadbeef' })).toBeNull();
+  });
+
+  it('maps decoded reverts to a problem-details body with a stable code', () => {
+    const problem = toRevertProblem(decodeRevert(expiredData), 'simulate');
+
+    expect(problem).toMatchObject({
+      type: 'urn:payment-error:signature-expired',
+      status: 422,
+      code: 'SIGNATURE_EXPIRED',
+      action: 'rescan',
+      stage: 'simulate',
+      revert: { name: 'Expired', args: { nowTs: '10', deadline: '5' } },
+    });
+    expect(problem.message).toBe(problem.detail);
+  });
+
+  it('round-trips ledger reason strings and falls back for unknown reverts', () => {
+    expect(parseFormattedRevert('BadNonce(3,4)')).toEqual({
+      name: 'BadNonce',
+      args: { got: '3', expected: '4' },
+    });
+
+    const unknown = toRevertProblem(
+      parseFormattedRevert('execution reverted'),
+      'onchain',
+      { txHash: '0xabc', fallbackDetail: 'execution reverted' },
+    );
+    expect(unknown).toMatchObject({
+      code: 'REVERTED',
+      detail: 'execution reverted',
+      txHash: '0xabc',
+      revert: null,
+    });
+  });
+
+  it('resolves reverted receipts that tx.wait rejects with CALL_EXCEPTION', async () => {
+    const receipt = { status: 0, blockNumber: 12, gasUsed: 21000n };
+    const reverted = {
+      wait: () =>
+        Promise.reject(
+          Object.assign(new Error('transaction execution reverted'), {
+            code: 'CALL_EXCEPTION',
+            receipt,
+          }),
+        ),
+    };
+    await expect(waitForReceipt(reverted as any)).resolves.toBe(receipt);
+
+    // 영수증이 없는 오류(타임아웃, 교체 등)는 그대로 던짐
+    const dropped = {
+      wait: () =>
+        Promise.reject(
+          Object.assign(new Error('replaced'), {
+            code: 'TRANSACTION_REPLACED',
+          }),
+        ),
+    };
+    await expect(waitForReceipt(dropped as any)).rejects.toThrow('replaced');
+  });
+});
@@ -0,0 +1,188 @@
+// revert-errors.ts
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Interface, TransactionReceipt } from 'ethers';
+
+// DelegatedTransfer / ERC20이 던지는 커스텀 에러
+export const ERR_ABI = [
+  'error BadContext(address actual,address expected)',
+  'error Expired(uint256 nowTs,uint256 deadline)',
+  'error BadSignature(address expected,address recovered)',
+  'error BadNonce(uint256 got,uint256 expected)',
+  'error ERC20InsufficientBalance(address sender,uint256 balance,uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender,uint256 allowance,uint256 needed)',
+  'error SafeERC20FailedOperation(address token)',
+];
+const errIface = new Interface(ERR_ABI);
+
+interface CatalogEntry {
+  code: string;
+  status: HttpStatus;
+  title: string;
+  // 클라이언트가 할 수 있는 조치 (rescan: QR 재스캔 / retry: 재시도 / none)
+  action: 'rescan' | 'retry' | 'none';
+}
+
+/**
+ * 리버트 에러 → 안정적인 에러 코드.
+ * 코드 문자열은 클라이언트(스캔 페이지 등)가 분기에 쓰므로 바꾸지 말 것.
+ */
+export const REVERT_CATALOG: Record<string, CatalogEntry> = {
+  BadContext: {
+    code: 'DELEGATION_MISMATCH',
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    title: '위임 컨텍스트가 일치하지 않습니다.',
+    action: 'none',
+  },
+  Expired: {
+    code: 'SIGNATURE_EXPIRED',
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    title: '서명 유효기간이 지났습니다.',
+    action: 'rescan',
+  },
+  BadSignature: {
+    code: 'BAD_SIGNATURE',
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    title: '서명이 결제자와 일치하지 않습니다.',
+    action: 'rescan',
+  },
+  BadNonce: {
+    code: 'BAD_NONCE',
+    status: HttpStatus.CONFLICT,
+    title: '이미 사용되었거나 순서가 맞지 않는 nonce입니다.',
+    action: 'rescan',
+  },
+  ERC20InsufficientBalance: {
+    code: 'INSUFFICIENT_BALANCE',
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    title: '토큰 잔액이 부족합니다.',
+    action: 'none',
+  },
+  ERC20InsufficientAllowance: {
+    code: 'INSUFFICIENT_ALLOWANCE',
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    title: '토큰 승인 한도가 부족합니다.',
+    action: 'none',
+  },
+  SafeERC20FailedOperation: {
+    code: 'TOKEN_TRANSFER_FAILED',
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    title: '토큰 전송이 실패했습니다.',
+    action: 'retry',
+  },
+};
+
+const UNKNOWN_REVERT: CatalogEntry = {
+  code: 'REVERTED',
+  status: HttpStatus.UNPROCESSABLE_ENTITY,
+  title: '트랜잭션이 리버트되었습니다.',
+  action: 'retry',
+};
+
+export interface DecodedRevert {
+  name: string;
+  args: Record<string, string>;
+}
+
+// RFC 7807 problem details + 확장 필드
+export interface RevertProblem {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  code: string;
+  action: CatalogEntry['action'];
+  revert: DecodedRevert | null;
+  stage: 'simulate' | 'onchain';
+  txHash?: string;
+  // 기존 클라이언트 호환 (errorData.message 사용)
+  message: string;
+}
+
+// ethers 에러 / raw data에서 리버트 데이터 추출 후 디코드
+type RevertSource =
+  | string
+  | { data?: unknown; info?: { error?: { data?: unknown } } }
+  | null
+  | undefined;
+
+export function decodeRevert(e: RevertSource): DecodedRevert | null {
+  const data = typeof e === 'string' ? e : (e?.info?.error?.data ?? e?.data);
+  if (typeof data !== 'string' || !data.startsWith('0x') || data.length < 10) {
+    return null;
+  }
+  try {
+    const parsed = errIface.parseError(data);
+    if (!parsed) return null;
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      args[input.name || String(i)] = String(parsed.args[i]);
+    });
+    return { name: parsed.name, args };
+  } catch {
+    return null;
+  }
+}
+
+// 원장 저장용 문자열: Name(arg1,arg2)
+export function formatRevert(decoded: DecodedRevert) {
+  return `${decoded.name}(${Object.values(decoded.args).join(',')})`;
+}
+
+// 원장에 저장된 문자열을 다시 디코드 결과로 (카탈로그에 없는 이름이면 null)
+export function parseFormattedRevert(
+  reason: string | null | undefined,
+): DecodedRevert | null {
+  const m = reason ? /^(\w+)\((.*)\)$/.exec(reason) : null;
+  if (!m || !REVERT_CATALOG[m[1]]) return null;
+  const fragment = errIface.getError(m[1]);
+  const values = m[2] ? m[2].split(',') : [];
+  const args: Record<string, string> = {};
+  fragment?.inputs.forEach((input, i) => {
+    args[input.name || String(i)] = values[i];
+  });
+  return { name: m[1], args };
+}
+
+export function toRevertProblem(
+  decoded: DecodedRevert | null,
+  stage: RevertProblem['stage'],
+  extra: { txHash?: string; fallbackDetail?: string } = {},
+): RevertProblem {
+  const entry = (decoded && REVERT_CATALOG[decoded.name]) || UNKNOWN_REVERT;
+  const detail = decoded
+    ? `${entry.title} (${formatRevert(decoded)})`
+    : extra.fallbackDetail || entry.title;
+  return {
+    type: `urn:payment-error:${entry.code.toLowerCase().replace(/_/g, '-')}`,
+    title: entry.title,
+    status: entry.status,
+    detail,
+    code: entry.code,
+    action: entry.action,
+    revert: decoded,
+    stage,
+    ...(extra.txHash ? { txHash: extra.txHash } : {}),
+    message: detail,
+  };
+}
+
+// tx.wait()은 status 0 영수증을 CALL_EXCEPTION으로 reject → 영수증을 꺼내 리버트로 처리
+export async function waitForReceipt(tx: {
+  wait(): Promise<TransactionReceipt | null>;
+}): Promise<TransactionReceipt | null> {
+  try {
+    return await tx.wait();
+  } catch (e: any) {
+    if (e?.code === 'CALL_EXCEPTION' && e?.receipt) {
+      return e.receipt as TransactionReceipt;
+    }
+    throw e;
+  }
+}
+
+// 시뮬레이션에서 확정적으로 리버트된 결제 (릴레이하지 않음)
+export class PaymentRevertException extends HttpException {
+  constructor(readonly problem: RevertProblem) {
+    super(problem, problem.status);
+  }
+}
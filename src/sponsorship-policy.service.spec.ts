@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ForbiddenException } from '@nestjs/common';
+import { SponsorshipPolicyService } from './sponsorship-policy.service';
+
+describe('SponsorshipPolicyService', () => {
+  const TOKEN = '0x' + '11'.repeat(20);
+  const SHOP = '0x' + '22'.repeat(20);
+  let dir: string;
+  let service: SponsorshipPolicyService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-'));
+    process.env.SPONSORSHIP_POLICY_PATH = path.join(dir, 'policy.json');
+    fs.writeFileSync(
+      process.env.SPONSORSHIP_POLICY_PATH,
+      JSON.stringify({
+        allowedTokens: [TOKEN.toUpperCase().replace('0X', '0x')],
+        allowedRecipients: [SHOP],
+        tokenLimits: { [TOKEN]: { min: '100', max: '1000' } },
+        timeWindows: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' }],
+        utcOffsetMinutes: 540,
+      }),
+    );
+    service = new SponsorshipPolicyService();
+  });
+
+  afterEach(() => {
+    delete process.env.SPONSORSHIP_POLICY_PATH;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // 2025-01-06(월) 10:00 KST
+  const MONDAY_MORNING = new Date('2025-01-06T01:00:00Z');
+
+  it('sponsors a transfer that passes every rule', () => {
+    const result = service.evaluate(
+      { token: TOKEN, to: SHOP, amount: '500' },
+      MONDAY_MORNING,
+    );
+
+    expect(result.eligible).toBe(true);
+    expect(result.results.map((r) => r.rule)).toEqual([
+      'allowed_tokens',
+      'allowed_recipients',
+      'token_min_amount',
+      'token_max_amount',
+      'time_window',
+    ]);
+  });
+
+  it('names the first failed rule', () => {
+    expect(
+      service.evaluate(
+        { token: TOKEN, to: SHOP, amount: '5000' },
+        MONDAY_MORNING,
+      ).failedRule,
+    ).toBe('token_max_amount');
+    // 2025-01-05(일) 10:00 KST
+    expect(
+      service.evaluate(
+        { token: TOKEN, to: SHOP, amount: '500' },
+        new Date('2025-01-05T01:00:00Z'),
+      ).failedRule,
+    ).toBe('time_window');
+
+    let error: unknown;
+    try {
+      service.assertEligible({ token: TOKEN, to: TOKEN, amount: '500' });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ForbiddenException);
+    expect((error as ForbiddenException).getResponse()).toMatchObject({
+      code: 'SPONSORSHIP_DENIED',
+      rule: 'allowed_recipients',
+    });
+  });
+
+  it('allows everything when no policy file exists', () => {
+    fs.rmSync(process.env.SPONSORSHIP_POLICY_PATH!);
+
+    expect(service.evaluate({ token: TOKEN, amount: '1' })).toMatchObject({
+      eligible: true,
+      policyLoaded: false,
+    });
+  });
+});
@@ -0,0 +1,237 @@
+// sponsorship-policy.service.ts
+import {
+  ForbiddenException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// 정책 파일 형식 (모든 항목 선택, 없는 규칙은 통과)
+export interface SponsorshipPolicy {
+  allowedTokens?: string[];
+  allowedRecipients?: string[];
+  // 토큰 주소별 금액 범위 (최소 단위 문자열)
+  tokenLimits?: Record<string, { min?: string; max?: string }>;
+  // 후원 가능 시간대. 하나라도 맞으면 통과
+  timeWindows?: Array<{
+    days?: number[]; // 0=일 ~ 6=토
+    start: string; // "HH:mm"
+    end: string; // "HH:mm" (start보다 작으면 자정을 넘는 구간)
+  }>;
+  // 시간대 계산 기준 UTC 오프셋 (분), 기본 0
+  utcOffsetMinutes?: number;
+}
+
+export type PolicyRule =
+  | 'allowed_tokens'
+  | 'allowed_recipients'
+  | 'token_min_amount'
+  | 'token_max_amount'
+  | 'time_window';
+
+export interface PolicyRuleResult {
+  rule: PolicyRule;
+  passed: boolean;
+  detail: string;
+}
+
+export interface PolicyEvaluation {
+  eligible: boolean;
+  failedRule: PolicyRule | null;
+  results: PolicyRuleResult[];
+  policyLoaded: boolean;
+  evaluatedAt: string;
+}
+
+export interface PolicyTransfer {
+  token?: string | null;
+  to?: string | null;
+  amount?: string | number | bigint | null;
+}
+
+/**
+ * 스폰서(가스비 대납) 대상 여부를 정책 파일로 판정.
+ * 파일이 바뀌면 다음 평가 때 다시 읽음 (재시작 불필요).
+ */
+@Injectable()
+export class SponsorshipPolicyService {
+  private readonly logger = new Logger('SponsorshipPolicyService');
+
+  private readonly policyPath = path.resolve(
+    process.env.SPONSORSHIP_POLICY_PATH || 'config/sponsorship-policy.json',
+  );
+  private policy: SponsorshipPolicy | null = null;
+  private loadedMtimeMs = -1;
+
+  private lowerKeys<T>(obj: Record<string, T>) {
+    return Object.fromEntries(
+      Object.entries(obj).map(([k, v]) => [k.toLowerCase(), v]),
+    );
+  }
+
+  // 정책 파일 로드 (mtime이 같으면 캐시 사용)
+  getPolicy(): SponsorshipPolicy | null {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(this.policyPath).mtimeMs;
+    } catch {
+      if (this.policy)
+        this.logger.warn('[POLICY] 정책 파일이 사라짐, 제한 없음');
+      this.policy = null;
+      this.loadedMtimeMs = -1;
+      return null;
+    }
+    if (mtimeMs === this.loadedMtimeMs) return this.policy;
+
+    let raw: SponsorshipPolicy;
+    try {
+      raw = JSON.parse(
+        fs.readFileSync(this.policyPath, 'utf8'),
+      ) as SponsorshipPolicy;
+    } catch (e: any) {
+      // 잘못된 정책으로 전부 후원하지 않도록 거절 쪽으로 실패
+      this.logger.error(`[POLICY] 정책 파일 파싱 실패: ${e?.message}`);
+      throw new InternalServerErrorException({
+        code: 'SPONSORSHIP_POLICY_INVALID',
+        message: '후원 정책 파일을 읽을 수 없습니다.',
+      });
+    }
+    this.policy = {
+      ...raw,
+      allowedTokens: raw.allowedTokens?.map((a) => a.toLowerCase()),
+      allowedRecipients: raw.allowedRecipients?.map((a) => a.toLowerCase()),
+      tokenLimits: raw.tokenLimits && this.lowerKeys(raw.tokenLimits),
+    };
+    this.loadedMtimeMs = mtimeMs;
+    this.logger.log(`[POLICY] 정책 로드: ${this.policyPath}`);
+    return this.policy;
+  }
+
+  private minutesOf(hhmm: string) {
+    const [h, m] = hhmm.split(':').map(Number);
+    return h * 60 + (m || 0);
+  }
+
+  private checkTimeWindows(
+    windows: NonNullable<SponsorshipPolicy['timeWindows']>,
+    offsetMinutes: number,
+    at: Date,
+  ): PolicyRuleResult {
+    const local = new Date(at.getTime() + offsetMinutes * 60_000);
+    const day = local.getUTCDay();
+    const minute = local.getUTCHours() * 60 + local.getUTCMinutes();
+    const hhmm = local.toISOString().slice(11, 16);
+
+    const matched = windows.find((w) => {
+      const start = this.minutesOf(w.start);
+      const end = this.minutesOf(w.end);
+      const inRange =
+        start <= end
+          ? minute >= start && minute < end
+          : minute >= start || minute < end;
+      // 자정을 넘는 구간의 새벽 부분은 전날 요일 기준
+      const windowDay = start > end && minute < end ? (day + 6) % 7 : day;
+      return inRange && (!w.days || w.days.includes(windowDay));
+    });
+
+    return {
+      rule: 'time_window',
+      passed: !!matched,
+      detail: matched
+        ? `${hhmm} (day ${day}) 후원 시간대 ${matched.start}-${matched.end} 안`
+        : `${hhmm} (day ${day}) 후원 시간대 밖`,
+    };
+  }
+
+  /**
+   * 규칙을 순서대로 모두 평가 (dry-run 설명용).
+   * 처음 실패한 규칙이 failedRule.
+   */
+  evaluate(transfer: PolicyTransfer, at: Date = new Date()): PolicyEvaluation {
+    const policy = this.getPolicy();
+    const results: PolicyRuleResult[] = [];
+    const token = transfer.token?.toLowerCase() ?? '';
+    const to = transfer.to?.toLowerCase() ?? '';
+
+    if (policy?.allowedTokens) {
+      const passed = policy.allowedTokens.includes(token);
+      results.push({
+        rule: 'allowed_tokens',
+        passed,
+        detail: passed
+          ? `토큰 ${token} 허용`
+          : `토큰 ${token || '(없음)'}은 후원 대상이 아님`,
+      });
+    }
+
+    if (policy?.allowedRecipients) {
+      const passed = policy.allowedRecipients.includes(to);
+      results.push({
+        rule: 'allowed_recipients',
+        passed,
+        detail: passed
+          ? `수취인 ${to} 허용`
+          : `수취인 ${to || '(없음)'}은 후원 대상이 아님`,
+      });
+    }
+
+    const limits = policy?.tokenLimits?.[token];
+    if (limits) {
+      const amount = BigInt(String(transfer.amount ?? 0));
+      if (limits.min != null) {
+        const passed = amount >= BigInt(limits.min);
+        results.push({
+          rule: 'token_min_amount',
+          passed,
+          detail: `amount=${amount} ${passed ? '>=' : '<'} min=${limits.min}`,
+        });
+      }
+      if (limits.max != null) {
+        const passed = amount <= BigInt(limits.max);
+        results.push({
+          rule: 'token_max_amount',
+          passed,
+          detail: `amount=${amount} ${passed ? '<=' : '>'} max=${limits.max}`,
+        });
+      }
+    }
+
+    if (policy?.timeWindows?.length) {
+      results.push(
+        this.checkTimeWindows(
+          policy.timeWindows,
+          policy.utcOffsetMinutes ?? 0,
+          at,
+        ),
+      );
+    }
+
+    const failed = results.find((r) => !r.passed);
+    return {
+      eligible: !failed,
+      failedRule: failed?.rule ?? null,
+      results,
+      policyLoaded: !!policy,
+      evaluatedAt: at.toISOString(),
+    };
+  }
+
+  // 릴레이 전 검사: 실패한 규칙 이름과 함께 거절
+  assertEligible(transfer: PolicyTransfer) {
+    const evaluation = this.evaluate(transfer);
+    if (evaluation.eligible) return evaluation;
+
+    const failed = evaluation.results.find((r) => !r.passed)!;
+    this.logger.warn(
+      `[POLICY] 후원 거절: rule=${failed.rule} ${failed.detail}`,
+    );
+    throw new ForbiddenException({
+      code: 'SPONSORSHIP_DENIED',
+      message: `후원 정책 위반: ${failed.rule}`,
+      rule: failed.rule,
+      detail: failed.detail,
+    });
+  }
+}
@@ -0,0 +1,72 @@
+import { ethers } from 'ethers';
+import { ChainService } from './chain.service';
+import { ERC20_ABI, TokenRegistryService } from './token-registry.service';
+
+describe('TokenRegistryService', () => {
+  const USDC = ethers.getAddress('0x' + '3c'.repeat(20));
+  const BROKEN = ethers.getAddress('0x' + '5e'.repeat(20));
+  const erc20 = new ethers.Interface(ERC20_ABI);
+
+  // USDC(decimals 6)만 응답하고 나머지 주소는 revert
+  const provider = {
+    call: jest.fn((tx: { to: string; data: string }) => {
+      if (ethers.getAddress(tx.to) !== USDC) {
+        return Promise.reject(new Error('execution reverted'));
+      }
+      const fn = erc20.parseTransaction({ data: tx.data })!.name;
+      const values: Record<string, unknown[]> = {
+        decimals: [6],
+        symbol: ['USDC'],
+        name: ['USD Coin'],
+      };
+      return Promise.resolve(erc20.encodeFunctionResult(fn, values[fn]));
+    }),
+  };
+
+  function build(tokens: Array<{ address: string; decimals?: number }>) {
+    const ctx = { provider, config: { chainId: 97, tokens } };
+    return new TokenRegistryService({
+      chainId: 97,
+      list: () => [ctx],
+      get: () => ctx,
+      has: (id: number) => id === 97,
+    } as unknown as ChainService);
+  }
+
+  it('loads metadata from the chain and normalizes amounts', async () => {
+    const registry = build([{ address: USDC }, { address: BROKEN }]);
+    await registry.onModuleInit();
+
+    expect(registry.describe()).toEqual([
+      {
+        chainId: 97,
+        address: USDC,
+        symbol: 'USDC',
+        decimals: 6,
+        name: 'USD Coin',
+      },
+    ]);
+    expect(registry.normalize(USDC.toLowerCase(), '1.5').amount).toBe(
+      1_500_000n,
+    );
+    expect(registry.normalize(USDC, '1500000').amount).toBe(1_500_000n);
+    expect(() => registry.normalize(USDC, '0.0000001')).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({ code: 'INVALID_AMOUNT' }),
+      }),
+    );
+    expect(() => registry.normalize(BROKEN, '1')).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({
+          code: 'UNSUPPORTED_TOKEN',
+          supported: [USDC],
+        }),
+      }),
+    );
+  });
+
+  it('refuses to start when configured decimals differ from the chain', async () => {
+    const registry = build([{ address: USDC, decimals: 18 }]);
+    await expect(registry.onModuleInit()).rejects.toThrow(/decimals mismatch/);
+  });
+});
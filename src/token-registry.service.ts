@@ -0,0 +1,214 @@
+// token-registry.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ethers } from 'ethers';
+import { ChainService } from './chain.service';
+
+// 잔고 / 메타데이터 조회용 ERC-20 ABI (서비스 공용)
+export const ERC20_ABI = [
+  'function balanceOf(address) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+  'function name() view returns (string)',
+] as const;
+
+export interface TokenInfo {
+  chainId: number;
+  address: string;
+  symbol: string | null;
+  decimals: number | null;
+  name: string | null;
+  enabled: boolean;
+  minSponsoredAmount: string | null;
+}
+
+/**
+ * 결제 가능한 토큰 목록 (체인 설정의 tokens).
+ * 시작 시 토큰 컨트랙트의 decimals / symbol / name을 읽어 설정값과 대조하고,
+ * 설정에 없는 값은 채운다. 조회에 실패한 토큰은 비활성화.
+ *
+ * 금액은 기본 단위 정수("1500000") 또는 소수점이 있는 10진수 문자열("1.5")로 받는다.
+ * 소수점이 없는 값은 항상 기본 단위로 해석하므로 10진수 정수는 "10.0"처럼 보낸다.
+ */
+@Injectable()
+export class TokenRegistryService implements OnModuleInit {
+  private readonly logger = new Logger('TokenRegistryService');
+
+  private readonly tokens: TokenInfo[] = [];
+
+  constructor(private readonly chain: ChainService) {
+    for (const { config } of this.chain.list()) {
+      for (const t of config.tokens ?? []) {
+        this.tokens.push({
+          chainId: config.chainId,
+          address: ethers.getAddress(t.address),
+          symbol: t.symbol ?? null,
+          decimals: t.decimals ?? null,
+          name: t.name ?? t.symbol ?? null,
+          enabled: t.enabled !== false,
+          minSponsoredAmount: t.minSponsoredAmount ?? null,
+        });
+      }
+    }
+  }
+
+  async onModuleInit() {
+    for (const token of this.tokens) {
+      if (!token.enabled) continue;
+      if (!this.chain.has(token.chainId)) {
+        token.enabled = false;
+        continue;
+      }
+
+      const contract = this.contract(token.address, token.chainId);
+      let onchain: { decimals: number; symbol: string; name: string };
+      try {
+        const [decimals, symbol, name] = await Promise.all([
+          contract.decimals(),
+          contract.symbol().catch(() => null),
+          contract.name().catch(() => null),
+        ]);
+        onchain = {
+          decimals: Number(decimals),
+          symbol: symbol == null ? '' : String(symbol),
+          name: name == null ? '' : String(name),
+        };
+      } catch (e: any) {
+        this.logger.error(
+          `[TOKEN_REGISTRY] ${token.address} (chain ${token.chainId}) 조회 실패, 비활성화: ${e?.shortMessage || e?.message}`,
+        );
+        token.enabled = false;
+        continue;
+      }
+
+      // decimals가 다르면 금액 환산이 틀리므로 기동 중단
+      if (token.decimals !== null && token.decimals !== onchain.decimals) {
+        throw new Error(
+          `token decimals mismatch: ${token.address} (chain ${token.chainId}) config=${token.decimals} onchain=${onchain.decimals}`,
+        );
+      }
+      if (token.symbol && onchain.symbol && token.symbol !== onchain.symbol) {
+        this.logger.warn(
+          `[TOKEN_REGISTRY] ${token.address} symbol 불일치: config=${token.symbol} onchain=${onchain.symbol}`,
+        );
+      }
+      token.decimals = onchain.decimals;
+      token.symbol ??= onchain.symbol || null;
+      token.name ??= onchain.name || token.symbol;
+      this.logger.log(
+        `[TOKEN_REGISTRY] chain ${token.chainId} ${token.symbol} ${token.address} decimals=${token.decimals}`,
+      );
+    }
+  }
+
+  contract(address: string, chainId: number = this.chain.chainId) {
+    return new ethers.Contract(
+      address,
+      ERC20_ABI,
+      this.chain.get(chainId).provider,
+    );
+  }
+
+  list(chainId?: number): TokenInfo[] {
+    return this.tokens.filter(
+      (t) => t.enabled && (chainId === undefined || t.chainId === chainId),
+    );
+  }
+
+  // 체인의 첫 번째 토큰 (TOKEN 환경변수 대체)
+  defaultToken(chainId: number = this.chain.chainId): TokenInfo | null {
+    return this.list(chainId).find((t) => t.decimals !== null) ?? null;
+  }
+
+  find(
+    address: string | null | undefined,
+    chainId: number = this.chain.chainId,
+  ): TokenInfo | null {
+    if (!address || !ethers.isAddress(address)) return null;
+    const target = ethers.getAddress(address);
+    return (
+      this.list(chainId).find(
+        (t) => t.address === target && t.decimals !== null,
+      ) ?? null
+    );
+  }
+
+  // 등록되지 않았거나 비활성화된 토큰이면 400
+  require(
+    address: string | null | undefined,
+    chainId: number = this.chain.chainId,
+  ): TokenInfo {
+    const token = this.find(address, chainId);
+    if (!token) {
+      throw new BadRequestException({
+        code: 'UNSUPPORTED_TOKEN',
+        message: `지원하지 않는 토큰입니다: ${address}`,
+        token: address ?? null,
+        chainId: String(chainId),
+        supported: this.list(chainId).map((t) => t.address),
+      });
+    }
+    return token;
+  }
+
+  // 기본 단위 정수 또는 10진수 문자열 → 기본 단위 bigint
+  toBaseUnits(
+    amount: string | number | bigint | null | undefined,
+    token: TokenInfo,
+  ): bigint {
+    const raw = typeof amount === 'string' ? amount.trim() : String(amount);
+    let value: bigint;
+    try {
+      if (typeof amount !== 'bigint' && raw.includes('.')) {
+        value = ethers.parseUnits(raw, token.decimals!);
+      } else if (/^\d+$/.test(raw)) {
+        value = BigInt(raw);
+      } else {
+        throw new Error('not a number');
+      }
+    } catch {
+      throw new BadRequestException({
+        code: 'INVALID_AMOUNT',
+        message: `금액 형식이 잘못되었습니다: ${raw} (소수점 ${token.decimals}자리까지)`,
+        amount: raw,
+        decimals: token.decimals,
+      });
+    }
+    if (value <= 0n) {
+      throw new BadRequestException({
+        code: 'INVALID_AMOUNT',
+        message: 'amount must be positive',
+        amount: raw,
+      });
+    }
+    return value;
+  }
+
+  format(amount: string | number | bigint, token: TokenInfo) {
+    return ethers.formatUnits(BigInt(String(amount)), token.decimals!);
+  }
+
+  // 토큰 확인 + 금액 환산을 한 번에
+  normalize(
+    address: string | null | undefined,
+    amount: string | number | bigint | null | undefined,
+    chainId: number = this.chain.chainId,
+  ) {
+    const token = this.require(address, chainId);
+    return { token, amount: this.toBaseUnits(amount, token) };
+  }
+
+  describe() {
+    return this.list().map(({ chainId, address, symbol, decimals, name }) => ({
+      chainId,
+      address,
+      symbol,
+      decimals,
+      name,
+    }));
+  }
+}
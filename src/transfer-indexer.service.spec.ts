@@ -0,0 +1,372 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ethers } from 'ethers';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AppService } from './app.service';
+import { ChainService } from './chain.service';
+import { DatabaseService } from './database.service';
+import { InvoiceService } from './invoice.service';
+import { MerchantService } from './merchant.service';
+import { PaymentEvent, PaymentEventsService } from './payment-events.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { PriceService } from './price.service';
+import { TokenInfo, TokenRegistryService } from './token-registry.service';
+import { TransferIndexerService } from './transfer-indexer.service';
+
+interface StubLog {
+  blockNumber: number;
+  txHash: string;
+  logIndex?: number;
+  token?: string;
+  from?: string;
+  to: string;
+  amount: bigint;
+}
+
+describe('TransferIndexerService', () => {
+  const USDT: TokenInfo = {
+    chainId: 97,
+    address: '0x3333333333333333333333333333333333333333',
+    symbol: 'USDT',
+    decimals: 6,
+    name: 'Tether USD',
+    enabled: true,
+    minSponsoredAmount: null,
+  };
+  const SHOP = '0x2222222222222222222222222222222222222222';
+  const OTHER = '0x4444444444444444444444444444444444444444';
+  const PAYER = '0x1111111111111111111111111111111111111111';
+  const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+  const hash = (n: number) => '0x' + n.toString(16).padStart(64, '0');
+
+  let module: TestingModule;
+  let indexer: TransferIndexerService;
+  let ledger: PaymentLedgerService;
+  let invoices: InvoiceService;
+  let merchants: MerchantService;
+  let events: PaymentEvent[];
+  let server: http.Server;
+  let provider: ethers.JsonRpcProvider;
+  // JSON-RPC 대역의 체인 상태
+  let head: number;
+  let chainLogs: StubLog[];
+  let getLogsRanges: Array<[number, number]>;
+  // 블록 번호 → 채굴 시각(초), 없으면 현재 시각
+  let blockTimes: Map<number, number>;
+
+  const appService = {
+    printReceipt: jest.fn().mockResolvedValue({ status: 'success' }),
+  };
+
+  const pad = (a: string) => ethers.zeroPadValue(a, 32).toLowerCase();
+
+  // eth_blockNumber / eth_getLogs / eth_getBlockByNumber만 처리하는 로컬 노드 대역 (배치 요청 포함)
+  function rpc(req: { id: number; method: string; params: any[] }) {
+    const result = (value: unknown) => ({
+      jsonrpc: '2.0',
+      id: req.id,
+      result: value,
+    });
+    if (req.method === 'eth_chainId') return result('0x61');
+    if (req.method === 'eth_blockNumber')
+      return result(ethers.toQuantity(head));
+    if (req.method === 'eth_getBlockByNumber') {
+      const n = Number(req.params[0]);
+      return result({
+        number: ethers.toQuantity(n),
+        hash: hash(n + 1000),
+        parentHash: hash(n + 999),
+        timestamp: ethers.toQuantity(
+          blockTimes.get(n) ?? Math.floor(Date.now() / 1000),
+        ),
+        nonce: '0x0000000000000000',
+        difficulty: '0x0',
+        gasLimit: '0x1c9c380',
+        gasUsed: '0x0',
+        miner: ethers.ZeroAddress,
+        extraData: '0x',
+        baseFeePerGas: '0x0',
+        transactions: [],
+      });
+    }
+    if (req.method === 'eth_getLogs') {
+      const filter = req.params[0];
+      const from = Number(filter.fromBlock);
+      const to = Number(filter.toBlock);
+      getLogsRanges.push([from, to]);
+      const addresses = [filter.address]
+        .flat()
+        .map((a: string) => a.toLowerCase());
+      const recipients = (filter.topics[2] as string[]).map((t) =>
+        t.toLowerCase(),
+      );
+      return result(
+        chainLogs
+          .filter(
+            (l) =>
+              l.blockNumber >= from &&
+              l.blockNumber <= to &&
+              addresses.includes((l.token ?? USDT.address).toLowerCase()) &&
+              filter.topics[0] === TRANSFER_TOPIC &&
+              recipients.includes(pad(l.to)),
+          )
+          .map((l) => ({
+            address: l.token ?? USDT.address,
+            topics: [TRANSFER_TOPIC, pad(l.from ?? PAYER), pad(l.to)],
+            data: ethers.toBeHex(l.amount, 32),
+            blockNumber: ethers.toQuantity(l.blockNumber),
+            blockHash: hash(l.blockNumber + 1000),
+            transactionHash: l.txHash,
+            transactionIndex: '0x0',
+            logIndex: ethers.toQuantity(l.logIndex ?? 0),
+            removed: false,
+          })),
+      );
+    }
+    return {
+      jsonrpc: '2.0',
+      id: req.id,
+      error: { code: -32601, message: `unsupported ${req.method}` },
+    };
+  }
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    process.env.INDEXER_CONFIRMATIONS = '3';
+    process.env.INDEXER_BATCH_BLOCKS = '4';
+    process.env.INDEXER_START_BLOCK = '10';
+    jest.clearAllMocks();
+    head = 20;
+    chainLogs = [];
+    getLogsRanges = [];
+    blockTimes = new Map();
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        const payload = JSON.parse(body);
+        res.setHeader('content-type', 'application/json');
+        res.end(
+          JSON.stringify(
+            Array.isArray(payload) ? payload.map(rpc) : rpc(payload),
+          ),
+        );
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    provider = new ethers.JsonRpcProvider(
+      `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      97,
+      { staticNetwork: true, cacheTimeout: -1 },
+    );
+
+    module = await Test.createTestingModule({
+      providers: [
+        DatabaseService,
+        PaymentLedgerService,
+        PriceService,
+        InvoiceService,
+        MerchantService,
+        PaymentEventsService,
+        TransferIndexerService,
+        {
+          provide: ChainService,
+          useValue: {
+            chainId: 97,
+            get: () => ({ provider }),
+            list: () => [{ config: { chainId: 97 }, provider }],
+          },
+        },
+        {
+          provide: TokenRegistryService,
+          useValue: {
+            list: () => [USDT],
+            defaultToken: () => USDT,
+            toBaseUnits: (amount: string) => BigInt(amount),
+          },
+        },
+        { provide: AppService, useValue: appService },
+      ],
+    }).compile();
+
+    indexer = module.get(TransferIndexerService);
+    ledger = module.get(PaymentLedgerService);
+    invoices = module.get(InvoiceService);
+    merchants = module.get(MerchantService);
+    events = [];
+    module.get(PaymentEventsService).events$.subscribe((e) => events.push(e));
+  });
+
+  afterEach(async () => {
+    provider.destroy();
+    await new Promise((resolve) => server.close(resolve));
+    await module.close();
+    delete process.env.INDEXER_CONFIRMATIONS;
+    delete process.env.INDEXER_BATCH_BLOCKS;
+    delete process.env.INDEXER_START_BLOCK;
+  });
+
+  it('records wallet transfers, pays matching invoices and checkpoints', async () => {
+    const cafe = merchants.create({ name: '카페', payoutAddresses: [SHOP] });
+    const invoice = await invoices.create(
+      { amount: '2500000', productName: '라떼' },
+      cafe,
+    );
+    // 릴레이한 결제의 Transfer 로그는 원장의 기존 결제와 연결만
+    const relayed = ledger.create({ kind: 'signed', to: SHOP, amount: '900' });
+    ledger.markSubmitted(relayed.id, hash(3));
+    ledger.markConfirmed(relayed.id, 14);
+
+    chainLogs = [
+      { blockNumber: 9, txHash: hash(9), to: SHOP, amount: 1n },
+      { blockNumber: 12, txHash: hash(1), to: SHOP, amount: 2_500_000n },
+      { blockNumber: 13, txHash: hash(2), to: SHOP, amount: 777n },
+      { blockNumber: 14, txHash: hash(3), to: SHOP, amount: 900n },
+      // 감시하지 않는 수취인
+      { blockNumber: 15, txHash: hash(4), to: OTHER, amount: 5n },
+      // 확인 블록 수(3)가 지나지 않음
+      { blockNumber: 18, txHash: hash(5), to: SHOP, amount: 300n },
+    ];
+
+    const checkpoint = await indexer.indexChain(97);
+    expect(checkpoint).toMatchObject({ chainId: 97, lastBlock: 17 });
+    expect(getLogsRanges).toEqual([
+      [10, 13],
+      [14, 17],
+    ]);
+
+    const transfers = ledger.list({ kind: 'transfer' });
+    expect(transfers).toHaveLength(2);
+    const paid = transfers.find((p) => p.txHash === hash(1))!;
+    expect(paid).toMatchObject({
+      status: 'confirmed',
+      fromAddress: PAYER.toLowerCase(),
+      toAddress: SHOP.toLowerCase(),
+      amount: '2500000',
+      chainId: 97,
+      blockNumber: 12,
+      invoiceId: invoice.id,
+      productName: '라떼',
+    });
+    expect(invoices.getById(invoice.id)).toMatchObject({
+      status: 'paid',
+      paymentId: paid.id,
+      txHash: hash(1),
+    });
+    expect(ledger.findByTxHash(hash(3))).toHaveLength(1);
+
+    // 릴레이 결제와 같은 알림 / 영수증
+    expect(
+      events.filter((e) => e.data.kind === 'transfer').map((e) => e.type),
+    ).toEqual(['payment.confirmed', 'payment.confirmed']);
+    expect(events[events.length - 1].merchantId).toBe(cafe.id);
+    expect(appService.printReceipt).toHaveBeenCalledTimes(2);
+    expect(appService.printReceipt).toHaveBeenCalledWith(
+      expect.objectContaining({
+        txHash: hash(1),
+        amount: '2500000',
+        invoiceId: invoice.id,
+        productName: '라떼',
+      }),
+    );
+
+    expect(indexer.listTransfers({ recipient: SHOP })).toEqual([
+      expect.objectContaining({ txHash: hash(3), source: 'relayer' }),
+      expect.objectContaining({ txHash: hash(2), source: 'indexer' }),
+      expect.objectContaining({
+        txHash: hash(1),
+        paymentId: paid.id,
+        invoiceId: invoice.id,
+      }),
+    ]);
+
+    // 다음 점검은 체크포인트 다음 블록부터
+    head = 22;
+    getLogsRanges = [];
+    await indexer.indexChain(97);
+    expect(getLogsRanges).toEqual([[18, 19]]);
+    expect(ledger.list({ kind: 'transfer' })).toHaveLength(3);
+  });
+
+  it('matches invoices by block time and notifies after the batch commits', async () => {
+    const cafe = merchants.create({ name: '카페', payoutAddresses: [SHOP] });
+    const late = await invoices.create(
+      { amount: '100', productName: '라떼' },
+      cafe,
+    );
+    const missed = await invoices.create(
+      { amount: '200', productName: '쿠키' },
+      cafe,
+    );
+    // 인덱서가 읽기 전에 두 인보이스 모두 만료
+    const now = Math.floor(Date.now() / 1000);
+    module
+      .get(DatabaseService)
+      .db.prepare('UPDATE invoices SET expires_at = ?')
+      .run(new Date((now - 60) * 1000).toISOString());
+    expect(invoices.getById(late.id).status).toBe('expired');
+
+    chainLogs = [
+      // 만료 전에 채굴
+      { blockNumber: 11, txHash: hash(1), to: SHOP, amount: 100n },
+      // 만료 후에 채굴
+      { blockNumber: 12, txHash: hash(2), to: SHOP, amount: 200n },
+    ];
+    blockTimes.set(11, now - 120);
+    blockTimes.set(12, now - 30);
+
+    // 알림 시점에는 인덱싱 결과가 이미 커밋돼 있음
+    const linkedAtNotify: Array<string | null> = [];
+    module.get(PaymentEventsService).events$.subscribe((e) => {
+      const transfer = indexer
+        .listTransfers({ recipient: SHOP })
+        .find((t) => t.txHash === e.data.txHash);
+      linkedAtNotify.push(transfer?.paymentId ?? null);
+    });
+
+    await indexer.indexChain(97);
+
+    const paid = ledger.findByTxHash(hash(1))[0];
+    expect(paid.invoiceId).toBe(late.id);
+    expect(invoices.getById(late.id)).toMatchObject({
+      status: 'paid',
+      paymentId: paid.id,
+    });
+    expect(ledger.findByTxHash(hash(2))[0].invoiceId).toBeNull();
+    expect(invoices.getById(missed.id).status).toBe('expired');
+
+    expect(linkedAtNotify.length).toBeGreaterThan(0);
+    expect(linkedAtNotify).not.toContain(null);
+  });
+
+  it('does not double-record logs when re-scanning blocks', async () => {
+    merchants.create({ name: '카페', payoutAddresses: [SHOP] });
+    chainLogs = [
+      { blockNumber: 11, txHash: hash(1), to: SHOP, amount: 100n },
+      // 한 트랜잭션의 두 송금은 각각 기록
+      { blockNumber: 11, txHash: hash(2), to: SHOP, amount: 200n },
+      {
+        blockNumber: 11,
+        txHash: hash(2),
+        logIndex: 1,
+        to: SHOP,
+        amount: 300n,
+      },
+    ];
+
+    await indexer.indexChain(97);
+    expect(ledger.list({ kind: 'transfer' })).toHaveLength(3);
+
+    // 체크포인트를 잃어도 이미 처리한 로그는 건너뜀
+    module
+      .get(DatabaseService)
+      .db.prepare('DELETE FROM indexer_checkpoints')
+      .run();
+    await indexer.indexChain(97);
+    expect(ledger.list({ kind: 'transfer' })).toHaveLength(3);
+    expect(appService.printReceipt).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,429 @@
+// transfer-indexer.service.ts
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ethers } from 'ethers';
+import { AppService } from './app.service';
+import { ChainService } from './chain.service';
+import { DatabaseService } from './database.service';
+import { InvoiceService } from './invoice.service';
+import { MerchantService } from './merchant.service';
+import { PaymentLedgerService, PaymentRecord } from './payment-ledger.service';
+import { TokenRegistryService } from './token-registry.service';
+
+// ERC-20 Transfer(address indexed from, address indexed to, uint256 value)
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// relayer: 릴레이한 결제의 로그 (원장에 이미 있음), indexer: 지갑 송금으로 새로 기록
+export type IndexedTransferSource = 'relayer' | 'indexer';
+
+export interface IndexedTransfer {
+  chainId: number;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  token: string;
+  from: string;
+  to: string;
+  amount: string;
+  source: IndexedTransferSource;
+  paymentId: string | null;
+  invoiceId: string | null;
+  createdAt: string;
+}
+
+export interface IndexerCheckpoint {
+  chainId: number;
+  lastBlock: number;
+  updatedAt: string;
+}
+
+// indexed_transfers 테이블 row (snake_case)
+interface IndexedTransferRow {
+  chain_id: number;
+  tx_hash: string;
+  log_index: number;
+  block_number: number;
+  token: string;
+  from_address: string;
+  to_address: string;
+  amount: string;
+  source: IndexedTransferSource;
+  payment_id: string | null;
+  invoice_id: string | null;
+  created_at: string;
+}
+
+/**
+ * 등록된 토큰의 Transfer 로그 중 가맹점 정산 주소로 들어온 송금을 따라가는 인덱서.
+ * 릴레이어를 거치지 않은 지갑 송금도 원장(kind=transfer)에 확정 결제로 기록해
+ * 릴레이 결제와 같은 경로(인보이스 paid / 웹훅 / 진행 상태 스트림 / 영수증)로 처리한다.
+ * 체인별로 마지막으로 처리한 블록을 저장하고, 재조직을 피하려고 확인 블록 수만큼 뒤에서 따라간다.
+ */
+@Injectable()
+export class TransferIndexerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger('TransferIndexerService');
+
+  private readonly intervalMs =
+    Number(process.env.INDEXER_INTERVAL_MS) || 15_000;
+  private readonly confirmations = Math.max(
+    Number(process.env.INDEXER_CONFIRMATIONS ?? 3) || 0,
+    0,
+  );
+  // eth_getLogs 1회 조회 범위 (RPC 제한에 맞춤)
+  private readonly batchBlocks =
+    Number(process.env.INDEXER_BATCH_BLOCKS) || 1_000;
+
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly database: DatabaseService,
+    private readonly ledger: PaymentLedgerService,
+    private readonly chain: ChainService,
+    private readonly tokens: TokenRegistryService,
+    private readonly merchants: MerchantService,
+    private readonly invoices: InvoiceService,
+    private readonly appService: AppService,
+  ) {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS indexer_checkpoints (
+        chain_id   INTEGER PRIMARY KEY,
+        last_block INTEGER NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS indexed_transfers (
+        chain_id     INTEGER NOT NULL,
+        tx_hash      TEXT NOT NULL,
+        log_index    INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        token        TEXT NOT NULL,
+        from_address TEXT NOT NULL,
+        to_address   TEXT NOT NULL,
+        amount       TEXT NOT NULL,
+        source       TEXT NOT NULL,
+        payment_id   TEXT,
+        invoice_id   TEXT,
+        created_at   TEXT NOT NULL,
+        PRIMARY KEY (chain_id, tx_hash, log_index)
+      );
+      CREATE INDEX IF NOT EXISTS idx_indexed_transfers_to ON indexed_transfers (to_address);
+    `);
+  }
+
+  onModuleInit() {
+    this.timer = setInterval(() => void this.poll(), this.intervalMs);
+    this.logger.log(
+      `[INDEXER] 감시 시작: interval=${this.intervalMs}ms confirmations=${this.confirmations}`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // 전체 체인 점검 (중복 실행 방지, 한 체인 실패가 다른 체인을 막지 않음)
+  async poll() {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const ctx of this.chain.list()) {
+        try {
+          await this.indexChain(ctx.config.chainId);
+        } catch (e: any) {
+          this.logger.error(
+            `[INDEXER] chainId=${ctx.config.chainId} 인덱싱 실패: ${e?.message || e}`,
+          );
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // 감시 대상 수취인 (활성 가맹점의 정산 주소)
+  private watchedRecipients(): string[] {
+    return this.merchants
+      .list()
+      .filter((m) => m.status === 'active')
+      .flatMap((m) => m.payoutAddresses);
+  }
+
+  getCheckpoint(chainId: number): IndexerCheckpoint | null {
+    const row = this.database.db
+      .prepare('SELECT * FROM indexer_checkpoints WHERE chain_id = ?')
+      .get(chainId) as
+      | { chain_id: number; last_block: number; updated_at: string }
+      | undefined;
+    return row
+      ? {
+          chainId: row.chain_id,
+          lastBlock: row.last_block,
+          updatedAt: row.updated_at,
+        }
+      : null;
+  }
+
+  private saveCheckpoint(chainId: number, lastBlock: number) {
+    this.database.db
+      .prepare(
+        `INSERT INTO indexer_checkpoints (chain_id, last_block, updated_at)
+         VALUES (@chainId, @lastBlock, @now)
+         ON CONFLICT (chain_id) DO UPDATE
+           SET last_block = @lastBlock, updated_at = @now`,
+      )
+      .run({ chainId, lastBlock, now: new Date().toISOString() });
+  }
+
+  /**
+   * 체크포인트 다음 블록부터 (최신 - 확인 블록 수)까지 batchBlocks 단위로 조회.
+   * 체크포인트가 없으면 INDEXER_START_BLOCK, 그것도 없으면 현재 블록부터 시작 (과거 전체를 훑지 않음).
+   * 구간마다 체크포인트를 저장하므로 중간에 실패하면 다음 점검에서 이어서 처리한다.
+   */
+  async indexChain(chainId: number): Promise<IndexerCheckpoint | null> {
+    const tokens = this.tokens.list(chainId).map((t) => t.address);
+    const recipients = this.watchedRecipients();
+    if (tokens.length === 0 || recipients.length === 0) {
+      return this.getCheckpoint(chainId);
+    }
+
+    const provider = this.chain.get(chainId).provider;
+    const safeBlock = (await provider.getBlockNumber()) - this.confirmations;
+    if (safeBlock < 0) return this.getCheckpoint(chainId);
+
+    const checkpoint = this.getCheckpoint(chainId);
+    const startEnv = process.env.INDEXER_START_BLOCK;
+    let from = checkpoint
+      ? checkpoint.lastBlock + 1
+      : startEnv
+        ? Number(startEnv)
+        : safeBlock;
+
+    const recipientTopics = recipients.map((a) => ethers.zeroPadValue(a, 32));
+    while (from <= safeBlock) {
+      const to = Math.min(from + this.batchBlocks - 1, safeBlock);
+      const logs = await provider.getLogs({
+        address: tokens,
+        topics: [TRANSFER_TOPIC, null, recipientTopics],
+        fromBlock: from,
+        toBlock: to,
+      });
+
+      const minedAt = await this.blockTimes(provider, logs);
+
+      // 전이 알림(웹훅 / SSE / 인보이스 paid)은 커밋된 뒤에 보낸다
+      const recorded: PaymentRecord[] = [];
+      this.ledger.deferTransitions(() =>
+        this.database.db.transaction(() => {
+          for (const log of logs) {
+            const record = this.recordLog(
+              chainId,
+              log,
+              minedAt.get(log.blockNumber)!,
+            );
+            if (record) recorded.push(record);
+          }
+          this.saveCheckpoint(chainId, to);
+        })(),
+      );
+      if (logs.length > 0) {
+        this.logger.log(
+          `[INDEXER] chainId=${chainId} 블록 ${from}~${to}: 로그 ${logs.length}건, 새 결제 ${recorded.length}건`,
+        );
+      }
+
+      for (const record of recorded) {
+        await this.printTransferReceipt(record);
+      }
+      from = to + 1;
+    }
+    return this.getCheckpoint(chainId);
+  }
+
+  // 로그가 있는 블록의 채굴 시각 (인보이스 만료 판단용)
+  private async blockTimes(
+    provider: ethers.Provider,
+    logs: ethers.Log[],
+  ): Promise<Map<number, Date>> {
+    const times = new Map<number, Date>();
+    for (const blockNumber of new Set(logs.map((l) => l.blockNumber))) {
+      const block = await provider.getBlock(blockNumber);
+      if (!block) {
+        throw new Error(`블록 ${blockNumber}을(를) 찾을 수 없습니다.`);
+      }
+      times.set(blockNumber, new Date(block.timestamp * 1000));
+    }
+    return times;
+  }
+
+  /**
+   * 로그 1건 반영. 이미 처리한 로그는 건너뛰고, 릴레이한 결제의 트랜잭션이면 원장에 있는 결제와 연결만 한다.
+   * 새 송금은 원장에 기록(→ submitted → confirmed)하고, 맞는 인보이스가 있으면 함께 연결한다.
+   */
+  private recordLog(
+    chainId: number,
+    log: ethers.Log,
+    minedAt: Date,
+  ): PaymentRecord | null {
+    if (log.removed || log.topics.length !== 3) return null;
+
+    const txHash = log.transactionHash.toLowerCase();
+    const token = log.address.toLowerCase();
+    const from = ethers.getAddress(ethers.dataSlice(log.topics[1], 12));
+    const to = ethers.getAddress(ethers.dataSlice(log.topics[2], 12));
+    const amount = ethers.toBigInt(log.data).toString();
+    const now = new Date().toISOString();
+
+    const inserted = this.database.db
+      .prepare(
+        `INSERT OR IGNORE INTO indexed_transfers (
+          chain_id, tx_hash, log_index, block_number, token, from_address,
+          to_address, amount, source, created_at
+        ) VALUES (
+          @chainId, @txHash, @logIndex, @blockNumber, @token, @from,
+          @to, @amount, 'indexer', @now
+        )`,
+      )
+      .run({
+        chainId,
+        txHash,
+        logIndex: log.index,
+        blockNumber: log.blockNumber,
+        token,
+        from: from.toLowerCase(),
+        to: to.toLowerCase(),
+        amount,
+        now,
+      });
+    if (inserted.changes === 0) return null;
+
+    const link = (
+      source: IndexedTransferSource,
+      paymentId: string,
+      invoiceId: string | null,
+    ) =>
+      this.database.db
+        .prepare(
+          `UPDATE indexed_transfers
+              SET source = @source, payment_id = @paymentId, invoice_id = @invoiceId
+            WHERE chain_id = @chainId AND tx_hash = @txHash AND log_index = @logIndex`,
+        )
+        .run({
+          source,
+          paymentId,
+          invoiceId,
+          chainId,
+          txHash,
+          logIndex: log.index,
+        });
+
+    // 릴레이한 결제는 TxTracker가 이미 처리 (같은 트랜잭션에서 인덱서가 기록한 송금은 제외)
+    const relayed = this.ledger
+      .findByTxHash(txHash)
+      .find((p) => p.kind !== 'transfer');
+    if (relayed) {
+      link('relayer', relayed.id, relayed.invoiceId);
+      return null;
+    }
+
+    const invoice = this.invoices.matchTransfer({
+      chainId,
+      token,
+      to,
+      amount,
+      minedAt,
+    });
+    const record = this.ledger.create({
+      kind: 'transfer',
+      from,
+      token,
+      to,
+      amount,
+      chainId,
+      invoiceId: invoice?.id ?? null,
+      productName: invoice?.productName ?? null,
+    });
+    this.ledger.markSubmitted(record.id, txHash);
+    const confirmed = this.ledger.markConfirmed(record.id, log.blockNumber)!;
+    link('indexer', record.id, invoice?.id ?? null);
+
+    this.logger.log(
+      `[INDEXER] 지갑 송금 기록: payment=${record.id} tx=${txHash} ${from} → ${to} amount=${amount}` +
+        (invoice ? ` invoice=${invoice.id}` : ''),
+    );
+    return confirmed;
+  }
+
+  private async printTransferReceipt(record: PaymentRecord) {
+    try {
+      await this.appService.printReceipt({
+        txHash: record.txHash!,
+        amount: record.amount ?? '0',
+        token: record.token ?? 'UNKNOWN',
+        from: record.fromAddress ?? 'UNKNOWN',
+        to: record.toAddress ?? 'UNKNOWN',
+        timestamp: new Date().toISOString(),
+        status: 'success',
+        productName: record.productName ?? '기타',
+        invoiceId: record.invoiceId,
+      });
+    } catch (e: any) {
+      this.logger.warn(`[INDEXER] 영수증 인쇄 실패: ${e?.message || e}`);
+    }
+  }
+
+  private toTransfer(row: IndexedTransferRow): IndexedTransfer {
+    return {
+      chainId: row.chain_id,
+      txHash: row.tx_hash,
+      logIndex: row.log_index,
+      blockNumber: row.block_number,
+      token: row.token,
+      from: row.from_address,
+      to: row.to_address,
+      amount: row.amount,
+      source: row.source,
+      paymentId: row.payment_id,
+      invoiceId: row.invoice_id,
+      createdAt: row.created_at,
+    };
+  }
+
+  listTransfers(
+    query: { chainId?: number; recipient?: string; limit?: number } = {},
+  ): IndexedTransfer[] {
+    const where: string[] = [];
+    const params: Record<string, any> = {};
+    if (query.chainId) {
+      where.push('chain_id = @chainId');
+      params.chainId = Number(query.chainId);
+    }
+    if (query.recipient) {
+      where.push('to_address = @recipient');
+      params.recipient = query.recipient.toLowerCase();
+    }
+    params.limit = Math.min(Math.max(Number(query.limit) || 50, 1), 500);
+    const rows = this.database.db
+      .prepare(
+        `SELECT * FROM indexed_transfers
+          ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+          ORDER BY block_number DESC, log_index DESC LIMIT @limit`,
+      )
+      .all(params) as IndexedTransferRow[];
+    return rows.map((r) => this.toTransfer(r));
+  }
+
+  // 체인별 진행 상황 (운영자 조회용)
+  status() {
+    return this.chain.list().map((ctx) => ({
+      chainId: ctx.config.chainId,
+      checkpoint: this.getCheckpoint(ctx.config.chainId),
+      tokens: this.tokens.list(ctx.config.chainId).length,
+    }));
+  }
+}
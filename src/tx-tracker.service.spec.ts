@@ -0,0 +1,199 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AppService } from './app.service';
+import { ChainService } from './chain.service';
+import { DatabaseService } from './database.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { RelayerPoolService } from './relayer-pool.service';
+import { TxTrackerService } from './tx-tracker.service';
+
+describe('TxTrackerService', () => {
+  let module: TestingModule;
+  let tracker: TxTrackerService;
+  let ledger: PaymentLedgerService;
+
+  const TX_HASH = '0x' + 'cd'.repeat(32);
+  const RELAYER = '0x' + '01'.repeat(20);
+  const provider = {
+    getTransactionReceipt: jest.fn(),
+    getTransaction: jest.fn(),
+    getTransactionCount: jest.fn(),
+  };
+  const appService = {
+    printReceipt: jest.fn().mockResolvedValue({ status: 'success' }),
+    readRevertReason: jest.fn().mockResolvedValue('Expired(10,5)'),
+  };
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    jest.clearAllMocks();
+    module = await Test.createTestingModule({
+      providers: [
+        DatabaseService,
+        PaymentLedgerService,
+        TxTrackerService,
+        {
+          provide: ChainService,
+          useValue: { provider, get: () => ({ provider }) },
+        },
+        { provide: AppService, useValue: appService },
+        { provide: RelayerPoolService, useValue: { onReplaced: jest.fn() } },
+      ],
+    }).compile();
+
+    tracker = module.get(TxTrackerService);
+    ledger = module.get(PaymentLedgerService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  function pendingPayment(kind: 'signed' | 'payment' = 'signed') {
+    const record = ledger.create({ kind, amount: '100', productName: '라떼' });
+    ledger.markSubmitted(record.id, TX_HASH, { address: RELAYER, nonce: 7 });
+    return ledger.markPending(record.id, 'WAIT_TIMEOUT')!;
+  }
+
+  // 드롭 판단 시간(기본 10분)보다 오래전에 만들고 보낸 것으로
+  function backdate(paymentId: string, minutes = 30) {
+    const past = new Date(Date.now() - minutes * 60_000).toISOString();
+    const db = module.get(DatabaseService).db;
+    db.prepare('UPDATE payments SET created_at = ? WHERE id = ?').run(
+      past,
+      paymentId,
+    );
+    db.prepare(
+      'UPDATE payment_tx_hashes SET created_at = ? WHERE payment_id = ?',
+    ).run(past, paymentId);
+  }
+
+  it('confirms a mined transaction and prints its receipt once', async () => {
+    const record = pendingPayment();
+    provider.getTransactionReceipt.mockResolvedValue({
+      status: 1,
+      blockNumber: 42,
+    });
+
+    await tracker.poll();
+    await tracker.poll();
+
+    expect(ledger.getById(record.id)).toMatchObject({
+      status: 'confirmed',
+      blockNumber: 42,
+    });
+    expect(appService.printReceipt).toHaveBeenCalledTimes(1);
+    expect(appService.printReceipt).toHaveBeenCalledWith(
+      expect.objectContaining({ txHash: TX_HASH, productName: '라떼' }),
+    );
+  });
+
+  it('records the revert reason without printing', async () => {
+    const record = pendingPayment();
+    provider.getTransactionReceipt.mockResolvedValue({
+      status: 0,
+      blockNumber: 43,
+    });
+    provider.getTransaction.mockResolvedValue({ to: '0x1', data: '0x' });
+
+    await tracker.poll();
+
+    expect(ledger.getById(record.id)).toMatchObject({
+      status: 'reverted',
+      revertReason: 'Expired(10,5)',
+    });
+    expect(appService.printReceipt).not.toHaveBeenCalled();
+  });
+
+  it('keeps a young unmined transaction pending and reports it', async () => {
+    pendingPayment('payment');
+    provider.getTransactionReceipt.mockResolvedValue(null);
+    provider.getTransaction.mockResolvedValue(null);
+
+    const status = await tracker.getStatus(TX_HASH);
+
+    expect(status.status).toBe('pending');
+    expect(status.payments).toHaveLength(1);
+  });
+
+  it('follows a speed-up replacement and confirms the new hash', async () => {
+    const record = pendingPayment();
+    const NEW_HASH = '0x' + 'ef'.repeat(32);
+    ledger.recordReplacement(TX_HASH, NEW_HASH, 'speed_up');
+    provider.getTransactionReceipt.mockImplementation((hash: string) =>
+      Promise.resolve(
+        hash === NEW_HASH ? { status: 1, blockNumber: 50 } : null,
+      ),
+    );
+
+    const status = await tracker.getStatus(TX_HASH);
+
+    expect(status.status).toBe('confirmed');
+    expect(ledger.getById(record.id).txHash).toBe(NEW_HASH);
+  });
+
+  it('marks a payment dropped when its cancel transaction is mined', async () => {
+    const record = pendingPayment();
+    const CANCEL_HASH = '0x' + '99'.repeat(32);
+    ledger.recordReplacement(TX_HASH, CANCEL_HASH, 'cancel');
+    provider.getTransactionReceipt.mockImplementation((hash: string) =>
+      Promise.resolve(
+        hash === CANCEL_HASH ? { status: 1, blockNumber: 51 } : null,
+      ),
+    );
+
+    await tracker.poll();
+
+    expect(ledger.getById(record.id).status).toBe('dropped');
+    expect(appService.printReceipt).not.toHaveBeenCalled();
+  });
+
+  it('drops a vanished transaction only after its relayer nonce is used', async () => {
+    const record = pendingPayment();
+    backdate(record.id);
+    provider.getTransactionReceipt.mockResolvedValue(null);
+    provider.getTransaction.mockResolvedValue(null);
+    // 릴레이어 nonce 7이 아직 비어 있음 → 다시 채굴될 수 있음
+    provider.getTransactionCount.mockResolvedValue(7);
+
+    await tracker.poll();
+    expect(ledger.getById(record.id).status).toBe('pending');
+
+    // 다른 트랜잭션이 nonce 7을 사용
+    provider.getTransactionCount.mockResolvedValue(8);
+    await tracker.poll();
+    expect(ledger.getById(record.id).status).toBe('dropped');
+  });
+
+  it('confirms instead of dropping when the used nonce turns out to be this payment', async () => {
+    const record = pendingPayment();
+    backdate(record.id);
+    provider.getTransaction.mockResolvedValue(null);
+    provider.getTransactionCount.mockResolvedValue(8);
+    // 첫 조회 직후 채굴
+    provider.getTransactionReceipt
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue({ status: 1, blockNumber: 60 });
+
+    await tracker.poll();
+
+    expect(ledger.getById(record.id)).toMatchObject({
+      status: 'confirmed',
+      blockNumber: 60,
+    });
+    expect(appService.printReceipt).toHaveBeenCalledTimes(1);
+  });
+
+  it('measures the drop window from the latest speed-up', async () => {
+    const record = pendingPayment();
+    backdate(record.id);
+    const NEW_HASH = '0x' + 'ef'.repeat(32);
+    ledger.recordReplacement(TX_HASH, NEW_HASH, 'speed_up');
+    provider.getTransactionReceipt.mockResolvedValue(null);
+    provider.getTransaction.mockResolvedValue(null);
+    provider.getTransactionCount.mockResolvedValue(8);
+
+    await tracker.poll();
+
+    expect(ledger.getById(record.id).status).toBe('pending');
+  });
+});
@@ -0,0 +1,271 @@
+// tx-tracker.service.ts
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ethers } from 'ethers';
+import { AppService, RECEIPT_KINDS, confirmedReceipt } from './app.service';
+import { ChainService } from './chain.service';
+import { RelayerPoolService } from './relayer-pool.service';
+import { parseFormattedRevert, toRevertProblem } from './revert-errors';
+import {
+  PaymentLedgerService,
+  PaymentRecord,
+  TxHashReason,
+} from './payment-ledger.service';
+
+// 릴레이된 트랜잭션이 확정(채굴/리버트/드롭)될 때까지 추적
+@Injectable()
+export class TxTrackerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger('TxTrackerService');
+
+  private readonly intervalMs =
+    Number(process.env.TX_TRACKER_INTERVAL_MS) || 15_000;
+  private readonly dropAfterMs =
+    Number(process.env.TX_DROP_AFTER_MS) || 10 * 60_000;
+
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly ledger: PaymentLedgerService,
+    private readonly chain: ChainService,
+    private readonly appService: AppService,
+    private readonly relayers: RelayerPoolService,
+  ) {}
+
+  onModuleInit() {
+    // 릴레이어가 가속/취소한 경우 원장이 새 해시를 따라가도록 연결
+    this.relayers.onReplaced((e) => {
+      const updated = this.ledger.recordReplacement(
+        e.oldHash,
+        e.newHash,
+        e.reason,
+      );
+      this.logger.log(
+        `[TX_TRACKER] 교체 해시 반영(${e.reason}): ${e.oldHash} → ${e.newHash}, 결제 ${updated}건`,
+      );
+    });
+
+    this.timer = setInterval(() => void this.poll(), this.intervalMs);
+    this.logger.log(`[TX_TRACKER] 감시 시작: interval=${this.intervalMs}ms`);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // 미확정 결제 전체 점검 (중복 실행 방지)
+  async poll() {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const unsettled = this.ledger.findUnsettled();
+      if (unsettled.length > 0) {
+        this.logger.debug(
+          `[TX_TRACKER] 미확정 트랜잭션 ${unsettled.length}건 점검`,
+        );
+      }
+      for (const record of unsettled) {
+        await this.check(record);
+      }
+    } catch (e: any) {
+      this.logger.error(`[TX_TRACKER] 점검 실패: ${e?.message || e}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // 단건 점검: receipt 조회 → confirmed / reverted / dropped 반영
+  // 가속/취소로 해시가 교체된 경우 이력의 모든 해시를 확인
+  async check(record: PaymentRecord): Promise<PaymentRecord> {
+    const txHash = record.txHash!;
+    const provider = this.chain.get(record.chainId ?? undefined).provider;
+    const history = this.ledger.getTxHashes(record.id);
+    const candidates = history.length
+      ? [...history].reverse()
+      : [{ txHash, reason: 'original' as const }];
+
+    try {
+      const settled = await this.settleByReceipt(record, candidates, provider);
+      if (settled) return settled;
+
+      const tx = await provider.getTransaction(txHash);
+      // 마지막 (재)전송 기준 (가속 직후의 새 해시를 드롭 처리하지 않음)
+      const lastSent = history.length
+        ? history[history.length - 1].createdAt
+        : record.createdAt;
+      const age = Date.now() - new Date(lastSent).getTime();
+      if (!tx && age > this.dropAfterMs) {
+        if (!(await this.relayerNonceUsed(record, provider))) {
+          // nonce가 비어 있으면 아직 채굴될 수 있으므로 드롭하지 않음
+          this.logger.warn(
+            `[TX_TRACKER] 멤풀에 없지만 릴레이어 nonce 미사용, 계속 추적: ${txHash} age=${age}ms`,
+          );
+        } else {
+          // nonce를 쓴 트랜잭션이 이 결제의 해시일 수 있으므로 한 번 더 확인
+          const late = await this.settleByReceipt(record, candidates, provider);
+          if (late) return late;
+          this.logger.warn(
+            `[TX_TRACKER] 멤풀에서 사라짐(드롭): ${txHash} age=${age}ms`,
+          );
+          return (
+            this.ledger.markDropped(record.id, `not found after ${age}ms`) ??
+            this.ledger.getById(record.id)
+          );
+        }
+      }
+
+      if (record.status === 'submitted') {
+        return (
+          this.ledger.markPending(record.id, 'awaiting confirmation') ??
+          this.ledger.getById(record.id)
+        );
+      }
+    } catch (e: any) {
+      this.logger.warn(
+        `[TX_TRACKER] ${txHash} 점검 실패: ${e?.shortMessage || e?.message || e}`,
+      );
+    }
+    return record;
+  }
+
+  // 이력의 해시 중 채굴된 것이 있으면 confirmed / reverted / dropped(취소) 반영, 없으면 null
+  private async settleByReceipt(
+    record: PaymentRecord,
+    candidates: Array<{ txHash: string; reason: TxHashReason }>,
+    provider: ethers.Provider,
+  ): Promise<PaymentRecord | null> {
+    for (const candidate of candidates) {
+      const rc = await provider.getTransactionReceipt(candidate.txHash);
+      if (!rc) continue;
+
+      // 성공/리버트/취소 모두 스폰서가 가스를 부담
+      this.ledger.recordGasCost(record.id, rc.gasUsed, rc.gasPrice);
+
+      if (candidate.reason === 'cancel') {
+        this.logger.warn(
+          `[TX_TRACKER] 취소 트랜잭션 채굴: ${candidate.txHash} (원래 ${record.txHash})`,
+        );
+        return (
+          this.ledger.markDropped(
+            record.id,
+            `cancelled by relayer: ${candidate.txHash}`,
+          ) ?? this.ledger.getById(record.id)
+        );
+      }
+
+      if (rc.status === 1) {
+        this.logger.log(
+          `[TX_TRACKER] 채굴 확인: ${candidate.txHash} block=${rc.blockNumber}`,
+        );
+        const confirmed = this.ledger.markConfirmed(
+          record.id,
+          rc.blockNumber,
+          candidate.txHash,
+        );
+        // 릴레이 응답 대기(executePayment)가 먼저 확정했으면 인쇄도 그쪽에서 처리
+        if (!confirmed) return this.ledger.getById(record.id);
+        await this.printConfirmedReceipt(confirmed);
+        return confirmed;
+      }
+
+      const tx = await provider.getTransaction(candidate.txHash);
+      const reason = tx
+        ? await this.appService.readRevertReason(
+            tx,
+            rc.blockNumber,
+            record.chainId ?? undefined,
+          )
+        : null;
+      this.logger.warn(
+        `[TX_TRACKER] 리버트 확인: ${candidate.txHash} reason=${reason}`,
+      );
+      return (
+        this.ledger.markReverted(
+          record.id,
+          reason,
+          rc.blockNumber,
+          candidate.txHash,
+        ) ?? this.ledger.getById(record.id)
+      );
+    }
+    return null;
+  }
+
+  // 결제를 보낸 릴레이어 nonce가 다른 트랜잭션으로 이미 소비됐는지 (릴레이어 정보가 없으면 소비된 것으로 봄)
+  private async relayerNonceUsed(
+    record: PaymentRecord,
+    provider: ethers.Provider,
+  ): Promise<boolean> {
+    if (!record.relayerAddress || record.relayerNonce == null) return true;
+    const next = await provider.getTransactionCount(
+      record.relayerAddress,
+      'latest',
+    );
+    return next > record.relayerNonce;
+  }
+
+  // GET /payment/:txHash/status - 미확정이면 즉시 한 번 더 점검
+  async getStatus(txHash: string) {
+    const records = this.ledger.findByTxHash(txHash);
+    if (records.length === 0) {
+      throw new NotFoundException(`추적 중인 트랜잭션이 아닙니다: ${txHash}`);
+    }
+
+    const latest = await Promise.all(
+      records.map((r) =>
+        r.status === 'submitted' || r.status === 'pending' ? this.check(r) : r,
+      ),
+    );
+
+    const primary = latest[0];
+    return {
+      txHash: primary.txHash,
+      status: primary.status,
+      blockNumber: primary.blockNumber,
+      revertReason: primary.revertReason,
+      error:
+        primary.status === 'reverted'
+          ? toRevertProblem(
+              parseFormattedRevert(primary.revertReason),
+              'onchain',
+              {
+                txHash: primary.txHash ?? undefined,
+                fallbackDetail: primary.revertReason ?? undefined,
+              },
+            )
+          : null,
+      updatedAt: primary.updatedAt,
+      payments: latest.map((r) => ({
+        id: r.id,
+        kind: r.kind,
+        status: r.status,
+      })),
+    };
+  }
+
+  private async printConfirmedReceipt(record: PaymentRecord) {
+    if (!RECEIPT_KINDS.includes(record.kind)) return;
+
+    try {
+      await this.appService.printReceipt(
+        confirmedReceipt(
+          record,
+          record.refundOf
+            ? (this.ledger.findById(record.refundOf)?.txHash ?? null)
+            : null,
+        ),
+      );
+      this.logger.log(
+        `[TX_TRACKER] 확정 영수증 인쇄 요청 완료: ${record.txHash}`,
+      );
+    } catch (e: any) {
+      this.logger.warn(`[TX_TRACKER] 영수증 인쇄 실패: ${e?.message || e}`);
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { HttpException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ethers } from 'ethers';
+import { DatabaseService } from './database.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { TokenInfo, TokenRegistryService } from './token-registry.service';
+import { VelocityService } from './velocity.service';
+
+describe('VelocityService', () => {
+  let module: TestingModule;
+  let velocity: VelocityService;
+  let ledger: PaymentLedgerService;
+
+  const PAYER = '0x' + 'bb'.repeat(20);
+  const IP = '203.0.113.7';
+  const USDT = '0x' + '10'.repeat(20);
+  const USDC = '0x' + '20'.repeat(20);
+
+  // 토큰마다 decimals가 다르고 USDC는 체인 설정에 최소 금액이 있음
+  const registry: Record<string, Partial<TokenInfo>> = {
+    [`97:${USDT}`]: { address: USDT, decimals: 18, minSponsoredAmount: null },
+    [`80002:${USDC}`]: {
+      address: USDC,
+      decimals: 6,
+      minSponsoredAmount: '0.5',
+    },
+  };
+  const tokens = {
+    find: (address: string, chainId = 97) =>
+      registry[`${chainId}:${address}`] ?? null,
+    toBaseUnits: (amount: string, token: TokenInfo) =>
+      amount.includes('.')
+        ? ethers.parseUnits(amount, token.decimals!)
+        : BigInt(amount),
+    format: (amount: bigint, token: TokenInfo) =>
+      ethers.formatUnits(amount, token.decimals!),
+  };
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    process.env.VELOCITY_PAYER_MAX_PER_MINUTE = '2';
+    process.env.VELOCITY_IP_MAX_PER_DAY = '1';
+    process.env.VELOCITY_MIN_AMOUNT = '1.0';
+    module = await Test.createTestingModule({
+      providers: [
+        DatabaseService,
+        PaymentLedgerService,
+        VelocityService,
+        { provide: TokenRegistryService, useValue: tokens },
+      ],
+    }).compile();
+
+    velocity = module.get(VelocityService);
+    ledger = module.get(PaymentLedgerService);
+  });
+
+  afterEach(async () => {
+    delete process.env.VELOCITY_PAYER_MAX_PER_MINUTE;
+    delete process.env.VELOCITY_IP_MAX_PER_DAY;
+    delete process.env.VELOCITY_MIN_AMOUNT;
+    await module.close();
+  });
+
+  function codeOf(fn: () => void) {
+    try {
+      fn();
+    } catch (e) {
+      return ((e as HttpException).getResponse() as { code: string }).code;
+    }
+    return null;
+  }
+
+  it('rate-limits a payer after too many attempts in a minute', () => {
+    ledger.create({ kind: 'payment', authority: PAYER });
+    const current = ledger.create({ kind: 'payment', authority: PAYER });
+
+    expect(
+      codeOf(() =>
+        velocity.assertAllowed({
+          payer: PAYER,
+          amount: '500',
+          paymentId: current.id,
+        }),
+      ),
+    ).toBeNull();
+
+    ledger.create({ kind: 'signed', authority: PAYER });
+    expect(
+      codeOf(() =>
+        velocity.assertAllowed({
+          payer: PAYER,
+          amount: '500',
+          paymentId: current.id,
+        }),
+      ),
+    ).toBe('RATE_LIMITED');
+  });
+
+  it('caps sponsored transactions per IP', () => {
+    const sent = ledger.create({ kind: 'payment', clientIp: IP });
+    expect(codeOf(() => velocity.assertIpAllowed(IP))).toBeNull();
+
+    ledger.markSubmitted(sent.id, '0x' + '01'.repeat(32));
+    expect(codeOf(() => velocity.assertIpAllowed(IP))).toBe(
+      'VELOCITY_EXCEEDED',
+    );
+    expect(codeOf(() => velocity.assertIpAllowed('127.0.0.1'))).toBeNull();
+  });
+
+  it('rejects amounts below the minimum of each token', () => {
+    // USDT(18): VELOCITY_MIN_AMOUNT 1.0 → 10^18 기본 단위
+    expect(
+      codeOf(() =>
+        velocity.assertAllowed({ amount: 10n ** 18n - 1n, token: USDT }),
+      ),
+    ).toBe('VELOCITY_EXCEEDED');
+    expect(
+      codeOf(() => velocity.assertAllowed({ amount: 10n ** 18n, token: USDT })),
+    ).toBeNull();
+
+    // USDC(6): 체인 설정의 0.5 → 500000 기본 단위
+    expect(() =>
+      velocity.assertAllowed({ amount: '499999', token: USDC, chainId: 80002 }),
+    ).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({
+          rule: 'min_amount',
+          token: USDC,
+          minAmount: '500000',
+          minAmountFormatted: '0.5',
+        }),
+      }),
+    );
+    expect(
+      codeOf(() =>
+        velocity.assertAllowed({
+          amount: '500000',
+          token: USDC,
+          chainId: 80002,
+        }),
+      ),
+    ).toBeNull();
+
+    // 등록되지 않은 토큰은 이후 UNSUPPORTED_TOKEN으로 거절되므로 여기서는 통과
+    expect(
+      codeOf(() => velocity.assertAllowed({ amount: '1', token: USDC })),
+    ).toBeNull();
+  });
+});
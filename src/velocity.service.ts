@@ -0,0 +1,189 @@
+// velocity.service.ts
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { TokenRegistryService } from './token-registry.service';
+
+export interface VelocityContext {
+  payer?: string | null;
+  clientIp?: string | null;
+  // 기본 단위 금액, 최소 금액은 token / chainId의 토큰 기준
+  amount?: string | number | bigint | null;
+  token?: string | null;
+  chainId?: number;
+  // 지금 처리 중인 원장 레코드 (집계에서 제외)
+  paymentId?: string;
+}
+
+type VelocityScope = 'payer' | 'ip';
+
+// 릴레이를 실제로 일으키는 결제 종류 (gasless는 내부적으로 /payment를 다시 호출)
+const RELAY_KINDS = ['payment', 'signed', 'fallback', 'revoke', 'migrate'];
+
+// 로컬 호출(client.ts 등)은 IP 제한에서 제외
+const DEFAULT_IP_EXEMPT = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+/**
+ * 스폰서 결제 속도 제한.
+ * - 분당 요청 수 초과 → RATE_LIMITED (429)
+ * - 일일 스폰서 트랜잭션 수 초과 / 최소 금액 미달 → VELOCITY_EXCEEDED
+ * 한도 값이 설정되지 않은 규칙은 검사하지 않음.
+ *
+ * 최소 금액은 토큰마다 decimals가 다르므로 토큰별로 환산한다.
+ * 체인 설정 tokens[].minSponsoredAmount가 있으면 그 값을, 없으면 VELOCITY_MIN_AMOUNT를 쓰며
+ * 형식은 결제 금액과 같음 ("0.5" / "1.0"은 토큰 단위, 소수점 없는 값은 기본 단위).
+ */
+@Injectable()
+export class VelocityService {
+  private readonly logger = new Logger('VelocityService');
+
+  private readonly rules = {
+    payer: {
+      perMinute: this.num('VELOCITY_PAYER_MAX_PER_MINUTE'),
+      perDay: this.num('VELOCITY_PAYER_MAX_PER_DAY'),
+    },
+    ip: {
+      perMinute: this.num('VELOCITY_IP_MAX_PER_MINUTE'),
+      perDay: this.num('VELOCITY_IP_MAX_PER_DAY'),
+    },
+  };
+  private readonly minAmount = process.env.VELOCITY_MIN_AMOUNT || null;
+  private readonly ipExempt = process.env.VELOCITY_IP_EXEMPT
+    ? process.env.VELOCITY_IP_EXEMPT.split(',').map((s) => s.trim())
+    : DEFAULT_IP_EXEMPT;
+
+  constructor(
+    private readonly database: DatabaseService,
+    private readonly tokens: TokenRegistryService,
+  ) {}
+
+  private num(key: string): number | null {
+    const v = Number(process.env[key]);
+    return Number.isFinite(v) && v > 0 ? v : null;
+  }
+
+  private count(
+    scope: VelocityScope,
+    value: string,
+    since: string,
+    opts: { sponsoredOnly: boolean; excludeId?: string },
+  ): number {
+    const column = scope === 'payer' ? 'authority' : 'client_ip';
+    const where = [
+      `${column} = @value`,
+      'created_at >= @since',
+      'id != @excludeId',
+    ];
+    // 분당 제한은 모든 시도를, 일일 제한은 실제 전송된 트랜잭션만 셈
+    if (opts.sponsoredOnly) where.push('tx_hash IS NOT NULL');
+    // IP는 gasless 요청도 집계 (내부 재호출은 로컬 IP라 제외됨)
+    if (scope === 'payer') {
+      where.push(`kind IN (${RELAY_KINDS.map((k) => `'${k}'`).join(', ')})`);
+    }
+
+    const row = this.database.db
+      .prepare(
+        `SELECT COUNT(*) AS n FROM payments WHERE ${where.join(' AND ')}`,
+      )
+      .get({ value, since, excludeId: opts.excludeId ?? '' }) as { n: number };
+    return row.n;
+  }
+
+  private checkScope(scope: VelocityScope, value: string, excludeId?: string) {
+    const rule = this.rules[scope];
+    const now = Date.now();
+
+    if (rule.perMinute) {
+      const since = new Date(now - 60_000).toISOString();
+      const n = this.count(scope, value, since, {
+        sponsoredOnly: false,
+        excludeId,
+      });
+      if (n >= rule.perMinute) {
+        this.logger.warn(
+          `[VELOCITY] 분당 한도 초과: ${scope}=${value} count=${n} limit=${rule.perMinute}`,
+        );
+        throw new HttpException(
+          {
+            code: 'RATE_LIMITED',
+            message: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.',
+            scope,
+            rule: 'per_minute',
+            limit: rule.perMinute,
+            retryAfterSeconds: 60,
+          },
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
+    if (rule.perDay) {
+      const since = new Date(now - 24 * 3600_000).toISOString();
+      const n = this.count(scope, value, since, {
+        sponsoredOnly: true,
+        excludeId,
+      });
+      if (n >= rule.perDay) {
+        this.logger.warn(
+          `[VELOCITY] 일일 스폰서 한도 초과: ${scope}=${value} count=${n} limit=${rule.perDay}`,
+        );
+        throw new HttpException(
+          {
+            code: 'VELOCITY_EXCEEDED',
+            message: '하루 스폰서 결제 한도를 초과했습니다.',
+            scope,
+            rule: 'per_day',
+            limit: rule.perDay,
+          },
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+  }
+
+  // IP 단위 검사만 (gasless처럼 결제자를 아직 모르는 요청용)
+  assertIpAllowed(clientIp?: string | null, paymentId?: string) {
+    if (!clientIp || this.ipExempt.includes(clientIp)) return;
+    this.checkScope('ip', clientIp, paymentId);
+  }
+
+  // 토큰의 최소 금액 (기본 단위), 등록되지 않은 토큰은 이후 UNSUPPORTED_TOKEN으로 거절되므로 검사하지 않음
+  private minAmountOf(token?: string | null, chainId?: number) {
+    const info = this.tokens.find(token, chainId);
+    const min = info?.minSponsoredAmount ?? this.minAmount;
+    if (!info || !min) return null;
+    return { token: info, min: this.tokens.toBaseUnits(min, info) };
+  }
+
+  assertAllowed(ctx: VelocityContext) {
+    const rule =
+      ctx.amount != null ? this.minAmountOf(ctx.token, ctx.chainId) : null;
+    if (rule) {
+      const amount = BigInt(String(ctx.amount));
+      if (amount < rule.min) {
+        this.logger.warn(
+          `[VELOCITY] 최소 금액 미달: token=${rule.token.address} amount=${amount} min=${rule.min}`,
+        );
+        throw new BadRequestException({
+          code: 'VELOCITY_EXCEEDED',
+          message: '스폰서 결제 최소 금액보다 작습니다.',
+          scope: 'amount',
+          rule: 'min_amount',
+          token: rule.token.address,
+          minAmount: rule.min.toString(),
+          minAmountFormatted: this.tokens.format(rule.min, rule.token),
+        });
+      }
+    }
+
+    if (ctx.payer) {
+      this.checkScope('payer', ctx.payer.toLowerCase(), ctx.paymentId);
+    }
+    this.assertIpAllowed(ctx.clientIp, ctx.paymentId);
+  }
+}
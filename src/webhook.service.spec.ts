@@ -0,0 +1,237 @@
+import dns from 'dns';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { DatabaseService } from './database.service';
+import { MerchantService } from './merchant.service';
+import { PaymentEventsService } from './payment-events.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { WebhookService, signWebhookPayload } from './webhook.service';
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookService', () => {
+  const SHOP = '0x2222222222222222222222222222222222222222';
+  const OTHER = '0x4444444444444444444444444444444444444444';
+
+  let database: DatabaseService;
+  let merchants: MerchantService;
+  let ledger: PaymentLedgerService;
+  let webhooks: WebhookService;
+  let server: http.Server;
+  let url: string;
+  let received: Received[];
+  // 수신 측 응답 코드 (순서대로 소비, 비면 200)
+  let responses: number[];
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    process.env.WEBHOOK_RETRY_BASE_MS = '1';
+    process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+    // 테스트 수신 서버는 루프백
+    process.env.WEBHOOK_ALLOWED_HOSTS = '127.0.0.1';
+    database = new DatabaseService();
+    merchants = new MerchantService(database);
+    ledger = new PaymentLedgerService(database);
+    webhooks = new WebhookService(
+      database,
+      new PaymentEventsService(ledger, merchants),
+    );
+
+    received = [];
+    responses = [];
+    // 가맹점 주문 시스템 대역
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end('ok');
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterEach(async () => {
+    webhooks.onModuleDestroy();
+    await new Promise((resolve) => server.close(resolve));
+    database.onModuleDestroy();
+    delete process.env.WEBHOOK_RETRY_BASE_MS;
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+    delete process.env.WEBHOOK_ALLOWED_HOSTS;
+    jest.restoreAllMocks();
+  });
+
+  const code = (code: string) =>
+    expect.objectContaining({
+      response: expect.objectContaining({ code }),
+    });
+
+  const waitFor = async (check: () => boolean) => {
+    for (let i = 0; i < 200 && !check(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(check()).toBe(true);
+  };
+
+  it('signs test pings with the endpoint secret', async () => {
+    const cafe = merchants.create({ name: '카페', payoutAddresses: [SHOP] });
+    const other = merchants.create({
+      name: '다른 가게',
+      payoutAddresses: [OTHER],
+    });
+
+    expect(() =>
+      webhooks.createEndpoint(cafe.id, { url: 'ftp://example.com' }),
+    ).toThrow(code('INVALID_WEBHOOK_URL'));
+    expect(() =>
+      webhooks.createEndpoint(cafe.id, {
+        url,
+        events: ['payment.unknown' as never],
+      }),
+    ).toThrow(code('INVALID_WEBHOOK_EVENTS'));
+
+    const { endpoint, secret } = webhooks.createEndpoint(cafe.id, { url });
+    expect(endpoint.events).toHaveLength(4);
+    expect(JSON.stringify(webhooks.listEndpoints(cafe.id))).not.toContain(
+      secret,
+    );
+
+    const delivery = await webhooks.ping(cafe.id, endpoint.id);
+    expect(delivery).toMatchObject({
+      eventType: 'webhook.ping',
+      status: 'succeeded',
+      attemptCount: 1,
+      attempts: [expect.objectContaining({ statusCode: 200 })],
+    });
+
+    // 수신 측 검증: t=<timestamp>,v1=<HMAC-SHA256(secret, `${t}.${body}`)>
+    const [{ headers, body }] = received;
+    const [, t, v1] = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(
+      String(headers['x-webhook-signature']),
+    )!;
+    expect(v1).toBe(signWebhookPayload(secret, Number(t), body));
+    expect(headers['x-webhook-event']).toBe('webhook.ping');
+    expect(JSON.parse(body)).toMatchObject({
+      type: 'webhook.ping',
+      merchantId: cafe.id,
+    });
+
+    // 비밀키 교체 후에는 이전 키 서명이 맞지 않음
+    const rotated = webhooks.rotateSecret(cafe.id, endpoint.id).secret;
+    await webhooks.ping(cafe.id, endpoint.id);
+    const last = received[received.length - 1];
+    const [, t2, v2] = /^t=(\d+),v1=(\w+)$/.exec(
+      String(last.headers['x-webhook-signature']),
+    )!;
+    expect(v2).toBe(signWebhookPayload(rotated, Number(t2), last.body));
+    expect(v2).not.toBe(signWebhookPayload(secret, Number(t2), last.body));
+
+    // 다른 가맹점의 엔드포인트 / 전송 기록은 보이지 않음
+    await expect(webhooks.ping(other.id, endpoint.id)).rejects.toEqual(
+      code('WEBHOOK_NOT_FOUND'),
+    );
+    expect(() => webhooks.getDelivery(other.id, delivery.id)).toThrow(
+      code('WEBHOOK_DELIVERY_NOT_FOUND'),
+    );
+    expect(webhooks.listDeliveries(other.id)).toEqual([]);
+  });
+
+  it('delivers payment events with retries and manual redelivery', async () => {
+    const cafe = merchants.create({ name: '카페', payoutAddresses: [SHOP] });
+    const { endpoint } = webhooks.createEndpoint(cafe.id, {
+      url,
+      events: ['payment.confirmed'],
+    });
+
+    // 첫 시도는 500 → 지수 백오프 후 재시도에서 성공
+    responses = [500];
+    const payment = ledger.create({
+      kind: 'signed',
+      to: SHOP,
+      amount: '2500000',
+    });
+    ledger.markSubmitted(payment.id, '0x' + 'ab'.repeat(32));
+    ledger.markConfirmed(payment.id, 123);
+
+    const [pending] = webhooks.listDeliveries(cafe.id);
+    expect(pending).toMatchObject({
+      endpointId: endpoint.id,
+      eventType: 'payment.confirmed',
+    });
+    await waitFor(
+      () => webhooks.getDelivery(cafe.id, pending.id).attemptCount === 1,
+    );
+    expect(webhooks.getDelivery(cafe.id, pending.id)).toMatchObject({
+      status: 'pending',
+      lastStatusCode: 500,
+      nextAttemptAt: expect.any(String),
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await webhooks.retryDue();
+    const delivered = webhooks.getDelivery(cafe.id, pending.id);
+    expect(delivered).toMatchObject({
+      status: 'succeeded',
+      attemptCount: 2,
+      attempts: [
+        expect.objectContaining({ attempt: 1, statusCode: 500 }),
+        expect.objectContaining({ attempt: 2, statusCode: 200 }),
+      ],
+    });
+    expect(JSON.parse(received[1].body)).toMatchObject({
+      type: 'payment.confirmed',
+      data: { paymentId: payment.id, status: 'confirmed', blockNumber: 123 },
+    });
+    expect(webhooks.backoffMs(1)).toBe(1);
+    expect(webhooks.backoffMs(4)).toBe(8);
+
+    // 구독하지 않은 이벤트는 전송하지 않음
+    const failed = ledger.create({ kind: 'signed', to: SHOP });
+    ledger.markFailed(failed.id, 'boom');
+    expect(webhooks.listDeliveries(cafe.id)).toHaveLength(1);
+
+    // 수동 재전송은 같은 전송 건에 시도를 추가
+    const redelivered = await webhooks.redeliver(cafe.id, pending.id);
+    expect(redelivered).toMatchObject({ status: 'succeeded', attemptCount: 3 });
+    expect(received).toHaveLength(3);
+    expect(received[2].headers['x-webhook-id']).toBe(pending.id);
+  });
+
+  it('refuses internal targets at registration and after DNS resolution', async () => {
+    const cafe = merchants.create({ name: '카페', payoutAddresses: [SHOP] });
+    for (const internal of [
+      'http://localhost:8080/hooks',
+      'http://10.0.0.5/hooks',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]/hooks',
+      'http://[::ffff:127.0.0.1]/hooks',
+    ]) {
+      expect(() => webhooks.createEndpoint(cafe.id, { url: internal })).toThrow(
+        code('INVALID_WEBHOOK_URL'),
+      );
+    }
+
+    // 공개 호스트 이름이라도 전송 시 내부 주소로 해석되면 연결하지 않음
+    jest
+      .spyOn(dns, 'lookup')
+      .mockImplementation(((
+        _host: string,
+        _options: object,
+        cb: (err: null, addresses: dns.LookupAddress[]) => void,
+      ) => cb(null, [{ address: '192.168.0.10', family: 4 }])) as never);
+    const { endpoint } = webhooks.createEndpoint(cafe.id, {
+      url: 'http://hooks.example.com/payments',
+    });
+    const delivery = await webhooks.ping(cafe.id, endpoint.id);
+    expect(delivery.status).toBe('failed');
+    expect(delivery.lastError).toContain('WEBHOOK_TARGET_BLOCKED');
+    expect(received).toHaveLength(0);
+  });
+});
@@ -0,0 +1,828 @@
+// webhook.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import axios, { LookupAddressEntry } from 'axios';
+import { createHmac, randomBytes } from 'crypto';
+import * as dns from 'dns';
+import { BlockList, isIP } from 'net';
+import { Subscription } from 'rxjs';
+import { DatabaseService } from './database.service';
+import {
+  PAYMENT_EVENT_TYPES,
+  PaymentEvent,
+  PaymentEventType,
+  PaymentEventsService,
+} from './payment-events.service';
+
+// 테스트 핑은 구독 이벤트와 무관하게 보냄
+export type WebhookEventType = PaymentEventType | 'webhook.ping';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookEndpoint {
+  id: string;
+  merchantId: string;
+  url: string;
+  description: string | null;
+  events: PaymentEventType[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookEndpointInput {
+  url?: string;
+  description?: string | null;
+  // 생략 시 전체 이벤트 구독
+  events?: PaymentEventType[];
+  enabled?: boolean;
+}
+
+export interface WebhookAttempt {
+  attempt: number;
+  statusCode: number | null;
+  error: string | null;
+  // 응답 본문 앞부분 (디버깅용)
+  responseBody: string | null;
+  durationMs: number;
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  merchantId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attemptCount: number;
+  nextAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  attempts?: WebhookAttempt[];
+}
+
+export interface WebhookDeliveryQuery {
+  endpointId?: string;
+  status?: WebhookDeliveryStatus;
+  eventType?: string;
+  limit?: number;
+}
+
+interface EndpointRow {
+  id: string;
+  merchant_id: string;
+  url: string;
+  secret: string;
+  description: string | null;
+  events: string;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DeliveryRow {
+  id: string;
+  endpoint_id: string;
+  merchant_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AttemptRow {
+  attempt: number;
+  status_code: number | null;
+  error: string | null;
+  response_body: string | null;
+  duration_ms: number;
+  created_at: string;
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+// 웹훅으로 보낼 수 없는 주소 (루프백 / 사설망 / 링크 로컬 등 내부망)
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [net, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(net, prefix, 'ipv4');
+}
+for (const [net, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(net, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string) {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1)는 IPv4 규칙으로
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const ip = mapped ? mapped[1] : address;
+  const family = isIP(ip);
+  if (!family) return false;
+  return BLOCKED_ADDRESSES.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * 수신 측 검증용 서명: HMAC-SHA256(secret, `${timestamp}.${body}`) hex.
+ * 헤더 형식은 `t=<unix 초>,v1=<서명>` — 타임스탬프가 오래된 요청은 수신 측에서 거절 (재전송 공격 방지).
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+) {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+/**
+ * 가맹점 웹훅.
+ * 가맹점이 등록한 엔드포인트로 결제 / 영수증 이벤트를 HMAC 서명해 POST하고,
+ * 2xx가 아니면 지수 백오프(WEBHOOK_RETRY_BASE_MS × 2^(n-1), 최대 WEBHOOK_RETRY_MAX_DELAY_MS)로
+ * WEBHOOK_MAX_ATTEMPTS회까지 재시도한다. 전송 / 시도 이력은 SQLite에 남김 (수동 재전송 / 테스트 핑 포함).
+ * 서명 비밀키는 HMAC 계산에 원문이 필요하므로 그대로 저장하고, 생성 / 교체 응답에서만 내보낸다.
+ */
+@Injectable()
+export class WebhookService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger('WebhookService');
+
+  private readonly maxAttempts = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+  private readonly retryBaseMs =
+    Number(process.env.WEBHOOK_RETRY_BASE_MS) || 30_000;
+  private readonly retryMaxDelayMs =
+    Number(process.env.WEBHOOK_RETRY_MAX_DELAY_MS) || 60 * 60_000;
+  private readonly timeoutMs = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10_000;
+  private readonly intervalMs =
+    Number(process.env.WEBHOOK_RETRY_INTERVAL_MS) || 5_000;
+  // 내부망 주소라도 허용할 호스트 (로컬 개발 / 사내 수신 서버)
+  private readonly allowedHosts = (process.env.WEBHOOK_ALLOWED_HOSTS ?? '')
+    .split(',')
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+
+  private timer: NodeJS.Timeout | null = null;
+  private retrying = false;
+  private subscription: Subscription;
+  // 전송 중인 delivery (같은 건 동시 전송 방지)
+  private readonly inFlight = new Map<string, Promise<WebhookDelivery>>();
+
+  constructor(
+    private readonly database: DatabaseService,
+    private readonly events: PaymentEventsService,
+  ) {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_endpoints (
+        id          TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL REFERENCES merchants (id),
+        url         TEXT NOT NULL,
+        secret      TEXT NOT NULL,
+        description TEXT,
+        events      TEXT NOT NULL,
+        enabled     INTEGER NOT NULL DEFAULT 1,
+        created_at  TEXT NOT NULL,
+        updated_at  TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id               TEXT PRIMARY KEY,
+        endpoint_id      TEXT NOT NULL REFERENCES webhook_endpoints (id) ON DELETE CASCADE,
+        merchant_id      TEXT NOT NULL,
+        event_id         TEXT NOT NULL,
+        event_type       TEXT NOT NULL,
+        payload          TEXT NOT NULL,
+        status           TEXT NOT NULL,
+        attempt_count    INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at  TEXT,
+        last_status_code INTEGER,
+        last_error       TEXT,
+        created_at       TEXT NOT NULL,
+        updated_at       TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS webhook_attempts (
+        delivery_id   TEXT NOT NULL REFERENCES webhook_deliveries (id) ON DELETE CASCADE,
+        attempt       INTEGER NOT NULL,
+        status_code   INTEGER,
+        error         TEXT,
+        response_body TEXT,
+        duration_ms   INTEGER NOT NULL,
+        created_at    TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_merchant  ON webhook_endpoints (merchant_id);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_merchant ON webhook_deliveries (merchant_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due      ON webhook_deliveries (status, next_attempt_at);
+      CREATE INDEX IF NOT EXISTS idx_webhook_attempts_delivery   ON webhook_attempts (delivery_id);
+    `);
+
+    this.subscription = this.events.events$.subscribe((event) => {
+      try {
+        this.enqueue(event);
+      } catch (e: any) {
+        this.logger.error(
+          `[WEBHOOK] 이벤트 전송 등록 실패: ${event.type} ${e?.message || e}`,
+        );
+      }
+    });
+  }
+
+  onModuleInit() {
+    this.timer = setInterval(() => void this.retryDue(), this.intervalMs);
+    this.logger.log(
+      `[WEBHOOK] 재시도 감시 시작: interval=${this.intervalMs}ms, maxAttempts=${this.maxAttempts}`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.subscription.unsubscribe();
+  }
+
+  private newId(prefix: string) {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+
+  private newSecret() {
+    return `whsec_${randomBytes(24).toString('base64url')}`;
+  }
+
+  private toEndpoint(row: EndpointRow): WebhookEndpoint {
+    return {
+      id: row.id,
+      merchantId: row.merchant_id,
+      url: row.url,
+      description: row.description,
+      events: JSON.parse(row.events) as PaymentEventType[],
+      enabled: row.enabled === 1,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private toDelivery(row: DeliveryRow): WebhookDelivery {
+    return {
+      id: row.id,
+      endpointId: row.endpoint_id,
+      merchantId: row.merchant_id,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      payload: row.payload,
+      status: row.status,
+      attemptCount: row.attempt_count,
+      nextAttemptAt: row.next_attempt_at,
+      lastStatusCode: row.last_status_code,
+      lastError: row.last_error,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private normalizeUrl(url: unknown): string {
+    const raw = typeof url === 'string' ? url : '';
+    let parsed: URL | null = null;
+    try {
+      parsed = new URL(raw);
+    } catch {
+      // 형식 오류
+    }
+    if (!parsed || !['http:', 'https:'].includes(parsed.protocol)) {
+      throw new BadRequestException({
+        code: 'INVALID_WEBHOOK_URL',
+        message: `웹훅 URL은 http(s) 주소여야 합니다: ${raw}`,
+      });
+    }
+    // IP 주소는 등록 시 거절, 호스트 이름은 전송 시 해석한 주소로 확인
+    if (this.isBlockedHost(parsed.hostname)) {
+      throw new BadRequestException({
+        code: 'INVALID_WEBHOOK_URL',
+        message: `내부망 주소로는 웹훅을 보낼 수 없습니다: ${raw}`,
+      });
+    }
+    return parsed.toString();
+  }
+
+  private hostOf(hostname: string) {
+    return hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  }
+
+  private isBlockedHost(hostname: string) {
+    const host = this.hostOf(hostname);
+    return (
+      !this.allowedHosts.includes(host) &&
+      (host === 'localhost' || isBlockedAddress(host))
+    );
+  }
+
+  /**
+   * 전송용 DNS 조회: 해석한 주소가 내부망이면 연결 전에 거절.
+   * 실제 연결에 쓰는 주소를 검사하므로 등록 후 DNS를 바꿔도 우회할 수 없다.
+   */
+  private guardedLookup(allowed: boolean) {
+    return (
+      hostname: string,
+      options: object,
+      cb: (err: Error | null, addresses: LookupAddressEntry[]) => void,
+    ) => {
+      dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) return cb(err, []);
+        const blocked = addresses.find((a) => isBlockedAddress(a.address));
+        if (!allowed && blocked) {
+          return cb(
+            new Error(
+              `WEBHOOK_TARGET_BLOCKED: ${hostname} → ${blocked.address}`,
+            ),
+            [],
+          );
+        }
+        cb(
+          null,
+          addresses.map((a) => ({
+            address: a.address,
+            family: a.family === 6 ? 6 : 4,
+          })),
+        );
+      });
+    };
+  }
+
+  private normalizeEvents(events: unknown): PaymentEventType[] {
+    if (events === undefined) return [...PAYMENT_EVENT_TYPES];
+    if (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      events.some((e) => !PAYMENT_EVENT_TYPES.includes(e as PaymentEventType))
+    ) {
+      throw new BadRequestException({
+        code: 'INVALID_WEBHOOK_EVENTS',
+        message: `구독 이벤트는 ${PAYMENT_EVENT_TYPES.join(' | ')} 중 하나 이상이어야 합니다.`,
+        supported: PAYMENT_EVENT_TYPES,
+      });
+    }
+    return [...new Set(events as PaymentEventType[])];
+  }
+
+  private endpointRow(merchantId: string, id: string): EndpointRow {
+    const row = this.database.db
+      .prepare(
+        'SELECT * FROM webhook_endpoints WHERE id = ? AND merchant_id = ?',
+      )
+      .get(id, merchantId) as EndpointRow | undefined;
+    if (!row) {
+      throw new NotFoundException({
+        code: 'WEBHOOK_NOT_FOUND',
+        message: `웹훅 엔드포인트를 찾을 수 없습니다: ${id}`,
+      });
+    }
+    return row;
+  }
+
+  // 엔드포인트 등록 (서명 비밀키는 이 응답에서만 확인 가능)
+  createEndpoint(merchantId: string, input: WebhookEndpointInput) {
+    const url = this.normalizeUrl(input?.url);
+    const events = this.normalizeEvents(input?.events);
+    const id = this.newId('whk');
+    const secret = this.newSecret();
+    const now = new Date().toISOString();
+    this.database.db
+      .prepare(
+        `INSERT INTO webhook_endpoints (
+          id, merchant_id, url, secret, description, events, enabled, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        id,
+        merchantId,
+        url,
+        secret,
+        input?.description ?? null,
+        JSON.stringify(events),
+        input?.enabled === false ? 0 : 1,
+        now,
+        now,
+      );
+    this.logger.log(
+      `[WEBHOOK] 엔드포인트 등록: id=${id} merchant=${merchantId} url=${url} events=${events.join(',')}`,
+    );
+    return { endpoint: this.getEndpoint(merchantId, id), secret };
+  }
+
+  updateEndpoint(
+    merchantId: string,
+    id: string,
+    input: WebhookEndpointInput,
+  ): WebhookEndpoint {
+    const current = this.toEndpoint(this.endpointRow(merchantId, id));
+    const url =
+      input?.url !== undefined ? this.normalizeUrl(input.url) : current.url;
+    const events =
+      input?.events !== undefined
+        ? this.normalizeEvents(input.events)
+        : current.events;
+    this.database.db
+      .prepare(
+        `UPDATE webhook_endpoints
+            SET url = ?, description = ?, events = ?, enabled = ?, updated_at = ?
+          WHERE id = ?`,
+      )
+      .run(
+        url,
+        input?.description !== undefined
+          ? input.description
+          : current.description,
+        JSON.stringify(events),
+        (input?.enabled ?? current.enabled) ? 1 : 0,
+        new Date().toISOString(),
+        id,
+      );
+    this.logger.log(`[WEBHOOK] 엔드포인트 수정: id=${id}`);
+    return this.getEndpoint(merchantId, id);
+  }
+
+  // 비밀키 교체 (이전 키로 서명된 재시도 건도 다음 시도부터 새 키 사용)
+  rotateSecret(merchantId: string, id: string) {
+    this.endpointRow(merchantId, id);
+    const secret = this.newSecret();
+    this.database.db
+      .prepare(
+        'UPDATE webhook_endpoints SET secret = ?, updated_at = ? WHERE id = ?',
+      )
+      .run(secret, new Date().toISOString(), id);
+    this.logger.log(`[WEBHOOK] 비밀키 교체: id=${id}`);
+    return { endpoint: this.getEndpoint(merchantId, id), secret };
+  }
+
+  // 엔드포인트 삭제 (전송 이력도 함께 삭제)
+  deleteEndpoint(merchantId: string, id: string): WebhookEndpoint {
+    const endpoint = this.toEndpoint(this.endpointRow(merchantId, id));
+    this.database.db
+      .prepare('DELETE FROM webhook_endpoints WHERE id = ?')
+      .run(id);
+    this.logger.log(`[WEBHOOK] 엔드포인트 삭제: id=${id}`);
+    return endpoint;
+  }
+
+  getEndpoint(merchantId: string, id: string): WebhookEndpoint {
+    return this.toEndpoint(this.endpointRow(merchantId, id));
+  }
+
+  listEndpoints(merchantId: string): WebhookEndpoint[] {
+    const rows = this.database.db
+      .prepare(
+        'SELECT * FROM webhook_endpoints WHERE merchant_id = ? ORDER BY created_at',
+      )
+      .all(merchantId) as EndpointRow[];
+    return rows.map((r) => this.toEndpoint(r));
+  }
+
+  // 이벤트를 구독 중인 엔드포인트마다 전송 건 생성 후 바로 1차 전송
+  enqueue(event: PaymentEvent): WebhookDelivery[] {
+    if (!event.merchantId) return [];
+    const endpoints = this.listEndpoints(event.merchantId).filter(
+      (e) => e.enabled && e.events.includes(event.type),
+    );
+    const deliveries = endpoints.map((endpoint) =>
+      this.createDelivery(endpoint, event),
+    );
+    for (const delivery of deliveries) {
+      this.deliver(delivery.id).catch((e: any) =>
+        this.logger.error(
+          `[WEBHOOK] 전송 처리 실패: delivery=${delivery.id} ${e?.message || e}`,
+        ),
+      );
+    }
+    return deliveries;
+  }
+
+  private createDelivery(
+    endpoint: WebhookEndpoint,
+    event: Pick<PaymentEvent, 'id' | 'merchantId' | 'createdAt' | 'data'> & {
+      type: WebhookEventType;
+    },
+  ): WebhookDelivery {
+    const id = this.newId('whd');
+    const now = new Date().toISOString();
+    const payload = JSON.stringify({
+      id: event.id,
+      type: event.type,
+      createdAt: event.createdAt,
+      merchantId: event.merchantId,
+      data: event.data,
+    });
+    this.database.db
+      .prepare(
+        `INSERT INTO webhook_deliveries (
+          id, endpoint_id, merchant_id, event_id, event_type, payload,
+          status, attempt_count, next_attempt_at, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?, ?)`,
+      )
+      .run(
+        id,
+        endpoint.id,
+        endpoint.merchantId,
+        event.id,
+        event.type,
+        payload,
+        now,
+        now,
+        now,
+      );
+    return this.getDeliveryRow(id);
+  }
+
+  private getDeliveryRow(id: string): WebhookDelivery {
+    const row = this.database.db
+      .prepare('SELECT * FROM webhook_deliveries WHERE id = ?')
+      .get(id) as DeliveryRow | undefined;
+    if (!row) {
+      throw new NotFoundException({
+        code: 'WEBHOOK_DELIVERY_NOT_FOUND',
+        message: `웹훅 전송 기록을 찾을 수 없습니다: ${id}`,
+      });
+    }
+    return this.toDelivery(row);
+  }
+
+  // 전송 기록 + 시도 이력 (다른 가맹점 기록은 404)
+  getDelivery(merchantId: string, id: string): WebhookDelivery {
+    const delivery = this.getDeliveryRow(id);
+    if (delivery.merchantId !== merchantId) {
+      throw new NotFoundException({
+        code: 'WEBHOOK_DELIVERY_NOT_FOUND',
+        message: `웹훅 전송 기록을 찾을 수 없습니다: ${id}`,
+      });
+    }
+    const attempts = this.database.db
+      .prepare(
+        'SELECT * FROM webhook_attempts WHERE delivery_id = ? ORDER BY attempt',
+      )
+      .all(id) as AttemptRow[];
+    return {
+      ...delivery,
+      attempts: attempts.map((a) => ({
+        attempt: a.attempt,
+        statusCode: a.status_code,
+        error: a.error,
+        responseBody: a.response_body,
+        durationMs: a.duration_ms,
+        createdAt: a.created_at,
+      })),
+    };
+  }
+
+  listDeliveries(
+    merchantId: string,
+    query: WebhookDeliveryQuery = {},
+  ): WebhookDelivery[] {
+    const where = ['merchant_id = ?'];
+    const params: Array<string | number> = [merchantId];
+    if (query.endpointId) {
+      where.push('endpoint_id = ?');
+      params.push(query.endpointId);
+    }
+    if (query.status) {
+      where.push('status = ?');
+      params.push(query.status);
+    }
+    if (query.eventType) {
+      where.push('event_type = ?');
+      params.push(query.eventType);
+    }
+    const limit = Math.min(Math.max(Number(query.limit) || 50, 1), 200);
+    const rows = this.database.db
+      .prepare(
+        `SELECT * FROM webhook_deliveries WHERE ${where.join(' AND ')}
+          ORDER BY created_at DESC LIMIT ${limit}`,
+      )
+      .all(...params) as DeliveryRow[];
+    return rows.map((r) => this.toDelivery(r));
+  }
+
+  // 수동 재전송: 상태와 무관하게 즉시 1회 전송 (실패해도 자동 재시도하지 않음)
+  async redeliver(merchantId: string, id: string): Promise<WebhookDelivery> {
+    this.getDelivery(merchantId, id);
+    if (this.inFlight.has(id)) {
+      throw new ConflictException({
+        code: 'WEBHOOK_DELIVERY_IN_PROGRESS',
+        message: `전송 중인 웹훅입니다: ${id}`,
+      });
+    }
+    this.logger.log(`[WEBHOOK] 수동 재전송: delivery=${id}`);
+    await this.deliver(id, { retry: false });
+    return this.getDelivery(merchantId, id);
+  }
+
+  // 테스트 핑: webhook.ping 이벤트를 즉시 1회 전송하고 결과 반환 (비활성 엔드포인트도 가능)
+  async ping(merchantId: string, endpointId: string): Promise<WebhookDelivery> {
+    const endpoint = this.getEndpoint(merchantId, endpointId);
+    const delivery = this.createDelivery(endpoint, {
+      id: this.newId('evt'),
+      type: 'webhook.ping',
+      merchantId,
+      createdAt: new Date().toISOString(),
+      data: { endpointId, message: '웹훅 연결 테스트' },
+    });
+    this.logger.log(
+      `[WEBHOOK] 테스트 핑: endpoint=${endpointId} delivery=${delivery.id}`,
+    );
+    await this.deliver(delivery.id, { retry: false, force: true });
+    return this.getDelivery(merchantId, delivery.id);
+  }
+
+  // 재시도 시각이 된 전송 건 처리 (중복 실행 방지)
+  async retryDue() {
+    if (this.retrying) return;
+    this.retrying = true;
+    try {
+      const due = this.database.db
+        .prepare(
+          `SELECT id FROM webhook_deliveries
+            WHERE status = 'pending' AND next_attempt_at <= ?
+            ORDER BY next_attempt_at LIMIT 50`,
+        )
+        .all(new Date().toISOString()) as Array<{ id: string }>;
+      for (const { id } of due) {
+        if (!this.inFlight.has(id)) await this.deliver(id);
+      }
+    } catch (e: any) {
+      this.logger.error(`[WEBHOOK] 재시도 처리 실패: ${e?.message || e}`);
+    } finally {
+      this.retrying = false;
+    }
+  }
+
+  // n번째 실패 후 다음 시도까지 대기 시간
+  backoffMs(attempt: number) {
+    return Math.min(
+      this.retryBaseMs * 2 ** Math.max(attempt - 1, 0),
+      this.retryMaxDelayMs,
+    );
+  }
+
+  private deliver(
+    id: string,
+    options: { retry?: boolean; force?: boolean } = {},
+  ): Promise<WebhookDelivery> {
+    const running = this.inFlight.get(id);
+    if (running) return running;
+    const task = this.send(id, options).finally(() => this.inFlight.delete(id));
+    this.inFlight.set(id, task);
+    return task;
+  }
+
+  private async send(
+    id: string,
+    { retry = true, force = false }: { retry?: boolean; force?: boolean },
+  ): Promise<WebhookDelivery> {
+    const delivery = this.getDeliveryRow(id);
+    const endpoint = this.database.db
+      .prepare('SELECT * FROM webhook_endpoints WHERE id = ?')
+      .get(delivery.endpointId) as EndpointRow | undefined;
+
+    if (!endpoint || (!endpoint.enabled && !force)) {
+      this.database.db
+        .prepare(
+          `UPDATE webhook_deliveries
+              SET status = 'failed', next_attempt_at = NULL, last_error = ?, updated_at = ?
+            WHERE id = ?`,
+        )
+        .run('엔드포인트가 비활성화되었습니다.', new Date().toISOString(), id);
+      this.logger.warn(
+        `[WEBHOOK] 비활성 엔드포인트 전송 중단: delivery=${id} endpoint=${delivery.endpointId}`,
+      );
+      return this.getDeliveryRow(id);
+    }
+
+    const attempt = delivery.attemptCount + 1;
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = signWebhookPayload(
+      endpoint.secret,
+      timestamp,
+      delivery.payload,
+    );
+    const startedAt = Date.now();
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    let responseBody: string | null = null;
+    try {
+      const host = this.hostOf(new URL(endpoint.url).hostname);
+      const allowed = this.allowedHosts.includes(host);
+      // IP 주소 URL은 DNS 조회 없이 연결하므로 여기서 확인
+      if (!allowed && (host === 'localhost' || isBlockedAddress(host))) {
+        throw new Error(`WEBHOOK_TARGET_BLOCKED: ${host}`);
+      }
+      const res = await axios.post<string>(endpoint.url, delivery.payload, {
+        lookup: this.guardedLookup(allowed),
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'payment-webhooks/1.0',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Timestamp': String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}`,
+        },
+        timeout: this.timeoutMs,
+        maxRedirects: 0,
+        responseType: 'text',
+        transformRequest: [(data: string) => data],
+        validateStatus: () => true,
+      });
+      statusCode = res.status;
+      responseBody =
+        typeof res.data === 'string' ? res.data.slice(0, 1000) : null;
+      if (res.status < 200 || res.status >= 300) {
+        error = `HTTP ${res.status}`;
+      }
+    } catch (e: any) {
+      error = e?.code ? `${e.code}: ${e.message}` : e?.message || String(e);
+    }
+    const durationMs = Date.now() - startedAt;
+
+    const now = new Date();
+    const succeeded = error === null;
+    const exhausted = !retry || attempt >= this.maxAttempts;
+    const status: WebhookDeliveryStatus = succeeded
+      ? 'succeeded'
+      : exhausted
+        ? 'failed'
+        : 'pending';
+    const nextAttemptAt =
+      status === 'pending'
+        ? new Date(now.getTime() + this.backoffMs(attempt)).toISOString()
+        : null;
+
+    this.database.db.transaction(() => {
+      this.database.db
+        .prepare(
+          `INSERT INTO webhook_attempts (
+            delivery_id, attempt, status_code, error, response_body, duration_ms, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          id,
+          attempt,
+          statusCode,
+          error,
+          responseBody,
+          durationMs,
+          now.toISOString(),
+        );
+      this.database.db
+        .prepare(
+          `UPDATE webhook_deliveries
+              SET status = ?, attempt_count = ?, next_attempt_at = ?,
+                  last_status_code = ?, last_error = ?, updated_at = ?
+            WHERE id = ?`,
+        )
+        .run(
+          status,
+          attempt,
+          nextAttemptAt,
+          statusCode,
+          error,
+          now.toISOString(),
+          id,
+        );
+    })();
+
+    if (succeeded) {
+      this.logger.log(
+        `[WEBHOOK] 전송 성공: delivery=${id} ${delivery.eventType} → ${endpoint.url} (${statusCode}, ${attempt}회차)`,
+      );
+    } else {
+      this.logger.warn(
+        `[WEBHOOK] 전송 실패: delivery=${id} ${delivery.eventType} → ${endpoint.url} (${attempt}회차) ${error}` +
+          (nextAttemptAt ? `, 다음 시도 ${nextAttemptAt}` : ', 재시도 종료'),
+      );
+    }
+    return this.getDeliveryRow(id);
+  }
+}